@@ -1,8 +1,20 @@
 // Firefox Background Script - Compatible with both Chrome and Firefox APIs
 // FIXED VERSION - Resolves TypeScript type errors
-
-// Type declarations for Firefox browser API (must be at global scope)
-declare const browser: typeof chrome;
+// Loaded as a module by background.html, so it shares the storage code
+// with the popup instead of carrying its own copy.
+
+import {
+  clipboardRepository,
+  PasteSource,
+} from "../shared/utils/clipboard-repository";
+import { HISTORY_FOLDER_ID } from "../shared/utils/clipboard-history";
+import { hasExpiryRule } from "../shared/utils/item-expiry";
+import { findPasteRule, toPasteOptions } from "../shared/utils/paste-rules";
+import {
+  guardSensitiveItem,
+  SensitiveContentBlockedError,
+} from "../shared/utils/sensitive-content";
+import { PREVIEW_LENGTH } from "../shared/utils/idb-store";
 
 (function () {
   "use strict";
@@ -94,86 +106,6 @@ declare const browser: typeof chrome;
   // Initialize logger
   const logger = new Logger();
 
-  // Enhanced Firefox-compatible storage
-  class BackgroundClipboardStorage {
-    private readonly STORAGE_KEYS = {
-      ITEMS: "clipboard_items_v3",
-      FOLDERS: "clipboard_folders_v3",
-    };
-
-    async getClipboardItems(): Promise<any[]> {
-      try {
-        const storage = browserAPI.storage.local;
-        const result = await storage.get(this.STORAGE_KEYS.ITEMS);
-
-        if (result[this.STORAGE_KEYS.ITEMS]) {
-          logger.debug("Found clipboard items in local storage", {
-            count: result[this.STORAGE_KEYS.ITEMS].length,
-          });
-          return result[this.STORAGE_KEYS.ITEMS];
-        }
-
-        // Try sync storage as fallback (if available)
-        if (browserAPI.storage.sync) {
-          const syncResult = await browserAPI.storage.sync.get(
-            this.STORAGE_KEYS.ITEMS
-          );
-          if (syncResult[this.STORAGE_KEYS.ITEMS]) {
-            logger.debug("Found items in sync storage, migrating to local", {
-              count: syncResult[this.STORAGE_KEYS.ITEMS].length,
-            });
-            await storage.set({
-              [this.STORAGE_KEYS.ITEMS]: syncResult[this.STORAGE_KEYS.ITEMS],
-            });
-            return syncResult[this.STORAGE_KEYS.ITEMS];
-          }
-        }
-
-        logger.debug("No clipboard items found in any storage");
-        return [];
-      } catch (error) {
-        logger.error("Failed to get clipboard items:", error);
-        return [];
-      }
-    }
-
-    async saveClipboardItems(items: any[]): Promise<void> {
-      try {
-        const storage = browserAPI.storage.local;
-        await storage.set({ [this.STORAGE_KEYS.ITEMS]: items });
-        logger.debug(`Saved ${items.length} clipboard items to local storage`);
-
-        // Also try to sync if available and data is small enough
-        if (browserAPI.storage.sync) {
-          const itemsSize = new Blob([JSON.stringify(items)]).size;
-          if (itemsSize <= 80000) {
-            try {
-              await browserAPI.storage.sync.set({
-                [this.STORAGE_KEYS.ITEMS]: items,
-              });
-              logger.debug("Also synced to sync storage");
-            } catch (syncError) {
-              logger.warn(
-                "Sync storage failed, but local storage succeeded:",
-                syncError
-              );
-            }
-          } else {
-            logger.debug("Data too large for sync storage, using local only", {
-              size: itemsSize,
-              limit: 80000,
-            });
-          }
-        }
-      } catch (error) {
-        logger.error("Failed to save clipboard items:", error);
-        throw error;
-      }
-    }
-  }
-
-  const clipboardStorage = new BackgroundClipboardStorage();
-
   // Enhanced Content Script Manager for Firefox
   class ContentScriptManager {
     static async injectContentScript(tabId: number): Promise<void> {
@@ -380,7 +312,7 @@ declare const browser: typeof chrome;
 
     testStorage: async () => {
       try {
-        const items = await clipboardStorage.getClipboardItems();
+        const items = await clipboardRepository.getClipboardItemSummaries();
         logger.info("[Storage Test] Items retrieved:", {
           count: items.length,
           favorites: items.filter((item: any) => item?.isFavorite).length,
@@ -470,6 +402,9 @@ declare const browser: typeof chrome;
     logger.error("❌ Commands API is not available!");
   }
 
+  // paste_slot_1 … paste_slot_9
+  const SLOT_COMMAND_PATTERN = /^paste_slot_([1-9])$/;
+
   // Enhanced command handling for keyboard shortcuts
   if (browserAPI.commands) {
     browserAPI.commands.onCommand.addListener(
@@ -481,8 +416,18 @@ declare const browser: typeof chrome;
         });
 
         try {
+          const slotMatch = SLOT_COMMAND_PATTERN.exec(command);
+
           if (command === "paste_favorite_clipboard") {
-            await handlePasteFavoriteCommand(tab);
+            await withPasteLog("favorite", tab, () =>
+              handlePasteFavoriteCommand(tab)
+            );
+          } else if (slotMatch) {
+            await withPasteLog("slot", tab, () =>
+              handlePasteSlotCommand(Number(slotMatch[1]), tab)
+            );
+          } else if (command === "open_quick_picker") {
+            await handleOpenQuickPickerCommand(tab);
           } else {
             logger.warn(`❓ Unknown command: "${command}"`);
           }
@@ -497,14 +442,40 @@ declare const browser: typeof chrome;
     );
   }
 
+  // A locked vault cannot hand out content: ask for the passphrase in the
+  // popup and refuse this paste. Returns null when pasting may go ahead.
+  async function refuseWhileVaultLocked() {
+    const vault = await clipboardRepository.getVaultStatus();
+    if (!vault.enabled || vault.unlocked) return null;
+
+    logger.warn("🔒 Vault is locked, refusing to paste");
+    notify(
+      "Vault locked",
+      "Unlock ShortcutPaste with your passphrase to paste."
+    );
+    try {
+      // Allowed from a command handler; older versions reject it
+      await browserAPI.browserAction?.openPopup?.();
+    } catch (error) {
+      logger.debug("Could not open the popup to unlock the vault:", error);
+    }
+    return { success: false, reason: "vault_locked" };
+  }
+
   // Enhanced favorite paste handler
   async function handlePasteFavoriteCommand(tab?: any) {
     const startTime = Date.now();
     logger.info("📋 Processing paste_favorite_clipboard command...");
 
     try {
-      // Get clipboard items
-      const clipboardItems = await clipboardStorage.getClipboardItems();
+      const locked = await refuseWhileVaultLocked();
+      if (locked) return locked;
+
+      const activeTab = tab || (await ContentScriptManager.getActiveTab());
+      const rule = await getPasteRule(activeTab?.url);
+
+      // Metadata only, the chosen item's content is loaded afterwards
+      const clipboardItems = await clipboardRepository.getClipboardItemSummaries();
       logger.info(`📦 Retrieved ${clipboardItems.length} clipboard items`);
 
       if (!Array.isArray(clipboardItems) || clipboardItems.length === 0) {
@@ -518,16 +489,22 @@ declare const browser: typeof chrome;
           id: item?.id,
           title: item?.title?.substring(0, 30) + "...",
           isFavorite: item?.isFavorite,
+          slot: item?.slot,
           type: item?.type,
-          hasContent: !!item?.content,
-          contentLength: item?.content?.length || 0,
+          size: item?.size || 0,
         });
       });
 
-      // Find favorite item
-      const favoriteItem = clipboardItems.find(
-        (item) => item && typeof item === "object" && item.isFavorite === true
-      );
+      // A paste rule may name its own favorite for the site; when that
+      // item is gone the usual favorite is pasted
+      const siteFavorite = rule?.favoriteItemId
+        ? clipboardItems.find((item) => item?.id === rule.favoriteItemId)
+        : undefined;
+      const favoriteItem =
+        siteFavorite ||
+        clipboardItems.find(
+          (item) => item && typeof item === "object" && item.isFavorite === true
+        );
 
       if (!favoriteItem) {
         logger.warn("⚠️ No favorite clipboard item found", {
@@ -545,84 +522,1304 @@ declare const browser: typeof chrome;
         id: favoriteItem.id,
         title: favoriteItem.title?.substring(0, 50) + "...",
         type: favoriteItem.type,
-        contentLength: favoriteItem.content?.length || 0,
+        size: favoriteItem.size || 0,
       });
 
-      // Validate content
-      if (!favoriteItem.content || typeof favoriteItem.content !== "string") {
-        logger.error("❌ Favorite item has invalid content", {
-          hasContent: !!favoriteItem.content,
-          contentType: typeof favoriteItem.content,
-          item: favoriteItem,
+      const fullItem = await clipboardRepository.getClipboardItem(favoriteItem.id);
+      return await pasteItemToTab(
+        fullItem || favoriteItem,
+        activeTab,
+        startTime,
+        "favorite"
+      );
+    } catch (error) {
+      const duration = Date.now() - startTime;
+      logger.error(
+        `💥 Critical error in handlePasteFavoriteCommand (${duration}ms):`,
+        {
+          error: error instanceof Error ? error.message : String(error),
+          stack: error instanceof Error ? error.stack : undefined,
+        }
+      );
+      return {
+        success: false,
+        reason: "critical_error",
+        error: error instanceof Error ? error.message : String(error),
+        duration,
+      };
+    }
+  }
+
+  // Numbered favorite slot paste handler
+  async function handlePasteSlotCommand(slot: number, tab?: any) {
+    const startTime = Date.now();
+    logger.info(`📋 Processing paste_slot_${slot} command...`);
+
+    try {
+      const locked = await refuseWhileVaultLocked();
+      if (locked) return locked;
+
+      const clipboardItems = await clipboardRepository.getClipboardItemSummaries();
+
+      if (!Array.isArray(clipboardItems) || clipboardItems.length === 0) {
+        logger.warn("⚠️ No clipboard items found");
+        return { success: false, reason: "no_items" };
+      }
+
+      // Several items may claim the same slot after an import or a sync,
+      // the most recent claim wins (same rule as the popup)
+      const slotItem = clipboardItems
+        .filter((item) => item && typeof item === "object" && item.slot === slot)
+        .sort(
+          (a, b) =>
+            (b.slotAssignedAt ?? b.timestamp) - (a.slotAssignedAt ?? a.timestamp)
+        )[0];
+
+      if (!slotItem) {
+        logger.warn(`⚠️ No clipboard item assigned to slot ${slot}`, {
+          assignedSlots: clipboardItems
+            .filter((item) => item?.slot)
+            .map((item) => ({ id: item.id, slot: item.slot })),
         });
-        return { success: false, reason: "invalid_content" };
+        return { success: false, reason: "empty_slot", slot };
       }
 
-      // Get active tab
-      let activeTab = tab;
-      if (!activeTab) {
-        activeTab = await ContentScriptManager.getActiveTab();
-        if (!activeTab) {
-          logger.error("❌ No active tab found");
-          return { success: false, reason: "no_active_tab" };
+      logger.info(`🔢 Found item in slot ${slot}:`, {
+        id: slotItem.id,
+        title: slotItem.title?.substring(0, 50) + "...",
+        type: slotItem.type,
+        size: slotItem.size || 0,
+      });
+
+      const fullItem = await clipboardRepository.getClipboardItem(slotItem.id);
+      return await pasteItemToTab(fullItem || slotItem, tab, startTime, "slot");
+    } catch (error) {
+      const duration = Date.now() - startTime;
+      logger.error(
+        `💥 Critical error in handlePasteSlotCommand (${duration}ms):`,
+        {
+          slot,
+          error: error instanceof Error ? error.message : String(error),
+          stack: error instanceof Error ? error.stack : undefined,
         }
+      );
+      return {
+        success: false,
+        reason: "critical_error",
+        error: error instanceof Error ? error.message : String(error),
+        duration,
+      };
+    }
+  }
+
+  // Paste asked for from the popup, e.g. again from the paste history
+  async function handlePasteItemRequest(itemId: string) {
+    const startTime = Date.now();
+    logger.info("📋 Processing paste request from the popup...", { itemId });
+
+    try {
+      const locked = await refuseWhileVaultLocked();
+      if (locked) return locked;
+
+      const item = await clipboardRepository.getClipboardItem(itemId);
+      if (!item) {
+        logger.warn("⚠️ Item to paste not found", { itemId });
+        return { success: false, reason: "item_not_found", itemId };
       }
+      return await pasteItemToTab(item, undefined, startTime, "popup");
+    } catch (error) {
+      logger.error("💥 Failed to paste from the popup:", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return {
+        success: false,
+        reason: "critical_error",
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
 
-      if (!activeTab.id) {
-        logger.error("❌ Active tab has no ID", { tab: activeTab });
-        return { success: false, reason: "invalid_tab" };
+  // Quick picker: show a searchable list of items inside the page
+  async function handleOpenQuickPickerCommand(tab?: any) {
+    logger.info("🔎 Processing open_quick_picker command...");
+
+    try {
+      const activeTab = tab || (await ContentScriptManager.getActiveTab());
+      if (!activeTab?.id) {
+        logger.error("❌ No active tab found");
+        return { success: false, reason: "no_active_tab" };
       }
 
-      // Check tab support
       if (!ContentScriptManager.isTabSupported(activeTab)) {
-        logger.warn("⚠️ Cannot inject into system page:", {
+        logger.warn("⚠️ Cannot open quick picker on system page:", {
           url: activeTab.url,
-          title: activeTab.title,
         });
         return { success: false, reason: "unsupported_tab" };
       }
 
-      // Attempt paste
-      logger.info(
-        `📝 Attempting to paste content (${favoriteItem.content.length} chars) to tab ${activeTab.id}`
-      );
+      const rule = await getPasteRule(activeTab.url);
+      if (rule?.disableExtension) {
+        logger.info("🚫 ShortcutPaste is turned off on this site by a paste rule");
+        return { success: false, reason: "site_disabled" };
+      }
+
+      const locked = await refuseWhileVaultLocked();
+      if (locked) return locked;
+
+      const [items, folders] = await Promise.all([
+        clipboardRepository.getClipboardItems(),
+        clipboardRepository.getClipboardFolders(),
+      ]);
+
+      const folderPaths = buildFolderPaths(folders);
+      // Secrets stay out of the page until picked, see getSensitiveContent
+      const entries = items
+        .filter((item) => item && typeof item.content === "string")
+        .map((item) => ({
+          id: item.id,
+          title: item.title,
+          content: item.sensitive?.length ? "" : item.content,
+          sensitive: !!item.sensitive?.length,
+          type: item.type || "text",
+          path: item.folderId ? folderPaths.get(item.folderId) || [] : [],
+          isFavorite: !!item.isFavorite,
+          slot: item.slot,
+          timestamp: item.timestamp,
+        }));
 
       const response = await ContentScriptManager.sendMessageToTab(
         activeTab.id,
-        {
-          action: "pasteDirectValue",
-          content: favoriteItem.content,
-          contentType: favoriteItem.type || "text",
-          itemId: favoriteItem.id,
-        }
+        { action: "showQuickPicker", entries, pasteOptions: toPasteOptions(rule) }
       );
 
-      const duration = Date.now() - startTime;
+      logger.info(`🔎 Quick picker opened with ${entries.length} entries`);
+      return { success: !!response?.success };
+    } catch (error) {
+      logger.error("💥 Failed to open quick picker:", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return {
+        success: false,
+        reason: "critical_error",
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  // Content of a sensitive item picked in the quick picker or expanded
+  // by its abbreviation
+  async function getSensitiveContent(itemId: string, url?: string) {
+    const rule = await getPasteRule(url);
+    if (rule?.disableExtension) return { content: null, reason: "site_disabled" };
+
+    const vault = await clipboardRepository.getVaultStatus();
+    if (vault.enabled && !vault.unlocked) {
+      return { content: null, reason: "vault_locked" };
+    }
+
+    const item = await clipboardRepository.getClipboardItem(itemId);
+    return item ? { content: item.content } : { content: null, reason: "not_found" };
+  }
+
+  // Paste rule of the page, if one matches (see paste-rules.ts)
+  async function getPasteRule(url?: string) {
+    const { pasteRules } = await clipboardRepository.getSettings();
+    return findPasteRule(pasteRules, url);
+  }
+
+  // Text expander triggers for a site, honoring the global and per-site
+  // switches; expansions are pasted with the site's paste rule
+  async function getExpansionConfig(hostname?: string, url?: string) {
+    // Expansions need content, they pause while the vault is locked
+    const vault = await clipboardRepository.getVaultStatus();
+    if (vault.enabled && !vault.unlocked) {
+      return { enabled: false, entries: [] };
+    }
+
+    const rule = await getPasteRule(url);
+    if (rule?.disableExtension) {
+      return { enabled: false, entries: [] };
+    }
+
+    const [summaries, settings] = await Promise.all([
+      clipboardRepository.getClipboardItemSummaries(),
+      clipboardRepository.getSettings(),
+    ]);
+
+    const expanderSettings = settings.textExpander;
+    const siteDisabled =
+      !!hostname &&
+      expanderSettings.disabledSites.includes(hostname.toLowerCase());
+
+    // Only abbreviation items are read in full; secrets stay out of the
+    // page until expanded, see getSensitiveContent
+    const entries = await Promise.all(
+      summaries.filter(hasAbbreviation).map(async (item) => {
+        const sensitive = !!item.sensitive?.length;
+        return {
+          abbreviation: item.abbreviation!.trim(),
+          itemId: item.id,
+          content: sensitive
+            ? ""
+            : await clipboardRepository.getItemContent(item.id),
+          sensitive,
+          type: item.type || "text",
+        };
+      })
+    );
+
+    return {
+      enabled: expanderSettings.enabled && !siteDisabled,
+      pasteOptions: toPasteOptions(rule),
+      entries: entries.filter(
+        (entry) => entry.sensitive || typeof entry.content === "string"
+      ),
+    };
+  }
+
+  const hasAbbreviation = (item: { abbreviation?: string }) =>
+    typeof item.abbreviation === "string" && !!item.abbreviation.trim();
+
+  // Abbreviation items as of the last broadcast. Other item writes
+  // (captures, pastes, moves) leave the expander config as it was.
+  let expansionSignature: string | null = null;
+
+  async function announceExpansionConfig(force: boolean) {
+    const summaries = await clipboardRepository.getClipboardItemSummaries();
+    const signature = JSON.stringify(
+      summaries
+        .filter(hasAbbreviation)
+        .map((item) => [item.id, item.abbreviation, item.revision, item.type])
+    );
+    if (!force && signature === expansionSignature) return;
+
+    expansionSignature = signature;
+    await broadcastToContentScripts("expansionConfigChanged");
+  }
+
+  // Tell every tab's content script that its config changed
+  async function broadcastToContentScripts(action: string) {
+    try {
+      const tabs = await browserAPI.tabs.query({});
+      await Promise.all(
+        tabs
+          .filter((tab: any) => tab.id && ContentScriptManager.isTabSupported(tab))
+          .map((tab: any) =>
+            browserAPI.tabs.sendMessage(tab.id, { action }).catch(() => {
+              // Tab has no content script (yet), it loads the config on start
+            })
+          )
+      );
+    } catch (error) {
+      logger.warn(`Failed to broadcast ${action}:`, error);
+    }
+  }
+
+  clipboardRepository.subscribe(
+    (topics) => {
+      announceExpansionConfig(
+        topics.includes("settings") || topics.includes("vault")
+      );
+      if (topics.includes("items")) {
+        schedulePushToSync();
+      }
+      if (topics.includes("settings")) {
+        broadcastToContentScripts("captureConfigChanged");
+        applyVaultAutoLock();
+        applySettingsChange();
+      }
+    },
+    ["items", "settings", "vault"]
+  );
+
+  // Edits from other devices arrive as changes to the per-item sync keys
+  browserAPI.storage.onChanged.addListener(
+    (changes: Record<string, unknown>, areaName: string) => {
+      if (
+        areaName === "sync" &&
+        Object.keys(changes).some((key) => key.startsWith(SYNC_ITEM_PREFIX))
+      ) {
+        schedulePullFromSync();
+      }
+    }
+  );
+
+  // Background item writes are read-modify-write on the whole list
+  // (captures, purges, sync merges), run them one after another
+  let itemWriteQueue: Promise<unknown> = Promise.resolve();
+
+  function queueItemWrite<T>(task: () => Promise<T>): Promise<T> {
+    const run = itemWriteQueue.then(task);
+    itemWriteQueue = run.catch(() => undefined);
+    return run;
+  }
+
+  // storage.sync replication. Every item has its own key "item:<id>"
+  // holding its metadata, revision and device id; content too large for
+  // one key is split over "item:<id>:<n>" chunk keys. Deletions leave a
+  // tombstone so other devices remove the item as well. Items are handled
+  // in their stored form, so vault-encrypted content is synced encrypted.
+  const SYNC_ITEM_PREFIX = "item:";
+  const SYNC_LIMITS = {
+    BYTES_PER_KEY: 8192 - 256, // QUOTA_BYTES_PER_ITEM with headroom
+    TOTAL_BYTES: 102400 - 4096, // QUOTA_BYTES with headroom
+    MAX_ITEM_BYTES: 32 * 1024, // Larger items (images) stay on this device
+    CHUNK_CHARS: 2000,
+    MAX_KEYS: 512 - 16, // MAX_ITEMS, leaving room for folders and settings
+    TOMBSTONE_DAYS: 30,
+  };
 
-      if (response?.success) {
-        logger.info(`✅ Direct paste successful in ${duration}ms!`, {
-          itemId: favoriteItem.id,
-          tabId: activeTab.id,
-          verification: response.verification,
+  interface SyncRecord {
+    id: string;
+    revision: number;
+    deviceId?: string;
+    deleted?: boolean;
+    deletedAt?: number;
+    chunks?: number;
+    item?: any; // Metadata, plus content when it fits in this key
+  }
+
+  interface RemoteItem {
+    record: SyncRecord;
+    item: any | null; // Reassembled item, null for tombstones
+    keys: string[];
+  }
+
+  const syncKeyBytes = (key: string, value: unknown) =>
+    new Blob([key + JSON.stringify(value)]).size;
+
+  function isSyncEnabled(settings: any) {
+    return !!browserAPI.storage.sync && settings.syncEnabled !== false;
+  }
+
+  // Split an item into its sync keys, or null if it is too large to sync
+  function encodeSyncItem(item: any): Record<string, unknown> | null {
+    const { content, preview, ...metadata } = item;
+    const id = item.id;
+    const record: SyncRecord = {
+      id,
+      revision: item.revision ?? 0,
+      deviceId: item.deviceId,
+      item: { ...metadata, content },
+    };
+    const key = `${SYNC_ITEM_PREFIX}${id}`;
+
+    if (syncKeyBytes(key, record) <= SYNC_LIMITS.BYTES_PER_KEY) {
+      return { [key]: record };
+    }
+    if (new Blob([String(content)]).size > SYNC_LIMITS.MAX_ITEM_BYTES) {
+      return null;
+    }
+
+    const entries: Record<string, unknown> = {};
+    const text = String(content ?? "");
+    let index = 0;
+    let offset = 0;
+    while (offset < text.length) {
+      let size = SYNC_LIMITS.CHUNK_CHARS;
+      let chunk = text.slice(offset, offset + size);
+      // Multi-byte text can overflow a key, shrink until it fits
+      while (
+        syncKeyBytes(`${key}:${index}`, chunk) > SYNC_LIMITS.BYTES_PER_KEY &&
+        size > 1
+      ) {
+        size = Math.floor(size / 2);
+        chunk = text.slice(offset, offset + size);
+      }
+      entries[`${key}:${index}`] = chunk;
+      offset += chunk.length;
+      index++;
+    }
+
+    entries[key] = { ...record, chunks: index, item: metadata };
+    return syncKeyBytes(key, entries[key]) <= SYNC_LIMITS.BYTES_PER_KEY
+      ? entries
+      : null;
+  }
+
+  // Reassemble every item found in storage.sync. Items whose chunks have
+  // not all arrived yet are left out until the next change event.
+  function decodeSyncItems(all: Record<string, any>): Map<string, RemoteItem> {
+    const remote = new Map<string, RemoteItem>();
+
+    Object.entries(all).forEach(([key, value]) => {
+      if (!key.startsWith(SYNC_ITEM_PREFIX)) return;
+      const rest = key.slice(SYNC_ITEM_PREFIX.length);
+      if (rest.includes(":")) return; // Chunk key, read with its record
+
+      const record = value as SyncRecord;
+      if (!record?.id) return;
+
+      const keys = [key];
+      if (record.deleted) {
+        remote.set(record.id, { record, item: null, keys });
+        return;
+      }
+
+      let content = record.item?.content;
+      if (record.chunks) {
+        const chunks: string[] = [];
+        for (let index = 0; index < record.chunks; index++) {
+          const chunkKey = `${key}:${index}`;
+          if (typeof all[chunkKey] !== "string") return;
+          chunks.push(all[chunkKey]);
+          keys.push(chunkKey);
+        }
+        content = chunks.join("");
+      }
+
+      remote.set(record.id, {
+        record,
+        item: {
+          ...record.item,
+          content: content ?? "",
+          revision: record.revision,
+          deviceId: record.deviceId,
+        },
+        keys,
+      });
+    });
+
+    return remote;
+  }
+
+  /**
+   * Merge remote changes into the local store. An item changed on only one
+   * side takes that side's version; an item changed on both sides since
+   * they last agreed becomes a conflict for the popup to resolve.
+   */
+  async function pullFromSync() {
+    const settings = await clipboardRepository.getSettings();
+    if (!isSyncEnabled(settings)) return;
+
+    const [all, localItems, state] = await Promise.all([
+      browserAPI.storage.sync.get(null),
+      clipboardRepository.getClipboardItems({
+        includeExpired: true,
+        raw: true,
+      }),
+      clipboardRepository.getSyncState(),
+    ]);
+    const remote = decodeSyncItems(all);
+    const { base } = state;
+    const conflicts = new Map<string, any>(
+      state.conflicts.map((conflict) => [conflict.itemId, conflict])
+    );
+    const localById = new Map(localItems.map((item: any) => [item.id, item]));
+    const arrived: any[] = [];
+    const removed: string[] = [];
+
+    remote.forEach(({ record, item: remoteItem }, id) => {
+      const local = localById.get(id);
+      const localRevision = local?.revision ?? 0;
+      const baseRevision = base[id];
+      const localEdited =
+        !!local && (baseRevision === undefined || localRevision > baseRevision);
+
+      // Same revision on both sides (our own write coming back, or an item
+      // both devices got from the same source)
+      if (
+        local &&
+        record.revision === localRevision &&
+        record.deviceId === local.deviceId
+      ) {
+        base[id] = record.revision;
+        return;
+      }
+
+      if (baseRevision !== undefined && record.revision <= baseRevision) {
+        return; // Nothing new on the remote side
+      }
+
+      if (record.deleted) {
+        if (!local) {
+          base[id] = record.revision;
+        } else if (localEdited && baseRevision !== undefined) {
+          conflicts.set(id, {
+            itemId: id,
+            local,
+            remote: null,
+            remoteRevision: record.revision,
+            detectedAt: Date.now(),
+          });
+        } else {
+          removed.push(id);
+          base[id] = record.revision;
+        }
+        return;
+      }
+
+      if (!local) {
+        // Deleted here after the last agreement while the remote side moved on
+        if (baseRevision !== undefined) {
+          conflicts.set(id, {
+            itemId: id,
+            local: null,
+            remote: remoteItem,
+            remoteRevision: record.revision,
+            detectedAt: Date.now(),
+          });
+          return;
+        }
+        arrived.push(remoteItem);
+        base[id] = record.revision;
+        return;
+      }
+
+      if (localEdited && baseRevision !== undefined) {
+        conflicts.set(id, {
+          itemId: id,
+          local,
+          remote: remoteItem,
+          remoteRevision: record.revision,
+          detectedAt: Date.now(),
         });
-        return { success: true, duration, itemId: favoriteItem.id };
-      } else {
-        logger.error(`❌ Direct paste failed in ${duration}ms:`, response);
-        return { success: false, reason: "paste_failed", response, duration };
+        return;
+      }
+
+      // First contact (no base yet): the higher revision wins
+      if (baseRevision === undefined && localRevision > record.revision) {
+        return;
+      }
+
+      arrived.push(remoteItem);
+      base[id] = record.revision;
+    });
+
+    // Only the items that changed remotely are touched, so anything stored
+    // here meanwhile survives; deletions go to the trash like local ones
+    await clipboardRepository.putSyncedItems(arrived);
+    if (removed.length > 0) {
+      await clipboardRepository.deleteClipboardItems(removed);
+    }
+    await clipboardRepository.saveSyncState({
+      base,
+      conflicts: Array.from(conflicts.values()),
+    });
+
+    if (conflicts.size > state.conflicts.length) {
+      logger.warn(`Sync found ${conflicts.size} conflicting item(s)`);
+    }
+  }
+
+  /**
+   * Write local revisions the sync area has not seen, newest first, while
+   * they fit in the quota. Items in conflict wait for the user.
+   */
+  async function pushToSync() {
+    const settings = await clipboardRepository.getSettings();
+    if (!isSyncEnabled(settings)) return;
+
+    const deviceId = await clipboardRepository.getDeviceId();
+    const [all, localItems, state] = await Promise.all([
+      browserAPI.storage.sync.get(null),
+      clipboardRepository.getClipboardItems({
+        includeExpired: true,
+        raw: true,
+      }),
+      clipboardRepository.getSyncState(),
+    ]);
+    const remote = decodeSyncItems(all);
+    const { base } = state;
+    const inConflict = new Set(state.conflicts.map((conflict) => conflict.itemId));
+    const localIds = new Set(localItems.map((item: any) => item.id));
+    // Revisions of items that stay on this device, by id
+    const keptLocal = new Map<string, number>();
+
+    const writes: Record<string, unknown> = {};
+    const removals: string[] = [];
+    let usedBytes = 0;
+    let usedKeys = Object.keys(all).length;
+    Object.entries(all).forEach(([key, value]) => {
+      usedBytes += syncKeyBytes(key, value);
+    });
+
+    const replaceKeys = (oldKeys: string[], entries: Record<string, unknown>) => {
+      oldKeys.forEach((key) => {
+        usedBytes -= syncKeyBytes(key, all[key]);
+        usedKeys--;
+        if (!(key in entries)) removals.push(key);
+      });
+      Object.entries(entries).forEach(([key, value]) => {
+        usedBytes += syncKeyBytes(key, value);
+        usedKeys++;
+        writes[key] = value;
+      });
+    };
+
+    for (const item of localItems) {
+      if (inConflict.has(item.id)) continue;
+      // Secrets and short-lived items never leave this device
+      if (item.sensitive?.length || hasExpiryRule(item)) {
+        keptLocal.set(item.id, item.revision ?? 0);
+        continue;
+      }
+
+      const revision = item.revision ?? 0;
+      const existing = remote.get(item.id);
+      if (existing && existing.record.revision >= revision) continue;
+      // The remote side moved on without us, pullFromSync handles it
+      if (existing && base[item.id] !== undefined && existing.record.revision > base[item.id]) {
+        continue;
+      }
+
+      const entries = encodeSyncItem({ ...item, revision });
+      if (!entries) continue; // Too large, stays on this device
+
+      const oldBytes = (existing?.keys || []).reduce(
+        (sum, key) => sum + syncKeyBytes(key, all[key]),
+        0
+      );
+      const newBytes = Object.entries(entries).reduce(
+        (sum, [key, value]) => sum + syncKeyBytes(key, value),
+        0
+      );
+      const keyDelta =
+        Object.keys(entries).length - (existing?.keys.length || 0);
+      if (
+        usedBytes - oldBytes + newBytes > SYNC_LIMITS.TOTAL_BYTES ||
+        usedKeys + keyDelta > SYNC_LIMITS.MAX_KEYS
+      ) {
+        continue;
+      }
+
+      replaceKeys(existing?.keys || [], entries);
+      base[item.id] = revision;
+    }
+
+    // Tombstones for items deleted here that other devices still have, and
+    // for synced items that have since become secret or short-lived
+    remote.forEach(({ record, keys }, id) => {
+      const keptRevision = keptLocal.get(id);
+      if (inConflict.has(id)) return;
+      if (localIds.has(id) && keptRevision === undefined) return;
+
+      if (record.deleted) {
+        const age = Date.now() - (record.deletedAt ?? 0);
+        if (age > SYNC_LIMITS.TOMBSTONE_DAYS * 24 * 60 * 60 * 1000) {
+          removals.push(...keys);
+          delete base[id];
+        }
+        return;
+      }
+
+      // Never seen here: not pulled yet rather than deleted
+      if (base[id] === undefined || record.revision > base[id]) return;
+
+      // An item kept here outranks its own tombstone once it may sync again
+      const tombstone: SyncRecord = {
+        id,
+        revision: Math.max(record.revision + 1, keptRevision ?? 0),
+        deviceId,
+        deleted: true,
+        deletedAt: Date.now(),
+      };
+      replaceKeys(keys, { [`${SYNC_ITEM_PREFIX}${id}`]: tombstone });
+      base[id] = tombstone.revision;
+    });
+
+    // The whole-array key from before per-item sync is no longer read
+    if ("clipboard_items_v3" in all) {
+      removals.push("clipboard_items_v3");
+    }
+
+    if (Object.keys(writes).length === 0 && removals.length === 0) return;
+
+    try {
+      if (Object.keys(writes).length > 0) {
+        await browserAPI.storage.sync.set(writes);
+      }
+      if (removals.length > 0) {
+        await browserAPI.storage.sync.remove(removals);
       }
+      await clipboardRepository.saveSyncState({
+        base,
+        conflicts: state.conflicts,
+      });
+      logger.debug("Pushed items to sync storage", {
+        keys: Object.keys(writes).length,
+        removed: removals.length,
+        bytes: usedBytes,
+      });
     } catch (error) {
-      const duration = Date.now() - startTime;
-      logger.error(
-        `💥 Critical error in handlePasteFavoriteCommand (${duration}ms):`,
+      // Quota or write-rate limits: leave base untouched and retry later
+      logger.warn("Failed to push items to sync storage:", error);
+    }
+  }
+
+  async function getSyncConflicts() {
+    return (await clipboardRepository.getSyncState()).conflicts;
+  }
+
+  // "local" keeps this device's version, "remote" takes the other one,
+  // "both" keeps this device's version and adds the other as a copy
+  async function resolveSyncConflict(
+    itemId: string,
+    resolution: "local" | "remote" | "both"
+  ) {
+    const { base, conflicts } = await clipboardRepository.getSyncState();
+    const conflict = conflicts.find((entry) => entry.itemId === itemId);
+    if (!conflict) return { resolved: false };
+
+    const deviceId = await clipboardRepository.getDeviceId();
+    const remoteRevision: number = conflict.remoteRevision ?? 0;
+    const writes: any[] = [];
+
+    if (resolution === "remote") {
+      if (conflict.remote) writes.push(conflict.remote);
+    } else {
+      if (conflict.local) {
+        // Outrank the remote revision so this version is pushed over it
+        writes.push({
+          ...conflict.local,
+          revision: remoteRevision + 1,
+          deviceId,
+        });
+      }
+      if (resolution === "both" && conflict.remote) {
+        writes.push({
+          ...conflict.remote,
+          id: crypto.randomUUID(),
+          title: `${conflict.remote.title} (other device)`,
+          revision: 1,
+          deviceId,
+          isFavorite: false,
+          slot: undefined,
+          abbreviation: undefined,
+        });
+      }
+    }
+
+    // Revisions are set explicitly above, save them as they are
+    base[itemId] = remoteRevision;
+    await clipboardRepository.putSyncedItems(writes);
+    if (resolution === "remote" && !conflict.remote) {
+      await clipboardRepository.deleteClipboardItems([itemId]);
+    }
+    await clipboardRepository.saveSyncState({
+      base,
+      conflicts: conflicts.filter((entry) => entry.itemId !== itemId),
+    });
+    schedulePushToSync();
+    return { resolved: true };
+  }
+
+  // Item writes come in bursts (bulk edits, captures), push once they settle
+  let syncPushTimer: ReturnType<typeof setTimeout> | null = null;
+  let syncPullTimer: ReturnType<typeof setTimeout> | null = null;
+
+  function schedulePushToSync() {
+    if (syncPushTimer) clearTimeout(syncPushTimer);
+    syncPushTimer = setTimeout(() => {
+      syncPushTimer = null;
+      queueItemWrite(pushToSync).catch((error) => {
+        logger.warn("Sync push failed:", error);
+      });
+    }, 2000);
+  }
+
+  function schedulePullFromSync() {
+    if (syncPullTimer) clearTimeout(syncPullTimer);
+    syncPullTimer = setTimeout(() => {
+      syncPullTimer = null;
+      queueItemWrite(pullFromSync).catch((error) => {
+        logger.warn("Sync pull failed:", error);
+      });
+    }, 500);
+  }
+
+  // Catch up with changes made while this device was offline, then publish ours
+  queueItemWrite(async () => {
+    await pullFromSync();
+    await pushToSync();
+  }).catch((error) => {
+    logger.warn("Initial sync failed:", error);
+  });
+
+  // Settings as last seen, to act only on the fields that changed
+  let lastSettings = clipboardRepository.getSettings();
+
+  // Fields the options page edits that need more than a fresh read
+  async function applySettingsChange() {
+    const previous = await lastSettings;
+    lastSettings = clipboardRepository.getSettings();
+    const settings = await lastSettings;
+
+    if (settings.maxItems !== previous.maxItems) {
+      queueItemWrite(() => clipboardRepository.enforceItemLimit())
+        .then((dropped) => {
+          if (dropped.length > 0) {
+            logger.info(
+              `Moved ${dropped.length} history entries over the new limit to the trash`
+            );
+          }
+        })
+        .catch((error) => {
+          logger.warn("Failed to apply the item limit:", error);
+        });
+    }
+
+    if (settings.syncEnabled && !previous.syncEnabled) {
+      queueItemWrite(async () => {
+        await pullFromSync();
+        await pushToSync();
+      }).catch((error) => {
+        logger.warn("Sync after enabling it failed:", error);
+      });
+    }
+
+    if (
+      settings.shortcuts.pasteFavorite !== previous.shortcuts.pasteFavorite ||
+      settings.shortcuts.openPopup !== previous.shortcuts.openPopup
+    ) {
+      await updateCommandShortcuts(settings.shortcuts);
+    }
+  }
+
+  // Shortcuts chosen in the options page replace the manifest defaults
+  async function updateCommandShortcuts(shortcuts: {
+    pasteFavorite: string;
+    openPopup: string;
+  }) {
+    if (!browserAPI.commands?.update) {
+      logger.warn("Shortcuts cannot be changed from the extension here");
+      return;
+    }
+    const updates = [
+      { name: "paste_favorite_clipboard", shortcut: shortcuts.pasteFavorite },
+      { name: "_execute_browser_action", shortcut: shortcuts.openPopup },
+    ];
+    for (const update of updates) {
+      try {
+        await browserAPI.commands.update(update);
+      } catch (error) {
+        logger.warn(`Failed to set the shortcut of ${update.name}:`, error);
+      }
+    }
+  }
+
+  // Captured copies live in HISTORY_FOLDER_ID, apart from curated ones
+  const HISTORY_FOLDER_NAME = "Clipboard History";
+  const MAX_CAPTURE_SIZE = 512 * 1024;
+
+  interface CapturePayload {
+    text: string;
+    html?: string;
+    url?: string;
+    title?: string;
+    fromPasswordField?: boolean;
+  }
+
+  async function getCaptureConfig(url?: string) {
+    const settings = await clipboardRepository.getSettings();
+    const rule = findPasteRule(settings.pasteRules, url);
+    return { enabled: settings.autoCapture === true && !rule?.disableExtension };
+  }
+
+  function captureClipboard(capture: CapturePayload) {
+    return queueItemWrite(() => storeCapture(capture));
+  }
+
+  async function storeCapture(capture: CapturePayload) {
+    const settings = await clipboardRepository.getSettings();
+    if (settings.autoCapture !== true) {
+      return { stored: false, reason: "disabled" };
+    }
+    if (findPasteRule(settings.pasteRules, capture.url)?.disableExtension) {
+      return { stored: false, reason: "site_disabled" };
+    }
+
+    const text = typeof capture?.text === "string" ? capture.text : "";
+    if (!text.trim()) {
+      return { stored: false, reason: "empty" };
+    }
+
+    // Nothing can be encrypted without the key, drop the copy
+    const vault = await clipboardRepository.getVaultStatus();
+    if (vault.enabled && !vault.unlocked) {
+      return { stored: false, reason: "vault_locked" };
+    }
+
+    const content = capture.html || text;
+    const size = new Blob([content]).size;
+    if (size > MAX_CAPTURE_SIZE) {
+      logger.warn("Skipping oversized capture", { size });
+      return { stored: false, reason: "too_large" };
+    }
+
+    const type: "html" | "url" | "text" = capture.html
+      ? "html"
+      : /^https?:\/\/\S+$/.test(text.trim())
+      ? "url"
+      : "text";
+
+    const firstLine = text.trim().split("\n")[0].trim();
+    const title =
+      firstLine.length > 50 ? `${firstLine.substring(0, 50)}...` : firstLine;
+
+    // Same rules as clipboardRepository.addClipboardItem, but a blocked
+    // capture is reported instead of thrown
+    const context = {
+      fromPasswordField: !!capture.fromPasswordField,
+      autoCaptured: true,
+    };
+    let captured;
+    try {
+      captured = guardSensitiveItem(
         {
-          error: error instanceof Error ? error.message : String(error),
-          stack: error instanceof Error ? error.stack : undefined,
-        }
+          content,
+          type,
+          title,
+          folderId: HISTORY_FOLDER_ID,
+          size,
+          source: "capture" as const,
+          sourceUrl: capture.url,
+          sourceTitle: capture.title,
+        },
+        settings.sensitiveContent,
+        context
       );
+    } catch (error) {
+      if (!(error instanceof SensitiveContentBlockedError)) throw error;
+      logger.info("Blocked sensitive capture", { kinds: error.kinds });
+      return { stored: false, reason: "sensitive", kinds: error.kinds };
+    }
+
+    await ensureHistoryFolder();
+
+    // Copying the same thing again moves it back to the top
+    const existingId = await findHistoryEntry(captured.content);
+    if (existingId) {
+      await clipboardRepository.updateClipboardItem(existingId, {
+        ...captured,
+        timestamp: Date.now(),
+        order: undefined, // Back on top of any manual order
+      });
+      logger.info("Captured copied content again", { type, size });
+      return { stored: true, itemId: existingId };
+    }
+
+    // One write; entries over the limit go to the trash
+    const saved = await clipboardRepository.addClipboardItem(captured, context);
+    logger.info("Captured copied content", { type, size, url: capture.url });
+    return { stored: true, itemId: saved.id };
+  }
+
+  // History entry holding this content; only entries whose size and
+  // preview match have their content read
+  async function findHistoryEntry(content: string) {
+    const size = new Blob([content]).size;
+    const preview = content.substring(0, PREVIEW_LENGTH);
+    const candidates = (
+      await clipboardRepository.getClipboardItemSummaries()
+    ).filter(
+      (item) =>
+        item.folderId === HISTORY_FOLDER_ID &&
+        (item.size === undefined || item.size === size) &&
+        (item.preview === undefined || item.preview === preview)
+    );
+
+    for (const candidate of candidates) {
+      if ((await clipboardRepository.getItemContent(candidate.id)) === content) {
+        return candidate.id;
+      }
+    }
+    return null;
+  }
+
+  async function ensureHistoryFolder() {
+    const folders = await clipboardRepository.getClipboardFolders();
+    if (folders.some((folder: any) => folder.id === HISTORY_FOLDER_ID)) return;
+
+    await clipboardRepository.saveClipboardFolders([
+      ...folders,
+      {
+        id: HISTORY_FOLDER_ID,
+        name: HISTORY_FOLDER_NAME,
+        children: [],
+        items: [],
+        createdAt: Date.now(),
+        expanded: false,
+      },
+    ]);
+  }
+
+  // Items whose expiry rule ran out (secrets, one-time codes, items with a
+  // paste limit) are moved to the trash or wiped by this alarm
+  const PURGE_EXPIRED_ALARM = "purge_expired_items";
+
+  function purgeExpiredItems() {
+    return queueItemWrite(async () => {
+      const { trashed, wiped } = await clipboardRepository.expireItems();
+      if (trashed.length + wiped.length > 0) {
+        logger.info(
+          `Expired ${trashed.length} items to the trash, wiped ${wiped.length}`
+        );
+      }
+    }).catch((error) => {
+      logger.error("Failed to purge expired items:", error);
+    });
+  }
+
+  // Trash entries past the retention in the settings go with this one
+  const PURGE_TRASH_ALARM = "purge_trash";
+
+  async function purgeTrash() {
+    try {
+      const purged = await clipboardRepository.purgeTrash();
+      if (purged > 0) {
+        logger.info(`Purged ${purged} entries from the trash`);
+      }
+    } catch (error) {
+      logger.error("Failed to purge the trash:", error);
+    }
+  }
+
+  // Storage size for the stats page, one record per day
+  const STORAGE_STATS_ALARM = "record_storage_stats";
+
+  async function recordStorageSnapshot() {
+    try {
+      await clipboardRepository.recordStorageSnapshot();
+    } catch (error) {
+      logger.error("Failed to record storage statistics:", error);
+    }
+  }
+
+  if (browserAPI.alarms) {
+    browserAPI.alarms.create(PURGE_EXPIRED_ALARM, { periodInMinutes: 1 });
+    browserAPI.alarms.create(PURGE_TRASH_ALARM, { periodInMinutes: 60 });
+    browserAPI.alarms.create(STORAGE_STATS_ALARM, { periodInMinutes: 60 });
+    browserAPI.alarms.onAlarm.addListener((alarm: { name: string }) => {
+      if (alarm.name === PURGE_EXPIRED_ALARM) {
+        purgeExpiredItems();
+      } else if (alarm.name === PURGE_TRASH_ALARM) {
+        purgeTrash();
+      } else if (alarm.name === STORAGE_STATS_ALARM) {
+        recordStorageSnapshot();
+      }
+    });
+  }
+  purgeExpiredItems();
+  purgeTrash();
+  recordStorageSnapshot();
+
+  // Vault auto-lock: forget the key once the system has been idle for the
+  // configured time, or as soon as the screen locks
+  const MIN_IDLE_DETECTION_SECONDS = 15;
+
+  async function applyVaultAutoLock() {
+    if (!browserAPI.idle) return;
+    try {
+      const { vault } = await clipboardRepository.getSettings();
+      if (vault.autoLockMinutes > 0) {
+        browserAPI.idle.setDetectionInterval(
+          Math.max(
+            MIN_IDLE_DETECTION_SECONDS,
+            Math.round(vault.autoLockMinutes * 60)
+          )
+        );
+      }
+    } catch (error) {
+      logger.warn("Failed to apply the vault auto-lock time:", error);
+    }
+  }
+
+  if (browserAPI.idle) {
+    browserAPI.idle.onStateChanged.addListener(async (state: string) => {
+      if (state === "active") return;
+
+      const [{ vault }, status] = await Promise.all([
+        clipboardRepository.getSettings(),
+        clipboardRepository.getVaultStatus(),
+      ]);
+      if (!status.unlocked) return;
+      if (state === "idle" && vault.autoLockMinutes <= 0) return;
+
+      await clipboardRepository.lockVault();
+      logger.info(`🔒 Vault locked (${state})`);
+    });
+  }
+  applyVaultAutoLock();
+
+  // Show a browser notification, unless turned off in the options
+  // (no-op if the API is unavailable)
+  async function notify(title: string, message: string) {
+    try {
+      const { notifications } = await clipboardRepository.getSettings();
+      if (!notifications) return;
+      await browserAPI.notifications?.create({
+        type: "basic",
+        iconUrl: "icon-48.png",
+        title: `ShortcutPaste: ${title}`,
+        message,
+      });
+    } catch (error) {
+      logger.warn("Failed to show notification:", error);
+    }
+  }
+
+  // Map of folder id to the list of folder names from the root down
+  function buildFolderPaths(folders: any[]): Map<string, string[]> {
+    const paths = new Map<string, string[]>();
+    const walk = (folderList: any[], parentPath: string[]) => {
+      folderList.forEach((folder) => {
+        if (!folder?.id) return;
+        const path = [...parentPath, folder.name];
+        paths.set(folder.id, path);
+        walk(folder.children || [], path);
+      });
+    };
+    walk(folders, []);
+    return paths;
+  }
+
+  // Paste an item into a tab, the active one by default
+  async function pasteItemToTab(
+    item: any,
+    tab: any,
+    startTime: number,
+    source: PasteSource
+  ) {
+    const activeTab = tab || (await ContentScriptManager.getActiveTab());
+    const result = await deliverPaste(item, activeTab, startTime, source);
+    return { ...result, itemId: item.id, url: activeTab?.url };
+  }
+
+  /**
+   * Run a paste handler and log its outcome in the paste history, failures
+   * before an item was found included. A paste waiting for template fields
+   * is logged by the content script once it happens.
+   */
+  async function withPasteLog(
+    source: PasteSource,
+    tab: any,
+    paste: () => Promise<any>
+  ) {
+    const startTime = Date.now();
+    const result = await paste();
+    if (result?.pending) return result;
+
+    await queueItemWrite(() =>
+      clipboardRepository.recordPaste({
+        itemId: result?.itemId,
+        source,
+        url: result?.url ?? tab?.url,
+        target: result?.target,
+        durationMs: Date.now() - startTime,
+        success: !!result?.success,
+        reason: result?.success ? undefined : result?.reason || "unknown",
+        errorMessage: result?.success
+          ? undefined
+          : result?.response?.error || result?.error,
+      })
+    ).catch((error) => {
+      logger.warn("Failed to record the paste:", error);
+    });
+    return result;
+  }
+
+  async function deliverPaste(
+    item: any,
+    activeTab: any,
+    startTime: number,
+    source: PasteSource
+  ) {
+    // Validate content
+    if (!item.content || typeof item.content !== "string") {
+      logger.error("❌ Clipboard item has invalid content", {
+        hasContent: !!item.content,
+        contentType: typeof item.content,
+        item,
+      });
+      return { success: false, reason: "invalid_content" };
+    }
+
+    if (!activeTab) {
+      logger.error("❌ No active tab found");
+      return { success: false, reason: "no_active_tab" };
+    }
+
+    if (!activeTab.id) {
+      logger.error("❌ Active tab has no ID", { tab: activeTab });
+      return { success: false, reason: "invalid_tab" };
+    }
+
+    // Check tab support
+    if (!ContentScriptManager.isTabSupported(activeTab)) {
+      logger.warn("⚠️ Cannot inject into system page:", {
+        url: activeTab.url,
+        title: activeTab.title,
+      });
+      return { success: false, reason: "unsupported_tab" };
+    }
+
+    const rule = await getPasteRule(activeTab.url);
+    if (rule?.disableExtension) {
+      logger.info("🚫 ShortcutPaste is turned off on this site by a paste rule", {
+        url: activeTab.url,
+        rule: rule.id,
+      });
+      return { success: false, reason: "site_disabled" };
+    }
+
+    // Attempt paste
+    logger.info(
+      `📝 Attempting to paste content (${item.content.length} chars) to tab ${activeTab.id}`
+    );
+
+    const response = await ContentScriptManager.sendMessageToTab(activeTab.id, {
+      action: "pasteDirectValue",
+      content: item.content,
+      contentType: item.type || "text",
+      itemId: item.id,
+      source,
+      pasteOptions: toPasteOptions(rule),
+    });
+
+    const duration = Date.now() - startTime;
+
+    if (response?.success && response.pending) {
+      // The page is asking the user for template fields, it pastes on submit
+      logger.info(`⏳ Paste waiting for user input (${response.pending})`, {
+        itemId: item.id,
+        tabId: activeTab.id,
+      });
+      return { success: true, duration, itemId: item.id, pending: true };
+    }
+
+    if (response?.success) {
+      logger.info(`✅ Direct paste successful in ${duration}ms!`, {
+        itemId: item.id,
+        tabId: activeTab.id,
+        verification: response.verification,
+      });
+
+      if (response.unknownPlaceholders?.length) {
+        logger.warn("⚠️ Pasted item contains unknown placeholders", {
+          itemId: item.id,
+          unknownPlaceholders: response.unknownPlaceholders,
+        });
+        notify(
+          "Unknown placeholders",
+          `"${item.title}" contains placeholders that were left as-is: ${response.unknownPlaceholders.join(", ")}`
+        );
+      }
+
+      return {
+        success: true,
+        duration,
+        itemId: item.id,
+        target: response.target,
+        unknownPlaceholders: response.unknownPlaceholders || [],
+      };
+    } else {
+      logger.error(`❌ Direct paste failed in ${duration}ms:`, response);
       return {
         success: false,
-        reason: "critical_error",
-        error: error instanceof Error ? error.message : String(error),
+        reason: "paste_failed",
+        target: response?.target,
+        response,
         duration,
       };
     }
@@ -674,7 +1871,8 @@ declare const browser: typeof chrome;
               break;
 
             case "debugStorage":
-              const items = await clipboardStorage.getClipboardItems();
+              const items =
+                await clipboardRepository.getClipboardItemSummaries();
               const debugInfo = {
                 count: items.length,
                 favorites: items.filter((item) => item?.isFavorite).length,
@@ -695,6 +1893,108 @@ declare const browser: typeof chrome;
               sendResponse(debugResponse);
               break;
 
+            case "getTemplateAnswers":
+              sendResponse({
+                success: true,
+                answers: await clipboardRepository.getTemplateAnswers(
+                  request.itemId
+                ),
+                messageId,
+              });
+              break;
+
+            case "saveTemplateAnswers":
+              await clipboardRepository.saveTemplateAnswers(
+                request.itemId,
+                request.answers || {}
+              );
+              sendResponse({ success: true, messageId });
+              break;
+
+            case "getExpansionConfig":
+              sendResponse({
+                success: true,
+                config: await getExpansionConfig(
+                  request.hostname,
+                  sender.tab?.url
+                ),
+                messageId,
+              });
+              break;
+
+            case "getSensitiveContent":
+              sendResponse({
+                success: true,
+                ...(await getSensitiveContent(
+                  request.itemId,
+                  sender.tab?.url
+                )),
+                messageId,
+              });
+              break;
+
+            case "getCaptureConfig":
+              sendResponse({
+                success: true,
+                config: await getCaptureConfig(sender.tab?.url),
+                messageId,
+              });
+              break;
+
+            case "captureClipboard":
+              sendResponse({
+                success: true,
+                ...(await captureClipboard(request.capture)),
+                messageId,
+              });
+              break;
+
+            case "recordPaste":
+              sendResponse({
+                success: true,
+                expired: await queueItemWrite(() =>
+                  clipboardRepository.recordPaste({
+                    itemId: request.itemId,
+                    source: request.source,
+                    url: request.url || sender.tab?.url,
+                    target: request.target,
+                    durationMs: request.durationMs,
+                    success: !!request.success,
+                    reason: request.success ? undefined : "paste_failed",
+                    errorMessage: request.errorMessage,
+                  })
+                ),
+                messageId,
+              });
+              break;
+
+            case "pasteItem":
+              sendResponse({
+                ...(await withPasteLog("popup", undefined, () =>
+                  handlePasteItemRequest(request.itemId)
+                )),
+                messageId,
+              });
+              break;
+
+            case "getSyncConflicts":
+              sendResponse({
+                success: true,
+                conflicts: await getSyncConflicts(),
+                messageId,
+              });
+              break;
+
+            case "resolveSyncConflict":
+              sendResponse({
+                success: true,
+                ...(await queueItemWrite(() =>
+                  resolveSyncConflict(request.itemId, request.resolution)
+                )),
+                messageId,
+              });
+              break;
+
             case "getLogs":
               const logsResponse: GetLogsResponse = {
                 success: true,
@@ -765,7 +2065,7 @@ declare const browser: typeof chrome;
     try {
       const [commands, items] = await Promise.all([
         browserAPI.commands ? browserAPI.commands.getAll() : [],
-        clipboardStorage.getClipboardItems(),
+        clipboardRepository.getClipboardItemSummaries(),
       ]);
 
       const health = {
@@ -6,6 +6,13 @@ declare const browser: typeof chrome;
 (function () {
   "use strict";
 
+  // The script is both declared in the manifest and injected on demand,
+  // only the first copy in a page may register listeners
+  if ((window as any).__shortcutPasteContentLoaded) {
+    return;
+  }
+  (window as any).__shortcutPasteContentLoaded = true;
+
   // Firefox/Chrome API compatibility layer
   const browserAPI = (function () {
     if (typeof (globalThis as any).browser !== "undefined") {
@@ -43,12 +50,746 @@ declare const browser: typeof chrome;
 
   const logger = new ContentLogger();
 
+  // Inline TemplateExpander - resolves {{placeholders}} at paste time
+  interface TemplateExpansion {
+    text: string;
+    cursorOffset: number | null;
+    unknownPlaceholders: string[];
+  }
+
+  interface TemplateField {
+    kind: "input" | "choice";
+    label: string;
+    options: string[];
+  }
+
+  class TemplateExpander {
+    private static readonly PLACEHOLDER_PATTERN = /\{\{([^{}]+)\}\}/g;
+    private static readonly FIELD_PATTERN =
+      /\{\{\s*(input|choice)\s*:([^{}]+)\}\}/gi;
+
+    /**
+     * Fill-in fields declared in the content, e.g. {{input:Customer name}}
+     * or {{choice:Priority|Low|Medium|High}}. A label used more than once
+     * is asked only once.
+     */
+    extractFields(content: string): TemplateField[] {
+      const fields = new Map<string, TemplateField>();
+
+      for (const match of content.matchAll(TemplateExpander.FIELD_PATTERN)) {
+        const kind = match[1].toLowerCase() as TemplateField["kind"];
+        const [label, ...options] = match[2]
+          .split("|")
+          .map((part) => part.trim());
+
+        if (!label || fields.has(label)) continue;
+        fields.set(label, {
+          kind: kind === "choice" && options.length > 0 ? "choice" : "input",
+          label,
+          options: options.filter(Boolean),
+        });
+      }
+
+      return [...fields.values()];
+    }
+
+    fillFields(content: string, values: Record<string, string>): string {
+      return content.replace(
+        TemplateExpander.FIELD_PATTERN,
+        (placeholder, _kind: string, body: string) => {
+          const label = body.split("|")[0].trim();
+          return label in values ? values[label] : placeholder;
+        }
+      );
+    }
+
+    hasPlaceholders(content: string): boolean {
+      return /\{\{[^{}]+\}\}/.test(content);
+    }
+
+    /**
+     * Expand supported placeholders:
+     * {{date}} {{date:YYYY-MM-DD}} {{time}} {{time:HH:mm:ss}} {{clipboard}}
+     * {{url}} {{title}} {{selection}} {{cursor}}
+     * Unknown placeholders are left in place and reported back.
+     */
+    async expand(
+      content: string,
+      element: HTMLElement | null
+    ): Promise<TemplateExpansion> {
+      if (!this.hasPlaceholders(content)) {
+        return { text: content, cursorOffset: null, unknownPlaceholders: [] };
+      }
+
+      const clipboardText = /\{\{\s*clipboard\s*\}\}/i.test(content)
+        ? await this.readClipboard()
+        : "";
+      const selectionText = this.getSelectionText(element);
+      const now = new Date();
+
+      let text = "";
+      let cursorOffset: number | null = null;
+      let lastIndex = 0;
+      const unknownPlaceholders: string[] = [];
+      const pattern = new RegExp(TemplateExpander.PLACEHOLDER_PATTERN);
+      let match: RegExpExecArray | null;
+
+      while ((match = pattern.exec(content)) !== null) {
+        text += content.substring(lastIndex, match.index);
+        lastIndex = match.index + match[0].length;
+
+        const separator = match[1].indexOf(":");
+        const name = (
+          separator === -1 ? match[1] : match[1].substring(0, separator)
+        )
+          .trim()
+          .toLowerCase();
+        const argument =
+          separator === -1 ? "" : match[1].substring(separator + 1).trim();
+
+        switch (name) {
+          case "date":
+            text += this.formatDate(now, argument || "YYYY-MM-DD");
+            break;
+          case "time":
+            text += this.formatDate(now, argument || "HH:mm");
+            break;
+          case "clipboard":
+            text += clipboardText;
+            break;
+          case "url":
+            text += window.location.href;
+            break;
+          case "title":
+            text += document.title;
+            break;
+          case "selection":
+            text += selectionText;
+            break;
+          case "cursor":
+            // Only the first marker counts, extra markers are dropped
+            if (cursorOffset === null) {
+              cursorOffset = text.length;
+            }
+            break;
+          default:
+            unknownPlaceholders.push(match[0]);
+            text += match[0];
+        }
+      }
+
+      text += content.substring(lastIndex);
+
+      if (unknownPlaceholders.length > 0) {
+        logger.warn("⚠️ Unknown template placeholders left unexpanded:", {
+          unknownPlaceholders,
+        });
+      }
+
+      return { text, cursorOffset, unknownPlaceholders };
+    }
+
+    private async readClipboard(): Promise<string> {
+      try {
+        return (await navigator.clipboard?.readText?.()) || "";
+      } catch (error) {
+        logger.warn("⚠️ Could not read clipboard for {{clipboard}}:", error);
+        return "";
+      }
+    }
+
+    private getSelectionText(element: HTMLElement | null): string {
+      if (
+        element instanceof HTMLInputElement ||
+        element instanceof HTMLTextAreaElement
+      ) {
+        const start = element.selectionStart ?? 0;
+        const end = element.selectionEnd ?? 0;
+        return element.value.substring(start, end);
+      }
+      return window.getSelection()?.toString() || "";
+    }
+
+    private formatDate(date: Date, format: string): string {
+      const pad = (value: number, length = 2) =>
+        String(value).padStart(length, "0");
+      const hours12 = date.getHours() % 12 || 12;
+
+      const tokens: Record<string, string> = {
+        YYYY: String(date.getFullYear()),
+        YY: pad(date.getFullYear() % 100),
+        MM: pad(date.getMonth() + 1),
+        M: String(date.getMonth() + 1),
+        DD: pad(date.getDate()),
+        D: String(date.getDate()),
+        HH: pad(date.getHours()),
+        H: String(date.getHours()),
+        hh: pad(hours12),
+        h: String(hours12),
+        mm: pad(date.getMinutes()),
+        ss: pad(date.getSeconds()),
+        A: date.getHours() < 12 ? "AM" : "PM",
+      };
+
+      return format.replace(
+        /YYYY|YY|MM|M|DD|D|HH|H|hh|h|mm|ss|A/g,
+        (token) => tokens[token]
+      );
+    }
+  }
+
+  const templateExpander = new TemplateExpander();
+
+  // Inline TemplateFieldPrompt - small in-page form for {{input}}/{{choice}}
+  class TemplateFieldPrompt {
+    private host: HTMLElement | null = null;
+
+    /**
+     * Ask the user for every field. Resolves with the answers keyed by
+     * label, or null when the form is cancelled.
+     */
+    ask(
+      fields: TemplateField[],
+      defaults: Record<string, string>
+    ): Promise<Record<string, string> | null> {
+      this.close();
+      const savedFocus = captureFocus();
+
+      return new Promise((resolve) => {
+        const finish = (values: Record<string, string> | null) => {
+          this.close();
+          restoreFocus(savedFocus);
+          resolve(values);
+        };
+
+        const host = document.createElement("div");
+        host.setAttribute("data-shortcutpaste-fields", "");
+        host.style.cssText =
+          "all: initial; position: fixed; inset: 0; z-index: 2147483647;";
+        const shadow = host.attachShadow({ mode: "closed" });
+
+        const style = document.createElement("style");
+        style.textContent = TemplateFieldPrompt.STYLES;
+        shadow.appendChild(style);
+
+        const backdrop = document.createElement("div");
+        backdrop.className = "backdrop";
+
+        const form = document.createElement("form");
+        form.className = "panel";
+
+        const heading = document.createElement("div");
+        heading.className = "heading";
+        heading.textContent = "Fill in template";
+        form.appendChild(heading);
+
+        const controls = new Map<string, HTMLInputElement | HTMLSelectElement>();
+
+        fields.forEach((field) => {
+          const label = document.createElement("label");
+          label.className = "field";
+
+          const caption = document.createElement("span");
+          caption.textContent = field.label;
+          label.appendChild(caption);
+
+          let control: HTMLInputElement | HTMLSelectElement;
+          if (field.kind === "choice") {
+            const select = document.createElement("select");
+            field.options.forEach((option) => {
+              const optionElement = document.createElement("option");
+              optionElement.value = option;
+              optionElement.textContent = option;
+              select.appendChild(optionElement);
+            });
+            const remembered = defaults[field.label];
+            if (remembered && field.options.includes(remembered)) {
+              select.value = remembered;
+            }
+            control = select;
+          } else {
+            const input = document.createElement("input");
+            input.type = "text";
+            input.value = defaults[field.label] ?? "";
+            input.spellcheck = false;
+            control = input;
+          }
+
+          controls.set(field.label, control);
+          label.appendChild(control);
+          form.appendChild(label);
+        });
+
+        const actions = document.createElement("div");
+        actions.className = "actions";
+
+        const cancel = document.createElement("button");
+        cancel.type = "button";
+        cancel.textContent = "Cancel";
+        cancel.addEventListener("click", () => finish(null));
+
+        const submit = document.createElement("button");
+        submit.type = "submit";
+        submit.className = "primary";
+        submit.textContent = "Paste";
+
+        actions.append(cancel, submit);
+        form.appendChild(actions);
+
+        form.addEventListener("submit", (event) => {
+          event.preventDefault();
+          const values: Record<string, string> = {};
+          controls.forEach((control, label) => {
+            values[label] = control.value;
+          });
+          finish(values);
+        });
+
+        form.addEventListener("keydown", (event) => {
+          // Keep the page's own shortcuts from reacting while the form is open
+          event.stopPropagation();
+          if (event.key === "Escape") {
+            event.preventDefault();
+            finish(null);
+          }
+        });
+
+        backdrop.appendChild(form);
+        shadow.appendChild(backdrop);
+        (document.body || document.documentElement).appendChild(host);
+        this.host = host;
+
+        const first = controls.values().next().value;
+        first?.focus();
+        if (first instanceof HTMLInputElement) {
+          first.select();
+        }
+      });
+    }
+
+    private close(): void {
+      this.host?.remove();
+      this.host = null;
+    }
+
+    private static readonly STYLES = `
+      .backdrop {
+        position: fixed; inset: 0; display: flex; justify-content: center;
+        align-items: flex-start; padding-top: 15vh;
+        background: rgba(0, 0, 0, 0.35);
+        font: 13px/1.4 -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif;
+      }
+      .panel {
+        width: min(420px, 92vw); background: #1f2023; color: #e8e8ea;
+        border: 1px solid #3a3b40; border-radius: 10px; padding: 14px;
+        box-shadow: 0 16px 48px rgba(0, 0, 0, 0.45);
+      }
+      .heading { font-weight: 600; font-size: 14px; margin-bottom: 10px; }
+      .field { display: flex; flex-direction: column; gap: 4px; margin-bottom: 10px; }
+      .field span { font-size: 12px; opacity: 0.8; }
+      input, select {
+        box-sizing: border-box; width: 100%; padding: 7px 9px; font: inherit;
+        color: inherit; background: #2a2b2f; border: 1px solid #3a3b40;
+        border-radius: 6px; outline: none;
+      }
+      input:focus, select:focus { border-color: #2f5bd3; }
+      .actions { display: flex; justify-content: flex-end; gap: 8px; margin-top: 4px; }
+      button {
+        padding: 6px 14px; font: inherit; color: inherit; cursor: pointer;
+        background: #2a2b2f; border: 1px solid #3a3b40; border-radius: 6px;
+      }
+      button.primary { background: #2f5bd3; border-color: #2f5bd3; color: #fff; }
+    `;
+  }
+
+  // How a paste rule of the site wants content pasted, chosen by the
+  // background (see paste-rules.ts); empty means the usual behavior
+  interface PasteOptions {
+    format?: "plain" | "html";
+    collapseNewlines?: boolean;
+    trimTrailingWhitespace?: boolean;
+    insertMethod?: "execCommand" | "value" | "pasteEvent";
+    delayMs?: number;
+  }
+
+  function htmlToPlainText(html: string): string {
+    const doc = new DOMParser().parseFromString(html, "text/html");
+    doc.querySelectorAll("br").forEach((br) => br.replaceWith("\n"));
+    doc
+      .querySelectorAll("p, div, li, tr, h1, h2, h3, h4, h5, h6")
+      .forEach((block) => block.append("\n"));
+    return (doc.body.textContent || "").replace(/\n{3,}/g, "\n\n").trim();
+  }
+
+  // Objects the page created, seen past Firefox's content script wrappers
+  // so editor instances stored on DOM nodes or window are reachable
+  function pageObject(object: any): any {
+    return object ? object.wrappedJSObject ?? object : undefined;
+  }
+
+  // Plain data passed to page functions has to be cloned into the page in Firefox
+  function toPage<T>(value: T): T {
+    const clone = (globalThis as any).cloneInto;
+    return typeof clone === "function" ? clone(value, window) : value;
+  }
+
+  // "data:image/png;base64,..." as a File, like a pasted screenshot
+  function dataUrlToFile(dataUrl: string): File | null {
+    const match = /^data:(image\/[\w.+-]+);base64,([\s\S]*)$/.exec(dataUrl);
+    if (!match) return null;
+    try {
+      const binary = atob(match[2]);
+      const bytes = new Uint8Array(binary.length);
+      for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+      const extension = match[1].split("/")[1].replace("+xml", "");
+      return new File([bytes], `image.${extension}`, { type: match[1] });
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Hand content to the page's own paste handling, as a real paste would:
+   * text/plain and text/html for text, an image File for images. Returns
+   * true when the page took the event (called preventDefault); synthetic
+   * pastes have no default action, so an ignored event inserted nothing
+   */
+  function dispatchPasteEvent(
+    target: HTMLElement,
+    content: string,
+    type: string
+  ): boolean {
+    let data: DataTransfer;
+    try {
+      data = new DataTransfer();
+    } catch {
+      return false;
+    }
+
+    if (type === "image") {
+      const file = dataUrlToFile(content);
+      if (!file) return false;
+      data.items.add(file);
+    } else {
+      data.setData(
+        "text/plain",
+        type === "html" ? htmlToPlainText(content) : content
+      );
+      if (type === "html") data.setData("text/html", content);
+    }
+
+    const event = new ClipboardEvent("paste", {
+      bubbles: true,
+      cancelable: true,
+      composed: true,
+      clipboardData: data,
+    });
+    target.dispatchEvent(event);
+    return event.defaultPrevented;
+  }
+
+  // One way into an editor; returns false when it could not be tried
+  interface EditorStrategy {
+    name: string;
+    run(
+      root: HTMLElement,
+      content: string,
+      type: string,
+      element: HTMLElement
+    ): boolean | Promise<boolean>;
+  }
+
+  // An editor framework that keeps its own document model, so content has
+  // to go in through the editor rather than the DOM
+  interface EditorAdapter {
+    name: string;
+    // The editor's root around the focused element, or null
+    detect(element: HTMLElement): HTMLElement | null;
+    // The text the editor shows, to verify an insertion
+    readText(root: HTMLElement): string;
+    strategies: EditorStrategy[]; // Best first
+  }
+
+  const pasteEventStrategy: EditorStrategy = {
+    name: "paste event",
+    run: (_root, content, type, element) =>
+      dispatchPasteEvent(element, content, type),
+  };
+
+  // Editors render asynchronously, so insertions are polled for
+  const EDITOR_VERIFY_TIMEOUT_MS = 400;
+  const EDITOR_VERIFY_INTERVAL_MS = 40;
+
+  class EditorAdapterRegistry {
+    private adapters: EditorAdapter[] = [];
+
+    register(adapter: EditorAdapter): void {
+      this.adapters.push(adapter);
+    }
+
+    detect(
+      element: HTMLElement
+    ): { adapter: EditorAdapter; root: HTMLElement } | null {
+      for (const adapter of this.adapters) {
+        const root = adapter.detect(element);
+        if (root) return { adapter, root };
+      }
+      return null;
+    }
+
+    /**
+     * Insert through the adapter of the editor around the element, trying
+     * its strategies until one changes the editor's text. Returns false
+     * when no adapter matches or nothing worked, leaving generic insertion
+     */
+    async insert(
+      element: HTMLElement,
+      content: string,
+      type: string
+    ): Promise<boolean> {
+      const match = this.detect(element);
+      if (!match) return false;
+      const { adapter, root } = match;
+      const probe = this.normalize(
+        (type === "html" ? htmlToPlainText(content) : content)
+          .split("\n")
+          .find((line) => line.trim()) || ""
+      ).slice(0, 30);
+
+      logger.info(`🧩 ${adapter.name} editor detected`, {});
+
+      for (const strategy of adapter.strategies) {
+        const before = adapter.readText(root);
+        let attempted = false;
+        try {
+          attempted = await strategy.run(root, content, type, element);
+        } catch (error) {
+          logger.warn(`${adapter.name} ${strategy.name} failed:`, error);
+        }
+        if (!attempted) continue;
+
+        const outcome = await this.verify(adapter, root, before, probe);
+        if (outcome === "verified") {
+          logger.info(`✅ Inserted via ${adapter.name} ${strategy.name}`, {});
+          return true;
+        }
+        if (outcome === "changed") {
+          // Trying again could insert twice; editors may reformat the text
+          logger.warn(
+            `${adapter.name} ${strategy.name} changed the editor but the text was not found`,
+            {}
+          );
+          return true;
+        }
+        logger.warn(
+          `${adapter.name} ${strategy.name} made no change, trying the next`,
+          {}
+        );
+      }
+
+      logger.warn(
+        `No ${adapter.name} strategy worked, using generic insertion`,
+        {}
+      );
+      return false;
+    }
+
+    private async verify(
+      adapter: EditorAdapter,
+      root: HTMLElement,
+      before: string,
+      probe: string
+    ): Promise<"verified" | "changed" | "unchanged"> {
+      const deadline = Date.now() + EDITOR_VERIFY_TIMEOUT_MS;
+      let changed = false;
+      do {
+        await new Promise((resolve) =>
+          setTimeout(resolve, EDITOR_VERIFY_INTERVAL_MS)
+        );
+        const after = adapter.readText(root);
+        if (after !== before) {
+          changed = true;
+          if (!probe || this.normalize(after).includes(probe)) {
+            return "verified";
+          }
+        }
+      } while (Date.now() < deadline);
+      return changed ? "changed" : "unchanged";
+    }
+
+    // Editors render spaces as nbsp and pad empty lines with zero-width text
+    private normalize(text: string): string {
+      return text
+        .replace(/[\u200b\ufeff]/g, "")
+        .replace(/\s+/g, " ")
+        .trim();
+    }
+  }
+
+  const editorAdapters = new EditorAdapterRegistry();
+
+  // Monaco (VS Code for the web, many online IDEs); focus sits in a hidden
+  // textarea whose value is not the document
+  editorAdapters.register({
+    name: "Monaco",
+    detect: (element) => element.closest<HTMLElement>(".monaco-editor"),
+    readText: (root) => root.querySelector(".view-lines")?.textContent || "",
+    strategies: [
+      {
+        name: "editor API",
+        run: (root, content, type) => {
+          const editors = pageObject(window)?.monaco?.editor?.getEditors?.();
+          if (!editors) return false;
+          const editor = Array.from(editors as ArrayLike<any>).find(
+            (candidate) => candidate.getContainerDomNode?.()?.contains(root)
+          );
+          if (!editor) return false;
+          const text = type === "html" ? htmlToPlainText(content) : content;
+          editor.focus();
+          editor.trigger(
+            "keyboard",
+            "paste",
+            toPage({ text, pasteOnNewLine: false, multicursorText: null })
+          );
+          return true;
+        },
+      },
+      pasteEventStrategy,
+    ],
+  });
+
+  // CodeMirror 6 (GitHub, Replit) and CodeMirror 5
+  editorAdapters.register({
+    name: "CodeMirror",
+    detect: (element) => element.closest<HTMLElement>(".cm-editor, .CodeMirror"),
+    readText: (root) =>
+      root.querySelector(".cm-content, .CodeMirror-code")?.textContent || "",
+    strategies: [
+      {
+        name: "editor API",
+        run: (root, content, type) => {
+          const text = type === "html" ? htmlToPlainText(content) : content;
+          if (root.classList.contains("CodeMirror")) {
+            const cm = pageObject(root).CodeMirror;
+            if (!cm?.replaceSelection) return false;
+            cm.replaceSelection(text);
+            cm.focus();
+            return true;
+          }
+          const contentView = pageObject(
+            root.querySelector(".cm-content")
+          )?.cmView;
+          const view = contentView?.rootView?.view ?? contentView?.view;
+          if (!view?.dispatch) return false;
+          view.dispatch(view.state.replaceSelection(text));
+          view.focus();
+          return true;
+        },
+      },
+      pasteEventStrategy,
+    ],
+  });
+
+  // Quill keeps its instance on the container around .ql-editor
+  editorAdapters.register({
+    name: "Quill",
+    detect: (element) => element.closest<HTMLElement>(".ql-editor"),
+    readText: (root) => root.textContent || "",
+    strategies: [
+      {
+        name: "editor API",
+        run: (root, content, type) => {
+          const quill = pageObject(root.parentElement)?.__quill;
+          if (!quill?.getSelection) return false;
+          const range = quill.getSelection(true);
+          const index = range ? range.index : quill.getLength() - 1;
+          if (range?.length) quill.deleteText(index, range.length, "user");
+          if (type === "html") {
+            quill.clipboard.dangerouslyPasteHTML(index, content, "user");
+          } else {
+            quill.insertText(index, content, "user");
+            quill.setSelection(index + content.length, 0, "user");
+          }
+          return true;
+        },
+      },
+      {
+        name: "paste event",
+        run: (root, content, type) => dispatchPasteEvent(root, content, type),
+      },
+    ],
+  });
+
+  // Slate handles both pastes and beforeinput itself
+  editorAdapters.register({
+    name: "Slate",
+    detect: (element) =>
+      element.closest<HTMLElement>('[data-slate-editor="true"]'),
+    readText: (root) => root.textContent || "",
+    strategies: [
+      pasteEventStrategy,
+      {
+        name: "beforeinput",
+        run: (root, content, type) => {
+          const event = new InputEvent("beforeinput", {
+            bubbles: true,
+            cancelable: true,
+            composed: true,
+            inputType: "insertText",
+            data: type === "html" ? htmlToPlainText(content) : content,
+          });
+          root.dispatchEvent(event);
+          return event.defaultPrevented;
+        },
+      },
+    ],
+  });
+
+  // Draft.js rebuilds its content from paste data only
+  editorAdapters.register({
+    name: "Draft.js",
+    detect: (element) => element.closest<HTMLElement>(".DraftEditor-root"),
+    readText: (root) =>
+      root.querySelector('[data-contents="true"]')?.textContent || "",
+    strategies: [pasteEventStrategy],
+  });
+
+  // ProseMirror and the editors built on it (Tiptap, Atlassian, Remirror)
+  editorAdapters.register({
+    name: "ProseMirror",
+    detect: (element) => element.closest<HTMLElement>(".ProseMirror"),
+    readText: (root) => root.textContent || "",
+    strategies: [
+      {
+        name: "paste event",
+        run: (root, content, type) => dispatchPasteEvent(root, content, type),
+      },
+      {
+        name: "execCommand",
+        run: (root, content, type) => {
+          root.focus();
+          return document.execCommand(
+            type === "html" ? "insertHTML" : "insertText",
+            false,
+            content
+          );
+        },
+      },
+    ],
+  });
+
   // Inline PasteHandler
   class PasteHandler {
+    // Result of the last template expansion, used for verification/reporting
+    lastExpansion: TemplateExpansion | null = null;
+
     async pasteContent(
       content: string,
-      contentType?: string
+      contentType?: string,
+      options: PasteOptions = {}
     ): Promise<boolean> {
+      this.lastExpansion = null;
+
       logger.info("🎯 PasteHandler.pasteContent called", {
         contentLength: content?.length || 0,
         contentType: contentType || "unknown",
@@ -62,6 +803,11 @@ declare const browser: typeof chrome;
         return false;
       }
 
+      if (options.delayMs && options.delayMs > 0) {
+        logger.info(`⏳ Waiting ${options.delayMs}ms before pasting (paste rule)`);
+        await new Promise((resolve) => setTimeout(resolve, options.delayMs));
+      }
+
       const activeElement = document.activeElement as HTMLElement | null;
       logger.info("📍 Active element info:", {
         hasActiveElement: !!activeElement,
@@ -103,7 +849,10 @@ declare const browser: typeof chrome;
           try {
             firstFocusable.focus();
             await new Promise((resolve) => setTimeout(resolve, 100));
-            return this.pasteContent(content, contentType);
+            return this.pasteContent(content, contentType, {
+              ...options,
+              delayMs: 0,
+            });
           } catch (focusError) {
             logger.error("❌ Failed to focus element:", focusError);
             return false;
@@ -117,16 +866,48 @@ declare const browser: typeof chrome;
       try {
         if (contentType === "image" && content.startsWith("data:image/")) {
           logger.info("🖼️ Handling image content", {});
-          return this.insertContent(activeElement, content, "image");
-        } else if (contentType === "html" && this.isHtmlContent(content)) {
+          return this.insertContent(activeElement, content, "image", null, {
+            insertMethod: options.insertMethod,
+          });
+        }
+
+        // Resolve {{placeholders}} before inserting
+        const expansion = await templateExpander.expand(content, activeElement);
+        const shaped = this.applyPasteOptions(
+          expansion.text,
+          contentType,
+          options
+        );
+        const text = shaped.text;
+        // The {{cursor}} offset is lost once a rule reshapes the text
+        const cursorOffset =
+          text === expansion.text ? expansion.cursorOffset : null;
+        this.lastExpansion = { ...expansion, text, cursorOffset };
+
+        if (
+          shaped.contentType === "html" &&
+          (options.format === "html" || this.isHtmlContent(text))
+        ) {
           logger.info("🌐 Handling HTML content", {});
-          return this.insertContent(activeElement, content, "html");
-        } else if (contentType === "url" && this.isUrlContent(content)) {
+          return this.insertContent(
+            activeElement,
+            text,
+            "html",
+            cursorOffset,
+            options
+          );
+        } else if (shaped.contentType === "url" && this.isUrlContent(text)) {
           logger.info("🔗 Handling URL content", {});
-          return this.insertContent(activeElement, content, "url");
+          return this.insertContent(activeElement, text, "url", null, options);
         } else {
           logger.info("📝 Handling text content", {});
-          return this.insertContent(activeElement, content, "text");
+          return this.insertContent(
+            activeElement,
+            text,
+            "text",
+            cursorOffset,
+            options
+          );
         }
       } catch (error) {
         logger.error("💥 Error pasting content:", error);
@@ -134,21 +915,111 @@ declare const browser: typeof chrome;
       }
     }
 
+    /**
+     * Reshape text as the site's paste rule asks: HTML turned into plain
+     * text, trailing whitespace and line breaks removed, then plain text
+     * turned into HTML
+     */
+    private applyPasteOptions(
+      text: string,
+      contentType: string | undefined,
+      options: PasteOptions
+    ): { text: string; contentType: string | undefined } {
+      let result = text;
+      let type = contentType;
+
+      if (options.format === "plain" && type === "html") {
+        result = htmlToPlainText(result);
+        type = "text";
+      }
+      if (options.trimTrailingWhitespace) {
+        result = result
+          .split(/\r?\n/)
+          .map((line) => line.trimEnd())
+          .join("\n")
+          .trimEnd();
+      }
+      if (options.collapseNewlines) {
+        result = result.replace(/[ \t]*(\r?\n)+[ \t]*/g, " ");
+      }
+      if (options.format === "html" && type === "text") {
+        result = this.plainTextToHtml(result);
+        type = "html";
+      }
+
+      return { text: result, contentType: type };
+    }
+
+    private plainTextToHtml(text: string): string {
+      return text
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;")
+        .replace(/\r?\n/g, "<br>");
+    }
+
     private async insertContent(
       element: HTMLElement,
       content: string,
-      type: string
+      type: string,
+      cursorOffset: number | null = null,
+      options: PasteOptions = {}
     ): Promise<boolean> {
       try {
         logger.info(`📝 Inserting ${type} content into ${element.tagName}`, {});
 
+        // Paste rule: the page's paste handlers take the content, as with
+        // a native paste (they place the caret, so {{cursor}} is not kept)
+        if (options.insertMethod === "pasteEvent") {
+          element.focus();
+          if (dispatchPasteEvent(element, content, type)) {
+            logger.info("✅ The page handled the paste event", {});
+            return true;
+          }
+          logger.warn("⚠️ The page ignored the paste event, inserting directly");
+          options = { ...options, insertMethod: "value" };
+        }
+
+        // Framework editors take content through their own paths, unless
+        // a paste rule picked the insertion method
+        if (
+          type !== "image" &&
+          !options.insertMethod &&
+          (await editorAdapters.insert(element, content, type))
+        ) {
+          if (cursorOffset !== null && element.isContentEditable) {
+            this.moveCaretBackward(
+              this.getTrailingTextLength(content, type, cursorOffset)
+            );
+          }
+          return true;
+        }
+
         if (
           element instanceof HTMLInputElement ||
           element instanceof HTMLTextAreaElement
         ) {
-          return this.pasteToInput(element, content, type);
+          return this.pasteToInput(
+            element,
+            content,
+            type,
+            cursorOffset,
+            options.insertMethod
+          );
         } else if (element.isContentEditable) {
-          return await this.pasteToContentEditable(element, content, type);
+          const pasted = await this.pasteToContentEditable(
+            element,
+            content,
+            type,
+            options
+          );
+          if (pasted && cursorOffset !== null) {
+            this.moveCaretBackward(
+              this.getTrailingTextLength(content, type, cursorOffset)
+            );
+          }
+          return pasted;
         } else {
           logger.warn("❌ Active element is not editable:", {
             tagName: element.tagName,
@@ -257,10 +1128,42 @@ declare const browser: typeof chrome;
       }
     }
 
+    /**
+     * Number of characters the caret must move back from the end of the
+     * inserted content to land on the {{cursor}} marker
+     */
+    private getTrailingTextLength(
+      content: string,
+      type: string,
+      cursorOffset: number
+    ): number {
+      const trailing = content.substring(cursorOffset);
+      if (type === "html") {
+        const doc = new DOMParser().parseFromString(trailing, "text/html");
+        return (doc.body.textContent || "").length;
+      }
+      return trailing.replace(/\r\n/g, "\n").length;
+    }
+
+    private moveCaretBackward(characters: number): void {
+      const selection = window.getSelection();
+      if (!selection || characters <= 0) return;
+
+      try {
+        for (let i = 0; i < characters; i++) {
+          selection.modify("move", "backward", "character");
+        }
+      } catch (error) {
+        logger.warn("⚠️ Could not move caret to {{cursor}} marker:", error);
+      }
+    }
+
     private pasteToInput(
       element: HTMLInputElement | HTMLTextAreaElement,
       content: string,
-      type: string
+      type: string,
+      cursorOffset: number | null = null,
+      insertMethod?: PasteOptions["insertMethod"]
     ): boolean {
       logger.info("📝 Pasting to input element:", {
         tagName: element.tagName,
@@ -300,8 +1203,14 @@ declare const browser: typeof chrome;
         // CRITICAL: Preserve line breaks for textarea, convert for single-line input
         const hasLineBreaks = /\r?\n/.test(insertContent);
 
+        // Caret position inside the inserted text ({{cursor}} marker)
+        let caretOffset = cursorOffset ?? insertContent.length;
+
         if (element.tagName === "INPUT" && hasLineBreaks) {
           // Only convert line breaks to spaces for actual <input> elements
+          caretOffset = insertContent
+            .substring(0, caretOffset)
+            .replace(/\r?\n/g, " ").length;
           insertContent = insertContent.replace(/\r?\n/g, " ");
           logger.info(`⚠️ Converted line breaks to spaces for <input> element`);
         } else if (element.tagName === "TEXTAREA" && hasLineBreaks) {
@@ -313,6 +1222,22 @@ declare const browser: typeof chrome;
           );
         }
 
+        // Paste rule: type the text in, the page sees a native input event
+        if (insertMethod === "execCommand") {
+          element.focus();
+          element.selectionStart = start;
+          element.selectionEnd = end;
+          if (document.execCommand("insertText", false, insertContent)) {
+            element.selectionStart = element.selectionEnd =
+              start + Math.min(caretOffset, insertContent.length);
+            logger.info("✅ Input paste completed with execCommand", {});
+            return true;
+          }
+          logger.warn(
+            "⚠️ execCommand insertText failed in the field, setting the value"
+          );
+        }
+
         // Insert content at cursor position
         const newValue =
           element.value.substring(0, start) +
@@ -320,8 +1245,8 @@ declare const browser: typeof chrome;
           element.value.substring(end);
         element.value = newValue;
 
-        // Set cursor position after inserted content
-        const newCursorPos = start + insertContent.length;
+        // Set cursor position after inserted content (or at {{cursor}})
+        const newCursorPos = start + Math.min(caretOffset, insertContent.length);
         element.selectionStart = element.selectionEnd = newCursorPos;
 
         logger.info(
@@ -346,7 +1271,8 @@ declare const browser: typeof chrome;
     async pasteToContentEditable(
       element: HTMLElement,
       content: string,
-      type: string
+      type: string,
+      options: PasteOptions = {}
     ): Promise<boolean> {
       logger.info("📝 Pasting to contentEditable element", {
         contentType: type,
@@ -359,6 +1285,33 @@ declare const browser: typeof chrome;
         // Ensure element is focused first
         element.focus();
 
+        // Paste rule: change the DOM directly, for editors that mangle
+        // execCommand input
+        if (options.insertMethod === "value") {
+          logger.info("🎯 Paste rule: inserting into the DOM directly");
+          return this.fallbackPasteToContentEditable(element, content, type);
+        }
+
+        // Paste rule asking for HTML: insert the markup, not its source
+        if (type === "html" && options.format === "html") {
+          if (document.execCommand("insertHTML", false, content)) {
+            this.triggerInputEvents(element);
+            return true;
+          }
+          if (options.insertMethod === "execCommand") return false;
+          return this.fallbackPasteToContentEditable(element, content, type);
+        }
+
+        // Paste rule: execCommand only, no clipboard or DOM fallbacks
+        if (options.insertMethod === "execCommand") {
+          const success = document.execCommand("insertText", false, content);
+          logger.info(
+            `🎯 Paste rule: execCommand insertText ${success ? "succeeded" : "failed"}`
+          );
+          if (success) this.triggerInputEvents(element);
+          return success;
+        }
+
         // PRIORITY: Try execCommand insertText first - best for preserving line breaks
         if (document.queryCommandSupported?.("insertText")) {
           logger.info(
@@ -650,6 +1603,21 @@ declare const browser: typeof chrome;
       return activeElement.isContentEditable;
     }
 
+    // Kind of element a paste goes into, for the paste history
+    getTargetKind():
+      | "input"
+      | "textarea"
+      | "contenteditable"
+      | "other"
+      | "none" {
+      const element = document.activeElement as HTMLElement | null;
+      if (!element || element === document.body) return "none";
+      if (element instanceof HTMLInputElement) return "input";
+      if (element instanceof HTMLTextAreaElement) return "textarea";
+      if (element.isContentEditable) return "contenteditable";
+      return "other";
+    }
+
     getActiveElementInfo(): {
       tagName: string;
       type: string;
@@ -700,22 +1668,798 @@ declare const browser: typeof chrome;
     }
   }
 
-  // Main Content Script Class
-  class ContentScriptMain {
-    private pasteHandler: PasteHandler;
+  // Inline QuickPicker - searchable overlay for choosing an item to paste
+  interface QuickPickerEntry {
+    id: string;
+    title: string;
+    content: string; // Empty for sensitive items, fetched once picked
+    sensitive?: boolean;
+    type: string;
+    path: string[];
+    isFavorite?: boolean;
+    slot?: number;
+    timestamp?: number;
+  }
 
-    constructor() {
-      logger.info("🎯 ContentScriptMain initializing...", {
+  interface SavedFocus {
+    element: HTMLElement | null;
+    selectionStart?: number | null;
+    selectionEnd?: number | null;
+    range?: Range;
+  }
+
+  interface PasteReport {
+    itemId: string | undefined;
+    source: string;
+    success: boolean;
+    target: string;
+    durationMs: number;
+    errorMessage?: string;
+  }
+
+  /**
+   * Tell the background about a paste made here rather than on its request,
+   * for the paste history and items that expire after a number of pastes
+   */
+  function reportPaste({ itemId, ...report }: PasteReport): void {
+    if (!itemId) return;
+    browserAPI.runtime
+      .sendMessage({
+        action: "recordPaste",
+        itemId,
         url: window.location.href,
-        title: document.title,
+        ...report,
+      })
+      .catch((error: unknown) => {
+        logger.warn("⚠️ Could not report the paste:", error);
       });
-      this.pasteHandler = new PasteHandler();
-      this.initialize();
-      logger.info("✅ ContentScriptMain initialized successfully", {});
+  }
+
+  /**
+   * Remember the focused element and its caret/selection so a paste
+   * lands where the user was typing before an overlay took focus
+   */
+  function captureFocus(): SavedFocus {
+    const element = document.activeElement as HTMLElement | null;
+
+    if (
+      element instanceof HTMLInputElement ||
+      element instanceof HTMLTextAreaElement
+    ) {
+      return {
+        element,
+        selectionStart: element.selectionStart,
+        selectionEnd: element.selectionEnd,
+      };
     }
 
-    initialize(): void {
-      logger.info("📡 Setting up message listener...", {});
+    const selection = window.getSelection();
+    return {
+      element,
+      range:
+        selection && selection.rangeCount > 0
+          ? selection.getRangeAt(0).cloneRange()
+          : undefined,
+    };
+  }
+
+  function restoreFocus(saved: SavedFocus | null): void {
+    if (!saved?.element || !saved.element.isConnected) return;
+
+    try {
+      saved.element.focus();
+
+      if (
+        saved.element instanceof HTMLInputElement ||
+        saved.element instanceof HTMLTextAreaElement
+      ) {
+        if (saved.selectionStart != null && saved.selectionEnd != null) {
+          saved.element.setSelectionRange(
+            saved.selectionStart,
+            saved.selectionEnd
+          );
+        }
+      } else if (saved.range) {
+        const selection = window.getSelection();
+        selection?.removeAllRanges();
+        selection?.addRange(saved.range);
+      }
+    } catch (error) {
+      logger.warn("⚠️ Failed to restore focus:", error);
+    }
+  }
+
+  class QuickPicker {
+    private host: HTMLElement | null = null;
+    private list: HTMLElement | null = null;
+    private preview: HTMLElement | null = null;
+    private entries: QuickPickerEntry[] = [];
+    private results: QuickPickerEntry[] = [];
+    private activeIndex = 0;
+    private savedFocus: SavedFocus | null = null;
+    private onPick: ((entry: QuickPickerEntry) => void) | null = null;
+
+    private static readonly MAX_RESULTS = 50;
+
+    isOpen(): boolean {
+      return this.host !== null;
+    }
+
+    open(
+      entries: QuickPickerEntry[],
+      onPick: (entry: QuickPickerEntry) => void
+    ): void {
+      if (this.isOpen()) {
+        this.close(false);
+      }
+
+      this.savedFocus = captureFocus();
+      this.entries = entries;
+      this.onPick = onPick;
+      this.render();
+      this.update("");
+      logger.info(`🔎 Quick picker opened with ${entries.length} entries`);
+    }
+
+    close(restore = true): void {
+      this.host?.remove();
+      this.host = null;
+      this.list = null;
+      this.preview = null;
+
+      if (restore) {
+        restoreFocus(this.savedFocus);
+      }
+    }
+
+    private render(): void {
+      const host = document.createElement("div");
+      host.setAttribute("data-shortcutpaste-picker", "");
+      host.style.cssText =
+        "all: initial; position: fixed; inset: 0; z-index: 2147483647;";
+
+      // Closed shadow root keeps page CSS and scripts away from the picker
+      const shadow = host.attachShadow({ mode: "closed" });
+
+      const style = document.createElement("style");
+      style.textContent = QuickPicker.STYLES;
+      shadow.appendChild(style);
+
+      const backdrop = document.createElement("div");
+      backdrop.className = "backdrop";
+      backdrop.addEventListener("mousedown", (event) => {
+        if (event.target === backdrop) {
+          this.close();
+        }
+      });
+
+      const panel = document.createElement("div");
+      panel.className = "panel";
+
+      const input = document.createElement("input");
+      input.className = "search";
+      input.type = "text";
+      input.placeholder = "Search clipboard items…";
+      input.spellcheck = false;
+      input.addEventListener("input", () => this.update(input.value));
+      input.addEventListener("keydown", (event) => this.handleKeydown(event));
+
+      const body = document.createElement("div");
+      body.className = "body";
+
+      const list = document.createElement("ul");
+      list.className = "list";
+
+      const preview = document.createElement("pre");
+      preview.className = "preview";
+
+      const hint = document.createElement("div");
+      hint.className = "hint";
+      hint.textContent = "↑↓ navigate · Enter paste · Esc close";
+
+      body.append(list, preview);
+      panel.append(input, body, hint);
+      backdrop.appendChild(panel);
+      shadow.appendChild(backdrop);
+
+      (document.body || document.documentElement).appendChild(host);
+
+      this.host = host;
+      this.list = list;
+      this.preview = preview;
+
+      input.focus();
+    }
+
+    private handleKeydown(event: KeyboardEvent): void {
+      // Keep the page's own shortcuts from reacting while the picker is open
+      event.stopPropagation();
+
+      switch (event.key) {
+        case "ArrowDown":
+          event.preventDefault();
+          this.setActive(this.activeIndex + 1);
+          break;
+        case "ArrowUp":
+          event.preventDefault();
+          this.setActive(this.activeIndex - 1);
+          break;
+        case "Enter":
+          event.preventDefault();
+          this.pick(this.results[this.activeIndex]);
+          break;
+        case "Escape":
+          event.preventDefault();
+          this.close();
+          break;
+      }
+    }
+
+    private pick(entry?: QuickPickerEntry): void {
+      if (!entry) return;
+      const onPick = this.onPick;
+      this.close();
+      onPick?.(entry);
+    }
+
+    private update(query: string): void {
+      this.results = QuickPicker.filter(this.entries, query).slice(
+        0,
+        QuickPicker.MAX_RESULTS
+      );
+      this.activeIndex = 0;
+      this.renderList();
+    }
+
+    private setActive(index: number): void {
+      if (this.results.length === 0) return;
+      this.activeIndex =
+        (index + this.results.length) % this.results.length;
+      this.renderList();
+    }
+
+    private renderList(): void {
+      if (!this.list || !this.preview) return;
+
+      this.list.replaceChildren();
+
+      if (this.results.length === 0) {
+        const empty = document.createElement("li");
+        empty.className = "empty";
+        empty.textContent = "No matching items";
+        this.list.appendChild(empty);
+        this.preview.textContent = "";
+        return;
+      }
+
+      this.results.forEach((entry, index) => {
+        const row = document.createElement("li");
+        row.className = index === this.activeIndex ? "row active" : "row";
+
+        const title = document.createElement("div");
+        title.className = "title";
+        title.textContent =
+          (entry.slot ? `[${entry.slot}] ` : "") +
+          (entry.isFavorite ? "♥ " : "") +
+          (entry.title || "Untitled");
+
+        const crumbs = document.createElement("div");
+        crumbs.className = "crumbs";
+        crumbs.textContent = ["Root", ...entry.path].join(" › ");
+
+        row.append(title, crumbs);
+        row.addEventListener("mousemove", () => {
+          if (this.activeIndex !== index) this.setActive(index);
+        });
+        row.addEventListener("mousedown", (event) => {
+          event.preventDefault();
+          this.pick(entry);
+        });
+        this.list!.appendChild(row);
+
+        if (index === this.activeIndex) {
+          row.scrollIntoView({ block: "nearest" });
+        }
+      });
+
+      const active = this.results[this.activeIndex];
+      this.preview.textContent = active.sensitive
+        ? "[Sensitive content, hidden until pasted]"
+        : active.type === "image" && active.content.startsWith("data:image/")
+        ? `[Image ${Math.round(active.content.length / 1024)}KB]`
+        : active.content.substring(0, 1000);
+    }
+
+    /**
+     * Fuzzy filter: every query character must appear in order in the
+     * title, folder path or content. Contiguous and word-start matches
+     * rank higher; title matches rank above content matches.
+     */
+    static filter(
+      entries: QuickPickerEntry[],
+      query: string
+    ): QuickPickerEntry[] {
+      const needle = query.trim().toLowerCase();
+
+      if (!needle) {
+        return [...entries].sort(
+          (a, b) =>
+            Number(!!b.slot) - Number(!!a.slot) ||
+            Number(!!b.isFavorite) - Number(!!a.isFavorite) ||
+            (b.timestamp || 0) - (a.timestamp || 0)
+        );
+      }
+
+      return entries
+        .map((entry) => {
+          const titleScore = QuickPicker.fuzzyScore(entry.title || "", needle);
+          const pathScore = QuickPicker.fuzzyScore(entry.path.join("/"), needle);
+          const contentScore =
+            entry.type === "image"
+              ? 0
+              : QuickPicker.fuzzyScore(entry.content.substring(0, 2000), needle);
+          return {
+            entry,
+            score: Math.max(titleScore * 3, pathScore * 2, contentScore),
+          };
+        })
+        .filter((result) => result.score > 0)
+        .sort((a, b) => b.score - a.score)
+        .map((result) => result.entry);
+    }
+
+    private static fuzzyScore(haystack: string, needle: string): number {
+      const text = haystack.toLowerCase();
+      let score = 0;
+      let streak = 0;
+      let position = 0;
+
+      for (const char of needle) {
+        const found = text.indexOf(char, position);
+        if (found === -1) return 0;
+
+        streak = found === position ? streak + 1 : 1;
+        score += streak;
+        if (found === 0 || /[\s/_\-.]/.test(text[found - 1])) {
+          score += 2;
+        }
+        position = found + 1;
+      }
+
+      return score;
+    }
+
+    private static readonly STYLES = `
+      .backdrop {
+        position: fixed; inset: 0; display: flex; justify-content: center;
+        align-items: flex-start; padding-top: 12vh;
+        background: rgba(0, 0, 0, 0.35);
+        font: 13px/1.4 -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif;
+      }
+      .panel {
+        width: min(640px, 92vw); background: #1f2023; color: #e8e8ea;
+        border: 1px solid #3a3b40; border-radius: 10px;
+        box-shadow: 0 16px 48px rgba(0, 0, 0, 0.45); overflow: hidden;
+      }
+      .search {
+        box-sizing: border-box; width: 100%; padding: 12px 14px; border: 0;
+        border-bottom: 1px solid #3a3b40; background: transparent; color: inherit;
+        font: inherit; font-size: 15px; outline: none;
+      }
+      .body { display: flex; height: 320px; }
+      .list {
+        list-style: none; margin: 0; padding: 4px; width: 55%;
+        overflow-y: auto; border-right: 1px solid #3a3b40;
+      }
+      .row { padding: 6px 8px; border-radius: 6px; cursor: pointer; }
+      .row.active { background: #2f5bd3; color: #fff; }
+      .title { white-space: nowrap; overflow: hidden; text-overflow: ellipsis; font-weight: 600; }
+      .crumbs { font-size: 11px; opacity: 0.7; white-space: nowrap; overflow: hidden; text-overflow: ellipsis; }
+      .empty { padding: 12px; opacity: 0.6; }
+      .preview {
+        flex: 1; margin: 0; padding: 10px; overflow: auto; white-space: pre-wrap;
+        word-break: break-word; font: 12px/1.45 ui-monospace, Menlo, Consolas, monospace;
+        color: #c8c8cc;
+      }
+      .hint { padding: 6px 12px; font-size: 11px; opacity: 0.6; border-top: 1px solid #3a3b40; }
+    `;
+  }
+
+  // Inline TextExpander - replaces typed abbreviations with item content
+  interface ExpansionEntry {
+    abbreviation: string;
+    itemId: string;
+    content: string; // Empty for sensitive items until expanded
+    sensitive?: boolean;
+    type: string;
+  }
+
+  interface ExpansionRecord {
+    element: HTMLElement;
+    abbreviation: string;
+    insertedText: string;
+  }
+
+  class TextExpander {
+    private entries: ExpansionEntry[] = [];
+    private enabled = false;
+    private pasteOptions: PasteOptions = {};
+    private busy = false;
+    // Last expansion, undone by a Backspace pressed right after it
+    private lastExpansion: ExpansionRecord | null = null;
+
+    private static readonly TEXT_INPUT_TYPES = [
+      "text",
+      "search",
+      "email",
+      "url",
+      "tel",
+    ];
+
+    constructor(
+      private pasteHandler: PasteHandler,
+      private resolveFields: (
+        itemId: string,
+        content: string
+      ) => Promise<string | null>,
+      private fetchSensitiveContent: (itemId: string) => Promise<string | null>
+    ) {}
+
+    configure(config: {
+      enabled: boolean;
+      entries: ExpansionEntry[];
+      pasteOptions?: PasteOptions;
+    }): void {
+      this.enabled = !!config.enabled;
+      this.pasteOptions = config.pasteOptions || {};
+      // Longest trigger first so ";sig2" is never shadowed by ";sig"
+      this.entries = [...(config.entries || [])].sort(
+        (a, b) => b.abbreviation.length - a.abbreviation.length
+      );
+      this.lastExpansion = null;
+      logger.info(
+        `⌨️ Text expander ${this.enabled ? "enabled" : "disabled"}`,
+        { triggers: this.entries.length }
+      );
+    }
+
+    attach(): void {
+      document.addEventListener("input", this.handleInput, true);
+      document.addEventListener("keydown", this.handleKeydown, true);
+      document.addEventListener(
+        "mousedown",
+        () => {
+          this.lastExpansion = null;
+        },
+        true
+      );
+    }
+
+    private handleInput = (event: Event): void => {
+      if (!this.enabled || this.busy || this.entries.length === 0) return;
+      if ((event as InputEvent).isComposing) return;
+
+      const element = this.getEditableTarget(event.target);
+      if (!element) return;
+
+      const before = this.getTextBeforeCaret(element);
+      if (!before) return;
+
+      const entry = this.entries.find((candidate) => {
+        if (!before.endsWith(candidate.abbreviation)) return false;
+        // Only expand whole words: "x;sig" must not fire ";sig"
+        const preceding = before.charAt(
+          before.length - candidate.abbreviation.length - 1
+        );
+        return preceding === "" || /\s/.test(preceding);
+      });
+
+      if (entry) {
+        this.expand(element, entry);
+      }
+    };
+
+    private handleKeydown = (event: KeyboardEvent): void => {
+      const last = this.lastExpansion;
+      if (!last) return;
+
+      if (["Shift", "Control", "Alt", "Meta"].includes(event.key)) return;
+      this.lastExpansion = null;
+
+      if (
+        event.key !== "Backspace" ||
+        event.ctrlKey ||
+        event.altKey ||
+        event.metaKey
+      ) {
+        return;
+      }
+
+      if (this.selectInsertedText(last)) {
+        event.preventDefault();
+        this.replaceSelection(last.abbreviation);
+      }
+    };
+
+    private async expand(
+      element: HTMLElement,
+      entry: ExpansionEntry
+    ): Promise<void> {
+      this.busy = true;
+      try {
+        logger.info(`⌨️ Expanding "${entry.abbreviation}"`, {
+          itemId: entry.itemId,
+        });
+
+        const stored = entry.sensitive
+          ? await this.fetchSensitiveContent(entry.itemId)
+          : entry.content;
+        if (stored === null) return;
+
+        const content = await this.resolveFields(entry.itemId, stored);
+        if (content === null) return;
+
+        if (!this.selectBackward(element, entry.abbreviation)) {
+          logger.warn("⚠️ Abbreviation no longer before caret, skipping");
+          return;
+        }
+
+        const pasteStart = Date.now();
+        const pasted = await this.pasteHandler.pasteContent(
+          content,
+          entry.type,
+          this.pasteOptions
+        );
+        reportPaste({
+          itemId: entry.itemId,
+          source: "expander",
+          success: pasted,
+          target: this.pasteHandler.getTargetKind(),
+          durationMs: Date.now() - pasteStart,
+        });
+        if (pasted) {
+          this.lastExpansion = {
+            element,
+            abbreviation: entry.abbreviation,
+            insertedText: this.pasteHandler.lastExpansion?.text ?? content,
+          };
+        }
+      } catch (error) {
+        logger.error("💥 Text expansion failed:", error);
+      } finally {
+        this.busy = false;
+      }
+    }
+
+    private getEditableTarget(target: EventTarget | null): HTMLElement | null {
+      if (target instanceof HTMLTextAreaElement) {
+        return target.readOnly || target.disabled ? null : target;
+      }
+      if (target instanceof HTMLInputElement) {
+        const type = (target.type || "text").toLowerCase();
+        return TextExpander.TEXT_INPUT_TYPES.includes(type) &&
+          !target.readOnly &&
+          !target.disabled
+          ? target
+          : null;
+      }
+      if (target instanceof HTMLElement && target.isContentEditable) {
+        return target;
+      }
+      return null;
+    }
+
+    private getTextBeforeCaret(element: HTMLElement): string | null {
+      if (
+        element instanceof HTMLInputElement ||
+        element instanceof HTMLTextAreaElement
+      ) {
+        const { selectionStart, selectionEnd } = element;
+        if (selectionStart === null || selectionStart !== selectionEnd) {
+          return null;
+        }
+        return element.value.substring(0, selectionStart);
+      }
+
+      const selection = window.getSelection();
+      if (!selection || !selection.isCollapsed || !selection.anchorNode) {
+        return null;
+      }
+      if (selection.anchorNode.nodeType !== Node.TEXT_NODE) return null;
+      return (selection.anchorNode.textContent || "").substring(
+        0,
+        selection.anchorOffset
+      );
+    }
+
+    /**
+     * Select the given text right before the caret, so the normal paste
+     * path replaces it the same way it replaces a user selection
+     */
+    private selectBackward(element: HTMLElement, text: string): boolean {
+      if (
+        element instanceof HTMLInputElement ||
+        element instanceof HTMLTextAreaElement
+      ) {
+        const caret = element.selectionStart ?? 0;
+        const start = caret - text.length;
+        if (start < 0 || element.value.substring(start, caret) !== text) {
+          return false;
+        }
+        element.setSelectionRange(start, caret);
+        return true;
+      }
+
+      const selection = window.getSelection();
+      if (!selection || selection.rangeCount === 0) return false;
+
+      const original = selection.getRangeAt(0).cloneRange();
+      for (let i = 0; i < text.length; i++) {
+        selection.modify("extend", "backward", "character");
+      }
+
+      const normalize = (value: string) =>
+        value.replace(/\r\n/g, "\n").replace(/\u00a0/g, " ");
+      if (normalize(selection.toString()) !== normalize(text)) {
+        selection.removeAllRanges();
+        selection.addRange(original);
+        return false;
+      }
+      return true;
+    }
+
+    private selectInsertedText(last: ExpansionRecord): boolean {
+      const active = document.activeElement as HTMLElement | null;
+      if (!active || !last.element.contains(active)) return false;
+
+      const expected =
+        last.element instanceof HTMLInputElement
+          ? last.insertedText.replace(/\r?\n/g, " ")
+          : last.insertedText;
+
+      if (
+        last.element instanceof HTMLInputElement ||
+        last.element instanceof HTMLTextAreaElement
+      ) {
+        if (last.element.selectionStart !== last.element.selectionEnd) {
+          return false;
+        }
+      } else if (!window.getSelection()?.isCollapsed) {
+        return false;
+      }
+
+      return this.selectBackward(last.element, expected);
+    }
+
+    private async replaceSelection(text: string): Promise<void> {
+      this.busy = true;
+      try {
+        await this.pasteHandler.pasteContent(text, "text");
+        logger.info(`↩️ Expansion undone, restored "${text}"`);
+      } finally {
+        this.busy = false;
+      }
+    }
+  }
+
+  // Main Content Script Class
+  /**
+   * Copy/cut listener feeding the clipboard history. Runs after the page's
+   * own handlers so data set through clipboardData.setData is picked up.
+   */
+  class CopyCapture {
+    private enabled = false;
+
+    // Markup worth keeping as HTML, plain selections are stored as text
+    private static readonly FORMATTING_TAGS =
+      /<(a|b|strong|em|i|u|s|code|pre|ul|ol|li|table|h[1-6]|blockquote|img)\b/i;
+
+    configure(config: { enabled: boolean }): void {
+      this.enabled = !!config.enabled;
+      logger.info(`📥 Copy capture ${this.enabled ? "enabled" : "disabled"}`, {});
+    }
+
+    attach(): void {
+      window.addEventListener("copy", this.handleCopy);
+      window.addEventListener("cut", this.handleCopy);
+    }
+
+    private handleCopy = (event: Event): void => {
+      if (!this.enabled) return;
+
+      const clipboardEvent = event as ClipboardEvent;
+      const target = document.activeElement;
+      // The background's sensitive-content guard decides what happens to it
+      const fromPasswordField =
+        target instanceof HTMLInputElement && target.type === "password";
+
+      let text = "";
+      let html = "";
+
+      // A page that rewrites the copied data cancels the default action
+      if (clipboardEvent.defaultPrevented && clipboardEvent.clipboardData) {
+        text = clipboardEvent.clipboardData.getData("text/plain");
+        html = clipboardEvent.clipboardData.getData("text/html");
+      }
+
+      if (!text) {
+        const selected = this.readSelection(target);
+        text = selected.text;
+        html = html || selected.html;
+      }
+
+      if (!text.trim()) return;
+
+      const keepHtml = !!html && CopyCapture.FORMATTING_TAGS.test(html);
+
+      browserAPI.runtime
+        .sendMessage({
+          action: "captureClipboard",
+          capture: {
+            text,
+            html: keepHtml ? html : undefined,
+            url: window.location.href,
+            title: document.title,
+            event: event.type,
+            fromPasswordField,
+          },
+        })
+        .catch((error: unknown) => {
+          logger.debug("Copy capture not delivered:", error);
+        });
+    };
+
+    private readSelection(target: Element | null): { text: string; html: string } {
+      if (
+        (target instanceof HTMLInputElement ||
+          target instanceof HTMLTextAreaElement) &&
+        target.selectionStart !== null &&
+        target.selectionEnd !== null
+      ) {
+        return {
+          text: target.value.substring(target.selectionStart, target.selectionEnd),
+          html: "",
+        };
+      }
+
+      const selection = window.getSelection();
+      if (!selection || selection.rangeCount === 0 || selection.isCollapsed) {
+        return { text: "", html: "" };
+      }
+
+      const container = document.createElement("div");
+      for (let i = 0; i < selection.rangeCount; i++) {
+        container.appendChild(selection.getRangeAt(i).cloneContents());
+      }
+
+      return { text: selection.toString(), html: container.innerHTML };
+    }
+  }
+
+  class ContentScriptMain {
+    private pasteHandler: PasteHandler;
+    private quickPicker = new QuickPicker();
+    private fieldPrompt = new TemplateFieldPrompt();
+    private textExpander: TextExpander;
+    private copyCapture = new CopyCapture();
+
+    constructor() {
+      logger.info("🎯 ContentScriptMain initializing...", {
+        url: window.location.href,
+        title: document.title,
+      });
+      this.pasteHandler = new PasteHandler();
+      this.textExpander = new TextExpander(
+        this.pasteHandler,
+        (itemId, content) => this.promptTemplateFields(itemId, content),
+        (itemId) => this.fetchSensitiveContent(itemId)
+      );
+      this.initialize();
+      logger.info("✅ ContentScriptMain initialized successfully", {});
+    }
+
+    initialize(): void {
+      logger.info("📡 Setting up message listener...", {});
 
       browserAPI.runtime.onMessage.addListener(
         (message: any, _sender: any, sendResponse: (response: any) => void) => {
@@ -731,6 +2475,11 @@ declare const browser: typeof chrome;
         }
       );
 
+      this.textExpander.attach();
+      this.loadExpansionConfig();
+      this.copyCapture.attach();
+      this.loadCaptureConfig();
+
       const activeElement = document.activeElement as HTMLElement | null;
       logger.info("🌐 Content script loaded on page:", {
         url: window.location.href,
@@ -747,6 +2496,33 @@ declare const browser: typeof chrome;
       }
     }
 
+    async loadExpansionConfig(): Promise<void> {
+      try {
+        const response = await browserAPI.runtime.sendMessage({
+          action: "getExpansionConfig",
+          hostname: window.location.hostname,
+        });
+        if (response?.success) {
+          this.textExpander.configure(response.config);
+        }
+      } catch (error) {
+        logger.debug("Text expander config unavailable:", error);
+      }
+    }
+
+    async loadCaptureConfig(): Promise<void> {
+      try {
+        const response = await browserAPI.runtime.sendMessage({
+          action: "getCaptureConfig",
+        });
+        if (response?.success) {
+          this.copyCapture.configure(response.config);
+        }
+      } catch (error) {
+        logger.debug("Copy capture config unavailable:", error);
+      }
+    }
+
     async handleMessage(
       message: any,
       _sender: any,
@@ -779,6 +2555,23 @@ declare const browser: typeof chrome;
             sendResponse({ success: true, canPaste });
             break;
 
+          case "showQuickPicker":
+            this.quickPicker.open(message.entries || [], (entry) => {
+              this.pasteFromQuickPicker(entry, message.pasteOptions);
+            });
+            sendResponse({ success: true });
+            break;
+
+          case "expansionConfigChanged":
+            await this.loadExpansionConfig();
+            sendResponse({ success: true });
+            break;
+
+          case "captureConfigChanged":
+            await this.loadCaptureConfig();
+            sendResponse({ success: true });
+            break;
+
           case "showAlert":
             logger.info(`🚨 Showing alert: ${message.message}`, {});
             alert(message.message);
@@ -865,10 +2658,46 @@ declare const browser: typeof chrome;
         });
       }
 
+      // Fill-in fields: answer right away so the background does not time
+      // out and retry while the user is typing, then paste once submitted
+      if (templateExpander.extractFields(message.content).length > 0) {
+        sendResponse({
+          success: true,
+          itemId: message.itemId,
+          pending: "template_fields",
+        });
+
+        const filled = await this.promptTemplateFields(
+          message.itemId,
+          message.content
+        );
+        if (filled !== null) {
+          const pasteStart = Date.now();
+          const pasteSuccess = await this.pasteHandler.pasteContent(
+            filled,
+            message.contentType,
+            message.pasteOptions
+          );
+          logger.info(
+            `📝 Template paste result: ${pasteSuccess ? "SUCCESS" : "FAILED"}`,
+            { itemId: message.itemId }
+          );
+          reportPaste({
+            itemId: message.itemId,
+            source: message.source,
+            success: pasteSuccess,
+            target: this.pasteHandler.getTargetKind(),
+            durationMs: Date.now() - pasteStart,
+          });
+        }
+        return;
+      }
+
       try {
         const pasteSuccess = await this.pasteHandler.pasteContent(
           message.content,
-          message.contentType
+          message.contentType,
+          message.pasteOptions
         );
 
         logger.info(
@@ -876,10 +2705,12 @@ declare const browser: typeof chrome;
           {}
         );
 
+        const expansion = this.pasteHandler.lastExpansion;
+
         if (pasteSuccess) {
           const postPasteElement = document.activeElement as HTMLElement | null;
           const verification = this.verifyPasteSuccess(
-            message.content,
+            expansion?.text ?? message.content,
             postPasteElement
           );
 
@@ -887,6 +2718,8 @@ declare const browser: typeof chrome;
             success: true,
             itemId: message.itemId,
             verification: verification,
+            unknownPlaceholders: expansion?.unknownPlaceholders || [],
+            target: this.pasteHandler.getTargetKind(),
           });
         } else {
           sendResponse({
@@ -894,6 +2727,7 @@ declare const browser: typeof chrome;
             error:
               "Paste operation failed - no suitable element found or content could not be inserted",
             activeElementInfo: this.pasteHandler.getActiveElementInfo(),
+            target: this.pasteHandler.getTargetKind(),
           });
         }
       } catch (error) {
@@ -906,6 +2740,110 @@ declare const browser: typeof chrome;
       }
     }
 
+    async pasteFromQuickPicker(
+      entry: QuickPickerEntry,
+      pasteOptions: PasteOptions = {}
+    ): Promise<void> {
+      logger.info("🔎 Quick picker selection:", {
+        itemId: entry.id,
+        type: entry.type,
+      });
+
+      // Let the restored focus and selection settle before inserting
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      const picked = entry.sensitive
+        ? await this.fetchSensitiveContent(entry.id)
+        : entry.content;
+      if (picked === null) return;
+
+      const content = await this.promptTemplateFields(entry.id, picked);
+      if (content === null) return;
+
+      const pasteStart = Date.now();
+      const pasteSuccess = await this.pasteHandler.pasteContent(
+        content,
+        entry.type,
+        pasteOptions
+      );
+      reportPaste({
+        itemId: entry.id,
+        source: "quickPicker",
+        success: pasteSuccess,
+        target: this.pasteHandler.getTargetKind(),
+        durationMs: Date.now() - pasteStart,
+      });
+
+      if (!pasteSuccess) {
+        logger.warn("⚠️ Quick picker paste failed", {
+          itemId: entry.id,
+          activeElementInfo: this.pasteHandler.getActiveElementInfo(),
+        });
+      }
+    }
+
+    // Secrets are only sent to the page once picked or expanded
+    async fetchSensitiveContent(itemId: string): Promise<string | null> {
+      try {
+        const response = await browserAPI.runtime.sendMessage({
+          action: "getSensitiveContent",
+          itemId,
+        });
+        if (typeof response?.content === "string") return response.content;
+        logger.warn("⚠️ Sensitive item content unavailable", {
+          itemId,
+          reason: response?.reason,
+        });
+      } catch (error) {
+        logger.warn("⚠️ Could not load the sensitive item:", error);
+      }
+      return null;
+    }
+
+    /**
+     * Ask for {{input}}/{{choice}} values when the content declares any.
+     * Returns the content with the fields filled in, or null if cancelled
+     * (the target field is left untouched).
+     */
+    async promptTemplateFields(
+      itemId: string | undefined,
+      content: string
+    ): Promise<string | null> {
+      const fields = templateExpander.extractFields(content);
+      if (fields.length === 0) return content;
+
+      let remembered: Record<string, string> = {};
+      if (itemId) {
+        try {
+          const response = await browserAPI.runtime.sendMessage({
+            action: "getTemplateAnswers",
+            itemId,
+          });
+          remembered = response?.answers || {};
+        } catch (error) {
+          logger.warn("⚠️ Could not load remembered template answers:", error);
+        }
+      }
+
+      const values = await this.fieldPrompt.ask(fields, remembered);
+      if (values === null) {
+        logger.info("🚫 Template fields cancelled, nothing pasted", { itemId });
+        return null;
+      }
+
+      if (itemId) {
+        browserAPI.runtime
+          .sendMessage({ action: "saveTemplateAnswers", itemId, answers: values })
+          .catch((error: unknown) => {
+            logger.warn("⚠️ Could not remember template answers:", error);
+          });
+      }
+
+      // Let the restored focus and selection settle before inserting
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      return templateExpander.fillFields(content, values);
+    }
+
     verifyPasteSuccess(
       expectedContent: string,
       element: HTMLElement | null
@@ -2,7 +2,7 @@
 
 import { useState, useEffect, useCallback } from "react";
 import { ClipboardItem, ClipboardFolder } from "../types/clipboard";
-import { clipboardStorage } from "@/shared/utils/clipboard-storage";
+import { clipboardRepository } from "@/shared/utils/clipboard-repository";
 
 export const useClipboard = () => {
   const [folders, setFolders] = useState<ClipboardFolder[]>([]);
@@ -16,8 +16,8 @@ export const useClipboard = () => {
       setError(null);
 
       const [loadedFolders, loadedItems] = await Promise.all([
-        clipboardStorage.getClipboardFolders(),
-        clipboardStorage.getClipboardItems(),
+        clipboardRepository.getClipboardFolders(),
+        clipboardRepository.getClipboardItems(),
       ]);
 
       setFolders(loadedFolders);
@@ -34,7 +34,7 @@ export const useClipboard = () => {
   const addClipboardItem = useCallback(
     async (itemData: Omit<ClipboardItem, "id" | "timestamp">) => {
       try {
-        const newItem = await clipboardStorage.addClipboardItem(itemData);
+        const newItem = await clipboardRepository.addClipboardItem(itemData);
         setItems((prev) => [newItem, ...prev.slice(0, 999)]);
         return newItem;
       } catch (err) {
@@ -49,7 +49,7 @@ export const useClipboard = () => {
 
   const deleteClipboardItem = useCallback(async (id: string) => {
     try {
-      const success = await clipboardStorage.deleteClipboardItem(id);
+      const success = await clipboardRepository.deleteClipboardItem(id);
       if (success) {
         setItems((prev) => prev.filter((item) => item.id !== id));
       }
@@ -63,25 +63,27 @@ export const useClipboard = () => {
   const updateClipboardItem = useCallback(
     async (id: string, updates: Partial<ClipboardItem>) => {
       try {
-        const updatedItems = items.map((item) =>
-          item.id === id ? { ...item, ...updates } : item
+        const updated = await clipboardRepository.updateClipboardItem(
+          id,
+          updates
+        );
+        if (!updated) return false;
+        setItems((prev) =>
+          prev.map((item) => (item.id === id ? updated : item))
         );
-        setItems(updatedItems);
-        await clipboardStorage.saveClipboardItems(updatedItems);
         return true;
       } catch (err) {
         setError(err instanceof Error ? err.message : "Failed to update item");
         return false;
       }
     },
-    [items]
+    []
   );
 
   const createFolder = useCallback(
     async (name: string, parentId?: string) => {
       try {
-        await clipboardStorage.createFolder(name, parentId);
-        await loadClipboardData();
+        await clipboardRepository.createFolder(name, parentId);
         return true;
       } catch (err) {
         setError(
@@ -90,17 +92,13 @@ export const useClipboard = () => {
         return false;
       }
     },
-    [loadClipboardData]
+    []
   );
 
   const deleteFolder = useCallback(
     async (id: string) => {
       try {
-        const success = await clipboardStorage.deleteFolder(id);
-        if (success) {
-          await loadClipboardData();
-        }
-        return success;
+        return !!(await clipboardRepository.deleteFolder(id));
       } catch (err) {
         setError(
           err instanceof Error ? err.message : "Failed to delete folder"
@@ -108,7 +106,7 @@ export const useClipboard = () => {
         return false;
       }
     },
-    [loadClipboardData]
+    []
   );
 
   const toggleFolder = useCallback(
@@ -132,7 +130,7 @@ export const useClipboard = () => {
 
       const updatedFolders = updateFolderExpanded(folders);
       setFolders(updatedFolders);
-      await clipboardStorage.saveClipboardFolders(updatedFolders);
+      await clipboardRepository.saveClipboardFolders(updatedFolders);
     },
     [folders]
   );
@@ -169,6 +167,10 @@ export const useClipboard = () => {
 
   useEffect(() => {
     loadClipboardData();
+    return clipboardRepository.subscribe(loadClipboardData, [
+      "items",
+      "folders",
+    ]);
   }, [loadClipboardData]);
 
   return {
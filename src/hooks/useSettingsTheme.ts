@@ -0,0 +1,20 @@
+// src/hooks/useSettingsTheme.ts
+
+import { useEffect } from "react";
+import { clipboardRepository } from "@/shared/utils/clipboard-repository";
+import { useTheme } from "@/presentation/providers/theme-provider";
+
+// Follow the theme chosen in the options, also when it changes while open
+export const useSettingsTheme = () => {
+  const { setTheme } = useTheme();
+
+  useEffect(() => {
+    const load = async () => {
+      const settings = await clipboardRepository.getSettings();
+      setTheme(settings.theme);
+    };
+
+    load();
+    return clipboardRepository.subscribe(load, ["settings"]);
+  }, []);
+};
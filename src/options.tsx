@@ -0,0 +1,13 @@
+import { StrictMode } from "react";
+import { createRoot } from "react-dom/client";
+import OptionsPage from "@/presentation/components/options/OptionsPage";
+import "@/styles/index.css";
+import { ThemeProvider } from "@/presentation/providers/theme-provider";
+
+createRoot(document.getElementById("options-root")!).render(
+  <StrictMode>
+    <ThemeProvider defaultTheme="dark" storageKey="vite-ui-theme">
+      <OptionsPage />
+    </ThemeProvider>
+  </StrictMode>
+);
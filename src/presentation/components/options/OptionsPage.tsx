@@ -0,0 +1,564 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { Loader, RotateCcw, Save, Settings } from "lucide-react";
+import {
+  AppSettings,
+  clipboardRepository,
+  SettingsSyncError,
+} from "@/shared/utils/clipboard-repository";
+import { getHistoryOverflow } from "@/shared/utils/clipboard-history";
+import { ItemMetadata } from "@/shared/utils/idb-store";
+import { logger } from "@/shared/utils/logger";
+import { useSettingsTheme } from "@/hooks/useSettingsTheme";
+import {
+  SETTINGS_LIMITS,
+  validateSettings,
+} from "@/shared/utils/settings-validation";
+import PasteRulesEditor from "./PasteRulesEditor";
+
+// Manifest command of each shortcut setting
+const SHORTCUT_COMMANDS: Record<keyof AppSettings["shortcuts"], string> = {
+  pasteFavorite: "paste_favorite_clipboard",
+  openPopup: "_execute_browser_action",
+};
+
+const fieldClass =
+  "px-2 py-1 bg-input-background border border-border-default rounded text-sm text-text-primary focus:outline-none focus:ring-2 focus:ring-primary";
+
+// Empty number fields are kept as NaN so validation reports them
+const toNumber = (value: string): number =>
+  value.trim() === "" ? Number.NaN : Number(value);
+
+const numberValue = (value: number): string =>
+  Number.isNaN(value) ? "" : String(value);
+
+const sitesToText = (sites: string[]): string => sites.join("\n");
+
+const textToSites = (text: string): string[] =>
+  text
+    .split(/[\n,]/)
+    .map((site) => site.trim().toLowerCase())
+    .filter(Boolean);
+
+const Section: React.FC<{
+  title: string;
+  description?: string;
+  children: React.ReactNode;
+}> = ({ title, description, children }) => (
+  <section className="bg-card-background border border-border-default rounded-lg p-4 space-y-3">
+    <div>
+      <h2 className="text-sm font-semibold text-text-primary">{title}</h2>
+      {description && (
+        <p className="text-xs text-text-secondary">{description}</p>
+      )}
+    </div>
+    {children}
+  </section>
+);
+
+const Field: React.FC<{
+  label: string;
+  hint?: string;
+  error?: string;
+  children: React.ReactNode;
+}> = ({ label, hint, error, children }) => (
+  <label className="flex flex-col gap-1 text-sm">
+    <span className="flex items-center gap-3">
+      <span className="w-56 text-text-primary">{label}</span>
+      {children}
+    </span>
+    {hint && !error && (
+      <span className="ml-[15.75rem] text-xs text-text-secondary">{hint}</span>
+    )}
+    {error && (
+      <span className="ml-[15.75rem] text-xs text-red-500">{error}</span>
+    )}
+  </label>
+);
+
+const OptionsPage: React.FC = () => {
+  const [saved, setSaved] = useState<AppSettings | null>(null);
+  const [draft, setDraft] = useState<AppSettings | null>(null);
+  const [sitesText, setSitesText] = useState("");
+  const [browserShortcuts, setBrowserShortcuts] = useState<
+    Record<string, string>
+  >({});
+  const [items, setItems] = useState<ItemMetadata[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [status, setStatus] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useSettingsTheme();
+
+  const isDirty =
+    !!draft && !!saved && JSON.stringify(draft) !== JSON.stringify(saved);
+
+  useEffect(() => {
+    loadSettings();
+    loadBrowserShortcuts();
+    loadItems();
+    return clipboardRepository.subscribe(loadItems, ["items"]);
+  }, []);
+
+  // Changes from the popup or another window show up here unless the
+  // form holds edits of its own
+  useEffect(() => {
+    return clipboardRepository.subscribe(() => {
+      if (!isDirty) {
+        loadSettings();
+      }
+      loadBrowserShortcuts();
+    }, ["settings"]);
+  }, [isDirty]);
+
+  const loadSettings = async () => {
+    try {
+      const settings = await clipboardRepository.getSettings();
+      setSaved(settings);
+      setDraft(settings);
+      setSitesText(sitesToText(settings.textExpander.disabledSites));
+    } catch (err) {
+      const errorMsg =
+        err instanceof Error ? err.message : "Failed to load the settings";
+      setError(errorMsg);
+      logger.error("Failed to load settings", err);
+    }
+  };
+
+  const loadItems = async () => {
+    try {
+      setItems(await clipboardRepository.getClipboardItemSummaries());
+    } catch (err) {
+      logger.warn("Failed to load the items", err);
+    }
+  };
+
+  const loadBrowserShortcuts = async () => {
+    try {
+      const commands = await chrome.commands.getAll();
+      setBrowserShortcuts(
+        Object.fromEntries(
+          commands
+            .filter((command) => command.name)
+            .map((command) => [command.name!, command.shortcut || ""])
+        )
+      );
+    } catch (err) {
+      logger.warn("Failed to read the browser shortcuts", err);
+    }
+  };
+
+  const errors = useMemo(
+    () => (draft ? validateSettings(draft) : {}),
+    [draft]
+  );
+  const hasErrors = Object.keys(errors).length > 0;
+
+  const update = <K extends keyof AppSettings>(
+    key: K,
+    value: AppSettings[K]
+  ) => {
+    setDraft((prev) => (prev ? { ...prev, [key]: value } : prev));
+    setStatus(null);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft || hasErrors) return;
+
+    // A lower limit moves history entries to the trash, ask first
+    if (saved && draft.maxItems < saved.maxItems) {
+      const overflow = getHistoryOverflow(items, draft.maxItems).length;
+      if (
+        overflow > 0 &&
+        !confirm(
+          `With a limit of ${draft.maxItems}, ${overflow} of the oldest Clipboard History ${
+            overflow === 1 ? "entry moves" : "entries move"
+          } to the trash. Save the settings?`
+        )
+      ) {
+        return;
+      }
+    }
+
+    setIsSaving(true);
+    try {
+      const settings = await clipboardRepository.updateSettings(draft);
+      setSaved(settings);
+      setDraft(settings);
+      setSitesText(sitesToText(settings.textExpander.disabledSites));
+      setStatus("Settings saved");
+      setError(null);
+      logger.info("Settings saved from the options page");
+    } catch (err) {
+      // Saved on this device, only syncing them failed
+      if (err instanceof SettingsSyncError) {
+        await loadSettings();
+      }
+      const errorMsg =
+        err instanceof Error ? err.message : "Failed to save the settings";
+      setError(errorMsg);
+      logger.error("Failed to save settings", err);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDiscard = () => {
+    if (!saved) return;
+    setDraft(saved);
+    setSitesText(sitesToText(saved.textExpander.disabledSites));
+    setStatus(null);
+  };
+
+  // Fills the form only; nothing changes until it is saved
+  const handleResetToDefaults = () => {
+    const defaults = clipboardRepository.getDefaultSettings();
+    setDraft(defaults);
+    setSitesText(sitesToText(defaults.textExpander.disabledSites));
+    setStatus("Defaults filled in, save to apply them");
+  };
+
+  if (!draft) {
+    return (
+      <div className="min-h-screen bg-background text-text-primary flex items-center justify-center">
+        {error ? (
+          <p className="text-sm text-red-500">{error}</p>
+        ) : (
+          <Loader className="animate-spin h-8 w-8 text-primary" />
+        )}
+      </div>
+    );
+  }
+
+  const shortcutHint = (name: keyof AppSettings["shortcuts"]) => {
+    const current = browserShortcuts[SHORTCUT_COMMANDS[name]];
+    return current !== undefined && current !== draft.shortcuts[name]
+      ? `The browser currently uses ${current || "no shortcut"}`
+      : undefined;
+  };
+
+  return (
+    <div className="min-h-screen bg-background text-text-primary">
+      <form
+        onSubmit={handleSave}
+        className="max-w-3xl mx-auto p-6 space-y-4"
+        noValidate
+      >
+        {/* Header */}
+        <div className="flex items-center gap-3">
+          <Settings size={22} className="text-primary" />
+          <h1 className="text-xl font-semibold">ShortcutPaste Options</h1>
+        </div>
+
+        <Section title="Appearance">
+          <Field label="Theme">
+            <select
+              value={draft.theme}
+              onChange={(e) =>
+                update("theme", e.target.value as AppSettings["theme"])
+              }
+              className={fieldClass}
+            >
+              <option value="system">Same as the system</option>
+              <option value="light">Light</option>
+              <option value="dark">Dark</option>
+            </select>
+          </Field>
+        </Section>
+
+        <Section
+          title="Items"
+          description="When Clipboard History holds more entries than the limit, the oldest move to the trash. Curated folders, favorites, slotted items and items with an abbreviation are always kept."
+        >
+          <Field
+            label="Keep at most"
+            error={errors.maxItems}
+            hint={`${SETTINGS_LIMITS.maxItems.min} to ${SETTINGS_LIMITS.maxItems.max} entries in the Clipboard History folder`}
+          >
+            <input
+              type="number"
+              min={SETTINGS_LIMITS.maxItems.min}
+              max={SETTINGS_LIMITS.maxItems.max}
+              value={numberValue(draft.maxItems)}
+              onChange={(e) => update("maxItems", toNumber(e.target.value))}
+              className={`w-28 ${fieldClass}`}
+            />
+          </Field>
+          <Field
+            label="Capture copied text"
+            hint="Record text copied or cut in web pages to Clipboard History"
+          >
+            <input
+              type="checkbox"
+              checked={draft.autoCapture}
+              onChange={(e) => update("autoCapture", e.target.checked)}
+            />
+          </Field>
+        </Section>
+
+        <Section
+          title="Shortcuts"
+          description="For example Alt+Shift+V: one or two of Ctrl, Alt, Shift, Command and MacCtrl, then a letter, digit or key such as Space or F5."
+        >
+          <Field
+            label="Paste the favorite"
+            error={errors["shortcuts.pasteFavorite"]}
+            hint={shortcutHint("pasteFavorite")}
+          >
+            <input
+              type="text"
+              value={draft.shortcuts.pasteFavorite}
+              onChange={(e) =>
+                update("shortcuts", {
+                  ...draft.shortcuts,
+                  pasteFavorite: e.target.value,
+                })
+              }
+              className={`w-44 ${fieldClass}`}
+            />
+          </Field>
+          <Field
+            label="Open the popup"
+            error={errors["shortcuts.openPopup"]}
+            hint={shortcutHint("openPopup")}
+          >
+            <input
+              type="text"
+              value={draft.shortcuts.openPopup}
+              onChange={(e) =>
+                update("shortcuts", {
+                  ...draft.shortcuts,
+                  openPopup: e.target.value,
+                })
+              }
+              className={`w-44 ${fieldClass}`}
+            />
+          </Field>
+        </Section>
+
+        <Section title="Notifications and sync">
+          <Field
+            label="Show notifications"
+            hint="Messages such as a locked vault or unknown placeholders in a pasted item"
+          >
+            <input
+              type="checkbox"
+              checked={draft.notifications}
+              onChange={(e) => update("notifications", e.target.checked)}
+            />
+          </Field>
+          <Field
+            label="Sync items between browsers"
+            hint="Through the browser's account sync; large and sensitive items stay on this device"
+          >
+            <input
+              type="checkbox"
+              checked={draft.syncEnabled}
+              onChange={(e) => update("syncEnabled", e.target.checked)}
+            />
+          </Field>
+        </Section>
+
+        <Section title="Text expander">
+          <Field label="Expand abbreviations">
+            <input
+              type="checkbox"
+              checked={draft.textExpander.enabled}
+              onChange={(e) =>
+                update("textExpander", {
+                  ...draft.textExpander,
+                  enabled: e.target.checked,
+                })
+              }
+            />
+          </Field>
+          <Field
+            label="Not on these sites"
+            error={errors["textExpander.disabledSites"]}
+            hint="One hostname per line, e.g. mail.example.com"
+          >
+            <textarea
+              value={sitesText}
+              onChange={(e) => {
+                setSitesText(e.target.value);
+                update("textExpander", {
+                  ...draft.textExpander,
+                  disabledSites: textToSites(e.target.value),
+                });
+              }}
+              rows={4}
+              className={`flex-1 font-mono ${fieldClass}`}
+            />
+          </Field>
+        </Section>
+
+        <Section title="Sensitive content and vault">
+          <Field label="When a secret is saved">
+            <select
+              value={draft.sensitiveContent.action}
+              onChange={(e) =>
+                update("sensitiveContent", {
+                  ...draft.sensitiveContent,
+                  action: e.target
+                    .value as AppSettings["sensitiveContent"]["action"],
+                })
+              }
+              className={fieldClass}
+            >
+              <option value="block">Block it</option>
+              <option value="mask">Mask it</option>
+              <option value="expire">Save it with an expiry</option>
+            </select>
+          </Field>
+          <Field
+            label="Secrets expire after (minutes)"
+            error={errors["sensitiveContent.expireAfterMinutes"]}
+          >
+            <input
+              type="number"
+              min={SETTINGS_LIMITS.sensitiveExpireMinutes.min}
+              max={SETTINGS_LIMITS.sensitiveExpireMinutes.max}
+              value={numberValue(draft.sensitiveContent.expireAfterMinutes)}
+              onChange={(e) =>
+                update("sensitiveContent", {
+                  ...draft.sensitiveContent,
+                  expireAfterMinutes: toNumber(e.target.value),
+                })
+              }
+              className={`w-28 ${fieldClass}`}
+            />
+          </Field>
+          <Field
+            label="Lock the vault after idle (minutes)"
+            error={errors["vault.autoLockMinutes"]}
+            hint="0 locks it only by hand or when the screen locks"
+          >
+            <input
+              type="number"
+              min={SETTINGS_LIMITS.autoLockMinutes.min}
+              max={SETTINGS_LIMITS.autoLockMinutes.max}
+              value={numberValue(draft.vault.autoLockMinutes)}
+              onChange={(e) =>
+                update("vault", {
+                  ...draft.vault,
+                  autoLockMinutes: toNumber(e.target.value),
+                })
+              }
+              className={`w-28 ${fieldClass}`}
+            />
+          </Field>
+        </Section>
+
+        <Section title="Trash and paste history">
+          <Field
+            label="Keep deleted items (days)"
+            error={errors["trash.retentionDays"]}
+          >
+            <input
+              type="number"
+              min={SETTINGS_LIMITS.trashRetentionDays.min}
+              max={SETTINGS_LIMITS.trashRetentionDays.max}
+              value={numberValue(draft.trash.retentionDays)}
+              onChange={(e) =>
+                update("trash", { retentionDays: toNumber(e.target.value) })
+              }
+              className={`w-28 ${fieldClass}`}
+            />
+          </Field>
+          <Field
+            label="Keep pastes (days)"
+            error={errors["pasteHistory.retentionDays"]}
+          >
+            <input
+              type="number"
+              min={SETTINGS_LIMITS.pasteHistoryRetentionDays.min}
+              max={SETTINGS_LIMITS.pasteHistoryRetentionDays.max}
+              value={numberValue(draft.pasteHistory.retentionDays)}
+              onChange={(e) =>
+                update("pasteHistory", {
+                  ...draft.pasteHistory,
+                  retentionDays: toNumber(e.target.value),
+                })
+              }
+              className={`w-28 ${fieldClass}`}
+            />
+          </Field>
+          <Field
+            label="Keep at most (pastes)"
+            error={errors["pasteHistory.maxEvents"]}
+          >
+            <input
+              type="number"
+              min={SETTINGS_LIMITS.pasteHistoryMaxEvents.min}
+              max={SETTINGS_LIMITS.pasteHistoryMaxEvents.max}
+              value={numberValue(draft.pasteHistory.maxEvents)}
+              onChange={(e) =>
+                update("pasteHistory", {
+                  ...draft.pasteHistory,
+                  maxEvents: toNumber(e.target.value),
+                })
+              }
+              className={`w-28 ${fieldClass}`}
+            />
+          </Field>
+        </Section>
+
+        <Section
+          title="Paste rules"
+          description="Change how pasting works on some sites. The first enabled rule that matches the page applies; a site without a slash matches the hostname (*.example.com includes its subdomains), one with a slash matches the address, with * for any text."
+        >
+          <PasteRulesEditor
+            rules={draft.pasteRules}
+            items={items}
+            errors={errors}
+            onChange={(rules) => update("pasteRules", rules)}
+          />
+        </Section>
+
+        {/* Actions */}
+        <div className="sticky bottom-0 flex items-center gap-3 py-3 bg-background border-t border-border-default">
+          <button
+            type="submit"
+            disabled={!isDirty || hasErrors || isSaving}
+            className="flex items-center gap-2 px-4 py-2 bg-primary text-white rounded-lg hover:bg-primary/90 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isSaving ? (
+              <Loader size={16} className="animate-spin" />
+            ) : (
+              <Save size={16} />
+            )}
+            Save
+          </button>
+          <button
+            type="button"
+            onClick={handleDiscard}
+            disabled={!isDirty || isSaving}
+            className="px-4 py-2 bg-button-second-bg text-text-primary rounded-lg hover:bg-button-second-bg-hover transition-colors disabled:opacity-50"
+          >
+            Discard changes
+          </button>
+          <button
+            type="button"
+            onClick={handleResetToDefaults}
+            disabled={isSaving}
+            className="flex items-center gap-2 px-4 py-2 text-text-secondary hover:text-text-primary transition-colors"
+          >
+            <RotateCcw size={14} />
+            Reset to defaults
+          </button>
+          <span className="ml-auto text-sm">
+            {error ? (
+              <span className="text-red-500">{error}</span>
+            ) : hasErrors ? (
+              <span className="text-red-500">Fix the marked fields to save</span>
+            ) : (
+              status && <span className="text-text-secondary">{status}</span>
+            )}
+          </span>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default OptionsPage;
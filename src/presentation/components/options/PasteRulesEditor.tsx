@@ -0,0 +1,402 @@
+import React, { useRef, useState } from "react";
+import {
+  ArrowDown,
+  ArrowUp,
+  ChevronDown,
+  ChevronRight,
+  Download,
+  Plus,
+  Trash2,
+  Upload,
+} from "lucide-react";
+import { ItemMetadata } from "@/shared/utils/idb-store";
+import {
+  createPasteRule,
+  describePasteRule,
+  MAX_PASTE_DELAY_MS,
+  parsePasteRules,
+  PasteRule,
+  serializePasteRules,
+} from "@/shared/utils/paste-rules";
+import { SettingsErrors } from "@/shared/utils/settings-validation";
+
+interface PasteRulesEditorProps {
+  rules: PasteRule[];
+  items: ItemMetadata[]; // For the per-site favorite
+  errors: SettingsErrors;
+  onChange: (rules: PasteRule[]) => void;
+}
+
+const fieldClass =
+  "px-2 py-1 bg-input-background border border-border-default rounded text-sm text-text-primary focus:outline-none focus:ring-2 focus:ring-primary";
+
+const PasteRulesEditor: React.FC<PasteRulesEditorProps> = ({
+  rules,
+  items,
+  errors,
+  onChange,
+}) => {
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const updateRule = (id: string, updates: Partial<PasteRule>) => {
+    onChange(
+      rules.map((rule) => (rule.id === id ? { ...rule, ...updates } : rule))
+    );
+  };
+
+  const handleAdd = () => {
+    const rule = createPasteRule();
+    onChange([...rules, rule]);
+    setExpandedId(rule.id);
+  };
+
+  const handleRemove = (id: string) => {
+    onChange(rules.filter((rule) => rule.id !== id));
+  };
+
+  // Earlier rules win, so order is priority
+  const handleMove = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= rules.length) return;
+    const reordered = [...rules];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    onChange(reordered);
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([serializePasteRules(rules)], {
+      type: "application/json",
+    });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = "shortcutpaste-paste-rules.json";
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  // Imported rules are added after the existing ones
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    try {
+      const imported = parsePasteRules(await file.text());
+      onChange([...rules, ...imported]);
+      setImportError(null);
+    } catch (err) {
+      setImportError(
+        err instanceof Error ? err.message : "Failed to import the rules"
+      );
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      {rules.length === 0 && (
+        <p className="text-sm text-text-secondary">
+          No rules yet; every site gets the usual paste behavior.
+        </p>
+      )}
+
+      {rules.map((rule, index) => {
+        const isExpanded = expandedId === rule.id;
+        const patternError = errors[`pasteRules.${rule.id}.pattern`];
+        const delayError = errors[`pasteRules.${rule.id}.delayMs`];
+        return (
+          <div
+            key={rule.id}
+            className={`border rounded ${
+              patternError || delayError
+                ? "border-red-500"
+                : "border-border-default"
+            }`}
+          >
+            {/* Summary row */}
+            <div className="flex items-center gap-2 px-2 py-1.5 text-sm">
+              <button
+                type="button"
+                onClick={() => setExpandedId(isExpanded ? null : rule.id)}
+                className="p-0.5 hover:bg-button-second-bg-hover rounded"
+                title={isExpanded ? "Collapse" : "Edit the rule"}
+              >
+                {isExpanded ? (
+                  <ChevronDown size={14} />
+                ) : (
+                  <ChevronRight size={14} />
+                )}
+              </button>
+              <input
+                type="checkbox"
+                checked={rule.enabled}
+                onChange={(e) =>
+                  updateRule(rule.id, { enabled: e.target.checked })
+                }
+                title="Use this rule"
+              />
+              <span
+                className={`font-mono truncate ${
+                  rule.enabled ? "text-text-primary" : "text-text-secondary"
+                }`}
+              >
+                {rule.pattern || "New rule"}
+              </span>
+              {rule.name && (
+                <span className="text-text-secondary truncate">
+                  {rule.name}
+                </span>
+              )}
+              <span className="ml-auto text-xs text-text-secondary truncate">
+                {describePasteRule(rule)}
+              </span>
+              <button
+                type="button"
+                onClick={() => handleMove(index, -1)}
+                disabled={index === 0}
+                className="p-0.5 hover:bg-button-second-bg-hover rounded disabled:opacity-30"
+                title="Move up"
+              >
+                <ArrowUp size={14} />
+              </button>
+              <button
+                type="button"
+                onClick={() => handleMove(index, 1)}
+                disabled={index === rules.length - 1}
+                className="p-0.5 hover:bg-button-second-bg-hover rounded disabled:opacity-30"
+                title="Move down"
+              >
+                <ArrowDown size={14} />
+              </button>
+              <button
+                type="button"
+                onClick={() => handleRemove(rule.id)}
+                className="p-0.5 text-red-500 hover:bg-button-second-bg-hover rounded"
+                title="Delete the rule"
+              >
+                <Trash2 size={14} />
+              </button>
+            </div>
+
+            {/* Rule editor */}
+            {isExpanded && (
+              <div className="grid grid-cols-[10rem_1fr] items-center gap-x-3 gap-y-2 px-8 pb-3 text-sm">
+                <span>Site</span>
+                <div>
+                  <input
+                    type="text"
+                    value={rule.pattern}
+                    onChange={(e) =>
+                      updateRule(rule.id, { pattern: e.target.value })
+                    }
+                    placeholder="*.example.com or docs.example.com/editor/*"
+                    className={`w-full font-mono ${fieldClass}`}
+                  />
+                  {patternError && (
+                    <p className="text-xs text-red-500">{patternError}</p>
+                  )}
+                </div>
+
+                <span>Name</span>
+                <input
+                  type="text"
+                  value={rule.name}
+                  onChange={(e) =>
+                    updateRule(rule.id, { name: e.target.value })
+                  }
+                  placeholder="Optional"
+                  className={fieldClass}
+                />
+
+                <span>Turn off</span>
+                <label className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={!!rule.disableExtension}
+                    onChange={(e) =>
+                      updateRule(rule.id, {
+                        disableExtension: e.target.checked || undefined,
+                      })
+                    }
+                  />
+                  <span className="text-text-secondary">
+                    No pasting, text expander or copy capture on this site
+                  </span>
+                </label>
+
+                {!rule.disableExtension && (
+                  <>
+                    <span>Paste as</span>
+                    <select
+                      value={rule.format || ""}
+                      onChange={(e) =>
+                        updateRule(rule.id, {
+                          format:
+                            (e.target.value as PasteRule["format"]) ||
+                            undefined,
+                        })
+                      }
+                      className={fieldClass}
+                    >
+                      <option value="">The item's own type</option>
+                      <option value="plain">Plain text</option>
+                      <option value="html">HTML</option>
+                    </select>
+
+                    <span>Text</span>
+                    <div className="flex flex-wrap gap-4">
+                      <label className="flex items-center gap-2">
+                        <input
+                          type="checkbox"
+                          checked={!!rule.collapseNewlines}
+                          onChange={(e) =>
+                            updateRule(rule.id, {
+                              collapseNewlines: e.target.checked || undefined,
+                            })
+                          }
+                        />
+                        Join lines into one
+                      </label>
+                      <label className="flex items-center gap-2">
+                        <input
+                          type="checkbox"
+                          checked={!!rule.trimTrailingWhitespace}
+                          onChange={(e) =>
+                            updateRule(rule.id, {
+                              trimTrailingWhitespace:
+                                e.target.checked || undefined,
+                            })
+                          }
+                        />
+                        Strip trailing whitespace
+                      </label>
+                    </div>
+
+                    <span>Insert by</span>
+                    <select
+                      value={rule.insertMethod || ""}
+                      onChange={(e) =>
+                        updateRule(rule.id, {
+                          insertMethod:
+                            (e.target.value as PasteRule["insertMethod"]) ||
+                            undefined,
+                        })
+                      }
+                      className={fieldClass}
+                    >
+                      <option value="">Automatic</option>
+                      <option value="execCommand">
+                        Typing it in (execCommand)
+                      </option>
+                      <option value="value">
+                        Setting the value or DOM directly
+                      </option>
+                      <option value="pasteEvent">
+                        The site's own paste handling (paste event)
+                      </option>
+                    </select>
+
+                    <span>Delay (ms)</span>
+                    <div>
+                      <input
+                        type="number"
+                        min={0}
+                        max={MAX_PASTE_DELAY_MS}
+                        step={50}
+                        value={rule.delayMs ?? ""}
+                        onChange={(e) =>
+                          updateRule(rule.id, {
+                            delayMs:
+                              e.target.value.trim() === ""
+                                ? undefined
+                                : Number(e.target.value),
+                          })
+                        }
+                        placeholder="0"
+                        className={`w-28 ${fieldClass}`}
+                      />
+                      {delayError && (
+                        <p className="text-xs text-red-500">{delayError}</p>
+                      )}
+                    </div>
+
+                    <span>Favorite shortcut</span>
+                    <select
+                      value={rule.favoriteItemId || ""}
+                      onChange={(e) =>
+                        updateRule(rule.id, {
+                          favoriteItemId: e.target.value || undefined,
+                        })
+                      }
+                      className={fieldClass}
+                    >
+                      <option value="">Pastes the usual favorite</option>
+                      {rule.favoriteItemId &&
+                        !items.some(
+                          (item) => item.id === rule.favoriteItemId
+                        ) && (
+                          <option value={rule.favoriteItemId}>
+                            Missing item (the usual favorite is pasted)
+                          </option>
+                        )}
+                      {items
+                        .filter((item) => item.type !== "image")
+                        .map((item) => (
+                          <option key={item.id} value={item.id}>
+                            Pastes "{item.title}"
+                          </option>
+                        ))}
+                    </select>
+                  </>
+                )}
+              </div>
+            )}
+          </div>
+        );
+      })}
+
+      <div className="flex items-center gap-2 text-sm">
+        <button
+          type="button"
+          onClick={handleAdd}
+          className="flex items-center gap-1 px-3 py-1 bg-button-second-bg text-text-primary rounded hover:bg-button-second-bg-hover transition-colors"
+        >
+          <Plus size={14} />
+          Add rule
+        </button>
+        <button
+          type="button"
+          onClick={handleExport}
+          disabled={rules.length === 0}
+          className="flex items-center gap-1 px-3 py-1 text-text-secondary hover:text-text-primary transition-colors disabled:opacity-50"
+        >
+          <Download size={14} />
+          Export
+        </button>
+        <button
+          type="button"
+          onClick={() => fileInput.current?.click()}
+          className="flex items-center gap-1 px-3 py-1 text-text-secondary hover:text-text-primary transition-colors"
+        >
+          <Upload size={14} />
+          Import
+        </button>
+        <input
+          ref={fileInput}
+          type="file"
+          accept="application/json,.json"
+          onChange={handleImport}
+          className="hidden"
+        />
+        {importError && (
+          <span className="text-xs text-red-500">{importError}</span>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PasteRulesEditor;
@@ -0,0 +1,177 @@
+import React, { useState } from "react";
+import {
+  Trash2,
+  FolderInput,
+  Tag,
+  Heart,
+  Download,
+  Combine,
+  Copy,
+  X,
+} from "lucide-react";
+import { ClipboardFolder } from "../../../types/clipboard";
+import { JOIN_SEPARATORS } from "../../../shared/utils/bulk-actions";
+import { sortFolders } from "../../../shared/utils/tree-order";
+
+const CUSTOM_SEPARATOR = "custom";
+
+interface BulkActionBarProps {
+  count: number;
+  folders: ClipboardFolder[];
+  onDelete: () => void;
+  onMove: (folderId: string | undefined) => void;
+  onTag: (tag: string) => void;
+  onToggleFavorite: () => void;
+  onExport: () => void;
+  onMerge: (separator: string) => void;
+  onCopy: (separator: string) => void;
+  onClear: () => void;
+}
+
+const BulkActionBar: React.FC<BulkActionBarProps> = ({
+  count,
+  folders,
+  onDelete,
+  onMove,
+  onTag,
+  onToggleFavorite,
+  onExport,
+  onMerge,
+  onCopy,
+  onClear,
+}) => {
+  const [separatorChoice, setSeparatorChoice] = useState(
+    JOIN_SEPARATORS[0].value
+  );
+  const [customSeparator, setCustomSeparator] = useState("");
+
+  // "\n" and "\t" typed into the custom field mean a new line and a tab
+  const separator =
+    separatorChoice === CUSTOM_SEPARATOR
+      ? customSeparator.replace(/\\n/g, "\n").replace(/\\t/g, "\t")
+      : separatorChoice;
+
+  const renderFolderOptions = (
+    list: ClipboardFolder[],
+    level = 0
+  ): JSX.Element[] =>
+    sortFolders(list).flatMap((folder) => [
+      <option key={folder.id} value={folder.id}>
+        {"  ".repeat(level)}
+        {folder.name}
+      </option>,
+      ...renderFolderOptions(folder.children, level + 1),
+    ]);
+
+  const handleTag = () => {
+    const tag = prompt(`Tag for ${count} items:`);
+    if (tag?.trim()) {
+      onTag(tag.trim());
+    }
+  };
+
+  const buttonClass =
+    "flex items-center gap-1 px-2 py-1 rounded hover:bg-button-second-bg-hover transition-colors";
+
+  return (
+    <div className="flex flex-wrap items-center gap-1 px-4 py-2 border-b border-border-default bg-primary/5 text-xs">
+      <span className="font-medium mr-2">{count} selected</span>
+
+      <button onClick={onDelete} className={`${buttonClass} text-red-500`}>
+        <Trash2 size={12} />
+        Delete
+      </button>
+
+      <label className={buttonClass} title="Move the selected items">
+        <FolderInput size={12} />
+        <select
+          value=""
+          onChange={(e) => {
+            if (e.target.value) {
+              onMove(e.target.value === "root" ? undefined : e.target.value);
+            }
+          }}
+          className="bg-transparent focus:outline-none"
+        >
+          <option value="">Move to...</option>
+          <option value="root">Top level</option>
+          {renderFolderOptions(folders)}
+        </select>
+      </label>
+
+      <button onClick={handleTag} className={buttonClass}>
+        <Tag size={12} />
+        Tag
+      </button>
+
+      <button
+        onClick={onToggleFavorite}
+        className={buttonClass}
+        title="Put the selected items in free favorite slots, or clear their slots"
+      >
+        <Heart size={12} />
+        Favorite
+      </button>
+
+      <button onClick={onExport} className={buttonClass}>
+        <Download size={12} />
+        Export
+      </button>
+
+      <span className="mx-1 h-4 border-l border-border-default" />
+
+      <label
+        className="flex items-center gap-1"
+        title="Goes between the items when copying or merging"
+      >
+        Join with
+        <select
+          value={separatorChoice}
+          onChange={(e) => setSeparatorChoice(e.target.value)}
+          className="bg-input-background border border-border-default rounded px-1 py-0.5 focus:outline-none"
+        >
+          {JOIN_SEPARATORS.map(({ label, value }) => (
+            <option key={label} value={value}>
+              {label}
+            </option>
+          ))}
+          <option value={CUSTOM_SEPARATOR}>Custom...</option>
+        </select>
+      </label>
+      {separatorChoice === CUSTOM_SEPARATOR && (
+        <input
+          type="text"
+          value={customSeparator}
+          onChange={(e) => setCustomSeparator(e.target.value)}
+          placeholder="e.g. ; or \n---\n"
+          className="w-24 px-1 py-0.5 bg-input-background border border-border-default rounded focus:outline-none focus:ring-2 focus:ring-primary"
+        />
+      )}
+
+      <button onClick={() => onCopy(separator)} className={buttonClass}>
+        <Copy size={12} />
+        Copy all
+      </button>
+
+      <button
+        onClick={() => onMerge(separator)}
+        disabled={count < 2}
+        className={`${buttonClass} disabled:opacity-50 disabled:cursor-not-allowed`}
+        title="Replace the selected items with one item holding all of them"
+      >
+        <Combine size={12} />
+        Merge
+      </button>
+
+      <button
+        onClick={onClear}
+        className="ml-auto p-1 rounded hover:bg-button-second-bg-hover"
+        title="Clear the selection"
+      >
+        <X size={12} />
+      </button>
+    </div>
+  );
+};
+
+export default BulkActionBar;
@@ -13,8 +13,23 @@ import {
   Heart,
   Shield,
   AlertTriangle,
+  EyeOff,
+  Lock,
+  History,
+  Timer,
 } from "lucide-react";
-import { ClipboardItem } from "../../../types/clipboard";
+import { ClipboardItem, ItemRevision } from "../../../types/clipboard";
+import { FAVORITE_SLOTS } from "../../../shared/utils/favorite-slots";
+import { validateAbbreviation } from "../../../shared/utils/abbreviations";
+import { describeSensitiveKinds } from "../../../shared/utils/sensitive-content";
+import { collectTags } from "../../../shared/utils/tags";
+import {
+  describeExpiry,
+  hasExpiryRule,
+} from "../../../shared/utils/item-expiry";
+import TagInput from "./TagInput";
+import ItemRevisionsPanel from "./ItemRevisionsPanel";
+import ItemExpiryEditor from "./ItemExpiryEditor";
 import {
   sanitizeHTML,
   isSafeHTML,
@@ -26,6 +41,10 @@ interface ClipboardContentViewerProps {
   onCopyToClipboard: (content: string) => void;
   onUpdateItem?: (id: string, updates: Partial<ClipboardItem>) => void;
   onToggleFavorite?: (id: string) => void;
+  allItems?: ClipboardItem[];
+  onAssignSlot?: (id: string, slot: number | null) => void;
+  revisions?: ItemRevision[]; // Earlier versions of the item, newest first
+  onRollback?: (id: string, revisionId: string) => void;
 }
 
 const ClipboardContentViewer: React.FC<ClipboardContentViewerProps> = ({
@@ -33,11 +52,21 @@ const ClipboardContentViewer: React.FC<ClipboardContentViewerProps> = ({
   onCopyToClipboard,
   onUpdateItem,
   onToggleFavorite,
+  allItems = [],
+  onAssignSlot,
+  revisions = [],
+  onRollback,
 }) => {
   const [isEditing, setIsEditing] = useState(false);
   const [editTitle, setEditTitle] = useState("");
   const [editContent, setEditContent] = useState("");
+  const [editAbbreviation, setEditAbbreviation] = useState("");
   const [showRawContent] = useState(false);
+  // Sensitive items stay hidden until revealed; switching items hides them again
+  const [revealedItemId, setRevealedItemId] = useState<string | null>(null);
+  // The edit history replaces the content while open, for that item only
+  const [historyItemId, setHistoryItemId] = useState<string | null>(null);
+  const [expiryItemId, setExpiryItemId] = useState<string | null>(null);
   const [htmlRenderMode, setHtmlRenderMode] = useState<"safe" | "raw" | "text">(
     "safe"
   );
@@ -57,6 +86,16 @@ const ClipboardContentViewer: React.FC<ClipboardContentViewerProps> = ({
     };
   }, [item]);
 
+  const abbreviationError = useMemo(
+    () =>
+      isEditing && item
+        ? validateAbbreviation(editAbbreviation, allItems, item.id)
+        : null,
+    [isEditing, editAbbreviation, allItems, item]
+  );
+
+  const knownTags = useMemo(() => collectTags(allItems), [allItems]);
+
   if (!item) {
     return (
       <div className="flex-1 flex items-center justify-center rounded-lg bg-card-background">
@@ -73,6 +112,14 @@ const ClipboardContentViewer: React.FC<ClipboardContentViewerProps> = ({
     return new Date(timestamp).toLocaleString();
   };
 
+  const hostnameOf = (url: string): string => {
+    try {
+      return new URL(url).hostname;
+    } catch {
+      return url;
+    }
+  };
+
   const formatFileSize = (bytes: number): string => {
     if (bytes < 1024) return `${bytes} B`;
     if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
@@ -95,18 +142,25 @@ const ClipboardContentViewer: React.FC<ClipboardContentViewerProps> = ({
   const handleStartEdit = () => {
     setEditTitle(item.title);
     setEditContent(item.content);
+    setEditAbbreviation(item.abbreviation ?? "");
     setIsEditing(true);
   };
 
   const handleSaveEdit = () => {
+    if (abbreviationError) return;
+
+    const abbreviation = editAbbreviation.trim() || undefined;
     if (
       onUpdateItem &&
-      (editTitle !== item.title || editContent !== item.content)
+      (editTitle !== item.title ||
+        editContent !== item.content ||
+        abbreviation !== item.abbreviation)
     ) {
       onUpdateItem(item.id, {
         title: editTitle.trim() || item.title,
         content: editContent,
         size: new Blob([editContent]).size,
+        abbreviation,
       });
     }
     setIsEditing(false);
@@ -116,6 +170,7 @@ const ClipboardContentViewer: React.FC<ClipboardContentViewerProps> = ({
     setIsEditing(false);
     setEditTitle("");
     setEditContent("");
+    setEditAbbreviation("");
   };
 
   const handleDownload = () => {
@@ -142,6 +197,11 @@ const ClipboardContentViewer: React.FC<ClipboardContentViewerProps> = ({
     }
   };
 
+  // Popup asks before taking the slot from another item
+  const handleSlotChange = (value: string) => {
+    onAssignSlot?.(item.id, value === "" ? null : Number(value));
+  };
+
   const renderSafeHTMLContent = (content: string) => {
     return (
       <div className="space-y-3">
@@ -165,6 +225,32 @@ const ClipboardContentViewer: React.FC<ClipboardContentViewerProps> = ({
   const renderContent = () => {
     const content = isEditing ? editContent : item.content;
 
+    if (historyItemId === item.id && !isEditing && onRollback) {
+      return (
+        <ItemRevisionsPanel
+          item={item}
+          revisions={revisions}
+          onRollback={(revisionId) => onRollback(item.id, revisionId)}
+          onClose={() => setHistoryItemId(null)}
+        />
+      );
+    }
+
+    if (item.sensitive?.length && !isEditing && revealedItemId !== item.id) {
+      return (
+        <button
+          onClick={() => setRevealedItemId(item.id)}
+          className="w-full flex flex-col items-center justify-center gap-2 h-40 bg-input-background rounded border border-dashed border-border-default text-text-secondary hover:text-text-primary transition-colors"
+        >
+          <EyeOff size={20} />
+          <span className="text-sm">
+            Hidden: {describeSensitiveKinds(item.sensitive)}
+          </span>
+          <span className="text-xs">Click to reveal</span>
+        </button>
+      );
+    }
+
     if (item.type === "image" && content.startsWith("data:image")) {
       return (
         <div className="space-y-3">
@@ -257,6 +343,19 @@ const ClipboardContentViewer: React.FC<ClipboardContentViewerProps> = ({
 
     return (
       <div className="space-y-3">
+        {isEditing && (
+          <div>
+            <input
+              value={editAbbreviation}
+              onChange={(e) => setEditAbbreviation(e.target.value)}
+              className="w-full px-3 py-1.5 border border-border-default rounded bg-input-background text-text-primary font-mono text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+              placeholder="Abbreviation (e.g. ;sig) — expands when typed"
+            />
+            {abbreviationError && (
+              <p className="mt-1 text-xs text-red-500">{abbreviationError}</p>
+            )}
+          </div>
+        )}
         {isEditing ? (
           <textarea
             value={editContent}
@@ -296,6 +395,15 @@ const ClipboardContentViewer: React.FC<ClipboardContentViewerProps> = ({
                     className="text-red-500 fill-current flex-shrink-0"
                   />
                 )}
+                {item.sensitive?.length ? (
+                  <span
+                    className="flex items-center gap-1 px-1.5 py-0.5 rounded text-[10px] font-medium bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-300 flex-shrink-0"
+                    title={describeSensitiveKinds(item.sensitive)}
+                  >
+                    <Lock size={10} />
+                    sensitive
+                  </span>
+                ) : null}
                 {/* Security indicator for HTML */}
                 {item.type === "html" &&
                   htmlInfo &&
@@ -313,6 +421,40 @@ const ClipboardContentViewer: React.FC<ClipboardContentViewerProps> = ({
               <span>{formatFileSize(item.size)}</span>
               <span>•</span>
               <span className="capitalize">{item.type}</span>
+              {item.slot && (
+                <>
+                  <span>•</span>
+                  <span>Slot {item.slot}</span>
+                </>
+              )}
+              {item.abbreviation && (
+                <>
+                  <span>•</span>
+                  <span className="font-mono" title="Text expander trigger">
+                    {item.abbreviation}
+                  </span>
+                </>
+              )}
+              {hasExpiryRule(item) && (
+                <>
+                  <span>•</span>
+                  <span>{describeExpiry(item)}</span>
+                </>
+              )}
+              {item.sourceUrl && (
+                <>
+                  <span>•</span>
+                  <a
+                    href={item.sourceUrl}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="truncate max-w-[200px] hover:underline"
+                    title={item.sourceTitle || item.sourceUrl}
+                  >
+                    Copied from {hostnameOf(item.sourceUrl)}
+                  </a>
+                </>
+              )}
             </div>
           </div>
         </div>
@@ -323,7 +465,8 @@ const ClipboardContentViewer: React.FC<ClipboardContentViewerProps> = ({
             <>
               <button
                 onClick={handleSaveEdit}
-                className="flex items-center gap-1 px-2 py-1 bg-primary text-white text-xs rounded hover:bg-primary/90 transition-colors"
+                disabled={!!abbreviationError}
+                className="flex items-center gap-1 px-2 py-1 bg-primary text-white text-xs rounded hover:bg-primary/90 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
               >
                 <Save size={12} />
                 Save
@@ -366,6 +509,28 @@ const ClipboardContentViewer: React.FC<ClipboardContentViewerProps> = ({
                 </button>
               )}
 
+              {onAssignSlot && (
+                <select
+                  value={item.slot ?? ""}
+                  onChange={(e) => handleSlotChange(e.target.value)}
+                  className="px-1.5 py-1 bg-button-second-bg text-text-primary text-xs rounded hover:bg-button-second-bg-hover focus:outline-none focus:ring-2 focus:ring-primary"
+                  title="Favorite slot (Ctrl+Alt+number)"
+                >
+                  <option value="">No slot</option>
+                  {FAVORITE_SLOTS.map((slot) => {
+                    const owner = allItems.find(
+                      (other) => other.slot === slot && other.id !== item.id
+                    );
+                    return (
+                      <option key={slot} value={slot}>
+                        Slot {slot}
+                        {owner ? ` (${owner.title.substring(0, 20)})` : ""}
+                      </option>
+                    );
+                  })}
+                </select>
+              )}
+
               {onUpdateItem && (
                 <button
                   onClick={handleStartEdit}
@@ -376,6 +541,39 @@ const ClipboardContentViewer: React.FC<ClipboardContentViewerProps> = ({
                 </button>
               )}
 
+              {onUpdateItem && (
+                <button
+                  onClick={() =>
+                    setExpiryItemId(expiryItemId === item.id ? null : item.id)
+                  }
+                  className={`flex items-center gap-1 px-2 py-1 text-xs rounded transition-colors ${
+                    hasExpiryRule(item)
+                      ? "bg-primary/15 text-primary hover:bg-primary/25"
+                      : "bg-button-second-bg text-text-primary hover:bg-button-second-bg-hover"
+                  }`}
+                  title="Expire after a time or a number of pastes"
+                >
+                  <Timer size={12} />
+                </button>
+              )}
+
+              {onRollback && item.type !== "image" && (
+                <button
+                  onClick={() =>
+                    setHistoryItemId(historyItemId === item.id ? null : item.id)
+                  }
+                  className={`flex items-center gap-1 px-2 py-1 text-xs rounded transition-colors ${
+                    historyItemId === item.id
+                      ? "bg-primary text-white hover:bg-primary/90"
+                      : "bg-button-second-bg text-text-primary hover:bg-button-second-bg-hover"
+                  }`}
+                  title="Edit history"
+                >
+                  <History size={12} />
+                  {revisions.length > 0 && revisions.length}
+                </button>
+              )}
+
               <button
                 onClick={handleDownload}
                 className="flex items-center gap-1 px-2 py-1 bg-button-second-bg text-text-primary text-xs rounded hover:bg-button-second-bg-hover transition-colors"
@@ -398,6 +596,25 @@ const ClipboardContentViewer: React.FC<ClipboardContentViewerProps> = ({
         </div>
       </div>
 
+      {onUpdateItem && expiryItemId === item.id && (
+        <ItemExpiryEditor
+          item={item}
+          onSave={(updates) => onUpdateItem(item.id, updates)}
+          onClose={() => setExpiryItemId(null)}
+        />
+      )}
+
+      {/* Tags are saved as soon as they change, outside of edit mode */}
+      {onUpdateItem && (
+        <div className="mb-4 flex-shrink-0">
+          <TagInput
+            tags={item.tags || []}
+            knownTags={knownTags}
+            onChange={(tags) => onUpdateItem(item.id, { tags })}
+          />
+        </div>
+      )}
+
       {/* Content - More compact */}
       <div className="flex-1 overflow-auto">{renderContent()}</div>
     </div>
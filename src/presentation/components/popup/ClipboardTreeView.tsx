@@ -1,4 +1,16 @@
-import React, { useState } from "react";
+import React, { useEffect, useState } from "react";
+import {
+  Announcements,
+  DndContext,
+  DragEndEvent,
+  DragMoveEvent,
+  DragOverlay,
+  DragStartEvent,
+  KeyboardSensor,
+  PointerSensor,
+  useSensor,
+  useSensors,
+} from "@dnd-kit/core";
 import {
   Folder,
   FolderOpen,
@@ -13,20 +25,104 @@ import {
   Plus,
   FolderPlus,
   Heart,
+  Hash,
+  History,
+  Tag,
+  X,
+  FolderSearch,
+  Pencil,
+  Download,
+  FolderInput,
+  Timer,
 } from "lucide-react";
-import { ClipboardFolder, ClipboardItem } from "../../../types/clipboard";
+import {
+  ClipboardFolder,
+  ClipboardItem,
+  SmartFolder,
+} from "../../../types/clipboard";
+import { FAVORITE_SLOTS } from "../../../shared/utils/favorite-slots";
+import { isHistoryFolder } from "../../../shared/utils/clipboard-history";
+import { collectTags } from "../../../shared/utils/tags";
+import {
+  describeExpiry,
+  formatExpiryBadge,
+  hasExpiryRule,
+} from "../../../shared/utils/item-expiry";
+import {
+  highlightMatches,
+  matchSnippet,
+} from "../../../shared/utils/search-index";
+import {
+  MoveAnchor,
+  canMoveFolder,
+  findParentFolderId,
+  sortFolders,
+  sortItems,
+} from "../../../shared/utils/tree-order";
+import DraggableTreeRow, {
+  DropPosition,
+  TreeDragData,
+  TreeDropZone,
+  ROOT_DROP_ID,
+  getDropPosition,
+  treeCollisionDetection,
+  treeDragId,
+  treeKeyboardCoordinates,
+} from "./DraggableTreeRow";
+
+// How often expiry countdowns are brought up to date
+const EXPIRY_TICK_MS = 30 * 1000;
+
+// A saved search and the items it currently matches
+export interface SmartFolderEntry {
+  smartFolder: SmartFolder;
+  items: ClipboardItem[];
+}
+
+// Resolved drop of the current drag, null when it would do nothing
+type TreeMove =
+  | { kind: "items"; itemIds: string[]; folderId?: string; anchor?: MoveAnchor }
+  | { kind: "folder"; folderId: string; parentId?: string; anchor?: MoveAnchor };
 
 interface ClipboardTreeViewProps {
   folders: ClipboardFolder[];
   items: ClipboardItem[];
   selectedItemId?: string;
   onSelectItem: (item: ClipboardItem) => void;
+  // Checkboxes and Ctrl/Cmd-click toggle items, Shift-click selects a range
+  selectedItemIds?: string[];
+  onSelectionChange?: (itemIds: string[]) => void;
+  onMoveItems?: (
+    itemIds: string[],
+    folderId: string | undefined,
+    anchor?: MoveAnchor
+  ) => void;
+  onMoveFolder?: (
+    folderId: string,
+    parentId: string | undefined,
+    anchor?: MoveAnchor
+  ) => void;
   onDeleteItem: (id: string) => void;
   onDeleteFolder: (id: string) => void;
   onCreateFolder: (name: string, parentId?: string) => void;
   onToggleFolder: (id: string) => void;
   onToggleFavorite: (id: string) => void;
+  onAssignSlot?: (id: string, slot: number | null) => void;
   onCreateItemInFolder?: (folderId?: string) => void;
+  onTagItems?: (itemIds: string[], tag: string) => void;
+  onUntagItems?: (itemIds: string[], tag: string) => void;
+  // Shown above the folders; never a place to put items in
+  smartFolders?: SmartFolderEntry[];
+  onToggleSmartFolder?: (id: string) => void;
+  onUpdateSmartFolder?: (
+    id: string,
+    updates: Partial<Pick<SmartFolder, "name" | "query">>
+  ) => void;
+  onDeleteSmartFolder?: (id: string) => void;
+  onExportSmartFolder?: (id: string) => void;
+  // Search results: items are already in order and shown as a flat list
+  ranked?: boolean;
+  highlightWords?: string[];
 }
 
 const ClipboardTreeView: React.FC<ClipboardTreeViewProps> = ({
@@ -34,19 +130,58 @@ const ClipboardTreeView: React.FC<ClipboardTreeViewProps> = ({
   items,
   selectedItemId,
   onSelectItem,
+  selectedItemIds = [],
+  onSelectionChange,
+  onMoveItems,
+  onMoveFolder,
   onDeleteItem,
   onDeleteFolder,
   onCreateFolder,
   onToggleFolder,
   onToggleFavorite,
+  onAssignSlot,
   onCreateItemInFolder,
+  onTagItems,
+  onUntagItems,
+  smartFolders = [],
+  onToggleSmartFolder,
+  onUpdateSmartFolder,
+  onDeleteSmartFolder,
+  onExportSmartFolder,
+  ranked = false,
+  highlightWords = [],
 }) => {
   const [contextMenu, setContextMenu] = useState<{
     x: number;
     y: number;
-    type: "item" | "folder";
-    target: ClipboardItem | ClipboardFolder;
+    type: "item" | "folder" | "smartFolder";
+    target: ClipboardItem | ClipboardFolder | SmartFolder;
   } | null>(null);
+  // Item the last plain or Ctrl/Cmd click landed on, where Shift ranges start
+  const [selectionAnchor, setSelectionAnchor] = useState<string | null>(null);
+  const [dragged, setDragged] = useState<TreeDragData | null>(null);
+  const [dropTarget, setDropTarget] = useState<{
+    id: string;
+    position: DropPosition;
+    move: TreeMove | null;
+  } | null>(null);
+
+  // Countdown badges tick while any item has an expiry rule
+  const [now, setNow] = useState(Date.now());
+  const hasExpiringItems = items.some(hasExpiryRule);
+  useEffect(() => {
+    if (!hasExpiringItems) return;
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), EXPIRY_TICK_MS);
+    return () => clearInterval(timer);
+  }, [hasExpiringItems]);
+
+  const sensors = useSensors(
+    // A few pixels of movement before dragging, so rows stay clickable
+    useSensor(PointerSensor, { activationConstraint: { distance: 5 } }),
+    useSensor(KeyboardSensor, { coordinateGetter: treeKeyboardCoordinates })
+  );
+  const canDrag = !ranked && (!!onMoveItems || !!onMoveFolder);
 
   const getItemIcon = (type: ClipboardItem["type"]) => {
     switch (type) {
@@ -97,17 +232,221 @@ const ClipboardTreeView: React.FC<ClipboardTreeViewProps> = ({
 
   const storageInfo = calculateStorageInfo();
 
-  // Sort items: favorites first, then by timestamp
-  const sortedItems = [...items].sort((a, b) => {
-    if (a.isFavorite && !b.isFavorite) return -1;
-    if (!a.isFavorite && b.isFavorite) return 1;
-    return b.timestamp - a.timestamp;
-  });
+  const folderNames = new Map<string, string>();
+  const collectFolderNames = (folder: ClipboardFolder) => {
+    folderNames.set(folder.id, folder.name);
+    folder.children.forEach(collectFolderNames);
+  };
+  folders.forEach(collectFolderNames);
+
+  // Manual order first, then favorites and newest (see tree-order.ts).
+  // Search results keep their ranking.
+  const sortedItems = ranked ? items : sortItems(items);
+
+  // Item rows in the order they are drawn, for Shift-click ranges
+  const visibleItemIds: string[] = [];
+
+  const toggleSelected = (item: ClipboardItem) => {
+    onSelectionChange?.(
+      selectedItemIds.includes(item.id)
+        ? selectedItemIds.filter((id) => id !== item.id)
+        : [...selectedItemIds, item.id]
+    );
+    setSelectionAnchor(item.id);
+  };
+
+  // False when there is no range to select from the anchor
+  const selectRange = (item: ClipboardItem): boolean => {
+    if (!onSelectionChange || !selectionAnchor) return false;
+    const from = visibleItemIds.indexOf(selectionAnchor);
+    const to = visibleItemIds.indexOf(item.id);
+    if (from < 0 || to < 0) return false;
+
+    onSelectionChange(
+      visibleItemIds.slice(Math.min(from, to), Math.max(from, to) + 1)
+    );
+    return true;
+  };
+
+  const handleItemClick = (e: React.MouseEvent, item: ClipboardItem) => {
+    if (onSelectionChange && (e.ctrlKey || e.metaKey)) {
+      toggleSelected(item);
+      return;
+    }
+    if (e.shiftKey && selectRange(item)) return;
+
+    setSelectionAnchor(item.id);
+    onSelectItem(item);
+  };
+
+  // The checkbox toggles like Ctrl/Cmd-click, with Shift it selects a range
+  const handleCheckboxClick = (e: React.MouseEvent, item: ClipboardItem) => {
+    e.stopPropagation();
+    if (e.shiftKey && selectRange(item)) return;
+    toggleSelected(item);
+  };
+
+  // Dragging one of several selected items moves all of them
+  const getDraggedItemIds = (item: ClipboardItem): string[] =>
+    selectedItemIds.length > 1 && selectedItemIds.includes(item.id)
+      ? selectedItemIds
+      : [item.id];
+
+  const resolveMove = (
+    source: TreeDragData,
+    target: TreeDragData,
+    position: DropPosition
+  ): TreeMove | null => {
+    if (source.kind === "item") {
+      const itemIds = getDraggedItemIds(source.item);
+      if (target.kind === "root") return { kind: "items", itemIds };
+      if (target.kind === "folder") {
+        return { kind: "items", itemIds, folderId: target.folder.id };
+      }
+      if (itemIds.includes(target.item.id)) return null;
+      return {
+        kind: "items",
+        itemIds,
+        folderId: target.item.folderId,
+        anchor: {
+          id: target.item.id,
+          position: position === "after" ? "after" : "before",
+        },
+      };
+    }
+
+    if (source.kind !== "folder" || target.kind === "item") return null;
+    const folderId = source.folder.id;
+    if (target.kind === "root") {
+      return canMoveFolder(folders, folderId)
+        ? { kind: "folder", folderId }
+        : null;
+    }
+    if (target.folder.id === folderId) return null;
+    if (position === "inside") {
+      return canMoveFolder(folders, folderId, target.folder.id)
+        ? { kind: "folder", folderId, parentId: target.folder.id }
+        : null;
+    }
+    const parentId = findParentFolderId(folders, target.folder.id);
+    return canMoveFolder(folders, folderId, parentId)
+      ? {
+          kind: "folder",
+          folderId,
+          parentId,
+          anchor: { id: target.folder.id, position },
+        }
+      : null;
+  };
+
+  const handleDragStart = ({ active }: DragStartEvent) => {
+    setDragged(active.data.current as TreeDragData);
+    closeContextMenu();
+  };
+
+  const handleDragMove = ({ active, over }: DragMoveEvent) => {
+    if (!over || over.id === active.id) {
+      setDropTarget(null);
+      return;
+    }
+    const source = active.data.current as TreeDragData;
+    const target = over.data.current as TreeDragData;
+    // Items can't go between folders, only into them
+    const position =
+      source.kind === "item" && target.kind === "folder"
+        ? "inside"
+        : getDropPosition(target, active.rect.current.translated, over.rect);
+
+    if (
+      dropTarget?.id !== over.id ||
+      dropTarget.position !== position
+    ) {
+      setDropTarget({
+        id: String(over.id),
+        position,
+        move: resolveMove(source, target, position),
+      });
+    }
+  };
+
+  const handleDragEnd = (_event: DragEndEvent) => {
+    const move = dropTarget?.move;
+    setDragged(null);
+    setDropTarget(null);
+    if (!move) return;
+
+    if (move.kind === "items") {
+      onMoveItems?.(move.itemIds, move.folderId, move.anchor);
+    } else {
+      onMoveFolder?.(move.folderId, move.parentId, move.anchor);
+    }
+  };
+
+  const handleDragCancel = () => {
+    setDragged(null);
+    setDropTarget(null);
+  };
+
+  const describeDragData = (data: TreeDragData | undefined): string => {
+    if (!data || data.kind === "root") return "the top level";
+    if (data.kind === "folder") return `folder ${data.folder.name}`;
+    const count = getDraggedItemIds(data.item).length;
+    return count > 1 ? `${count} items` : data.item.title;
+  };
+
+  // Screen reader messages use names instead of the internal drag ids
+  const announcements: Announcements = {
+    onDragStart: ({ active }) =>
+      `Picked up ${describeDragData(active.data.current as TreeDragData)}.`,
+    onDragOver: ({ active, over }) =>
+      over
+        ? `${describeDragData(
+            active.data.current as TreeDragData
+          )} is over ${describeDragData(over.data.current as TreeDragData)}.`
+        : undefined,
+    onDragEnd: ({ active, over }) =>
+      over
+        ? `Dropped ${describeDragData(
+            active.data.current as TreeDragData
+          )} on ${describeDragData(over.data.current as TreeDragData)}.`
+        : `Dropped ${describeDragData(active.data.current as TreeDragData)}.`,
+    onDragCancel: ({ active }) =>
+      `Moving ${describeDragData(
+        active.data.current as TreeDragData
+      )} was cancelled.`,
+  };
+
+  // Wraps a row in its drag handle and drop target while dragging is on
+  const withDrag = (data: TreeDragData, row: React.ReactElement) => {
+    if (!canDrag) return row;
+    const id = treeDragId(data);
+    const isTarget = dropTarget?.id === id;
+    return (
+      <DraggableTreeRow
+        key={id}
+        data={data}
+        dropPosition={isTarget ? dropTarget!.position : null}
+        canDrop={isTarget ? !!dropTarget!.move : true}
+      >
+        {row}
+      </DraggableTreeRow>
+    );
+  };
+
+  // Folder picker of the context menu's "Move to" section
+  const flattenFolders = (
+    list: ClipboardFolder[],
+    level = 0
+  ): { folder: ClipboardFolder; level: number }[] =>
+    sortFolders(list).flatMap((folder) => [
+      { folder, level },
+      ...flattenFolders(folder.children, level + 1),
+    ]);
 
   const handleContextMenu = (
     e: React.MouseEvent,
-    type: "item" | "folder",
-    target: ClipboardItem | ClipboardFolder
+    type: "item" | "folder" | "smartFolder",
+    target: ClipboardItem | ClipboardFolder | SmartFolder
   ) => {
     e.preventDefault();
     e.stopPropagation();
@@ -131,6 +470,22 @@ const ClipboardTreeView: React.FC<ClipboardTreeViewProps> = ({
     closeContextMenu();
   };
 
+  const handleRenameSmartFolder = (smartFolder: SmartFolder) => {
+    const name = prompt("Smart folder name:", smartFolder.name);
+    if (name?.trim() && onUpdateSmartFolder) {
+      onUpdateSmartFolder(smartFolder.id, { name: name.trim() });
+    }
+    closeContextMenu();
+  };
+
+  const handleEditSmartFolderQuery = (smartFolder: SmartFolder) => {
+    const query = prompt("Search for this smart folder:", smartFolder.query);
+    if (query?.trim() && onUpdateSmartFolder) {
+      onUpdateSmartFolder(smartFolder.id, { query: query.trim() });
+    }
+    closeContextMenu();
+  };
+
   const handleCreateItemInFolder = (folderId?: string) => {
     if (onCreateItemInFolder) {
       onCreateItemInFolder(folderId);
@@ -138,135 +493,317 @@ const ClipboardTreeView: React.FC<ClipboardTreeViewProps> = ({
     closeContextMenu();
   };
 
-  const renderFolder = (folder: ClipboardFolder, level = 0) => {
-    const folderItems = sortedItems.filter(
-      (item) => item.folderId === folder.id
+  const renderSmartFolder = ({
+    smartFolder,
+    items: matches,
+  }: SmartFolderEntry) => (
+    <div key={smartFolder.id} className="folder-container">
+      <div
+        className="flex items-center py-1 px-2 hover:bg-sidebar-item-hover rounded cursor-pointer group"
+        style={{ paddingLeft: "8px" }}
+        onClick={() => onToggleSmartFolder?.(smartFolder.id)}
+        onContextMenu={(e) => handleContextMenu(e, "smartFolder", smartFolder)}
+        title={smartFolder.query}
+      >
+        {matches.length > 0 ? (
+          <span className="mr-1 p-0.5">
+            {smartFolder.expanded ? (
+              <ChevronDown size={12} />
+            ) : (
+              <ChevronRight size={12} />
+            )}
+          </span>
+        ) : (
+          <div className="w-5" />
+        )}
+
+        <FolderSearch size={14} className="mr-2 text-purple-500" />
+
+        <span className="flex-1 text-sm truncate">{smartFolder.name}</span>
+
+        {/* Live count of matching items */}
+        <span className="ml-1 px-1.5 text-[10px] leading-4 rounded-full bg-button-second-bg text-text-secondary">
+          {matches.length}
+        </span>
+
+        <button
+          onClick={(e) => {
+            e.stopPropagation();
+            handleContextMenu(e, "smartFolder", smartFolder);
+          }}
+          className="opacity-0 group-hover:opacity-100 p-1 hover:bg-button-second-bg-hover rounded"
+        >
+          <MoreHorizontal size={12} />
+        </button>
+      </div>
+
+      {smartFolder.expanded && (
+        <div className="folder-content">
+          {matches.map((item) => renderItemRow(item, 1))}
+        </div>
+      )}
+    </div>
+  );
+
+  // Items in a folder and all of its subfolders
+  const getFolderItems = (folder: ClipboardFolder): ClipboardItem[] => [
+    ...items.filter((item) => item.folderId === folder.id),
+    ...folder.children.flatMap(getFolderItems),
+  ];
+
+  // Item ids the context menu's tag actions apply to
+  const getContextMenuItems = (): ClipboardItem[] => {
+    if (!contextMenu) return [];
+    if (contextMenu.type === "item") {
+      return [contextMenu.target as ClipboardItem];
+    }
+    if (contextMenu.type === "smartFolder") {
+      return (
+        smartFolders.find(
+          ({ smartFolder }) => smartFolder.id === contextMenu.target.id
+        )?.items || []
+      );
+    }
+    return getFolderItems(contextMenu.target as ClipboardFolder);
+  };
+
+  const handleTagContextMenuItems = () => {
+    const targets = getContextMenuItems();
+    const tag = prompt(
+      targets.length === 1
+        ? "Tag to add:"
+        : `Tag to add to ${targets.length} items:`
     );
-    const hasItems = folderItems.length > 0 || folder.children.length > 0;
+    if (tag?.trim() && onTagItems && targets.length > 0) {
+      onTagItems(
+        targets.map((item) => item.id),
+        tag
+      );
+    }
+    closeContextMenu();
+  };
+
+  const renderTagActions = () => {
+    if (!onTagItems && !onUntagItems) return null;
+
+    const targets = getContextMenuItems();
+    const tags = collectTags(targets);
 
     return (
-      <div key={folder.id} className="folder-container">
-        <div
-          className="flex items-center py-1 px-2 hover:bg-sidebar-item-hover rounded cursor-pointer group"
-          style={{ paddingLeft: `${level * 16 + 8}px` }}
-          onContextMenu={(e) => handleContextMenu(e, "folder", folder)}
-        >
-          {hasItems ? (
+      <div className="px-3 py-2 border-y border-border-default">
+        <div className="flex items-center gap-2 mb-1.5 text-xs text-text-secondary">
+          <Tag size={12} />
+          Tags
+        </div>
+        <div className="flex flex-wrap gap-1">
+          {onUntagItems &&
+            tags.map(({ tag, count }) => (
+              <button
+                key={tag}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onUntagItems(
+                    targets.map((item) => item.id),
+                    tag
+                  );
+                  closeContextMenu();
+                }}
+                className="flex items-center gap-1 px-1.5 h-6 text-xs rounded bg-primary/15 text-primary hover:bg-primary/25"
+                title={`Remove #${tag} from ${count} item${
+                  count === 1 ? "" : "s"
+                }`}
+              >
+                #{tag}
+                <X size={10} />
+              </button>
+            ))}
+          {onTagItems && (
             <button
-              onClick={() => onToggleFolder(folder.id)}
-              className="mr-1 p-0.5 hover:bg-button-second-bg-hover rounded"
+              onClick={(e) => {
+                e.stopPropagation();
+                handleTagContextMenuItems();
+              }}
+              disabled={targets.length === 0}
+              className="px-2 h-6 text-xs rounded bg-button-second-bg hover:bg-button-second-bg-hover disabled:opacity-50"
             >
-              {folder.expanded ? (
-                <ChevronDown size={12} />
-              ) : (
-                <ChevronRight size={12} />
-              )}
+              <Plus size={10} className="inline mr-0.5" />
+              Add
             </button>
-          ) : (
-            <div className="w-5" />
           )}
-
-          {folder.expanded ? (
-            <FolderOpen size={14} className="mr-2 text-blue-500" />
-          ) : (
-            <Folder size={14} className="mr-2 text-blue-500" />
-          )}
-
-          <span className="flex-1 text-sm truncate">{folder.name}</span>
-
-          <button
-            onClick={(e) => {
-              e.stopPropagation();
-              handleContextMenu(e, "folder", folder);
-            }}
-            className="opacity-0 group-hover:opacity-100 p-1 hover:bg-button-second-bg-hover rounded"
-          >
-            <MoreHorizontal size={12} />
-          </button>
         </div>
+      </div>
+    );
+  };
 
-        {folder.expanded && (
-          <div className="folder-content">
-            {/* Render child folders */}
-            {folder.children.map((child) => renderFolder(child, level + 1))}
+  // "Move to" section of the item and folder menus
+  const renderMoveActions = () => {
+    if (!contextMenu) return null;
 
-            {/* Render items in this folder */}
-            {folderItems.map((item) => (
-              <div
-                key={item.id}
-                className={`flex items-center py-2 px-2 hover:bg-sidebar-item-hover rounded cursor-pointer group relative ${
-                  selectedItemId === item.id
-                    ? "bg-primary/10 border-l-2 border-primary"
-                    : ""
-                }`}
-                style={{ paddingLeft: `${(level + 1) * 16 + 8}px` }}
-                onClick={() => onSelectItem(item)}
-                onContextMenu={(e) => handleContextMenu(e, "item", item)}
-              >
-                {getItemIcon(item.type)}
-                <div className="flex-1 ml-2 min-w-0 pr-6">
-                  <div className="flex items-center gap-1">
-                    <span className="text-sm font-medium truncate">
-                      {item.title}
-                    </span>
-                  </div>
-                  <div className="text-xs text-text-secondary flex items-center gap-2">
-                    <span>{formatFileSize(item.size)}</span>
-                    <span>•</span>
-                    <span>{formatTime(item.timestamp)}</span>
-                  </div>
-                </div>
+    let destinations: { id?: string; name: string; level: number }[];
+    let move: (folderId?: string) => void;
 
-                {/* Favorite heart icon - positioned absolutely */}
-                {item.isFavorite && (
-                  <div className="absolute right-8 top-1/2 transform -translate-y-1/2">
-                    <Heart size={14} className="text-red-500 fill-current" />
-                  </div>
-                )}
+    if (contextMenu.type === "item" && onMoveItems) {
+      const item = contextMenu.target as ClipboardItem;
+      const itemIds = getDraggedItemIds(item);
+      destinations = flattenFolders(folders).map(({ folder, level }) => ({
+        id: folder.id,
+        name: folder.name,
+        level,
+      }));
+      move = (folderId) => onMoveItems(itemIds, folderId);
+    } else if (contextMenu.type === "folder" && onMoveFolder) {
+      const folderId = contextMenu.target.id;
+      destinations = flattenFolders(folders)
+        .filter(({ folder }) => canMoveFolder(folders, folderId, folder.id))
+        .map(({ folder, level }) => ({
+          id: folder.id,
+          name: folder.name,
+          level,
+        }));
+      if (!canMoveFolder(folders, folderId, undefined)) return null;
+      move = (parentId) => onMoveFolder(folderId, parentId);
+    } else {
+      return null;
+    }
 
-                <button
-                  onClick={(e) => {
-                    e.stopPropagation();
-                    handleContextMenu(e, "item", item);
-                  }}
-                  className="opacity-0 group-hover:opacity-100 p-1 hover:bg-button-second-bg-hover rounded"
-                >
-                  <MoreHorizontal size={12} />
-                </button>
-              </div>
-            ))}
-          </div>
-        )}
+    return (
+      <div className="px-3 py-2 border-t border-border-default">
+        <div className="flex items-center gap-2 mb-1.5 text-xs text-text-secondary">
+          <FolderInput size={12} />
+          Move to
+        </div>
+        <div className="max-h-40 overflow-y-auto">
+          {[{ name: "Top level", level: 0 }, ...destinations].map(
+            (destination: { id?: string; name: string; level: number }) => (
+              <button
+                key={destination.id ?? ROOT_DROP_ID}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  move(destination.id);
+                  closeContextMenu();
+                }}
+                className="block w-full text-left px-2 py-1 text-xs rounded hover:bg-dropdown-item-hover truncate"
+                style={{ paddingLeft: `${destination.level * 12 + 8}px` }}
+              >
+                {destination.name}
+              </button>
+            )
+          )}
+        </div>
       </div>
     );
   };
 
-  const renderRootItems = () => {
-    const rootItems = sortedItems.filter((item) => !item.folderId);
+  const renderHighlighted = (text: string) =>
+    highlightWords.length === 0
+      ? text
+      : highlightMatches(text, highlightWords).map((segment, index) =>
+          segment.match ? (
+            <mark
+              key={index}
+              className="bg-yellow-200 dark:bg-yellow-700/60 text-inherit rounded-sm"
+            >
+              {segment.text}
+            </mark>
+          ) : (
+            <React.Fragment key={index}>{segment.text}</React.Fragment>
+          )
+        );
+
+  // Rows inside folders are indented by their depth, search results are
+  // not. Only rows in their real folder can be dragged.
+  const renderItemRow = (
+    item: ClipboardItem,
+    level?: number,
+    draggable = false
+  ) => {
+    const snippet =
+      ranked && highlightWords.length > 0 && item.type !== "image"
+        ? matchSnippet(item.content, highlightWords)
+        : null;
+    visibleItemIds.push(item.id);
 
-    return rootItems.map((item) => (
+    const row = (
       <div
         key={item.id}
         className={`flex items-center py-2 px-2 hover:bg-sidebar-item-hover rounded cursor-pointer group relative ${
-          selectedItemId === item.id
+          selectedItemId === item.id || selectedItemIds.includes(item.id)
             ? "bg-primary/10 border-l-2 border-primary"
             : ""
         }`}
-        onClick={() => onSelectItem(item)}
+        style={
+          level !== undefined
+            ? { paddingLeft: `${level * 16 + 8}px` }
+            : undefined
+        }
+        onClick={(e) => handleItemClick(e, item)}
         onContextMenu={(e) => handleContextMenu(e, "item", item)}
       >
+        {onSelectionChange && (
+          <input
+            type="checkbox"
+            checked={selectedItemIds.includes(item.id)}
+            // State follows the click handler, which also sees Shift
+            onChange={() => {}}
+            onClick={(e) => handleCheckboxClick(e, item)}
+            className={`mr-2 flex-shrink-0 accent-primary ${
+              selectedItemIds.length > 0
+                ? ""
+                : "opacity-0 group-hover:opacity-100 focus:opacity-100"
+            }`}
+            title="Select (Shift selects a range)"
+          />
+        )}
         {getItemIcon(item.type)}
         <div className="flex-1 ml-2 min-w-0 pr-6">
           <div className="flex items-center gap-1">
-            <span className="text-sm font-medium truncate">{item.title}</span>
+            <span className="text-sm font-medium truncate">
+              {renderHighlighted(item.title)}
+            </span>
+            {hasExpiryRule(item) && (
+              <span
+                className="flex items-center gap-0.5 px-1 text-[10px] font-semibold leading-4 rounded bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-300 flex-shrink-0"
+                title={describeExpiry(item)}
+              >
+                <Timer size={10} />
+                {formatExpiryBadge(item, now)}
+              </span>
+            )}
           </div>
+          {snippet && (
+            <div className="text-xs text-text-secondary truncate">
+              {renderHighlighted(snippet)}
+            </div>
+          )}
           <div className="text-xs text-text-secondary flex items-center gap-2">
             <span>{formatFileSize(item.size)}</span>
             <span>•</span>
             <span>{formatTime(item.timestamp)}</span>
+            {ranked && item.folderId && folderNames.has(item.folderId) && (
+              <span className="truncate">
+                in {folderNames.get(item.folderId)}
+              </span>
+            )}
+            {item.tags?.length ? (
+              <span className="truncate text-primary">
+                {renderHighlighted(
+                  item.tags.map((tag) => `#${tag}`).join(" ")
+                )}
+              </span>
+            ) : null}
           </div>
         </div>
 
+        {/* Favorite slot badge */}
+        {item.slot && (
+          <span
+            className="absolute right-14 top-1/2 transform -translate-y-1/2 px-1 text-[10px] font-semibold leading-4 rounded bg-primary/15 text-primary"
+            title={`Favorite slot ${item.slot}`}
+          >
+            {item.slot}
+          </span>
+        )}
+
         {/* Favorite heart icon - positioned absolutely */}
         {item.isFavorite && (
           <div className="absolute right-8 top-1/2 transform -translate-y-1/2">
@@ -284,9 +821,84 @@ const ClipboardTreeView: React.FC<ClipboardTreeViewProps> = ({
           <MoreHorizontal size={12} />
         </button>
       </div>
-    ));
+    );
+
+    return draggable ? withDrag({ kind: "item", item }, row) : row;
   };
 
+  const renderFolder = (folder: ClipboardFolder, level = 0) => {
+    const folderItems = sortedItems.filter(
+      (item) => item.folderId === folder.id
+    );
+    const hasItems = folderItems.length > 0 || folder.children.length > 0;
+
+    const header = (
+      <div
+        className="flex items-center py-1 px-2 hover:bg-sidebar-item-hover rounded cursor-pointer group"
+        style={{ paddingLeft: `${level * 16 + 8}px` }}
+        onContextMenu={(e) => handleContextMenu(e, "folder", folder)}
+      >
+        {hasItems ? (
+          <button
+            onClick={() => onToggleFolder(folder.id)}
+            className="mr-1 p-0.5 hover:bg-button-second-bg-hover rounded"
+          >
+            {folder.expanded ? (
+              <ChevronDown size={12} />
+            ) : (
+              <ChevronRight size={12} />
+            )}
+          </button>
+        ) : (
+          <div className="w-5" />
+        )}
+
+        {isHistoryFolder(folder) ? (
+          <History size={14} className="mr-2 text-text-secondary" />
+        ) : folder.expanded ? (
+          <FolderOpen size={14} className="mr-2 text-blue-500" />
+        ) : (
+          <Folder size={14} className="mr-2 text-blue-500" />
+        )}
+
+        <span className="flex-1 text-sm truncate">{folder.name}</span>
+
+        <button
+          onClick={(e) => {
+            e.stopPropagation();
+            handleContextMenu(e, "folder", folder);
+          }}
+          className="opacity-0 group-hover:opacity-100 p-1 hover:bg-button-second-bg-hover rounded"
+        >
+          <MoreHorizontal size={12} />
+        </button>
+      </div>
+    );
+
+    return (
+      <div key={folder.id} className="folder-container">
+        {withDrag({ kind: "folder", folder }, header)}
+
+        {folder.expanded && (
+          <div className="folder-content">
+            {/* Render child folders */}
+            {sortFolders(folder.children).map((child) =>
+              renderFolder(child, level + 1)
+            )}
+
+            {/* Render items in this folder */}
+            {folderItems.map((item) => renderItemRow(item, level + 1, true))}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const renderRootItems = () =>
+    sortedItems
+      .filter((item) => !item.folderId)
+      .map((item) => renderItemRow(item, undefined, true));
+
   return (
     <div className="h-full overflow-y-auto flex flex-col">
       {/* Create Folder Button & Storage Info */}
@@ -326,13 +938,58 @@ const ClipboardTreeView: React.FC<ClipboardTreeViewProps> = ({
       </div>
 
       {/* Tree Content */}
-      <div className="flex-1 p-2 space-y-1 overflow-y-auto">
-        {/* Render folders */}
-        {folders.map((folder) => renderFolder(folder))}
+      <DndContext
+        sensors={sensors}
+        collisionDetection={treeCollisionDetection}
+        onDragStart={handleDragStart}
+        onDragMove={handleDragMove}
+        onDragEnd={handleDragEnd}
+        onDragCancel={handleDragCancel}
+        accessibility={{
+          announcements,
+          screenReaderInstructions: {
+            draggable:
+              "Press space or enter to pick up. Use the up and down arrow keys to move, space or enter to drop, escape to cancel.",
+          },
+        }}
+      >
+        <div className="flex-1 p-2 space-y-1 overflow-y-auto">
+          {ranked ? (
+            // Search results as one list, best match first
+            items.map((item) => renderItemRow(item))
+          ) : (
+            <>
+              {/* Render smart folders */}
+              {smartFolders.map(renderSmartFolder)}
 
-        {/* Render root items */}
-        {renderRootItems()}
-      </div>
+              {/* Render folders */}
+              {sortFolders(folders).map((folder) => renderFolder(folder))}
+
+              {/* Render root items */}
+              {renderRootItems()}
+
+              {dragged && (
+                <TreeDropZone active={dropTarget?.id === ROOT_DROP_ID}>
+                  Move to the top level
+                </TreeDropZone>
+              )}
+            </>
+          )}
+        </div>
+
+        <DragOverlay dropAnimation={null}>
+          {dragged && (
+            <div className="flex items-center gap-2 px-3 py-1.5 rounded bg-dropdown-background border border-border-default shadow-lg text-sm">
+              {dragged.kind === "folder" ? (
+                <Folder size={14} className="text-blue-500" />
+              ) : dragged.kind === "item" ? (
+                getItemIcon(dragged.item.type)
+              ) : null}
+              <span className="truncate">{describeDragData(dragged)}</span>
+            </div>
+          )}
+        </DragOverlay>
+      </DndContext>
 
       {/* Context Menu */}
       {contextMenu && (
@@ -374,6 +1031,59 @@ const ClipboardTreeView: React.FC<ClipboardTreeViewProps> = ({
                   ? "Remove Favorite"
                   : "Set as Favorite"}
               </button>
+              {onAssignSlot && (
+                <div className="px-3 py-2 border-y border-border-default">
+                  <div className="flex items-center gap-2 mb-1.5 text-xs text-text-secondary">
+                    <Hash size={12} />
+                    Favorite Slot
+                  </div>
+                  <div className="flex flex-wrap gap-1">
+                    {FAVORITE_SLOTS.map((slot) => (
+                      <button
+                        key={slot}
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          onAssignSlot(
+                            (contextMenu.target as ClipboardItem).id,
+                            slot
+                          );
+                          closeContextMenu();
+                        }}
+                        className={`w-6 h-6 text-xs rounded transition-colors ${
+                          (contextMenu.target as ClipboardItem).slot === slot
+                            ? "bg-primary text-white"
+                            : items.some((item) => item.slot === slot)
+                            ? "bg-primary/15 text-primary hover:bg-primary/25"
+                            : "bg-button-second-bg hover:bg-button-second-bg-hover"
+                        }`}
+                        title={
+                          items.find((item) => item.slot === slot)?.title ??
+                          `Empty slot ${slot}`
+                        }
+                      >
+                        {slot}
+                      </button>
+                    ))}
+                    {(contextMenu.target as ClipboardItem).slot && (
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          onAssignSlot(
+                            (contextMenu.target as ClipboardItem).id,
+                            null
+                          );
+                          closeContextMenu();
+                        }}
+                        className="px-2 h-6 text-xs rounded bg-button-second-bg hover:bg-button-second-bg-hover"
+                      >
+                        Clear
+                      </button>
+                    )}
+                  </div>
+                </div>
+              )}
+              {renderMoveActions()}
+              {renderTagActions()}
               <button
                 onClick={() => {
                   onDeleteItem((contextMenu.target as ClipboardItem).id);
@@ -385,6 +1095,52 @@ const ClipboardTreeView: React.FC<ClipboardTreeViewProps> = ({
                 Delete
               </button>
             </>
+          ) : contextMenu.type === "smartFolder" ? (
+            <>
+              <button
+                onClick={() =>
+                  handleEditSmartFolderQuery(contextMenu.target as SmartFolder)
+                }
+                className="flex items-center gap-2 w-full px-3 py-2 text-sm hover:bg-dropdown-item-hover"
+              >
+                <FolderSearch size={14} />
+                Edit Search
+              </button>
+              <button
+                onClick={() =>
+                  handleRenameSmartFolder(contextMenu.target as SmartFolder)
+                }
+                className="flex items-center gap-2 w-full px-3 py-2 text-sm hover:bg-dropdown-item-hover"
+              >
+                <Pencil size={14} />
+                Rename
+              </button>
+              {onExportSmartFolder && (
+                <button
+                  onClick={() => {
+                    onExportSmartFolder(contextMenu.target.id);
+                    closeContextMenu();
+                  }}
+                  className="flex items-center gap-2 w-full px-3 py-2 text-sm hover:bg-dropdown-item-hover"
+                >
+                  <Download size={14} />
+                  Export Items
+                </button>
+              )}
+              {renderTagActions()}
+              {onDeleteSmartFolder && (
+                <button
+                  onClick={() => {
+                    onDeleteSmartFolder(contextMenu.target.id);
+                    closeContextMenu();
+                  }}
+                  className="flex items-center gap-2 w-full px-3 py-2 text-sm hover:bg-dropdown-item-hover text-red-500"
+                >
+                  <Trash2 size={14} />
+                  Delete Smart Folder
+                </button>
+              )}
+            </>
           ) : (
             <>
               <button
@@ -409,6 +1165,8 @@ const ClipboardTreeView: React.FC<ClipboardTreeViewProps> = ({
                 <FolderPlus size={14} />
                 New Subfolder
               </button>
+              {renderMoveActions()}
+              {renderTagActions()}
               <button
                 onClick={() => {
                   onDeleteFolder((contextMenu.target as ClipboardFolder).id);
@@ -13,14 +13,20 @@ import {
 } from "lucide-react";
 import { ClipboardFolder, ClipboardItem } from "../../../types/clipboard";
 import { sanitizeHTML, isSafeHTML } from "../../../shared/utils/html-sanitizer";
+import { validateAbbreviation } from "../../../shared/utils/abbreviations";
+import { collectTags } from "../../../shared/utils/tags";
+import TagInput from "./TagInput";
 
 interface CreateClipboardItemModalProps {
   folders: ClipboardFolder[];
+  items?: ClipboardItem[];
   onCreateItem: (itemData: {
     title: string;
     content: string;
     type: ClipboardItem["type"];
     folderId?: string;
+    abbreviation?: string;
+    tags?: string[];
   }) => Promise<void>;
   onClose: () => void;
   initialFolderId?: string;
@@ -28,6 +34,7 @@ interface CreateClipboardItemModalProps {
 
 const CreateClipboardItemModal: React.FC<CreateClipboardItemModalProps> = ({
   folders,
+  items = [],
   onCreateItem,
   onClose,
   initialFolderId,
@@ -38,6 +45,8 @@ const CreateClipboardItemModal: React.FC<CreateClipboardItemModalProps> = ({
   const [folderId, setFolderId] = useState(initialFolderId || "");
   const [isCreating, setIsCreating] = useState(false);
   const [autoDetectType, setAutoDetectType] = useState(true);
+  const [abbreviation, setAbbreviation] = useState("");
+  const [tags, setTags] = useState<string[]>([]);
   const [htmlSafety, setHtmlSafety] = useState<{
     isSafe: boolean;
     sanitizedContent: string;
@@ -117,10 +126,13 @@ const CreateClipboardItemModal: React.FC<CreateClipboardItemModalProps> = ({
     }
   };
 
+  const abbreviationError = validateAbbreviation(abbreviation, items);
+  const knownTags = collectTags(items);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
-    if (!title.trim() || !content.trim()) {
+    if (!title.trim() || !content.trim() || abbreviationError) {
       return;
     }
 
@@ -143,6 +155,8 @@ const CreateClipboardItemModal: React.FC<CreateClipboardItemModalProps> = ({
         content: finalContent,
         type,
         folderId: folderId || undefined,
+        abbreviation: abbreviation.trim() || undefined,
+        tags: tags.length > 0 ? tags : undefined,
       });
     } finally {
       setIsCreating(false);
@@ -293,6 +307,40 @@ const CreateClipboardItemModal: React.FC<CreateClipboardItemModalProps> = ({
                 className="w-full px-3 py-2 bg-input-background border border-border-default rounded text-text-primary font-mono text-sm resize-none focus:outline-none focus:ring-2 focus:ring-primary"
                 required
               />
+              <p className="mt-1 text-xs text-text-secondary">
+                Placeholders resolved when pasting:{" "}
+                <code>{"{{date:YYYY-MM-DD}}"}</code>, <code>{"{{time}}"}</code>,{" "}
+                <code>{"{{clipboard}}"}</code>, <code>{"{{url}}"}</code>,{" "}
+                <code>{"{{title}}"}</code>, <code>{"{{selection}}"}</code>,{" "}
+                <code>{"{{cursor}}"}</code>. Ask before pasting with{" "}
+                <code>{"{{input:Customer name}}"}</code> or{" "}
+                <code>{"{{choice:Priority|Low|Medium|High}}"}</code>
+              </p>
+            </div>
+
+            {/* Abbreviation Field */}
+            <div>
+              <label className="block text-sm font-medium text-text-primary mb-2">
+                Abbreviation (Optional)
+              </label>
+              <input
+                type="text"
+                value={abbreviation}
+                onChange={(e) => setAbbreviation(e.target.value)}
+                placeholder="e.g. ;sig — typing it in a page expands to this item"
+                className="w-full px-3 py-2 bg-input-background border border-border-default rounded text-text-primary font-mono focus:outline-none focus:ring-2 focus:ring-primary text-sm"
+              />
+              {abbreviationError && (
+                <p className="mt-1 text-xs text-red-500">{abbreviationError}</p>
+              )}
+            </div>
+
+            {/* Tags Field */}
+            <div>
+              <label className="block text-sm font-medium text-text-primary mb-2">
+                Tags (Optional)
+              </label>
+              <TagInput tags={tags} knownTags={knownTags} onChange={setTags} />
             </div>
 
             {/* Type Selection */}
@@ -425,7 +473,9 @@ const CreateClipboardItemModal: React.FC<CreateClipboardItemModalProps> = ({
         </button>
         <button
           onClick={handleSubmit}
-          disabled={isCreating || !title.trim() || !content.trim()}
+          disabled={
+            isCreating || !title.trim() || !content.trim() || !!abbreviationError
+          }
           className="px-4 py-2 bg-primary hover:bg-primary/90 text-white rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2 min-w-[100px] justify-center text-sm"
         >
           {isCreating ? (
@@ -0,0 +1,178 @@
+import React from "react";
+import {
+  ClientRect,
+  CollisionDetection,
+  KeyboardCoordinateGetter,
+  closestCenter,
+  pointerWithin,
+  useDraggable,
+  useDroppable,
+} from "@dnd-kit/core";
+import { ClipboardFolder, ClipboardItem } from "../../../types/clipboard";
+
+// What a tree row carries while it is dragged or dragged over
+export type TreeDragData =
+  | { kind: "item"; item: ClipboardItem }
+  | { kind: "folder"; folder: ClipboardFolder }
+  | { kind: "root" };
+
+// Where a drop lands relative to the row under the pointer
+export type DropPosition = "before" | "inside" | "after";
+
+export const ROOT_DROP_ID = "root";
+
+export const treeDragId = (data: TreeDragData): string =>
+  data.kind === "root"
+    ? ROOT_DROP_ID
+    : data.kind === "item"
+    ? `item:${data.item.id}`
+    : `folder:${data.folder.id}`;
+
+/**
+ * Folders take drops in their middle half and sort before or after
+ * themselves near their edges; items only sort.
+ */
+export const getDropPosition = (
+  target: TreeDragData,
+  dragged: ClientRect | null,
+  over: ClientRect
+): DropPosition => {
+  if (target.kind === "root") return "inside";
+
+  const center = dragged ? dragged.top + dragged.height / 2 : over.top;
+  const offset = (center - over.top) / over.height;
+  if (target.kind === "item") return offset < 0.5 ? "before" : "after";
+  return offset < 0.25 ? "before" : offset > 0.75 ? "after" : "inside";
+};
+
+// Pointer drags use what is under the pointer, keyboard drags the closest row
+export const treeCollisionDetection: CollisionDetection = (args) =>
+  args.pointerCoordinates ? pointerWithin(args) : closestCenter(args);
+
+/**
+ * Arrow up and down move a keyboard drag to the previous or next row,
+ * lined up with its middle so folders take the drop.
+ */
+export const treeKeyboardCoordinates: KeyboardCoordinateGetter = (
+  event,
+  { active, currentCoordinates, context }
+) => {
+  if (event.code !== "ArrowDown" && event.code !== "ArrowUp") return;
+  event.preventDefault();
+
+  const { collisionRect, droppableRects, droppableContainers } = context;
+  if (!collisionRect) return;
+
+  const center = collisionRect.top + collisionRect.height / 2;
+  const rows = droppableContainers
+    .getEnabled()
+    .filter((container) => container.id !== active)
+    .map((container) => droppableRects.get(container.id))
+    .filter((rect): rect is ClientRect => !!rect)
+    .map((rect) => rect.top + rect.height / 2)
+    .sort((a, b) => a - b);
+
+  const next =
+    event.code === "ArrowDown"
+      ? rows.find((middle) => middle > center + 1)
+      : [...rows].reverse().find((middle) => middle < center - 1);
+  if (next === undefined) return;
+
+  return { x: currentCoordinates.x, y: currentCoordinates.y + next - center };
+};
+
+interface DraggableTreeRowProps {
+  data: TreeDragData;
+  // Shown while something is dragged over this row
+  dropPosition?: DropPosition | null;
+  // False when the row would be an invalid place for the current drag
+  canDrop?: boolean;
+  children: React.ReactNode;
+}
+
+const DraggableTreeRow: React.FC<DraggableTreeRowProps> = ({
+  data,
+  dropPosition = null,
+  canDrop = true,
+  children,
+}) => {
+  const id = treeDragId(data);
+  const {
+    attributes,
+    listeners,
+    setNodeRef: setDragRef,
+    isDragging,
+  } = useDraggable({ id, data });
+  const { setNodeRef: setDropRef } = useDroppable({ id, data });
+
+  const setNodeRef = (node: HTMLElement | null) => {
+    setDragRef(node);
+    setDropRef(node);
+  };
+
+  return (
+    <div
+      ref={setNodeRef}
+      {...attributes}
+      {...listeners}
+      // Enter and space on the row's own buttons should press them, not drag
+      onKeyDown={(e) => {
+        if (e.target === e.currentTarget) listeners?.onKeyDown?.(e);
+      }}
+      className={`relative rounded outline-none focus-visible:ring-2 focus-visible:ring-primary ${
+        isDragging ? "opacity-40" : ""
+      } ${
+        dropPosition === "inside"
+          ? canDrop
+            ? "ring-2 ring-primary bg-primary/5"
+            : "ring-2 ring-red-400"
+          : ""
+      }`}
+    >
+      {dropPosition === "before" && (
+        <div
+          className={`absolute left-0 right-0 -top-px h-0.5 ${
+            canDrop ? "bg-primary" : "bg-red-400"
+          }`}
+        />
+      )}
+      {children}
+      {dropPosition === "after" && (
+        <div
+          className={`absolute left-0 right-0 -bottom-px h-0.5 ${
+            canDrop ? "bg-primary" : "bg-red-400"
+          }`}
+        />
+      )}
+    </div>
+  );
+};
+
+interface TreeDropZoneProps {
+  active: boolean; // Something is dragged over the zone
+  children: React.ReactNode;
+}
+
+// Drop target for moving entries to the top level of the tree
+export const TreeDropZone: React.FC<TreeDropZoneProps> = ({
+  active,
+  children,
+}) => {
+  const data: TreeDragData = { kind: "root" };
+  const { setNodeRef } = useDroppable({ id: ROOT_DROP_ID, data });
+
+  return (
+    <div
+      ref={setNodeRef}
+      className={`px-3 py-2 text-xs text-center rounded border border-dashed transition-colors ${
+        active
+          ? "border-primary bg-primary/10 text-primary"
+          : "border-border-default text-text-secondary"
+      }`}
+    >
+      {children}
+    </div>
+  );
+};
+
+export default DraggableTreeRow;
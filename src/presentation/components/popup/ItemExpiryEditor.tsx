@@ -0,0 +1,167 @@
+import React, { useState } from "react";
+import { Timer, X } from "lucide-react";
+import { ClipboardItem } from "../../../types/clipboard";
+import {
+  EXPIRY_PRESETS,
+  ExpireAction,
+  getExpireAction,
+  hasExpiryRule,
+} from "../../../shared/utils/item-expiry";
+
+type ExpiryUpdates = Pick<
+  ClipboardItem,
+  "expiresAt" | "pastesLeft" | "expireAction"
+>;
+
+// Select values besides the preset minutes
+const NO_TIME_LIMIT = "none";
+const KEEP_CURRENT_TIME = "current";
+
+interface ItemExpiryEditorProps {
+  item: ClipboardItem;
+  onSave: (updates: ExpiryUpdates) => void;
+  onClose: () => void;
+}
+
+const ItemExpiryEditor: React.FC<ItemExpiryEditorProps> = ({
+  item,
+  onSave,
+  onClose,
+}) => {
+  const [time, setTime] = useState(
+    item.expiresAt ? KEEP_CURRENT_TIME : NO_TIME_LIMIT
+  );
+  const [pastes, setPastes] = useState(
+    item.pastesLeft !== undefined ? String(item.pastesLeft) : ""
+  );
+  // New rules default to the trash; only secrets are wiped unasked
+  const [action, setAction] = useState<ExpireAction>(
+    hasExpiryRule(item) ? getExpireAction(item) : "trash"
+  );
+
+  const pastesLeft = pastes.trim() === "" ? undefined : Number(pastes);
+  const pastesError =
+    pastesLeft !== undefined &&
+    (!Number.isInteger(pastesLeft) || pastesLeft < 1)
+      ? "Pastes must be a whole number of at least 1"
+      : null;
+
+  const handleSave = () => {
+    if (pastesError) return;
+
+    const expiresAt =
+      time === NO_TIME_LIMIT
+        ? undefined
+        : time === KEEP_CURRENT_TIME
+        ? item.expiresAt
+        : Date.now() + Number(time) * 60 * 1000;
+    const hasRule = expiresAt !== undefined || pastesLeft !== undefined;
+
+    onSave({
+      expiresAt,
+      pastesLeft,
+      expireAction: hasRule ? action : undefined,
+    });
+    onClose();
+  };
+
+  const handleRemove = () => {
+    onSave({
+      expiresAt: undefined,
+      pastesLeft: undefined,
+      expireAction: undefined,
+    });
+    onClose();
+  };
+
+  const fieldClass =
+    "px-2 py-1 bg-input-background border border-border-default rounded text-text-primary focus:outline-none focus:ring-2 focus:ring-primary";
+
+  return (
+    <div className="mb-4 flex-shrink-0 p-3 border border-border-default rounded text-xs space-y-2">
+      <div className="flex items-center gap-2 font-medium text-text-primary">
+        <Timer size={12} />
+        Expiry
+        <button
+          onClick={onClose}
+          className="ml-auto p-0.5 hover:bg-button-second-bg-hover rounded"
+          title="Close"
+        >
+          <X size={12} />
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 text-text-secondary">
+        <label className="flex items-center gap-1">
+          After
+          <select
+            value={time}
+            onChange={(e) => setTime(e.target.value)}
+            className={fieldClass}
+          >
+            <option value={NO_TIME_LIMIT}>No time limit</option>
+            {item.expiresAt && (
+              <option value={KEEP_CURRENT_TIME}>
+                {new Date(item.expiresAt).toLocaleString()}
+              </option>
+            )}
+            {EXPIRY_PRESETS.map(({ label, minutes }) => (
+              <option key={minutes} value={minutes}>
+                {label} from now
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-1">
+          or after
+          <input
+            type="number"
+            min={1}
+            value={pastes}
+            onChange={(e) => setPastes(e.target.value)}
+            placeholder="∞"
+            className={`w-14 ${fieldClass}`}
+          />
+          pastes
+        </label>
+        <label className="flex items-center gap-1">
+          then
+          <select
+            value={action}
+            onChange={(e) => setAction(e.target.value as ExpireAction)}
+            className={fieldClass}
+          >
+            <option value="trash">move it to the trash</option>
+            <option value="wipe">delete it for good</option>
+          </select>
+        </label>
+      </div>
+
+      {pastesError && <p className="text-red-500">{pastesError}</p>}
+
+      <div className="flex items-center gap-2">
+        <button
+          onClick={handleSave}
+          disabled={!!pastesError}
+          className="px-2 py-1 bg-primary text-white rounded hover:bg-primary/90 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Save
+        </button>
+        {hasExpiryRule(item) && (
+          <button
+            onClick={handleRemove}
+            className="px-2 py-1 bg-button-second-bg text-text-primary rounded hover:bg-button-second-bg-hover transition-colors"
+          >
+            Keep forever
+          </button>
+        )}
+        <span className="text-text-secondary">
+          Expiring items are not synced. Favorites and slots are freed when
+          they expire.
+        </span>
+      </div>
+    </div>
+  );
+};
+
+export default ItemExpiryEditor;
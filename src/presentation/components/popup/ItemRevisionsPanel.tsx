@@ -0,0 +1,176 @@
+import React, { useMemo, useState } from "react";
+import { RotateCcw, X } from "lucide-react";
+import { ClipboardItem, ItemRevision } from "../../../types/clipboard";
+import { DiffLine, diffLines } from "../../../shared/utils/item-revisions";
+
+// Unchanged lines shown around each change; longer runs are folded
+const DIFF_CONTEXT_LINES = 2;
+
+type DiffRow = DiffLine | { kind: "folded"; count: number };
+
+const foldUnchanged = (lines: DiffLine[]): DiffRow[] => {
+  const rows: DiffRow[] = [];
+  let index = 0;
+  while (index < lines.length) {
+    if (lines[index].kind !== "same") {
+      rows.push(lines[index++]);
+      continue;
+    }
+
+    let end = index;
+    while (end < lines.length && lines[end].kind === "same") end++;
+    const keepBefore = index === 0 ? 0 : DIFF_CONTEXT_LINES;
+    const keepAfter = end === lines.length ? 0 : DIFF_CONTEXT_LINES;
+
+    if (end - index > keepBefore + keepAfter + 1) {
+      rows.push(...lines.slice(index, index + keepBefore));
+      rows.push({ kind: "folded", count: end - index - keepBefore - keepAfter });
+      rows.push(...lines.slice(end - keepAfter, end));
+    } else {
+      rows.push(...lines.slice(index, end));
+    }
+    index = end;
+  }
+  return rows;
+};
+
+interface ItemRevisionsPanelProps {
+  item: ClipboardItem;
+  revisions: ItemRevision[]; // Newest first
+  onRollback: (revisionId: string) => void;
+  onClose: () => void;
+}
+
+const ItemRevisionsPanel: React.FC<ItemRevisionsPanelProps> = ({
+  item,
+  revisions,
+  onRollback,
+  onClose,
+}) => {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const selected =
+    revisions.find((revision) => revision.id === selectedId) ?? revisions[0];
+
+  const rows = useMemo(
+    () =>
+      selected ? foldUnchanged(diffLines(selected.content, item.content)) : [],
+    [selected, item.content]
+  );
+  const added = rows.filter((row) => row.kind === "added").length;
+  const removed = rows.filter((row) => row.kind === "removed").length;
+
+  const handleRollback = () => {
+    if (
+      selected &&
+      confirm(
+        `Roll back to the version from ${new Date(
+          selected.timestamp
+        ).toLocaleString()}? The current version is kept in the history.`
+      )
+    ) {
+      onRollback(selected.id);
+    }
+  };
+
+  return (
+    <div className="flex h-full min-h-[16rem] border border-border-default rounded overflow-hidden">
+      {/* Timeline */}
+      <div className="w-44 flex-shrink-0 border-r border-border-default overflow-y-auto">
+        <div className="flex items-center justify-between px-2 py-1.5 text-xs font-medium text-text-secondary border-b border-border-default">
+          History
+          <button
+            onClick={onClose}
+            className="p-0.5 hover:bg-button-second-bg-hover rounded"
+            title="Back to the content"
+          >
+            <X size={12} />
+          </button>
+        </div>
+        <div className="px-2 py-1.5 text-xs font-medium border-b border-border-default">
+          Current version
+        </div>
+        {revisions.length === 0 && (
+          <div className="px-2 py-2 text-xs text-text-secondary">
+            No earlier versions yet. Editing the title or content keeps the
+            version it replaces here.
+          </div>
+        )}
+        {revisions.map((revision) => (
+          <button
+            key={revision.id}
+            onClick={() => setSelectedId(revision.id)}
+            className={`block w-full text-left px-2 py-1.5 text-xs border-b border-border-default hover:bg-sidebar-item-hover ${
+              revision === selected ? "bg-primary/10" : ""
+            }`}
+          >
+            <div className="text-text-primary">
+              {new Date(revision.timestamp).toLocaleString()}
+            </div>
+            <div className="text-text-secondary truncate">{revision.title}</div>
+          </button>
+        ))}
+      </div>
+
+      {/* Diff of the selected revision against the current version */}
+      {selected && (
+        <div className="flex-1 min-w-0 flex flex-col">
+          <div className="flex items-center gap-2 px-3 py-1.5 border-b border-border-default text-xs">
+            <span className="text-green-600">+{added}</span>
+            <span className="text-red-500">−{removed}</span>
+            <span className="text-text-secondary">
+              lines since this version
+            </span>
+            <button
+              onClick={handleRollback}
+              className="ml-auto flex items-center gap-1 px-2 py-1 bg-primary text-white rounded hover:bg-primary/90 transition-colors"
+            >
+              <RotateCcw size={12} />
+              Roll back
+            </button>
+          </div>
+          {selected.title !== item.title && (
+            <div className="px-3 py-1.5 border-b border-border-default text-xs">
+              <span className="text-text-secondary">Title: </span>
+              <span className="line-through text-red-500">
+                {selected.title}
+              </span>{" "}
+              <span className="text-green-600">{item.title}</span>
+            </div>
+          )}
+          <pre className="flex-1 overflow-auto text-xs font-mono py-1">
+            {rows.map((row, index) =>
+              row.kind === "folded" ? (
+                <div
+                  key={index}
+                  className="px-3 text-text-secondary bg-input-background"
+                >
+                  ⋯ {row.count} unchanged lines
+                </div>
+              ) : (
+                <div
+                  key={index}
+                  className={`px-3 whitespace-pre-wrap break-words ${
+                    row.kind === "added"
+                      ? "bg-green-500/10 text-green-700 dark:text-green-400"
+                      : row.kind === "removed"
+                      ? "bg-red-500/10 text-red-600 dark:text-red-400"
+                      : "text-text-primary"
+                  }`}
+                >
+                  {row.kind === "added"
+                    ? "+ "
+                    : row.kind === "removed"
+                    ? "- "
+                    : "  "}
+                  {row.text}
+                </div>
+              )
+            )}
+          </pre>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ItemRevisionsPanel;
@@ -0,0 +1,268 @@
+import React, { useMemo, useState } from "react";
+import {
+  CheckCircle2,
+  ClipboardPaste,
+  Search,
+  Trash2,
+  XCircle,
+} from "lucide-react";
+import { ClipboardItem } from "../../../types/clipboard";
+import {
+  AppSettings,
+  PasteEvent,
+  PasteSource,
+} from "../../../shared/utils/clipboard-repository";
+
+const SOURCE_LABELS: Record<PasteSource, string> = {
+  favorite: "Favorite shortcut",
+  slot: "Slot shortcut",
+  quickPicker: "Quick picker",
+  expander: "Text expander",
+  popup: "Popup",
+};
+
+const TARGET_LABELS: Record<string, string> = {
+  input: "input",
+  textarea: "text area",
+  contenteditable: "rich editor",
+  other: "other element",
+  none: "no focused field",
+};
+
+const RETENTION_DAY_CHOICES = [1, 7, 30, 90, 365];
+const MAX_EVENT_CHOICES = [100, 500, 1000, 5000];
+
+type ResultFilter = "all" | "success" | "failed";
+
+interface PasteHistoryPanelProps {
+  events: PasteEvent[]; // Newest first
+  items: ClipboardItem[];
+  retention: AppSettings["pasteHistory"];
+  onRepaste: (itemId: string) => void;
+  onShowItem: (itemId: string) => void;
+  onClear: () => void;
+  onRetentionChange: (retention: AppSettings["pasteHistory"]) => void;
+}
+
+const PasteHistoryPanel: React.FC<PasteHistoryPanelProps> = ({
+  events,
+  items,
+  retention,
+  onRepaste,
+  onShowItem,
+  onClear,
+  onRetentionChange,
+}) => {
+  const [query, setQuery] = useState("");
+  const [result, setResult] = useState<ResultFilter>("all");
+  const [source, setSource] = useState<PasteSource | "all">("all");
+
+  const itemsById = useMemo(
+    () => new Map(items.map((item) => [item.id, item])),
+    [items]
+  );
+
+  const visibleEvents = useMemo(() => {
+    const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+    return events.filter((event) => {
+      if (result === "success" && !event.success) return false;
+      if (result === "failed" && event.success) return false;
+      if (source !== "all" && event.source !== source) return false;
+      const text = [
+        (event.itemId && itemsById.get(event.itemId)?.title) ??
+          event.itemTitle ??
+          "",
+        event.url ?? "",
+      ]
+        .join(" ")
+        .toLowerCase();
+      return words.every((word) => text.includes(word));
+    });
+  }, [events, query, result, source, itemsById]);
+
+  const handleClear = () => {
+    if (confirm(`Delete all ${events.length} entries of the paste history?`)) {
+      onClear();
+    }
+  };
+
+  const selectClass =
+    "px-2 py-1 bg-input-background border border-border-default rounded text-xs text-text-primary focus:outline-none focus:ring-2 focus:ring-primary";
+
+  return (
+    <div className="flex-1 flex flex-col min-h-0">
+      {/* Filters and retention */}
+      <div className="flex flex-wrap items-center gap-2 px-4 py-2 border-b border-border-default text-xs">
+        <div className="relative w-56">
+          <Search
+            size={12}
+            className="absolute left-2 top-1/2 transform -translate-y-1/2 text-text-secondary"
+          />
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Filter by item or page..."
+            className="w-full pl-6 pr-2 py-1 bg-input-background border border-border-default rounded focus:outline-none focus:ring-2 focus:ring-primary"
+          />
+        </div>
+        <select
+          value={result}
+          onChange={(e) => setResult(e.target.value as ResultFilter)}
+          className={selectClass}
+        >
+          <option value="all">All results</option>
+          <option value="success">Pasted</option>
+          <option value="failed">Failed</option>
+        </select>
+        <select
+          value={source}
+          onChange={(e) => setSource(e.target.value as PasteSource | "all")}
+          className={selectClass}
+        >
+          <option value="all">Any way</option>
+          {Object.entries(SOURCE_LABELS).map(([value, label]) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+        </select>
+
+        <div className="ml-auto flex items-center gap-2 text-text-secondary">
+          Keep
+          <select
+            value={retention.retentionDays}
+            onChange={(e) =>
+              onRetentionChange({
+                ...retention,
+                retentionDays: Number(e.target.value),
+              })
+            }
+            className={selectClass}
+          >
+            {Array.from(
+              new Set([...RETENTION_DAY_CHOICES, retention.retentionDays])
+            )
+              .sort((a, b) => a - b)
+              .map((days) => (
+                <option key={days} value={days}>
+                  {days} {days === 1 ? "day" : "days"}
+                </option>
+              ))}
+          </select>
+          up to
+          <select
+            value={retention.maxEvents}
+            onChange={(e) =>
+              onRetentionChange({
+                ...retention,
+                maxEvents: Number(e.target.value),
+              })
+            }
+            className={selectClass}
+          >
+            {Array.from(new Set([...MAX_EVENT_CHOICES, retention.maxEvents]))
+              .sort((a, b) => a - b)
+              .map((count) => (
+                <option key={count} value={count}>
+                  {count} pastes
+                </option>
+              ))}
+          </select>
+          <button
+            onClick={handleClear}
+            disabled={events.length === 0}
+            className="flex items-center gap-1 px-2 py-1 rounded text-red-500 hover:bg-button-second-bg-hover transition-colors disabled:opacity-50"
+          >
+            <Trash2 size={12} />
+            Clear
+          </button>
+        </div>
+      </div>
+
+      {/* Events */}
+      <div className="flex-1 overflow-y-auto">
+        {visibleEvents.length === 0 && (
+          <div className="p-4 text-sm text-text-secondary">
+            {events.length === 0
+              ? "Nothing pasted yet. Pastes from the shortcuts, the quick picker, the text expander and this popup show up here."
+              : "No pastes match the filters."}
+          </div>
+        )}
+        {visibleEvents.map((event) => {
+          const item = event.itemId ? itemsById.get(event.itemId) : undefined;
+          const title =
+            item?.title ??
+            event.itemTitle ??
+            (event.itemId ? "Unknown item" : "No item to paste");
+          return (
+            <div
+              key={event.id}
+              className="flex items-center gap-3 px-4 py-2 border-b border-border-default text-xs hover:bg-sidebar-item-hover"
+            >
+              {event.success ? (
+                <CheckCircle2
+                  size={14}
+                  className="text-green-600 flex-shrink-0"
+                />
+              ) : (
+                <XCircle size={14} className="text-red-500 flex-shrink-0" />
+              )}
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2">
+                  {item ? (
+                    <button
+                      onClick={() => onShowItem(item.id)}
+                      className="text-sm font-medium text-text-primary truncate hover:underline"
+                      title="Show the item"
+                    >
+                      {title}
+                    </button>
+                  ) : (
+                    <span
+                      className="text-sm font-medium text-text-secondary truncate"
+                      title="The item was deleted"
+                    >
+                      {title}
+                    </span>
+                  )}
+                </div>
+                <div className="text-text-secondary truncate">
+                  {new Date(event.timestamp).toLocaleString()}
+                  {event.source && ` · ${SOURCE_LABELS[event.source]}`}
+                  {(event.origin || event.url) && (
+                    <span title={event.url}>
+                      {" "}
+                      · {event.origin || event.url}
+                    </span>
+                  )}
+                  {event.target && ` · ${TARGET_LABELS[event.target]}`}
+                  {event.durationMs !== undefined &&
+                    ` · ${event.durationMs} ms`}
+                  {!event.success && (event.errorMessage || event.reason) && (
+                    <span className="text-red-500">
+                      {" "}
+                      · {event.errorMessage || event.reason}
+                    </span>
+                  )}
+                </div>
+              </div>
+              {item && item.type !== "image" && (
+                <button
+                  onClick={() => onRepaste(item.id)}
+                  className="flex items-center gap-1 px-2 py-1 bg-button-second-bg hover:bg-button-second-bg-hover rounded transition-colors flex-shrink-0"
+                  title="Paste into the page under the popup"
+                >
+                  <ClipboardPaste size={12} />
+                  Paste again
+                </button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default PasteHistoryPanel;
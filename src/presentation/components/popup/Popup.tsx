@@ -1,69 +1,599 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useMemo, useRef } from "react";
 import ClipboardTreeView from "./ClipboardTreeView";
 import ClipboardContentViewer from "./ClipboardContentViewer";
 import CreateClipboardItemModal from "./CreateClipboardItemModal";
-import { ClipboardFolder, ClipboardItem } from "../../../types/clipboard";
-import { clipboardStorage } from "@/shared/utils/clipboard-storage";
+import SyncConflictsModal, {
+  SyncConflictResolution,
+} from "./SyncConflictsModal";
+import VaultUnlockScreen from "./VaultUnlockScreen";
+import VaultSettingsModal from "./VaultSettingsModal";
+import BulkActionBar from "./BulkActionBar";
+import TrashModal from "./TrashModal";
+import PasteHistoryPanel from "./PasteHistoryPanel";
+import {
+  ClipboardFolder,
+  ClipboardItem,
+  ItemRevision,
+  SmartFolder,
+  SyncConflict,
+  TrashEntry,
+} from "../../../types/clipboard";
+import {
+  clipboardRepository,
+  AppSettings,
+  PasteEvent,
+  VaultLockedError,
+  VaultStatus,
+} from "@/shared/utils/clipboard-repository";
 import { logger } from "@/shared/utils/logger";
+import { useSettingsTheme } from "@/hooks/useSettingsTheme";
+import {
+  assignSlot,
+  clearSlot,
+  describeSlotTakeover,
+  resolveSlotConflicts,
+} from "@/shared/utils/favorite-slots";
+import {
+  MoveAnchor,
+  moveFolder,
+  moveItems,
+} from "@/shared/utils/tree-order";
 import {
+  collectTags,
+  hasAllTags,
+  tagItems,
+  untagItems,
+} from "@/shared/utils/tags";
+import {
+  buildMergedItem,
+  diffItems,
+  joinItemContents,
+  pickItems,
+  toggleFavoriteSlots,
+} from "@/shared/utils/bulk-actions";
+import { isEmptyQuery, parseSearchQuery } from "@/shared/utils/search-query";
+import { buildFolderPaths, SearchIndex } from "@/shared/utils/search-index";
+import {
+  BarChart3,
+  Settings,
   Search,
-  Filter,
+  FolderSearch,
   RefreshCw,
   Loader,
   AlertCircle,
   Plus,
   X,
+  Zap,
+  ZapOff,
+  History,
+  Lock,
+  GitMerge,
+  Shield,
+  Tag,
+  Trash2,
+  Undo2,
 } from "lucide-react";
 
+// How long the undo banner of a delete or merge stays up
+const UNDO_TIMEOUT_MS = 10000;
+
+// Removal that can still be taken back: deletes by restoring their trash
+// entries, merges by putting the merged items back
+type UndoableChange =
+  | { kind: "trash"; message: string; entryIds: string[] }
+  | {
+      kind: "merge";
+      message: string;
+      entryIds: string[]; // The merged originals, in the trash
+      mergedId: string;
+    };
+
 const Popup: React.FC = () => {
   const [folders, setFolders] = useState<ClipboardFolder[]>([]);
   const [items, setItems] = useState<ClipboardItem[]>([]);
   const [selectedItem, setSelectedItem] = useState<ClipboardItem | null>(null);
+  // Items picked with Ctrl/Cmd or Shift in the tree, moved together
+  const [selectedItemIds, setSelectedItemIds] = useState<string[]>([]);
+  const [undoableChange, setUndoableChange] = useState<UndoableChange | null>(
+    null
+  );
   const [searchTerm, setSearchTerm] = useState("");
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [filterType, setFilterType] = useState<
-    "all" | "text" | "image" | "url" | "html" | "favorite"
-  >("all");
+  const [smartFolders, setSmartFolders] = useState<SmartFolder[]>([]);
+  const [selectedTags, setSelectedTags] = useState<string[]>([]);
+  const searchIndex = useRef(new SearchIndex());
+  // Successful pastes per item, ranks often used items higher
+  const [usage, setUsage] = useState<Map<string, number>>(new Map());
+  const [lastPasted, setLastPasted] = useState<Map<string, number>>(
+    new Map()
+  );
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [createModalFolderId, setCreateModalFolderId] = useState<
     string | undefined
   >(undefined);
+  const [expanderSettings, setExpanderSettings] = useState<
+    AppSettings["textExpander"]
+  >(clipboardRepository.getDefaultSettings().textExpander);
+  const [activeHostname, setActiveHostname] = useState<string | null>(null);
+  const [autoCapture, setAutoCapture] = useState(
+    clipboardRepository.getDefaultSettings().autoCapture
+  );
+  const [syncConflicts, setSyncConflicts] = useState<SyncConflict[]>([]);
+  const [showConflicts, setShowConflicts] = useState(false);
+  const [sensitiveSettings, setSensitiveSettings] = useState<
+    AppSettings["sensitiveContent"]
+  >(clipboardRepository.getDefaultSettings().sensitiveContent);
+  const [vaultStatus, setVaultStatus] = useState<VaultStatus>({
+    enabled: false,
+    unlocked: false,
+  });
+  const [vaultSettings, setVaultSettings] = useState<AppSettings["vault"]>(
+    clipboardRepository.getDefaultSettings().vault
+  );
+  const [showVaultSettings, setShowVaultSettings] = useState(false);
+  const [trash, setTrash] = useState<TrashEntry[]>([]);
+  const [trashSettings, setTrashSettings] = useState<AppSettings["trash"]>(
+    clipboardRepository.getDefaultSettings().trash
+  );
+  const [showTrash, setShowTrash] = useState(false);
+  const [revisions, setRevisions] = useState<ItemRevision[]>([]);
+  // The item tree, or the log of pastes
+  const [activeTab, setActiveTab] = useState<"items" | "history">("items");
+  const [pasteHistory, setPasteHistory] = useState<PasteEvent[]>([]);
+  const [pasteHistorySettings, setPasteHistorySettings] = useState<
+    AppSettings["pasteHistory"]
+  >(clipboardRepository.getDefaultSettings().pasteHistory);
+
+  useSettingsTheme();
 
   // Load data on component mount
   useEffect(() => {
+    loadVaultStatus();
     loadClipboardData();
+    loadSmartFolders();
+    loadExpanderSettings();
+    loadSyncConflicts();
+    loadUsage();
+    loadTrash();
     logger.info("Popup component mounted");
+
+    // Captures, sync merges and other windows write while the popup is open
+    return clipboardRepository.subscribe((topics) => {
+      if (topics.includes("items") || topics.includes("folders")) {
+        loadClipboardData({ showLoading: false });
+      }
+      if (topics.includes("smartFolders")) {
+        loadSmartFolders();
+      }
+      if (topics.includes("settings")) {
+        loadExpanderSettings();
+      }
+      if (topics.includes("syncConflicts")) {
+        loadSyncConflicts();
+      }
+      if (topics.includes("history")) {
+        loadUsage();
+      }
+      if (topics.includes("trash")) {
+        loadTrash();
+      }
+      // Locked or unlocked here, in another window or by the idle timer
+      if (topics.includes("vault")) {
+        loadVaultStatus();
+        loadClipboardData({ showLoading: false });
+      }
+    });
   }, []);
 
-  const loadClipboardData = async () => {
+  // Edit history of the selected item, reloaded when another edit adds to it
+  const selectedItemId = selectedItem?.id;
+  useEffect(() => {
+    setRevisions([]);
+    if (!selectedItemId) return;
+
+    let current = true;
+    const loadRevisions = async () => {
+      try {
+        const loaded = await clipboardRepository.getItemRevisions(
+          selectedItemId
+        );
+        if (current) setRevisions(loaded);
+      } catch (err) {
+        logger.error("Failed to load item revisions", err);
+      }
+    };
+    loadRevisions();
+
+    const unsubscribe = clipboardRepository.subscribe(loadRevisions, [
+      "revisions",
+    ]);
+    return () => {
+      current = false;
+      unsubscribe();
+    };
+  }, [selectedItemId]);
+
+  useEffect(() => {
+    if (!undoableChange) return;
+    const timer = setTimeout(() => setUndoableChange(null), UNDO_TIMEOUT_MS);
+    return () => clearTimeout(timer);
+  }, [undoableChange]);
+
+  const loadVaultStatus = async () => {
+    try {
+      setVaultStatus(await clipboardRepository.getVaultStatus());
+    } catch (err) {
+      logger.error("Failed to load vault status", err);
+    }
+  };
+
+  const handleUnlockVault = async (passphrase: string) => {
+    const unlocked = await clipboardRepository.unlockVault(passphrase);
+    if (unlocked) {
+      setVaultStatus({ enabled: true, unlocked: true });
+      await loadClipboardData();
+      logger.info("Vault unlocked");
+    }
+    return unlocked;
+  };
+
+  const handleLockVault = async () => {
+    try {
+      await clipboardRepository.lockVault();
+      setVaultStatus({ enabled: true, unlocked: false });
+      setItems([]);
+      setSelectedItem(null);
+      logger.info("Vault locked");
+    } catch (err) {
+      logger.error("Failed to lock vault", err);
+    }
+  };
+
+  const handleEnableVault = async (passphrase: string) => {
+    try {
+      await clipboardRepository.enableVault(passphrase);
+      setVaultStatus({ enabled: true, unlocked: true });
+      setShowVaultSettings(false);
+      logger.info("Vault enabled");
+    } catch (err) {
+      const errorMsg =
+        err instanceof Error ? err.message : "Failed to enable the vault";
+      setError(errorMsg);
+      logger.error("Failed to enable vault", err);
+    }
+  };
+
+  const handleDisableVault = async () => {
+    try {
+      await clipboardRepository.disableVault();
+      setVaultStatus({ enabled: false, unlocked: false });
+      setShowVaultSettings(false);
+      logger.info("Vault disabled");
+    } catch (err) {
+      const errorMsg =
+        err instanceof Error ? err.message : "Failed to turn off the vault";
+      setError(errorMsg);
+      logger.error("Failed to disable vault", err);
+    }
+  };
+
+  const handleAutoLockChange = async (autoLockMinutes: number) => {
+    try {
+      const vault = { ...vaultSettings, autoLockMinutes };
+      await clipboardRepository.updateSettings({ vault });
+      setVaultSettings(vault);
+    } catch (err) {
+      logger.error("Failed to save vault auto-lock time", err);
+    }
+  };
+
+  const loadTrash = async () => {
+    try {
+      setTrash(await clipboardRepository.getTrash());
+    } catch (err) {
+      logger.error("Failed to load trash", err);
+    }
+  };
+
+  const handleRestoreFromTrash = async (entryIds: string[]) => {
+    try {
+      await clipboardRepository.restoreFromTrash(entryIds);
+      logger.info(`Restored ${entryIds.length} trash entries`);
+    } catch (err) {
+      const errorMsg =
+        err instanceof Error ? err.message : "Failed to restore from trash";
+      setError(errorMsg);
+      logger.error("Failed to restore from trash", err);
+    }
+  };
+
+  const handleDeleteFromTrash = async (entryIds: string[]) => {
+    try {
+      await clipboardRepository.deleteFromTrash(entryIds);
+      logger.info(`Deleted ${entryIds.length} trash entries for good`);
+    } catch (err) {
+      const errorMsg =
+        err instanceof Error ? err.message : "Failed to delete from trash";
+      setError(errorMsg);
+      logger.error("Failed to delete from trash", err);
+    }
+  };
+
+  const handleEmptyTrash = async () => {
+    try {
+      await clipboardRepository.emptyTrash();
+      logger.info("Emptied the trash");
+    } catch (err) {
+      const errorMsg =
+        err instanceof Error ? err.message : "Failed to empty the trash";
+      setError(errorMsg);
+      logger.error("Failed to empty the trash", err);
+    }
+  };
+
+  const handleTrashRetentionChange = async (retentionDays: number) => {
+    try {
+      const trash = { ...trashSettings, retentionDays };
+      await clipboardRepository.updateSettings({ trash });
+      setTrashSettings(trash);
+    } catch (err) {
+      logger.error("Failed to save trash retention", err);
+    }
+  };
+
+  const handlePasteHistoryRetentionChange = async (
+    pasteHistory: AppSettings["pasteHistory"]
+  ) => {
+    try {
+      await clipboardRepository.updateSettings({ pasteHistory });
+      setPasteHistorySettings(pasteHistory);
+      await clipboardRepository.pruneHistory();
+    } catch (err) {
+      logger.error("Failed to save paste history retention", err);
+    }
+  };
+
+  const handleClearPasteHistory = async () => {
+    try {
+      await clipboardRepository.clearHistory();
+      setPasteHistory([]);
+      logger.info("Cleared the paste history");
+    } catch (err) {
+      const errorMsg =
+        err instanceof Error ? err.message : "Failed to clear the history";
+      setError(errorMsg);
+      logger.error("Failed to clear the paste history", err);
+    }
+  };
+
+  // Paste into the page under the popup; the background logs it
+  const handlePasteItem = async (itemId: string) => {
     try {
-      setIsLoading(true);
+      const response = await chrome.runtime.sendMessage({
+        action: "pasteItem",
+        itemId,
+      });
+      if (!response?.success) {
+        throw new Error(
+          response?.response?.error ||
+            response?.error ||
+            `Paste failed (${response?.reason || "no response"})`
+        );
+      }
+      logger.info(`Pasted item from the popup: ${itemId}`);
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : "Failed to paste";
+      setError(errorMsg);
+      logger.error("Failed to paste from the popup", err);
+    }
+  };
+
+  const handleShowHistoryItem = (itemId: string) => {
+    const item = items.find((entry) => entry.id === itemId);
+    if (item) {
+      handleSelectItem(item);
+      setActiveTab("items");
+    }
+  };
+
+  const handleOpenOptions = () => {
+    chrome.runtime.openOptionsPage();
+  };
+
+  const handleOpenStats = () => {
+    chrome.tabs.create({ url: chrome.runtime.getURL("stats.html") });
+  };
+
+  const loadUsage = async () => {
+    try {
+      const history = await clipboardRepository.getHistory();
+      const counts = new Map<string, number>();
+      const latest = new Map<string, number>();
+      history.forEach(({ itemId, success, timestamp }) => {
+        if (!success || !itemId) return;
+        counts.set(itemId, (counts.get(itemId) || 0) + 1);
+        latest.set(itemId, Math.max(latest.get(itemId) || 0, timestamp));
+      });
+      setPasteHistory(history);
+      setUsage(counts);
+      setLastPasted(latest);
+    } catch (err) {
+      logger.error("Failed to load paste history", err);
+    }
+  };
+
+  // The background records conflicts while merging changes from sync
+  const loadSyncConflicts = async () => {
+    try {
+      const { conflicts } = await clipboardRepository.getSyncState();
+      setSyncConflicts(conflicts);
+    } catch (err) {
+      logger.error("Failed to load sync conflicts", err);
+    }
+  };
+
+  const handleResolveConflict = async (
+    itemId: string,
+    resolution: SyncConflictResolution
+  ) => {
+    try {
+      const response = await chrome.runtime.sendMessage({
+        action: "resolveSyncConflict",
+        itemId,
+        resolution,
+      });
+      if (!response?.success) {
+        throw new Error(response?.error || "Failed to resolve conflict");
+      }
+      setSyncConflicts((prev) =>
+        prev.filter((conflict) => conflict.itemId !== itemId)
+      );
+      logger.info(`Resolved sync conflict for ${itemId}: ${resolution}`);
+    } catch (err) {
+      const errorMsg =
+        err instanceof Error ? err.message : "Failed to resolve conflict";
+      setError(errorMsg);
+      logger.error("Failed to resolve sync conflict", err);
+    }
+  };
+
+  const loadExpanderSettings = async () => {
+    try {
+      const settings = await clipboardRepository.getSettings();
+      setExpanderSettings(settings.textExpander);
+      setAutoCapture(settings.autoCapture);
+      setSensitiveSettings(settings.sensitiveContent);
+      setVaultSettings(settings.vault);
+      setTrashSettings(settings.trash);
+      setPasteHistorySettings(settings.pasteHistory);
+
+      const [tab] = await chrome.tabs.query({
+        active: true,
+        currentWindow: true,
+      });
+      if (tab?.url && /^https?:/.test(tab.url)) {
+        setActiveHostname(new URL(tab.url).hostname.toLowerCase());
+      }
+    } catch (err) {
+      logger.error("Failed to load text expander settings", err);
+    }
+  };
+
+  const saveExpanderSettings = async (
+    textExpander: AppSettings["textExpander"]
+  ) => {
+    try {
+      await clipboardRepository.updateSettings({ textExpander });
+      setExpanderSettings(textExpander);
+      logger.info(
+        `Text expander ${textExpander.enabled ? "enabled" : "disabled"}`
+      );
+    } catch (err) {
+      const errorMsg =
+        err instanceof Error ? err.message : "Failed to save settings";
+      setError(errorMsg);
+      logger.error("Failed to save text expander settings", err);
+    }
+  };
+
+  const handleToggleExpander = () => {
+    saveExpanderSettings({
+      ...expanderSettings,
+      enabled: !expanderSettings.enabled,
+    });
+  };
+
+  const handleToggleExpanderForSite = () => {
+    if (!activeHostname) return;
+
+    const disabledSites = expanderSettings.disabledSites.includes(
+      activeHostname
+    )
+      ? expanderSettings.disabledSites.filter((host) => host !== activeHostname)
+      : [...expanderSettings.disabledSites, activeHostname];
+
+    saveExpanderSettings({ ...expanderSettings, disabledSites });
+  };
+
+  const handleToggleAutoCapture = async () => {
+    try {
+      await clipboardRepository.updateSettings({ autoCapture: !autoCapture });
+      setAutoCapture(!autoCapture);
+      logger.info(`Copy capture ${!autoCapture ? "enabled" : "disabled"}`);
+    } catch (err) {
+      const errorMsg =
+        err instanceof Error ? err.message : "Failed to save settings";
+      setError(errorMsg);
+      logger.error("Failed to save copy capture setting", err);
+    }
+  };
+
+  const handleSensitiveActionChange = async (
+    action: AppSettings["sensitiveContent"]["action"]
+  ) => {
+    try {
+      const sensitiveContent = { ...sensitiveSettings, action };
+      await clipboardRepository.updateSettings({ sensitiveContent });
+      setSensitiveSettings(sensitiveContent);
+      logger.info(`Sensitive content action set to ${action}`);
+    } catch (err) {
+      const errorMsg =
+        err instanceof Error ? err.message : "Failed to save settings";
+      setError(errorMsg);
+      logger.error("Failed to save sensitive content setting", err);
+    }
+  };
+
+  const isSiteDisabled =
+    !!activeHostname &&
+    expanderSettings.disabledSites.includes(activeHostname);
+
+  const loadClipboardData = async ({ showLoading = true } = {}) => {
+    try {
+      setIsLoading(showLoading);
       setError(null);
       logger.info("Loading clipboard data...");
 
       const [loadedFolders, loadedItems] = await Promise.all([
-        clipboardStorage.getClipboardFolders(),
-        clipboardStorage.getClipboardItems(),
+        clipboardRepository.getClipboardFolders(),
+        clipboardRepository.getClipboardItems(),
       ]);
 
+      // Settle slots claimed by more than one item (import, sync)
+      const resolvedItems = resolveSlotConflicts(loadedItems);
+      if (resolvedItems !== loadedItems) {
+        await clipboardRepository.updateClipboardItems(
+          diffItems(loadedItems, resolvedItems)
+        );
+        logger.warn("Resolved conflicting favorite slot assignments");
+      }
+
       setFolders(loadedFolders);
-      setItems(loadedItems);
+      setItems(resolvedItems);
       logger.info(
         `Loaded ${loadedItems.length} items and ${loadedFolders.length} folders`
       );
 
-      // If an item was selected and still exists, keep it selected
-      if (selectedItem) {
-        const stillExists = loadedItems.find(
-          (item) => item.id === selectedItem.id
+      // If an item was selected and still exists, show its stored version
+      setSelectedItem((selected) => {
+        if (!selected) return selected;
+        const stillExists = resolvedItems.find(
+          (item) => item.id === selected.id
         );
         if (!stillExists) {
-          setSelectedItem(null);
           logger.debug("Previously selected item no longer exists");
         }
-      }
+        return stillExists || null;
+      });
     } catch (err) {
+      if (err instanceof VaultLockedError) {
+        // The unlock screen takes over until the passphrase is entered
+        setVaultStatus({ enabled: true, unlocked: false });
+        setItems([]);
+        setSelectedItem(null);
+        return;
+      }
       const errorMsg =
         err instanceof Error ? err.message : "Failed to load clipboard data";
       setError(errorMsg);
@@ -77,7 +607,7 @@ const Popup: React.FC = () => {
     itemData: Omit<ClipboardItem, "id" | "timestamp">
   ) => {
     try {
-      const newItem = await clipboardStorage.addClipboardItem(itemData);
+      const newItem = await clipboardRepository.addClipboardItem(itemData);
       setItems((prev) => [newItem, ...prev.slice(0, 999)]);
       logger.info(`Added new clipboard item: ${newItem.title}`);
       return newItem;
@@ -92,32 +622,115 @@ const Popup: React.FC = () => {
 
   const handleSelectItem = (item: ClipboardItem) => {
     setSelectedItem(item);
+    setSelectedItemIds([]);
     logger.debug(`Selected item: ${item.title}`);
   };
 
-  const handleDeleteItem = async (id: string) => {
+  const handleMoveItems = async (
+    itemIds: string[],
+    folderId: string | undefined,
+    anchor?: MoveAnchor
+  ) => {
     try {
-      const success = await clipboardStorage.deleteClipboardItem(id);
-      if (success) {
-        setItems((prev) => prev.filter((item) => item.id !== id));
-        if (selectedItem?.id === id) {
+      const updatedItems = moveItems(items, itemIds, folderId, anchor);
+      setItems(updatedItems);
+      await clipboardRepository.updateClipboardItems(
+        diffItems(items, updatedItems)
+      );
+      logger.info(
+        `Moved ${itemIds.length} items to folder: ${folderId || "root"}`
+      );
+    } catch (err) {
+      const errorMsg =
+        err instanceof Error ? err.message : "Failed to move items";
+      setError(errorMsg);
+      logger.error("Failed to move items", err);
+    }
+  };
+
+  const handleMoveFolder = async (
+    folderId: string,
+    parentId: string | undefined,
+    anchor?: MoveAnchor
+  ) => {
+    try {
+      const updatedFolders = moveFolder(folders, folderId, parentId, anchor);
+      setFolders(updatedFolders);
+      await clipboardRepository.saveClipboardFolders(updatedFolders);
+      logger.info(`Moved folder ${folderId} to: ${parentId || "root"}`);
+    } catch (err) {
+      const errorMsg =
+        err instanceof Error ? err.message : "Failed to move folder";
+      setError(errorMsg);
+      logger.error("Failed to move folder", err);
+    }
+  };
+
+  // One write for the whole batch; the items wait in the trash and the
+  // banner can bring them back
+  const handleDeleteItems = async (itemIds: string[]) => {
+    try {
+      const removed = items.filter((item) => itemIds.includes(item.id));
+      if (removed.length === 0) return;
+
+      setItems((prev) => prev.filter((item) => !itemIds.includes(item.id)));
+      const entries = await clipboardRepository.deleteClipboardItems(itemIds);
+
+      if (selectedItem && itemIds.includes(selectedItem.id)) {
+        setSelectedItem(null);
+      }
+      setSelectedItemIds((current) =>
+        current.filter((id) => !itemIds.includes(id))
+      );
+      setUndoableChange({
+        kind: "trash",
+        message:
+          removed.length === 1
+            ? `Moved "${removed[0].title}" to the trash`
+            : `Moved ${removed.length} items to the trash`,
+        entryIds: entries.map((entry) => entry.id),
+      });
+      logger.info(`Deleted ${entries.length} clipboard items`);
+    } catch (err) {
+      const errorMsg =
+        err instanceof Error ? err.message : "Failed to delete items";
+      setError(errorMsg);
+      logger.error("Failed to delete items", err);
+    }
+  };
+
+  const handleDeleteItem = (id: string) => handleDeleteItems([id]);
+
+  const handleUndo = async () => {
+    if (!undoableChange) return;
+    const change = undoableChange;
+    setUndoableChange(null);
+
+    try {
+      await clipboardRepository.restoreFromTrash(change.entryIds);
+      if (change.kind === "merge") {
+        await clipboardRepository.deleteClipboardItems([change.mergedId]);
+        if (selectedItem?.id === change.mergedId) {
           setSelectedItem(null);
         }
-        logger.info(`Deleted clipboard item: ${id}`);
       }
+      logger.info(`Undone: ${change.message}`);
     } catch (err) {
-      const errorMsg =
-        err instanceof Error ? err.message : "Failed to delete item";
+      const errorMsg = err instanceof Error ? err.message : "Failed to undo";
       setError(errorMsg);
-      logger.error("Failed to delete item", err);
+      logger.error("Failed to undo", err);
     }
   };
 
   const handleDeleteFolder = async (id: string) => {
     try {
-      const success = await clipboardStorage.deleteFolder(id);
-      if (success) {
-        await loadClipboardData(); // Reload to update tree structure
+      const entry = await clipboardRepository.deleteFolder(id);
+      if (entry?.kind === "folder") {
+        setUndoableChange({
+          kind: "trash",
+          message: `Moved "${entry.folder.name}" and its ${entry.items.length} items to the trash`,
+          entryIds: [entry.id],
+        });
         logger.info(`Deleted folder: ${id}`);
       }
     } catch (err) {
@@ -130,8 +743,7 @@ const Popup: React.FC = () => {
 
   const handleCreateFolder = async (name: string, parentId?: string) => {
     try {
-      await clipboardStorage.createFolder(name, parentId);
-      await loadClipboardData(); // Reload to update tree structure
+      await clipboardRepository.createFolder(name, parentId);
       logger.info(`Created folder: ${name}`);
     } catch (err) {
       const errorMsg =
@@ -141,6 +753,101 @@ const Popup: React.FC = () => {
     }
   };
 
+  const loadSmartFolders = async () => {
+    try {
+      setSmartFolders(await clipboardRepository.getSmartFolders());
+    } catch (err) {
+      logger.error("Failed to load smart folders", err);
+    }
+  };
+
+  const handleSaveSearch = async () => {
+    const name = prompt("Name of the smart folder:", searchTerm.trim());
+    if (!name?.trim()) return;
+
+    try {
+      await clipboardRepository.createSmartFolder(
+        name.trim(),
+        searchTerm.trim()
+      );
+      setSearchTerm("");
+      logger.info(`Saved search as smart folder: ${name}`);
+    } catch (err) {
+      const errorMsg =
+        err instanceof Error ? err.message : "Failed to save the search";
+      setError(errorMsg);
+      logger.error("Failed to create smart folder", err);
+    }
+  };
+
+  const handleUpdateSmartFolder = async (
+    id: string,
+    updates: Partial<Omit<SmartFolder, "id">>
+  ) => {
+    try {
+      setSmartFolders((current) =>
+        current.map((smartFolder) =>
+          smartFolder.id === id ? { ...smartFolder, ...updates } : smartFolder
+        )
+      );
+      await clipboardRepository.updateSmartFolder(id, updates);
+    } catch (err) {
+      const errorMsg =
+        err instanceof Error ? err.message : "Failed to update smart folder";
+      setError(errorMsg);
+      logger.error("Failed to update smart folder", err);
+    }
+  };
+
+  const handleToggleSmartFolder = (id: string) => {
+    const smartFolder = smartFolders.find((entry) => entry.id === id);
+    if (smartFolder) {
+      handleUpdateSmartFolder(id, { expanded: !smartFolder.expanded });
+    }
+  };
+
+  const handleDeleteSmartFolder = async (id: string) => {
+    try {
+      await clipboardRepository.deleteSmartFolder(id);
+      logger.info(`Deleted smart folder: ${id}`);
+    } catch (err) {
+      const errorMsg =
+        err instanceof Error ? err.message : "Failed to delete smart folder";
+      setError(errorMsg);
+      logger.error("Failed to delete smart folder", err);
+    }
+  };
+
+  const downloadJson = (fileName: string, data: unknown) => {
+    const blob = new Blob([JSON.stringify(data, null, 2)], {
+      type: "application/json",
+    });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = fileName;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  // Download the saved search with the items it matches right now
+  const handleExportSmartFolder = (id: string) => {
+    const entry = smartFolderEntries.find(
+      ({ smartFolder }) => smartFolder.id === id
+    );
+    if (!entry) return;
+
+    const { name, query } = entry.smartFolder;
+    downloadJson(`${name}.json`, {
+      smartFolder: { name, query },
+      exportedAt: Date.now(),
+      items: entry.items,
+    });
+    logger.info(`Exported smart folder: ${name}`);
+  };
+
   const handleToggleFolder = async (id: string) => {
     const updateFolderExpanded = (
       folders: ClipboardFolder[]
@@ -158,7 +865,7 @@ const Popup: React.FC = () => {
 
     const updatedFolders = updateFolderExpanded(folders);
     setFolders(updatedFolders);
-    await clipboardStorage.saveClipboardFolders(updatedFolders);
+    await clipboardRepository.saveClipboardFolders(updatedFolders);
     logger.debug(`Toggled folder: ${id}`);
   };
 
@@ -181,7 +888,7 @@ const Popup: React.FC = () => {
         item.id === id ? { ...item, ...updates } : item
       );
       setItems(updatedItems);
-      await clipboardStorage.saveClipboardItems(updatedItems);
+      await clipboardRepository.updateClipboardItem(id, updates);
 
       if (selectedItem?.id === id) {
         setSelectedItem({ ...selectedItem, ...updates });
@@ -195,16 +902,41 @@ const Popup: React.FC = () => {
     }
   };
 
+  const handleRollback = async (id: string, revisionId: string) => {
+    try {
+      const updated = await clipboardRepository.rollbackItem(id, revisionId);
+      if (updated) {
+        setItems((prev) =>
+          prev.map((item) => (item.id === id ? updated : item))
+        );
+        if (selectedItem?.id === id) {
+          setSelectedItem(updated);
+        }
+      }
+      logger.info(`Rolled back item ${id} to revision ${revisionId}`);
+    } catch (err) {
+      const errorMsg =
+        err instanceof Error ? err.message : "Failed to roll back item";
+      setError(errorMsg);
+      logger.error("Failed to roll back item", err);
+    }
+  };
+
   const handleToggleFavorite = async (id: string) => {
     try {
       // First, remove favorite from all other items
-      const updatedItems = items.map((item) => ({
-        ...item,
-        isFavorite: item.id === id ? !item.isFavorite : false,
-      }));
+      const updatedItems = items.map((item) =>
+        item.id === id
+          ? { ...item, isFavorite: !item.isFavorite }
+          : item.isFavorite
+          ? { ...item, isFavorite: false }
+          : item
+      );
 
       setItems(updatedItems);
-      await clipboardStorage.saveClipboardItems(updatedItems);
+      await clipboardRepository.updateClipboardItems(
+        diffItems(items, updatedItems)
+      );
 
       if (selectedItem?.id === id) {
         setSelectedItem({
@@ -221,11 +953,184 @@ const Popup: React.FC = () => {
     }
   };
 
+  // Every way of assigning a slot comes through here; taking a slot from
+  // another item swaps the two, after asking
+  const handleAssignSlot = async (id: string, slot: number | null) => {
+    const takeover =
+      slot === null ? null : describeSlotTakeover(items, id, slot);
+    if (takeover && !confirm(takeover)) return;
+
+    try {
+      const updatedItems =
+        slot === null ? clearSlot(items, id) : assignSlot(items, id, slot);
+
+      setItems(updatedItems);
+      await clipboardRepository.updateClipboardItems(
+        diffItems(items, updatedItems)
+      );
+
+      if (selectedItem) {
+        const updatedSelected = updatedItems.find(
+          (item) => item.id === selectedItem.id
+        );
+        if (updatedSelected) {
+          setSelectedItem(updatedSelected);
+        }
+      }
+      logger.info(
+        slot === null
+          ? `Cleared slot for item: ${id}`
+          : `Assigned slot ${slot} to item: ${id}`
+      );
+    } catch (err) {
+      const errorMsg =
+        err instanceof Error ? err.message : "Failed to assign slot";
+      setError(errorMsg);
+      logger.error("Failed to assign slot", err);
+    }
+  };
+
+  const applyTagChange = async (
+    updatedItems: ClipboardItem[],
+    description: string
+  ) => {
+    try {
+      setItems(updatedItems);
+      // One write for the whole batch
+      await clipboardRepository.updateClipboardItems(
+        diffItems(items, updatedItems)
+      );
+
+      if (selectedItem) {
+        const updatedSelected = updatedItems.find(
+          (item) => item.id === selectedItem.id
+        );
+        if (updatedSelected) {
+          setSelectedItem(updatedSelected);
+        }
+      }
+      logger.info(description);
+    } catch (err) {
+      const errorMsg =
+        err instanceof Error ? err.message : "Failed to update tags";
+      setError(errorMsg);
+      logger.error("Failed to update tags", err);
+    }
+  };
+
+  const handleTagItems = (itemIds: string[], tag: string) =>
+    applyTagChange(
+      tagItems(items, itemIds, tag),
+      `Tagged ${itemIds.length} items with: ${tag}`
+    );
+
+  const handleUntagItems = (itemIds: string[], tag: string) =>
+    applyTagChange(
+      untagItems(items, itemIds, tag),
+      `Removed tag ${tag} from ${itemIds.length} items`
+    );
+
+  const handleBulkFavorite = async () => {
+    try {
+      const { items: updatedItems, unplaced } = toggleFavoriteSlots(
+        items,
+        selectedItemIds
+      );
+      setItems(updatedItems);
+      await clipboardRepository.updateClipboardItems(
+        diffItems(items, updatedItems)
+      );
+
+      if (selectedItem) {
+        const updatedSelected = updatedItems.find(
+          (item) => item.id === selectedItem.id
+        );
+        if (updatedSelected) {
+          setSelectedItem(updatedSelected);
+        }
+      }
+      if (unplaced > 0) {
+        setError(
+          `No free favorite slot left for ${unplaced} of the selected items`
+        );
+      }
+      logger.info(`Toggled favorite slots of ${selectedItemIds.length} items`);
+    } catch (err) {
+      const errorMsg =
+        err instanceof Error ? err.message : "Failed to update favorites";
+      setError(errorMsg);
+      logger.error("Failed to update favorites", err);
+    }
+  };
+
+  const handleExportSelected = () => {
+    const selected = pickItems(items, selectedItemIds);
+    downloadJson(`clipboard-items-${Date.now()}.json`, {
+      exportedAt: Date.now(),
+      items: selected,
+    });
+    logger.info(`Exported ${selected.length} items`);
+  };
+
+  const handleCopySelected = (separator: string) =>
+    handleCopyToClipboard(
+      joinItemContents(pickItems(items, selectedItemIds), separator)
+    );
+
+  // The merged item replaces the selected ones, which go to the trash;
+  // undo brings them back and trashes the merged item
+  const handleMergeSelected = async (separator: string) => {
+    const selected = pickItems(items, selectedItemIds).filter(
+      (item) => item.type !== "image"
+    );
+    if (selected.length < 2) {
+      setError("Select at least two items with text to merge");
+      return;
+    }
+
+    try {
+      const merged = await clipboardRepository.addClipboardItem(
+        buildMergedItem(selected, separator)
+      );
+      const mergedIds = selected.map((item) => item.id);
+      setItems((prev) => [
+        merged,
+        ...prev.filter((item) => !mergedIds.includes(item.id)),
+      ]);
+      const entries = await clipboardRepository.deleteClipboardItems(mergedIds);
+
+      setSelectedItemIds([]);
+      setSelectedItem(merged);
+      setUndoableChange({
+        kind: "merge",
+        message: `Merged ${entries.length} items`,
+        entryIds: entries.map((entry) => entry.id),
+        mergedId: merged.id,
+      });
+      logger.info(`Merged ${entries.length} items into: ${merged.id}`);
+    } catch (err) {
+      const errorMsg =
+        err instanceof Error ? err.message : "Failed to merge items";
+      setError(errorMsg);
+      logger.error("Failed to merge items", err);
+    }
+  };
+
+  const toggleTagFilter = (tag: string) => {
+    setSelectedTags((current) =>
+      current.includes(tag)
+        ? current.filter((existing) => existing !== tag)
+        : [...current, tag]
+    );
+  };
+
   const handleCreateItem = async (itemData: {
     title: string;
     content: string;
     type: ClipboardItem["type"];
     folderId?: string;
+    abbreviation?: string;
+    tags?: string[];
   }) => {
     const newItem = await addClipboardItem({
       ...itemData,
@@ -245,19 +1150,55 @@ const Popup: React.FC = () => {
     logger.debug(`Creating item in folder: ${folderId || "root"}`);
   };
 
-  // Filter items based on search and type
-  const filteredItems = items.filter((item) => {
-    const matchesSearch =
-      searchTerm === "" ||
-      item.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      item.content.toLowerCase().includes(searchTerm.toLowerCase());
+  const tagCloud = collectTags(items);
 
-    const matchesType =
-      filterType === "all" ||
-      (filterType === "favorite" ? item.isFavorite : item.type === filterType);
+  const searchQuery = useMemo(() => parseSearchQuery(searchTerm), [searchTerm]);
+  const folderPaths = useMemo(() => buildFolderPaths(folders), [folders]);
+  const highlightWords = [...searchQuery.terms, ...searchQuery.phrases];
 
-    return matchesSearch && matchesType;
-  });
+  // The index follows every reload of the items
+  const indexedItems = useMemo(() => {
+    searchIndex.current.sync(items);
+    return items;
+  }, [items]);
+
+  // Null while not searching
+  const searchResults = useMemo(
+    () =>
+      isEmptyQuery(searchQuery)
+        ? null
+        : searchIndex.current.search(searchQuery, {
+            folderPaths,
+            usage,
+            lastPasted,
+          }),
+    [indexedItems, searchQuery, folderPaths, usage, lastPasted]
+  );
+
+  // Smart folders re-run their saved search whenever anything changes
+  const smartFolderEntries = useMemo(
+    () =>
+      smartFolders.map((smartFolder) => ({
+        smartFolder,
+        items: searchIndex.current
+          .search(parseSearchQuery(smartFolder.query), {
+            folderPaths,
+            usage,
+            lastPasted,
+          })
+          .map((result) => result.item),
+      })),
+    [indexedItems, smartFolders, folderPaths, usage, lastPasted]
+  );
+
+  // Filter the (ranked) search results by tags
+  const filteredItems = (
+    searchResults ? searchResults.map((result) => result.item) : items
+  ).filter((item) => hasAllTags(item, selectedTags));
+
+  if (vaultStatus.enabled && !vaultStatus.unlocked) {
+    return <VaultUnlockScreen onUnlock={handleUnlockVault} />;
+  }
 
   if (isLoading) {
     return (
@@ -286,7 +1227,7 @@ const Popup: React.FC = () => {
           </button>
 
           <button
-            onClick={loadClipboardData}
+            onClick={() => loadClipboardData()}
             className="flex items-center gap-2 px-3 py-1.5 bg-button-second-bg hover:bg-button-second-bg-hover rounded-lg text-sm transition-colors"
           >
             <RefreshCw size={14} />
@@ -314,27 +1255,76 @@ const Popup: React.FC = () => {
             type="text"
             value={searchTerm}
             onChange={(e) => setSearchTerm(e.target.value)}
-            placeholder="Search clipboard items..."
+            placeholder='Search... e.g. tag:work type:url "exact phrase"'
+            title={
+              "Operators: type:text|html|image|url, tag:name, folder:\"Parent/Child\", " +
+              "is:favorite, is:sensitive, before:yyyy-mm-dd, after:yyyy-mm-dd, " +
+              "size:>10kb, pasted:7d"
+            }
             className="w-full pl-10 pr-4 py-2 bg-input-background border border-border-default rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary"
           />
         </div>
 
-        <div className="flex items-center gap-2">
-          <Filter size={16} className="text-text-secondary" />
-          <select
-            value={filterType}
-            onChange={(e) => setFilterType(e.target.value as any)}
-            className="bg-input-background border border-border-default rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+        <button
+          onClick={handleSaveSearch}
+          disabled={isEmptyQuery(searchQuery)}
+          className="flex items-center gap-2 px-3 py-2 bg-button-second-bg hover:bg-button-second-bg-hover rounded-lg text-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          title="Keep this search as a smart folder"
+        >
+          <FolderSearch size={14} />
+          Save Search
+        </button>
+      </div>
+
+      {/* Tag Filter Bar - items must carry every selected tag */}
+      {tagCloud.length > 0 && (
+        <div className="flex items-center gap-1.5 px-4 py-2 border-b border-border-default overflow-x-auto">
+          <Tag size={14} className="text-text-secondary flex-shrink-0" />
+          {tagCloud.map(({ tag, count }) => {
+            const isSelected = selectedTags.includes(tag);
+            return (
+              <button
+                key={tag}
+                onClick={() => toggleTagFilter(tag)}
+                className={`flex-shrink-0 px-2 py-0.5 rounded-full text-xs transition-colors ${
+                  isSelected
+                    ? "bg-primary text-white"
+                    : "bg-button-second-bg hover:bg-button-second-bg-hover text-text-primary"
+                }`}
+              >
+                #{tag}
+                <span className="ml-1 opacity-70">{count}</span>
+              </button>
+            );
+          })}
+          {selectedTags.length > 0 && (
+            <button
+              onClick={() => setSelectedTags([])}
+              className="flex-shrink-0 ml-1 text-xs text-text-secondary hover:text-text-primary"
+            >
+              Clear
+            </button>
+          )}
+        </div>
+      )}
+
+      {/* Sync Conflicts */}
+      {syncConflicts.length > 0 && (
+        <div className="flex items-center gap-2 p-3 bg-yellow-50 dark:bg-yellow-900/20 border-b border-yellow-200 dark:border-yellow-800">
+          <GitMerge size={16} className="text-yellow-600" />
+          <span className="text-sm text-yellow-800 dark:text-yellow-200">
+            {syncConflicts.length} item
+            {syncConflicts.length === 1 ? " was" : "s were"} changed on two
+            devices
+          </span>
+          <button
+            onClick={() => setShowConflicts(true)}
+            className="ml-auto text-sm font-medium text-yellow-800 dark:text-yellow-200 hover:underline"
           >
-            <option value="all">All Types</option>
-            <option value="text">Text</option>
-            <option value="image">Images</option>
-            <option value="url">URLs</option>
-            <option value="html">HTML</option>
-            <option value="favorite">Favorites</option>
-          </select>
+            Resolve
+          </button>
         </div>
-      </div>
+      )}
 
       {/* Error Display */}
       {error && (
@@ -352,45 +1342,261 @@ const Popup: React.FC = () => {
         </div>
       )}
 
-      {/* Main Content */}
-      <div className="flex-1 flex overflow-hidden">
-        {/* Left Panel - Tree View */}
-        <div className="w-72 border-r border-border-default bg-sidebar-background">
-          <ClipboardTreeView
-            folders={folders}
-            items={filteredItems}
-            selectedItemId={selectedItem?.id}
-            onSelectItem={handleSelectItem}
-            onDeleteItem={handleDeleteItem}
-            onDeleteFolder={handleDeleteFolder}
-            onCreateFolder={handleCreateFolder}
-            onToggleFolder={handleToggleFolder}
-            onToggleFavorite={handleToggleFavorite}
-            onCreateItemInFolder={handleCreateItemInFolder}
-          />
+      {/* Undo Banner */}
+      {undoableChange && (
+        <div className="flex items-center gap-2 p-3 bg-sidebar-background border-b border-border-default">
+          <span className="text-sm">{undoableChange.message}</span>
+          <button
+            onClick={handleUndo}
+            className="flex items-center gap-1 ml-auto text-sm font-medium text-primary hover:underline"
+          >
+            <Undo2 size={14} />
+            Undo
+          </button>
+          <button
+            onClick={() => setUndoableChange(null)}
+            className="text-text-secondary hover:text-text-primary"
+          >
+            ×
+          </button>
         </div>
+      )}
 
-        {/* Right Panel - Content Viewer */}
-        <div className="flex-1 p-3 flex min-w-0 overflow-hidden">
-          <ClipboardContentViewer
-            item={selectedItem}
-            onCopyToClipboard={handleCopyToClipboard}
-            onUpdateItem={handleUpdateItem}
-            onToggleFavorite={handleToggleFavorite}
-          />
-        </div>
+      {/* Bulk Actions */}
+      {selectedItemIds.length > 0 && (
+        <BulkActionBar
+          count={selectedItemIds.length}
+          folders={folders}
+          onDelete={() => handleDeleteItems(selectedItemIds)}
+          onMove={(folderId) => handleMoveItems(selectedItemIds, folderId)}
+          onTag={(tag) => handleTagItems(selectedItemIds, tag)}
+          onToggleFavorite={handleBulkFavorite}
+          onExport={handleExportSelected}
+          onMerge={handleMergeSelected}
+          onCopy={handleCopySelected}
+          onClear={() => setSelectedItemIds([])}
+        />
+      )}
+
+      {/* Tabs */}
+      <div className="flex items-center gap-1 px-4 border-b border-border-default text-sm">
+        {(
+          [
+            ["items", "Items"],
+            ["history", `Paste History (${pasteHistory.length})`],
+          ] as const
+        ).map(([tab, label]) => (
+          <button
+            key={tab}
+            onClick={() => setActiveTab(tab)}
+            className={`px-3 py-1.5 -mb-px border-b-2 transition-colors ${
+              activeTab === tab
+                ? "border-primary text-text-primary font-medium"
+                : "border-transparent text-text-secondary hover:text-text-primary"
+            }`}
+          >
+            {label}
+          </button>
+        ))}
       </div>
 
+      {activeTab === "history" ? (
+        <PasteHistoryPanel
+          events={pasteHistory}
+          items={items}
+          retention={pasteHistorySettings}
+          onRepaste={handlePasteItem}
+          onShowItem={handleShowHistoryItem}
+          onClear={handleClearPasteHistory}
+          onRetentionChange={handlePasteHistoryRetentionChange}
+        />
+      ) : (
+        <div className="flex-1 flex overflow-hidden">
+          {/* Left Panel - Tree View */}
+          <div className="w-72 border-r border-border-default bg-sidebar-background">
+            <ClipboardTreeView
+              folders={folders}
+              items={filteredItems}
+              selectedItemId={selectedItem?.id}
+              onSelectItem={handleSelectItem}
+              selectedItemIds={selectedItemIds}
+              onSelectionChange={setSelectedItemIds}
+              onMoveItems={handleMoveItems}
+              onMoveFolder={handleMoveFolder}
+              onDeleteItem={handleDeleteItem}
+              onDeleteFolder={handleDeleteFolder}
+              onCreateFolder={handleCreateFolder}
+              onToggleFolder={handleToggleFolder}
+              onToggleFavorite={handleToggleFavorite}
+              onAssignSlot={handleAssignSlot}
+              onCreateItemInFolder={handleCreateItemInFolder}
+              onTagItems={handleTagItems}
+              onUntagItems={handleUntagItems}
+              smartFolders={smartFolderEntries}
+              onToggleSmartFolder={handleToggleSmartFolder}
+              onUpdateSmartFolder={handleUpdateSmartFolder}
+              onDeleteSmartFolder={handleDeleteSmartFolder}
+              onExportSmartFolder={handleExportSmartFolder}
+              ranked={searchResults !== null}
+              highlightWords={highlightWords}
+            />
+          </div>
+
+          {/* Right Panel - Content Viewer */}
+          <div className="flex-1 p-3 flex min-w-0 overflow-hidden">
+            <ClipboardContentViewer
+              item={selectedItem}
+              onCopyToClipboard={handleCopyToClipboard}
+              onUpdateItem={handleUpdateItem}
+              onToggleFavorite={handleToggleFavorite}
+              allItems={items}
+              onAssignSlot={handleAssignSlot}
+              revisions={revisions}
+              onRollback={handleRollback}
+            />
+          </div>
+        </div>
+      )}
+
       {/* Status Bar */}
       <div className="flex items-center justify-between p-2 border-t border-border-default bg-sidebar-background text-xs text-text-secondary">
-        <span>{filteredItems.length} items</span>
+        <span>
+          {filteredItems.length} items
+          {selectedItemIds.length > 0 &&
+            ` · ${selectedItemIds.length} selected`}
+        </span>
+        <div className="flex items-center gap-3">
+          <button
+            onClick={handleOpenOptions}
+            className="flex items-center gap-1 hover:text-text-primary transition-colors"
+            title="All settings, including the item limit, notifications and sync"
+          >
+            <Settings size={12} />
+            Options
+          </button>
+          <button
+            onClick={handleOpenStats}
+            className="flex items-center gap-1 hover:text-text-primary transition-colors"
+            title="Charts of your pastes and storage, computed in this browser"
+          >
+            <BarChart3 size={12} />
+            Stats
+          </button>
+          <button
+            onClick={() => setShowTrash(true)}
+            className="flex items-center gap-1 hover:text-text-primary transition-colors"
+            title="Deleted items and folders, kept for a while to restore"
+          >
+            <Trash2 size={12} />
+            Trash{trash.length > 0 && ` (${trash.length})`}
+          </button>
+          <button
+            onClick={() => setShowVaultSettings(true)}
+            className="flex items-center gap-1 hover:text-text-primary transition-colors"
+            title="Encrypt clipboard items with a passphrase"
+          >
+            <Shield size={12} />
+            Vault {vaultStatus.enabled ? "on" : "off"}
+          </button>
+          {vaultStatus.enabled && (
+            <button
+              onClick={handleLockVault}
+              className="flex items-center gap-1 hover:text-text-primary transition-colors"
+              title="Lock the vault now"
+            >
+              <Lock size={12} />
+              Lock
+            </button>
+          )}
+          <button
+            onClick={handleToggleAutoCapture}
+            className="flex items-center gap-1 hover:text-text-primary transition-colors"
+            title="Record text copied or cut in web pages to Clipboard History"
+          >
+            <History size={12} />
+            Capture {autoCapture ? "on" : "off"}
+          </button>
+          <label
+            className="flex items-center gap-1"
+            title="What happens to passwords, card numbers, keys and codes when saved"
+          >
+            <Lock size={12} />
+            <select
+              value={sensitiveSettings.action}
+              onChange={(e) =>
+                handleSensitiveActionChange(
+                  e.target.value as AppSettings["sensitiveContent"]["action"]
+                )
+              }
+              className="bg-transparent focus:outline-none"
+            >
+              <option value="block">Block secrets</option>
+              <option value="mask">Mask secrets</option>
+              <option value="expire">
+                Expire secrets ({sensitiveSettings.expireAfterMinutes} min)
+              </option>
+            </select>
+          </label>
+          <button
+            onClick={handleToggleExpander}
+            className="flex items-center gap-1 hover:text-text-primary transition-colors"
+            title="Expand abbreviations typed in web pages"
+          >
+            {expanderSettings.enabled ? <Zap size={12} /> : <ZapOff size={12} />}
+            Expander {expanderSettings.enabled ? "on" : "off"}
+          </button>
+          {activeHostname && expanderSettings.enabled && (
+            <button
+              onClick={handleToggleExpanderForSite}
+              className="hover:text-text-primary transition-colors"
+              title={`Toggle the text expander on ${activeHostname}`}
+            >
+              {isSiteDisabled ? "Enable" : "Disable"} on {activeHostname}
+            </button>
+          )}
+        </div>
         <span>Last updated: {new Date().toLocaleTimeString()}</span>
       </div>
 
+      {/* Sync Conflicts Modal */}
+      {showConflicts && (
+        <SyncConflictsModal
+          conflicts={syncConflicts}
+          onResolve={handleResolveConflict}
+          onClose={() => setShowConflicts(false)}
+        />
+      )}
+
+      {/* Trash Modal */}
+      {showTrash && (
+        <TrashModal
+          entries={trash}
+          retentionDays={trashSettings.retentionDays}
+          onRestore={handleRestoreFromTrash}
+          onDelete={handleDeleteFromTrash}
+          onEmpty={handleEmptyTrash}
+          onRetentionChange={handleTrashRetentionChange}
+          onClose={() => setShowTrash(false)}
+        />
+      )}
+
+      {/* Vault Settings Modal */}
+      {showVaultSettings && (
+        <VaultSettingsModal
+          enabled={vaultStatus.enabled}
+          autoLockMinutes={vaultSettings.autoLockMinutes}
+          onEnable={handleEnableVault}
+          onDisable={handleDisableVault}
+          onAutoLockChange={handleAutoLockChange}
+          onClose={() => setShowVaultSettings(false)}
+        />
+      )}
+
       {/* Create Item Modal */}
       {showCreateModal && (
         <CreateClipboardItemModal
           folders={folders}
+          items={items}
           onCreateItem={handleCreateItem}
           onClose={() => {
             setShowCreateModal(false);
@@ -0,0 +1,162 @@
+import React, { useEffect, useState } from "react";
+import { X, Monitor, Cloud, Copy } from "lucide-react";
+import { ClipboardItem, SyncConflict } from "../../../types/clipboard";
+
+export type SyncConflictResolution = "local" | "remote" | "both";
+
+interface SyncConflictsModalProps {
+  conflicts: SyncConflict[];
+  onResolve: (
+    itemId: string,
+    resolution: SyncConflictResolution
+  ) => Promise<void>;
+  onClose: () => void;
+}
+
+const SyncConflictsModal: React.FC<SyncConflictsModalProps> = ({
+  conflicts,
+  onResolve,
+  onClose,
+}) => {
+  const [resolvingId, setResolvingId] = useState<string | null>(null);
+
+  // Handle ESC key to close modal
+  useEffect(() => {
+    const handleEsc = (event: KeyboardEvent) => {
+      if (event.key === "Escape") {
+        onClose();
+      }
+    };
+
+    document.addEventListener("keydown", handleEsc);
+    return () => document.removeEventListener("keydown", handleEsc);
+  }, [onClose]);
+
+  const handleResolve = async (
+    itemId: string,
+    resolution: SyncConflictResolution
+  ) => {
+    setResolvingId(itemId);
+    try {
+      await onResolve(itemId, resolution);
+    } finally {
+      setResolvingId(null);
+    }
+  };
+
+  const renderVersion = (
+    label: string,
+    icon: React.ReactNode,
+    item: ClipboardItem | null
+  ) => (
+    <div className="flex-1 min-w-0 border border-border-default rounded p-3 space-y-2">
+      <div className="flex items-center gap-2 text-xs font-medium text-text-secondary">
+        {icon}
+        {label}
+        {item && (
+          <span className="ml-auto font-normal">
+            {new Date(item.timestamp).toLocaleString()}
+          </span>
+        )}
+      </div>
+      {item ? (
+        <>
+          <div className="text-sm font-semibold text-text-primary truncate">
+            {item.title}
+          </div>
+          <pre className="bg-input-background rounded p-2 max-h-40 overflow-auto whitespace-pre-wrap break-words text-xs font-mono text-text-primary">
+            {item.type === "image"
+              ? "[image]"
+              : item.content.substring(0, 2000)}
+          </pre>
+        </>
+      ) : (
+        <div className="text-sm italic text-text-secondary">Deleted</div>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-drawer-background z-50 flex flex-col">
+      {/* Header - Fixed at top */}
+      <div className="flex items-center justify-between p-4 border-b border-border-default bg-dialog-background shadow-sm">
+        <h2 className="text-lg font-semibold text-text-primary">
+          Sync Conflicts ({conflicts.length})
+        </h2>
+        <button
+          onClick={onClose}
+          className="p-1 hover:bg-button-second-bg-hover rounded-lg transition-colors"
+        >
+          <X size={18} className="text-text-secondary" />
+        </button>
+      </div>
+
+      {/* Scrollable Content */}
+      <div className="flex-1 overflow-y-auto">
+        <div className="p-4 max-w-3xl mx-auto space-y-4">
+          <p className="text-sm text-text-secondary">
+            These items were changed on this device and on another one since
+            they last synced. Choose which version to keep.
+          </p>
+
+          {conflicts.length === 0 && (
+            <div className="text-sm text-text-secondary">
+              No conflicts left.
+            </div>
+          )}
+
+          {conflicts.map((conflict) => (
+            <div
+              key={conflict.itemId}
+              className="bg-card-background rounded-lg p-3 space-y-3"
+            >
+              <div className="flex gap-3">
+                {renderVersion(
+                  "This device",
+                  <Monitor size={12} />,
+                  conflict.local
+                )}
+                {renderVersion(
+                  "Other device",
+                  <Cloud size={12} />,
+                  conflict.remote
+                )}
+              </div>
+
+              <div className="flex items-center justify-end gap-2">
+                <button
+                  onClick={() => handleResolve(conflict.itemId, "local")}
+                  disabled={resolvingId !== null}
+                  className="flex items-center gap-1 px-3 py-1.5 bg-button-second-bg hover:bg-button-second-bg-hover rounded text-xs transition-colors disabled:opacity-50"
+                >
+                  <Monitor size={12} />
+                  Keep this device's
+                </button>
+                <button
+                  onClick={() => handleResolve(conflict.itemId, "remote")}
+                  disabled={resolvingId !== null}
+                  className="flex items-center gap-1 px-3 py-1.5 bg-button-second-bg hover:bg-button-second-bg-hover rounded text-xs transition-colors disabled:opacity-50"
+                >
+                  <Cloud size={12} />
+                  Keep other device's
+                </button>
+                {conflict.local && conflict.remote && (
+                  <button
+                    onClick={() => handleResolve(conflict.itemId, "both")}
+                    disabled={resolvingId !== null}
+                    className="flex items-center gap-1 px-3 py-1.5 bg-primary hover:bg-primary/90 text-white rounded text-xs transition-colors disabled:opacity-50"
+                  >
+                    <Copy size={12} />
+                    Keep both
+                  </button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SyncConflictsModal;
@@ -0,0 +1,134 @@
+import React, { useMemo, useState } from "react";
+import { X, Tag } from "lucide-react";
+import {
+  normalizeTag,
+  suggestTags,
+  TagCount,
+} from "../../../shared/utils/tags";
+
+interface TagInputProps {
+  tags: string[];
+  knownTags: TagCount[];
+  onChange: (tags: string[]) => void;
+  placeholder?: string;
+}
+
+const TagInput: React.FC<TagInputProps> = ({
+  tags,
+  knownTags,
+  onChange,
+  placeholder = "Add tag...",
+}) => {
+  const [input, setInput] = useState("");
+  const [isFocused, setIsFocused] = useState(false);
+  const [highlighted, setHighlighted] = useState(0);
+
+  const suggestions = useMemo(
+    () => suggestTags(input, knownTags, tags),
+    [input, knownTags, tags]
+  );
+  const showSuggestions = isFocused && suggestions.length > 0;
+
+  const addTag = (value: string) => {
+    const tag = normalizeTag(value);
+    if (tag && !tags.includes(tag)) {
+      onChange([...tags, tag]);
+    }
+    setInput("");
+    setHighlighted(0);
+  };
+
+  const removeTag = (tag: string) => {
+    onChange(tags.filter((existing) => existing !== tag));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Enter" || e.key === "," || e.key === "Tab") {
+      const value =
+        showSuggestions && input ? suggestions[highlighted] ?? input : input;
+      if (!value.trim()) return;
+      e.preventDefault();
+      addTag(value);
+    } else if (e.key === "Backspace" && !input && tags.length > 0) {
+      removeTag(tags[tags.length - 1]);
+    } else if (e.key === "ArrowDown" && showSuggestions) {
+      e.preventDefault();
+      setHighlighted((index) => (index + 1) % suggestions.length);
+    } else if (e.key === "ArrowUp" && showSuggestions) {
+      e.preventDefault();
+      setHighlighted(
+        (index) => (index - 1 + suggestions.length) % suggestions.length
+      );
+    } else if (e.key === "Escape" && input) {
+      // Keep the surrounding modal open
+      e.stopPropagation();
+      setInput("");
+    }
+  };
+
+  return (
+    <div className="relative">
+      <div className="flex flex-wrap items-center gap-1 w-full px-2 py-1.5 bg-input-background border border-border-default rounded focus-within:ring-2 focus-within:ring-primary">
+        <Tag size={14} className="text-text-secondary flex-shrink-0" />
+        {tags.map((tag) => (
+          <span
+            key={tag}
+            className="flex items-center gap-1 px-1.5 py-0.5 text-xs rounded bg-primary/15 text-primary"
+          >
+            #{tag}
+            <button
+              type="button"
+              onClick={() => removeTag(tag)}
+              className="hover:text-text-primary"
+              title={`Remove #${tag}`}
+            >
+              <X size={10} />
+            </button>
+          </span>
+        ))}
+        <input
+          type="text"
+          value={input}
+          onChange={(e) => {
+            setInput(e.target.value);
+            setHighlighted(0);
+          }}
+          onKeyDown={handleKeyDown}
+          onFocus={() => setIsFocused(true)}
+          onBlur={() => {
+            setIsFocused(false);
+            if (input.trim()) addTag(input);
+          }}
+          placeholder={tags.length === 0 ? placeholder : ""}
+          className="flex-1 min-w-[80px] bg-transparent text-sm text-text-primary focus:outline-none py-0.5"
+        />
+      </div>
+
+      {showSuggestions && (
+        <div className="absolute left-0 right-0 mt-1 bg-dropdown-background border border-border-default rounded shadow-lg py-1 z-50 max-h-40 overflow-y-auto">
+          {suggestions.map((tag, index) => (
+            <button
+              key={tag}
+              type="button"
+              // Before the input's blur, so the click still lands
+              onMouseDown={(e) => {
+                e.preventDefault();
+                addTag(tag);
+              }}
+              className={`block w-full text-left px-3 py-1 text-sm hover:bg-dropdown-item-hover ${
+                index === highlighted ? "bg-dropdown-item-hover" : ""
+              }`}
+            >
+              #{tag}
+              <span className="ml-2 text-xs text-text-secondary">
+                {knownTags.find((entry) => entry.tag === tag)?.count}
+              </span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TagInput;
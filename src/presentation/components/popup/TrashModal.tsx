@@ -0,0 +1,174 @@
+import React, { useEffect, useState } from "react";
+import { X, Folder, FileText, RotateCcw, Trash2 } from "lucide-react";
+import { TrashEntry } from "../../../types/clipboard";
+import { getTrashEntryTitle } from "../../../shared/utils/trash";
+
+const RETENTION_CHOICES = [1, 7, 14, 30, 90];
+const DAY = 24 * 60 * 60 * 1000;
+
+interface TrashModalProps {
+  entries: TrashEntry[];
+  retentionDays: number;
+  onRestore: (entryIds: string[]) => Promise<void>;
+  onDelete: (entryIds: string[]) => Promise<void>;
+  onEmpty: () => Promise<void>;
+  onRetentionChange: (days: number) => void;
+  onClose: () => void;
+}
+
+const TrashModal: React.FC<TrashModalProps> = ({
+  entries,
+  retentionDays,
+  onRestore,
+  onDelete,
+  onEmpty,
+  onRetentionChange,
+  onClose,
+}) => {
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  // Handle ESC key to close modal
+  useEffect(() => {
+    const handleEsc = (event: KeyboardEvent) => {
+      if (event.key === "Escape") {
+        onClose();
+      }
+    };
+
+    document.addEventListener("keydown", handleEsc);
+    return () => document.removeEventListener("keydown", handleEsc);
+  }, [onClose]);
+
+  const runFor = async (id: string, action: () => Promise<void>) => {
+    setBusyId(id);
+    try {
+      await action();
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleEmpty = () => {
+    if (confirm(`Delete all ${entries.length} entries in the trash for good?`)) {
+      runFor("all", onEmpty);
+    }
+  };
+
+  const daysLeft = (entry: TrashEntry) =>
+    Math.max(
+      0,
+      Math.ceil((entry.deletedAt + retentionDays * DAY - Date.now()) / DAY)
+    );
+
+  return (
+    <div className="fixed inset-0 bg-drawer-background z-50 flex flex-col">
+      {/* Header - Fixed at top */}
+      <div className="flex items-center justify-between p-4 border-b border-border-default bg-dialog-background shadow-sm">
+        <h2 className="text-lg font-semibold text-text-primary">
+          Trash ({entries.length})
+        </h2>
+        <div className="flex items-center gap-3">
+          <label className="flex items-center gap-2 text-xs text-text-secondary">
+            Keep for
+            <select
+              value={retentionDays}
+              onChange={(e) => onRetentionChange(Number(e.target.value))}
+              className="px-2 py-1 bg-input-background border border-border-default rounded text-text-primary focus:outline-none focus:ring-2 focus:ring-primary"
+            >
+              {Array.from(new Set([...RETENTION_CHOICES, retentionDays]))
+                .sort((a, b) => a - b)
+                .map((days) => (
+                  <option key={days} value={days}>
+                    {days} {days === 1 ? "day" : "days"}
+                  </option>
+                ))}
+            </select>
+          </label>
+          <button
+            onClick={handleEmpty}
+            disabled={entries.length === 0 || busyId !== null}
+            className="flex items-center gap-1 px-3 py-1.5 bg-button-second-bg hover:bg-button-second-bg-hover rounded text-xs text-red-500 transition-colors disabled:opacity-50"
+          >
+            <Trash2 size={12} />
+            Empty Trash
+          </button>
+          <button
+            onClick={onClose}
+            className="p-1 hover:bg-button-second-bg-hover rounded-lg transition-colors"
+          >
+            <X size={18} className="text-text-secondary" />
+          </button>
+        </div>
+      </div>
+
+      {/* Scrollable Content */}
+      <div className="flex-1 overflow-y-auto">
+        <div className="p-4 max-w-3xl mx-auto space-y-2">
+          <p className="text-sm text-text-secondary">
+            Deleted items and folders stay here for {retentionDays}{" "}
+            {retentionDays === 1 ? "day" : "days"}. Restoring puts them back in
+            the folder they were deleted from, re-creating it if it is gone.
+          </p>
+
+          {entries.length === 0 && (
+            <div className="text-sm text-text-secondary">
+              The trash is empty.
+            </div>
+          )}
+
+          {entries.map((entry) => (
+            <div
+              key={entry.id}
+              className="flex items-center gap-3 bg-card-background rounded-lg p-3"
+            >
+              {entry.kind === "folder" ? (
+                <Folder size={16} className="text-yellow-600 flex-shrink-0" />
+              ) : (
+                <FileText
+                  size={16}
+                  className="text-text-secondary flex-shrink-0"
+                />
+              )}
+              <div className="flex-1 min-w-0">
+                <div className="text-sm font-medium text-text-primary truncate">
+                  {getTrashEntryTitle(entry)}
+                  {entry.kind === "folder" && (
+                    <span className="ml-2 text-xs font-normal text-text-secondary">
+                      {entry.items.length} items
+                    </span>
+                  )}
+                </div>
+                <div className="text-xs text-text-secondary truncate">
+                  from{" "}
+                  {entry.path.length > 0
+                    ? entry.path.map((segment) => segment.name).join(" / ")
+                    : "the top level"}{" "}
+                  · deleted {new Date(entry.deletedAt).toLocaleString()} ·{" "}
+                  {daysLeft(entry)} days left
+                </div>
+              </div>
+              <button
+                onClick={() => runFor(entry.id, () => onRestore([entry.id]))}
+                disabled={busyId !== null}
+                className="flex items-center gap-1 px-3 py-1.5 bg-primary hover:bg-primary/90 text-white rounded text-xs transition-colors disabled:opacity-50"
+              >
+                <RotateCcw size={12} />
+                Restore
+              </button>
+              <button
+                onClick={() => runFor(entry.id, () => onDelete([entry.id]))}
+                disabled={busyId !== null}
+                className="p-1.5 hover:bg-button-second-bg-hover rounded text-red-500 transition-colors disabled:opacity-50"
+                title="Delete for good"
+              >
+                <Trash2 size={14} />
+              </button>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TrashModal;
@@ -0,0 +1,177 @@
+import React, { useEffect, useState } from "react";
+import { X, Shield, ShieldOff } from "lucide-react";
+
+// Passphrases shorter than this are rejected when the vault is set up
+const MIN_PASSPHRASE_LENGTH = 8;
+
+interface VaultSettingsModalProps {
+  enabled: boolean;
+  autoLockMinutes: number;
+  onEnable: (passphrase: string) => Promise<void>;
+  onDisable: () => Promise<void>;
+  onAutoLockChange: (minutes: number) => Promise<void>;
+  onClose: () => void;
+}
+
+const VaultSettingsModal: React.FC<VaultSettingsModalProps> = ({
+  enabled,
+  autoLockMinutes,
+  onEnable,
+  onDisable,
+  onAutoLockChange,
+  onClose,
+}) => {
+  const [passphrase, setPassphrase] = useState("");
+  const [confirmation, setConfirmation] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Handle ESC key to close modal
+  useEffect(() => {
+    const handleEsc = (event: KeyboardEvent) => {
+      if (event.key === "Escape") {
+        onClose();
+      }
+    };
+
+    document.addEventListener("keydown", handleEsc);
+    return () => document.removeEventListener("keydown", handleEsc);
+  }, [onClose]);
+
+  const passphraseError =
+    passphrase && passphrase.length < MIN_PASSPHRASE_LENGTH
+      ? `Use at least ${MIN_PASSPHRASE_LENGTH} characters`
+      : confirmation && confirmation !== passphrase
+      ? "Passphrases do not match"
+      : null;
+
+  const run = async (action: () => Promise<void>) => {
+    setIsSaving(true);
+    try {
+      await action();
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleEnable = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (passphraseError || !passphrase || confirmation !== passphrase) return;
+    run(() => onEnable(passphrase));
+  };
+
+  const handleDisable = () => {
+    if (
+      confirm(
+        "Turn off the vault? Clipboard items will be stored unencrypted again."
+      )
+    ) {
+      run(onDisable);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-drawer-background z-50 flex flex-col">
+      {/* Header - Fixed at top */}
+      <div className="flex items-center justify-between p-4 border-b border-border-default bg-dialog-background shadow-sm">
+        <h2 className="text-lg font-semibold text-text-primary">Vault</h2>
+        <button
+          onClick={onClose}
+          className="p-1 hover:bg-button-second-bg-hover rounded-lg transition-colors"
+        >
+          <X size={18} className="text-text-secondary" />
+        </button>
+      </div>
+
+      {/* Scrollable Content */}
+      <div className="flex-1 overflow-y-auto">
+        <div className="p-4 max-w-md mx-auto space-y-6">
+          <p className="text-sm text-text-secondary">
+            In vault mode the content of your clipboard items is encrypted on
+            this device and in sync storage with a key derived from your
+            passphrase. There is no way to recover the items if you forget
+            it.
+          </p>
+
+          {enabled ? (
+            <>
+              <div>
+                <label className="block text-sm font-medium text-text-primary mb-2">
+                  Lock after the computer is idle for
+                </label>
+                <select
+                  value={autoLockMinutes}
+                  onChange={(e) =>
+                    run(() => onAutoLockChange(Number(e.target.value)))
+                  }
+                  disabled={isSaving}
+                  className="w-full px-3 py-2 bg-input-background border border-border-default rounded text-text-primary focus:outline-none focus:ring-2 focus:ring-primary text-sm"
+                >
+                  <option value={1}>1 minute</option>
+                  <option value={5}>5 minutes</option>
+                  <option value={15}>15 minutes</option>
+                  <option value={60}>1 hour</option>
+                  <option value={0}>Only when the screen locks</option>
+                </select>
+              </div>
+
+              <button
+                onClick={handleDisable}
+                disabled={isSaving}
+                className="flex items-center gap-2 px-4 py-2 bg-button-second-bg hover:bg-button-second-bg-hover text-text-primary rounded transition-colors disabled:opacity-50 text-sm"
+              >
+                <ShieldOff size={14} />
+                Turn off vault
+              </button>
+            </>
+          ) : (
+            <form onSubmit={handleEnable} className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-text-primary mb-2">
+                  Passphrase
+                </label>
+                <input
+                  type="password"
+                  value={passphrase}
+                  onChange={(e) => setPassphrase(e.target.value)}
+                  autoFocus
+                  className="w-full px-3 py-2 bg-input-background border border-border-default rounded text-text-primary focus:outline-none focus:ring-2 focus:ring-primary text-sm"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-text-primary mb-2">
+                  Confirm passphrase
+                </label>
+                <input
+                  type="password"
+                  value={confirmation}
+                  onChange={(e) => setConfirmation(e.target.value)}
+                  className="w-full px-3 py-2 bg-input-background border border-border-default rounded text-text-primary focus:outline-none focus:ring-2 focus:ring-primary text-sm"
+                />
+              </div>
+
+              {passphraseError && (
+                <p className="text-xs text-red-500">{passphraseError}</p>
+              )}
+
+              <button
+                type="submit"
+                disabled={
+                  isSaving ||
+                  !!passphraseError ||
+                  !passphrase ||
+                  confirmation !== passphrase
+                }
+                className="flex items-center gap-2 px-4 py-2 bg-primary hover:bg-primary/90 text-white rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed text-sm"
+              >
+                <Shield size={14} />
+                {isSaving ? "Encrypting..." : "Encrypt my items"}
+              </button>
+            </form>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VaultSettingsModal;
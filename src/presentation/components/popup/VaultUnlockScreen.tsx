@@ -0,0 +1,68 @@
+import React, { useState } from "react";
+import { Lock, Loader } from "lucide-react";
+
+interface VaultUnlockScreenProps {
+  // Resolves to false when the passphrase is wrong
+  onUnlock: (passphrase: string) => Promise<boolean>;
+}
+
+const VaultUnlockScreen: React.FC<VaultUnlockScreenProps> = ({ onUnlock }) => {
+  const [passphrase, setPassphrase] = useState("");
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!passphrase || isUnlocking) return;
+
+    setIsUnlocking(true);
+    setError(null);
+    try {
+      // Key derivation takes a moment on purpose
+      if (!(await onUnlock(passphrase))) {
+        setError("Wrong passphrase");
+        setPassphrase("");
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to unlock");
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  return (
+    <div className="w-[800px] h-[600px] bg-drawer-background text-text-primary flex items-center justify-center">
+      <form onSubmit={handleSubmit} className="w-72 text-center space-y-4">
+        <Lock className="h-8 w-8 mx-auto text-primary" />
+        <div>
+          <h1 className="text-lg font-semibold">Vault locked</h1>
+          <p className="text-sm text-text-secondary">
+            Enter your passphrase to read and paste your clipboard items.
+          </p>
+        </div>
+
+        <input
+          type="password"
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          placeholder="Passphrase"
+          autoFocus
+          className="w-full px-3 py-2 bg-input-background border border-border-default rounded text-text-primary focus:outline-none focus:ring-2 focus:ring-primary text-sm"
+        />
+
+        {error && <p className="text-xs text-red-500">{error}</p>}
+
+        <button
+          type="submit"
+          disabled={!passphrase || isUnlocking}
+          className="w-full px-4 py-2 bg-primary hover:bg-primary/90 text-white rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2 justify-center text-sm"
+        >
+          {isUnlocking && <Loader size={14} className="animate-spin" />}
+          Unlock
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default VaultUnlockScreen;
@@ -0,0 +1,345 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { ResponsiveBar } from "@nivo/bar";
+import { ResponsiveCalendar } from "@nivo/calendar";
+import { ResponsiveLine } from "@nivo/line";
+import { ResponsivePie } from "@nivo/pie";
+import { BarChart3, Loader, ShieldCheck } from "lucide-react";
+import {
+  clipboardRepository,
+  PasteEvent,
+  StorageSnapshot,
+} from "@/shared/utils/clipboard-repository";
+import { ItemMetadata } from "@/shared/utils/idb-store";
+import { logger } from "@/shared/utils/logger";
+import { useSettingsTheme } from "@/hooks/useSettingsTheme";
+import {
+  countPastesPerDay,
+  rankPastedItems,
+  rankPasteSites,
+  successfulPastes,
+  summarizeFailures,
+  toDayKey,
+} from "@/shared/utils/usage-stats";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const RANGES = [
+  { label: "Last 30 days", days: 30 },
+  { label: "Last 90 days", days: 90 },
+  { label: "Last year", days: 365 },
+];
+
+// Chart text and tooltips follow the page colors in light and dark mode
+const chartTheme = {
+  text: { fill: "var(--text-secondary)" },
+  axis: { ticks: { text: { fill: "var(--text-secondary)" } } },
+  grid: { line: { stroke: "var(--border)" } },
+  tooltip: {
+    container: {
+      background: "var(--dialog-background)",
+      color: "var(--text-primary)",
+      fontSize: 12,
+    },
+  },
+};
+
+const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+// Long titles are cut for the bar axis, the tooltip shows them whole
+const shorten = (text: string, length = 24): string =>
+  text.length > length ? `${text.slice(0, length - 1)}…` : text;
+
+const Card: React.FC<{
+  title: string;
+  subtitle?: string;
+  className?: string;
+  children: React.ReactNode;
+}> = ({ title, subtitle, className = "", children }) => (
+  <div className={`bg-card-background border border-border-default rounded-lg p-4 ${className}`}>
+    <h2 className="text-sm font-semibold text-text-primary">{title}</h2>
+    {subtitle && <p className="text-xs text-text-secondary">{subtitle}</p>}
+    <div className="mt-3">{children}</div>
+  </div>
+);
+
+const Empty: React.FC<{ children: React.ReactNode }> = ({ children }) => (
+  <div className="h-full flex items-center justify-center text-sm text-text-secondary">
+    {children}
+  </div>
+);
+
+const StatsPage: React.FC = () => {
+  const [history, setHistory] = useState<PasteEvent[]>([]);
+  const [snapshots, setSnapshots] = useState<StorageSnapshot[]>([]);
+  const [items, setItems] = useState<ItemMetadata[]>([]);
+  const [rangeDays, setRangeDays] = useState(RANGES[0].days);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useSettingsTheme();
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const [events, storage, summaries] = await Promise.all([
+          clipboardRepository.getHistory(),
+          clipboardRepository.getStorageSnapshots(),
+          clipboardRepository.getClipboardItemSummaries(),
+        ]);
+        setHistory(events);
+        setSnapshots(storage);
+        setItems(summaries);
+      } catch (err) {
+        logger.error("Failed to load usage statistics", err);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    load();
+    return clipboardRepository.subscribe(load, ["history", "items"]);
+  }, []);
+
+  const since = Date.now() - rangeDays * DAY;
+  const events = useMemo(
+    () => history.filter((event) => event.timestamp >= since),
+    [history, rangeDays]
+  );
+
+  const titles = useMemo(
+    () => new Map(items.map((item) => [item.id, item.title])),
+    [items]
+  );
+  const perDay = useMemo(() => countPastesPerDay(events), [events]);
+  const topItems = useMemo(
+    () => rankPastedItems(events, titles),
+    [events, titles]
+  );
+  const sites = useMemo(() => rankPasteSites(events), [events]);
+  const failures = useMemo(() => summarizeFailures(events), [events]);
+  const storage = useMemo(
+    () => snapshots.filter((snapshot) => snapshot.day >= toDayKey(since)),
+    [snapshots, rangeDays]
+  );
+
+  const pasted = successfulPastes(events);
+  const pastedItemCount = new Set(
+    pasted.map((event) => event.itemId).filter(Boolean)
+  ).size;
+  // About ten dates on the axis, however many days are shown
+  const storageTicks = storage
+    .filter((_, index) => index % Math.ceil(storage.length / 10) === 0)
+    .map((snapshot) => snapshot.day);
+  const latestSnapshot = snapshots[snapshots.length - 1];
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-background text-text-primary flex items-center justify-center">
+        <Loader className="animate-spin h-8 w-8 text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background text-text-primary">
+      <div className="max-w-6xl mx-auto p-6 space-y-4">
+        {/* Header */}
+        <div className="flex items-center gap-3">
+          <BarChart3 size={22} className="text-primary" />
+          <h1 className="text-xl font-semibold">ShortcutPaste Stats</h1>
+          <select
+            value={rangeDays}
+            onChange={(e) => setRangeDays(Number(e.target.value))}
+            className="ml-auto px-2 py-1 bg-input-background border border-border-default rounded text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+          >
+            {RANGES.map(({ label, days }) => (
+              <option key={days} value={days}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <p className="flex items-center gap-2 text-xs text-text-secondary">
+          <ShieldCheck size={14} />
+          Computed in this browser from the paste history and the storage
+          records. Nothing is sent anywhere.
+        </p>
+
+        {/* Summary */}
+        <div className="grid grid-cols-4 gap-4">
+          {[
+            ["Pastes", String(pasted.length)],
+            [
+              "Failure rate",
+              `${Math.round(failures.rate * 100)}% of ${failures.attempts}`,
+            ],
+            ["Items pasted", String(pastedItemCount)],
+            [
+              "Stored now",
+              latestSnapshot
+                ? `${latestSnapshot.items} items, ${formatBytes(latestSnapshot.bytes)}`
+                : "–",
+            ],
+          ].map(([label, value]) => (
+            <div key={label} className="bg-card-background border border-border-default rounded-lg p-4">
+              <div className="text-xs text-text-secondary">{label}</div>
+              <div className="text-lg font-semibold">{value}</div>
+            </div>
+          ))}
+        </div>
+
+        <Card title="Pastes per day">
+          <div className="h-44">
+            {perDay.length > 0 ? (
+              <ResponsiveCalendar
+                data={perDay}
+                from={toDayKey(since)}
+                to={toDayKey(Date.now())}
+                theme={chartTheme}
+                emptyColor="var(--sidebar-item-hover)"
+                colors={["#bfdbfe", "#60a5fa", "#3686ff", "#1d4ed8"]}
+                margin={{ top: 20, right: 10, bottom: 0, left: 30 }}
+                monthBorderColor="var(--card-background)"
+                dayBorderColor="var(--card-background)"
+                dayBorderWidth={2}
+              />
+            ) : (
+              <Empty>No pastes in this period</Empty>
+            )}
+          </div>
+        </Card>
+
+        <div className="grid grid-cols-2 gap-4">
+          <Card title="Most pasted items">
+            <div className="h-72">
+              {topItems.length > 0 ? (
+                <ResponsiveBar
+                  data={[...topItems].reverse().map((entry) => ({
+                    item: shorten(entry.label),
+                    title: entry.label,
+                    pastes: entry.count,
+                  }))}
+                  keys={["pastes"]}
+                  indexBy="item"
+                  layout="horizontal"
+                  theme={chartTheme}
+                  colors={["#3686ff"]}
+                  margin={{ top: 0, right: 20, bottom: 30, left: 160 }}
+                  padding={0.25}
+                  enableGridY={false}
+                  labelTextColor="#ffffff"
+                  tooltip={({ data, value }) => (
+                    <div
+                      style={chartTheme.tooltip.container}
+                      className="px-2 py-1 rounded shadow"
+                    >
+                      {data.title}: {value}
+                    </div>
+                  )}
+                />
+              ) : (
+                <Empty>No pastes in this period</Empty>
+              )}
+            </div>
+          </Card>
+
+          <Card title="Pastes per site">
+            <div className="h-72">
+              {sites.length > 0 ? (
+                <ResponsivePie
+                  data={sites.map((entry) => ({
+                    id: entry.key,
+                    label: entry.label,
+                    value: entry.count,
+                  }))}
+                  theme={chartTheme}
+                  colors={{ scheme: "paired" }}
+                  margin={{ top: 20, right: 120, bottom: 20, left: 120 }}
+                  innerRadius={0.5}
+                  padAngle={1}
+                  cornerRadius={2}
+                  arcLinkLabel="label"
+                  arcLinkLabelsColor={{ from: "color" }}
+                  arcLinkLabelsTextColor="var(--text-secondary)"
+                  arcLabelsTextColor="#ffffff"
+                />
+              ) : (
+                <Empty>No pastes in this period</Empty>
+              )}
+            </div>
+          </Card>
+
+          <Card
+            title="Failures by reason"
+            subtitle={`${failures.failures} of ${failures.attempts} pastes failed`}
+          >
+            <div className="h-64">
+              {failures.reasons.length > 0 ? (
+                <ResponsiveBar
+                  data={failures.reasons.map((entry) => ({
+                    reason: entry.label,
+                    failures: entry.count,
+                  }))}
+                  keys={["failures"]}
+                  indexBy="reason"
+                  theme={chartTheme}
+                  colors={["#ef4444"]}
+                  margin={{ top: 10, right: 10, bottom: 40, left: 40 }}
+                  padding={0.3}
+                  labelTextColor="#ffffff"
+                />
+              ) : (
+                <Empty>No failed pastes in this period</Empty>
+              )}
+            </div>
+          </Card>
+
+          <Card
+            title="Storage over time"
+            subtitle="Size of the stored items, recorded once a day"
+          >
+            <div className="h-64">
+              {storage.length > 1 ? (
+                <ResponsiveLine
+                  data={[
+                    {
+                      id: "Stored",
+                      data: storage.map((snapshot) => ({
+                        x: snapshot.day,
+                        y: Math.round((snapshot.bytes / 1024) * 10) / 10,
+                      })),
+                    },
+                  ]}
+                  theme={chartTheme}
+                  colors={["#3686ff"]}
+                  margin={{ top: 10, right: 20, bottom: 40, left: 60 }}
+                  xScale={{ type: "point" }}
+                  yScale={{ type: "linear", min: 0, max: "auto" }}
+                  axisLeft={{
+                    legend: "KB",
+                    legendOffset: -50,
+                    legendPosition: "middle",
+                  }}
+                  axisBottom={{ tickRotation: -30, tickValues: storageTicks }}
+                  enableArea
+                  useMesh
+                  pointSize={4}
+                />
+              ) : (
+                <Empty>
+                  Storage is recorded once a day; the chart starts after two
+                  days.
+                </Empty>
+              )}
+            </div>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StatsPage;
@@ -0,0 +1,62 @@
+// src/shared/utils/abbreviations.test.ts
+import { describe, expect, it } from 'vitest';
+import { ClipboardItem } from '../../types/clipboard';
+import { findAbbreviationConflicts, isExpanderEnabledForSite, validateAbbreviation } from './abbreviations';
+
+const item = (id: string, abbreviation?: string): ClipboardItem => ({
+    id,
+    content: id,
+    type: 'text',
+    title: `Item ${id}`,
+    timestamp: 0,
+    size: 1,
+    abbreviation
+});
+
+const items = [item('sig', ';sig'), item('addr', ';addr'), item('plain')];
+
+describe('validateAbbreviation', () => {
+    it('accepts an empty or unique trigger', () => {
+        expect(validateAbbreviation('', items)).toBeNull();
+        expect(validateAbbreviation(';mail', items)).toBeNull();
+    });
+
+    it('lets an item keep its own trigger', () => {
+        expect(validateAbbreviation(';sig', items, 'sig')).toBeNull();
+    });
+
+    it('rejects spaces and lengths out of range', () => {
+        expect(validateAbbreviation(';a b', items)).toBe('Abbreviation cannot contain spaces');
+        expect(validateAbbreviation(';', items)).toBe('Abbreviation must be at least 2 characters');
+        expect(validateAbbreviation(`;${'x'.repeat(32)}`, items)).toBe('Abbreviation must be at most 32 characters');
+    });
+
+    it('rejects duplicates and prefixes either way', () => {
+        expect(validateAbbreviation(';sig', items)).toBe('";sig" is already used by "Item sig"');
+        expect(validateAbbreviation(';si', items)).toBe('";si" would fire before ";sig" (Item sig) can be typed');
+        expect(validateAbbreviation(';sig2', items)).toBe('";sig" (Item sig) would fire before ";sig2" can be typed');
+    });
+});
+
+describe('findAbbreviationConflicts', () => {
+    it('reports duplicate and prefix pairs once', () => {
+        const conflicts = findAbbreviationConflicts([...items, item('dup', ';sig'), item('long', ';addr2')]);
+        expect(conflicts).toEqual([
+            { abbreviation: ';sig', conflictsWith: ';sig', itemId: 'sig', otherItemId: 'dup', kind: 'duplicate' },
+            { abbreviation: ';addr', conflictsWith: ';addr2', itemId: 'addr', otherItemId: 'long', kind: 'prefix' }
+        ]);
+    });
+
+    it('finds nothing among distinct triggers', () => {
+        expect(findAbbreviationConflicts(items)).toEqual([]);
+    });
+});
+
+describe('isExpanderEnabledForSite', () => {
+    it('honors the global switch and disabled sites', () => {
+        const settings = { enabled: true, disabledSites: ['example.com'] };
+        expect(isExpanderEnabledForSite(settings, 'other.org')).toBe(true);
+        expect(isExpanderEnabledForSite(settings, 'Example.com')).toBe(false);
+        expect(isExpanderEnabledForSite({ ...settings, enabled: false }, 'other.org')).toBe(false);
+    });
+});
@@ -0,0 +1,98 @@
+// src/shared/utils/abbreviations.ts
+/**
+ * Text expander abbreviations (e.g. ";sig" expands to a signature item)
+ * Triggers expand as soon as they are typed, so a trigger that is a prefix
+ * of another one would make the longer trigger unreachable.
+ */
+import { ClipboardItem } from '../../types/clipboard';
+
+export const MIN_ABBREVIATION_LENGTH = 2;
+export const MAX_ABBREVIATION_LENGTH = 32;
+
+export interface AbbreviationConflict {
+    abbreviation: string;
+    conflictsWith: string;
+    itemId: string;
+    otherItemId: string;
+    kind: 'duplicate' | 'prefix';
+}
+
+/**
+ * Validate an abbreviation for an item against every other item.
+ * Returns an error message, or null when the abbreviation can be used.
+ */
+export const validateAbbreviation = (
+    abbreviation: string,
+    items: ClipboardItem[],
+    itemId?: string
+): string | null => {
+    const trigger = abbreviation.trim();
+
+    if (!trigger) {
+        return null;
+    }
+
+    if (/\s/.test(trigger)) {
+        return 'Abbreviation cannot contain spaces';
+    }
+
+    if (trigger.length < MIN_ABBREVIATION_LENGTH) {
+        return `Abbreviation must be at least ${MIN_ABBREVIATION_LENGTH} characters`;
+    }
+
+    if (trigger.length > MAX_ABBREVIATION_LENGTH) {
+        return `Abbreviation must be at most ${MAX_ABBREVIATION_LENGTH} characters`;
+    }
+
+    for (const item of items) {
+        if (item.id === itemId || !item.abbreviation) {
+            continue;
+        }
+
+        const other = item.abbreviation;
+        if (other === trigger) {
+            return `"${trigger}" is already used by "${item.title}"`;
+        }
+        if (other.startsWith(trigger)) {
+            return `"${trigger}" would fire before "${other}" (${item.title}) can be typed`;
+        }
+        if (trigger.startsWith(other)) {
+            return `"${other}" (${item.title}) would fire before "${trigger}" can be typed`;
+        }
+    }
+
+    return null;
+};
+
+/**
+ * Find every duplicate or prefix-colliding pair among the saved items
+ */
+export const findAbbreviationConflicts = (items: ClipboardItem[]): AbbreviationConflict[] => {
+    const withTriggers = items.filter(item => !!item.abbreviation);
+    const conflicts: AbbreviationConflict[] = [];
+
+    withTriggers.forEach((item, index) => {
+        withTriggers.slice(index + 1).forEach(other => {
+            const a = item.abbreviation!;
+            const b = other.abbreviation!;
+
+            if (a === b) {
+                conflicts.push({ abbreviation: a, conflictsWith: b, itemId: item.id, otherItemId: other.id, kind: 'duplicate' });
+            } else if (a.startsWith(b) || b.startsWith(a)) {
+                conflicts.push({ abbreviation: a, conflictsWith: b, itemId: item.id, otherItemId: other.id, kind: 'prefix' });
+            }
+        });
+    });
+
+    return conflicts;
+};
+
+/**
+ * Whether the text expander should run on a site
+ */
+export const isExpanderEnabledForSite = (
+    settings: { enabled: boolean; disabledSites: string[] },
+    hostname: string
+): boolean => {
+    return settings.enabled && !settings.disabledSites.includes(hostname.toLowerCase());
+};
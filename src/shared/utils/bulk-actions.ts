@@ -0,0 +1,130 @@
+// src/shared/utils/bulk-actions.ts
+/**
+ * Actions on several selected items at once. Each one returns the whole
+ * new item list; the popup saves what changed (diffItems) in one write.
+ */
+import { ClipboardItem } from '../../types/clipboard';
+import { FAVORITE_SLOTS, isValidSlot } from './favorite-slots';
+import { ItemPatch } from './idb-store';
+
+// Separators offered when copying or merging several items
+export const JOIN_SEPARATORS: { label: string; value: string }[] = [
+    { label: 'New line', value: '\n' },
+    { label: 'Blank line', value: '\n\n' },
+    { label: 'Comma', value: ', ' },
+    { label: 'Space', value: ' ' },
+    { label: 'Tab', value: '\t' }
+];
+
+// Selected items in the order they were picked, skipping missing ids
+export const pickItems = (items: ClipboardItem[], itemIds: string[]): ClipboardItem[] => {
+    const byId = new Map(items.map(item => [item.id, item]));
+    return itemIds
+        .map(id => byId.get(id))
+        .filter((item): item is ClipboardItem => !!item);
+};
+
+const isSameValue = (a: unknown, b: unknown): boolean =>
+    a === b || JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * The field changes that turn `before` into `after`, for
+ * clipboardRepository.updateClipboardItems. Items missing from either
+ * list and content changes are left out.
+ */
+export const diffItems = (before: ClipboardItem[], after: ClipboardItem[]): ItemPatch[] => {
+    const previous = new Map(before.map(item => [item.id, item]));
+    const patches: ItemPatch[] = [];
+
+    after.forEach(item => {
+        const old = previous.get(item.id);
+        if (!old || old === item) return;
+
+        const patch: ItemPatch = { id: item.id };
+        const keys = new Set([...Object.keys(old), ...Object.keys(item)]);
+        keys.forEach(key => {
+            if (key === 'id' || key === 'content' || key === 'preview') return;
+            const value = item[key as keyof ClipboardItem];
+            if (!isSameValue(old[key as keyof ClipboardItem], value)) {
+                (patch as Record<string, unknown>)[key] = value;
+            }
+        });
+        if (Object.keys(patch).length > 1) patches.push(patch);
+    });
+    return patches;
+};
+
+/**
+ * Text of the items joined with a separator. Images have no text to
+ * join and are left out.
+ */
+export const joinItemContents = (items: ClipboardItem[], separator: string): string =>
+    items
+        .filter(item => item.type !== 'image')
+        .map(item => item.content)
+        .join(separator);
+
+/**
+ * One item holding the text of several, in the first item's folder and
+ * with the tags of all of them. HTML stays HTML when every part is HTML.
+ */
+export const buildMergedItem = (
+    items: ClipboardItem[],
+    separator: string
+): Omit<ClipboardItem, 'id' | 'timestamp'> => {
+    const parts = items.filter(item => item.type !== 'image');
+    const content = joinItemContents(parts, separator);
+    const tags = Array.from(new Set(parts.flatMap(item => item.tags || [])));
+
+    return {
+        title: `Merged: ${parts.map(item => item.title).join(', ')}`.substring(0, 100),
+        content,
+        type: parts.every(item => item.type === 'html') ? 'html' : 'text',
+        size: new Blob([content]).size,
+        folderId: parts[0]?.folderId,
+        tags: tags.length > 0 ? tags : undefined
+    };
+};
+
+/**
+ * Favorites for several items at once. The single `isFavorite` item is
+ * what the paste-favorite shortcut uses, so a batch goes into the free
+ * numbered slots instead. When every selected item already has a slot
+ * the slots are cleared. `unplaced` counts items that found no free slot.
+ */
+export const toggleFavoriteSlots = (
+    items: ClipboardItem[],
+    itemIds: string[]
+): { items: ClipboardItem[]; unplaced: number } => {
+    const ids = new Set(itemIds);
+    const selected = items.filter(item => ids.has(item.id));
+
+    if (selected.every(item => isValidSlot(item.slot))) {
+        return {
+            items: items.map(item =>
+                ids.has(item.id) ? { ...item, slot: undefined, slotAssignedAt: undefined } : item
+            ),
+            unplaced: 0
+        };
+    }
+
+    const taken = new Set(items.map(item => item.slot).filter(isValidSlot));
+    const free = FAVORITE_SLOTS.filter(slot => !taken.has(slot));
+    const assignments = new Map<string, number>();
+    pickItems(items, itemIds)
+        .filter(item => !isValidSlot(item.slot))
+        .forEach(item => {
+            const slot = free.shift();
+            if (slot !== undefined) assignments.set(item.id, slot);
+        });
+
+    const now = Date.now();
+    return {
+        items: items.map(item =>
+            assignments.has(item.id)
+                ? { ...item, slot: assignments.get(item.id), slotAssignedAt: now }
+                : item
+        ),
+        unplaced: selected.filter(item => !isValidSlot(item.slot)).length - assignments.size
+    };
+};
@@ -0,0 +1,25 @@
+// src/shared/utils/clipboard-history.ts
+/**
+ * Copies and cuts captured in pages are kept in a system folder, apart from
+ * curated folders.
+ */
+import { ClipboardFolder, ClipboardItem } from '../../types/clipboard';
+
+export const HISTORY_FOLDER_ID = 'clipboard_history';
+
+export const isHistoryFolder = (folder: Pick<ClipboardFolder, 'id'>): boolean =>
+    folder.id === HISTORY_FOLDER_ID;
+
+/**
+ * Ids of the oldest history entries beyond maxItems. Favorites, slots and
+ * abbreviations mark an entry as kept on purpose, so those never count.
+ */
+export const getHistoryOverflow = (
+    items: Pick<ClipboardItem, 'id' | 'timestamp' | 'folderId' | 'isFavorite' | 'slot' | 'abbreviation'>[],
+    maxItems: number
+): string[] =>
+    items
+        .filter(item => item.folderId === HISTORY_FOLDER_ID && !item.isFavorite && !item.slot && !item.abbreviation)
+        .sort((a, b) => b.timestamp - a.timestamp)
+        .slice(maxItems)
+        .map(item => item.id);
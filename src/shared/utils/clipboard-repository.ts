@@ -0,0 +1,1734 @@
+// src/shared/utils/clipboard-repository.ts
+/**
+ * The single place clipboard data is read and written. The popup and the
+ * background page import it directly; the content script only imports its
+ * types and reaches the data through background messages, so every mutation
+ * ends up here.
+ *
+ * Items live in IndexedDB (see idb-store.ts), folders, settings and small
+ * records in extension storage. Deleting moves items and folders to the
+ * trash, which keeps them for `trash.retentionDays`. Edits keep the
+ * version they replace as a revision (see item-revisions.ts). Items with an
+ * expiry rule (see item-expiry.ts) are hidden once expired and moved to
+ * the trash or wiped by `expireItems`. Data written by older versions is upgraded
+ * by the schema migrations below before the first read or write.
+ *
+ * In vault mode item content is stored encrypted. Reads decrypt and writes
+ * encrypt transparently while the vault is unlocked, and throw
+ * VaultLockedError while it is locked. The sync engine works on the stored
+ * form (`raw`), so synced copies stay encrypted too.
+ */
+import {
+    ClipboardItem,
+    ClipboardFolder,
+    ItemRevision,
+    ItemRevisionHistory,
+    SmartFolder,
+    SyncConflict,
+    TrashEntry
+} from '../../types/clipboard';
+import { guardSensitiveItem, SensitiveAction, SensitiveContext } from './sensitive-content';
+import { clipboardDatabase, ItemMetadata, ItemPatch, RevisionStamp } from './idb-store';
+import { normalizeTags } from './tags';
+import { addRevision } from './item-revisions';
+import { getExpireAction, isItemExpired, toExpiredCopy } from './item-expiry';
+import { toDayKey } from './usage-stats';
+import { PasteRule } from './paste-rules';
+import { getHistoryOverflow } from './clipboard-history';
+import {
+    collectFolderItems,
+    ensureFolderPath,
+    getFolderPath,
+    isTrashEntryExpired,
+    placeFolder,
+    removeFolder,
+    withoutExpiredItems
+} from './trash';
+import { findFolder, findParentFolderId } from './tree-order';
+import {
+    VaultConfig,
+    createVaultConfig,
+    decryptText,
+    deriveVaultKey,
+    encryptText,
+    exportRawKey,
+    importRawKey,
+    openVault,
+    randomSalt,
+    VAULT_KDF_ITERATIONS
+} from './vault-crypto';
+
+// Firefox/Chrome compatibility layer
+const getBrowserAPI = (): typeof chrome => {
+    if (typeof browser !== 'undefined') {
+        return browser as unknown as typeof chrome; // Firefox
+    } else if (typeof chrome !== 'undefined') {
+        return chrome; // Chrome
+    }
+    throw new Error('No browser API available');
+};
+
+/**
+ * Version of the stored layout:
+ * 1 - "clipboard_items" / "clipboard_folders"
+ * 2 - "clipboard_items_v2" / "clipboard_folders_v2"
+ * 3 - "clipboard_items_v3" array in storage.local
+ * 4 - items in IndexedDB, folders in "clipboard_folders_v3"
+ */
+export const SCHEMA_VERSION = 4;
+
+export const STORAGE_KEYS = {
+    LEGACY_ITEMS: 'clipboard_items_v3', // Schema 3 item array, removed by the migration
+    FOLDERS: 'clipboard_folders_v3',
+    SMART_FOLDERS: 'clipboard_smart_folders',
+    ITEMS_CHANGED: 'clipboard_items_changed_at',
+    TRASH_CHANGED: 'clipboard_trash_changed_at',
+    REVISIONS_CHANGED: 'clipboard_revisions_changed_at',
+    DEVICE_ID: 'device_id',
+    SETTINGS: 'shortcutpaste_settings',
+    SITE_SETTINGS: 'shortcutpaste_site_settings', // Paste rules and expander sites, local only
+    HISTORY: 'shortcutpaste_history',
+    STORAGE_STATS: 'storage_stats',
+    TEMPLATE_ANSWERS: 'template_answers',
+    SYNC_BASE_REVISIONS: 'sync_base_revisions',
+    SYNC_CONFLICTS: 'sync_conflicts',
+    VAULT_CONFIG: 'vault_config',
+    VAULT_KEY: 'vault_key' // storage.session, gone when the browser closes
+} as const;
+
+// IndexedDB meta records
+const SCHEMA_META_KEY = 'schema_version';
+const V3_MIGRATION_MARKER = 'migrated_from_v3'; // Written before schema versions existed
+
+const FOLDER_SYNC_LIMIT = 80000;
+const MAX_STORAGE_SNAPSHOTS = 366;
+
+export interface AppSettings {
+    theme: 'light' | 'dark' | 'system';
+    autoCapture: boolean;
+    maxItems: number;
+    shortcuts: {
+        pasteFavorite: string;
+        openPopup: string;
+    };
+    notifications: boolean;
+    syncEnabled: boolean;
+    textExpander: {
+        enabled: boolean;
+        disabledSites: string[];
+    };
+    sensitiveContent: {
+        action: SensitiveAction;
+        expireAfterMinutes: number;
+    };
+    vault: {
+        // Lock after the system has been idle this long, 0 to only lock by hand
+        autoLockMinutes: number;
+    };
+    trash: {
+        // Deleted items and folders are purged after this many days
+        retentionDays: number;
+    };
+    pasteHistory: {
+        // Paste events older than this many days are dropped
+        retentionDays: number;
+        // Only the newest events are kept beyond this many
+        maxEvents: number;
+    };
+    // Per-site paste behavior, the first matching rule applies
+    pasteRules: PasteRule[];
+}
+
+// How a paste was asked for
+export type PasteSource = 'favorite' | 'slot' | 'quickPicker' | 'expander' | 'popup';
+
+// Kind of element the content went into
+export type PasteTargetKind = 'input' | 'textarea' | 'contenteditable' | 'other' | 'none';
+
+export interface PasteEvent {
+    id: string;
+    itemId?: string; // Missing when there was no item to paste
+    timestamp: number;
+    itemTitle?: string; // Title when pasted, the item may be gone since
+    source?: PasteSource; // Older events did not record these
+    url?: string;
+    origin?: string;
+    target?: PasteTargetKind;
+    durationMs?: number;
+    success: boolean;
+    reason?: string; // Code of a failure, e.g. "no_favorite" or "paste_failed"
+    errorMessage?: string;
+}
+
+// Size of the stored items on a day, recorded by the background
+export interface StorageSnapshot {
+    day: string; // yyyy-mm-dd, local time
+    items: number;
+    bytes: number;
+    trashEntries: number;
+}
+
+export interface VaultStatus {
+    enabled: boolean;
+    unlocked: boolean;
+}
+
+/**
+ * Thrown when encrypted content is read or written while the vault is locked
+ */
+export class VaultLockedError extends Error {
+    constructor() {
+        super('The vault is locked');
+        this.name = 'VaultLockedError';
+    }
+}
+
+/**
+ * Thrown by updateSettings when the settings were saved on this device but
+ * sync storage refused them, e.g. over its quota
+ */
+export class SettingsSyncError extends Error {
+    constructor(cause: unknown) {
+        super(
+            `Settings were saved on this device only, browser sync refused them: ${
+                cause instanceof Error ? cause.message : String(cause)
+            }`
+        );
+        this.name = 'SettingsSyncError';
+    }
+}
+
+export interface SyncState {
+    // Revision both sides last agreed on, per item
+    base: Record<string, number>;
+    conflicts: SyncConflict[];
+}
+
+/**
+ * What a change touched. Listeners reload only the parts they show.
+ */
+export type RepositoryTopic =
+    | 'items'
+    | 'folders'
+    | 'smartFolders'
+    | 'settings'
+    | 'history'
+    | 'syncConflicts'
+    | 'vault'
+    | 'trash'
+    | 'revisions';
+
+export type RepositoryListener = (topics: RepositoryTopic[]) => void;
+
+const TOPIC_KEYS: Record<RepositoryTopic, string[]> = {
+    items: [STORAGE_KEYS.ITEMS_CHANGED],
+    folders: [STORAGE_KEYS.FOLDERS],
+    smartFolders: [STORAGE_KEYS.SMART_FOLDERS],
+    settings: [STORAGE_KEYS.SETTINGS, STORAGE_KEYS.SITE_SETTINGS],
+    history: [STORAGE_KEYS.HISTORY],
+    syncConflicts: [STORAGE_KEYS.SYNC_CONFLICTS],
+    vault: [STORAGE_KEYS.VAULT_CONFIG, STORAGE_KEYS.VAULT_KEY],
+    trash: [STORAGE_KEYS.TRASH_CHANGED],
+    revisions: [STORAGE_KEYS.REVISIONS_CHANGED]
+};
+
+interface SchemaMigration {
+    version: number;
+    migrate: () => Promise<void>;
+}
+
+export const DEFAULT_SETTINGS: AppSettings = {
+    theme: 'system',
+    autoCapture: false,
+    maxItems: 1000,
+    shortcuts: {
+        pasteFavorite: 'Alt+Shift+V',
+        openPopup: 'Alt+Shift+P'
+    },
+    notifications: true,
+    syncEnabled: true,
+    textExpander: {
+        enabled: true,
+        disabledSites: []
+    },
+    sensitiveContent: {
+        action: 'block',
+        expireAfterMinutes: 10
+    },
+    vault: {
+        autoLockMinutes: 15
+    },
+    trash: {
+        retentionDays: 30
+    },
+    pasteHistory: {
+        retentionDays: 30,
+        maxEvents: 500
+    },
+    pasteRules: []
+};
+
+// Shown until the user saves smart folders of their own
+export const DEFAULT_SMART_FOLDERS: SmartFolder[] = [
+    { id: 'smart-favorites', name: 'Favorites', query: 'is:favorite', createdAt: 0, expanded: false },
+    { id: 'smart-links', name: 'Links', query: 'type:url', createdAt: 0, expanded: false },
+    { id: 'smart-images', name: 'Images', query: 'type:image', createdAt: 0, expanded: false },
+    { id: 'smart-pasted-this-week', name: 'Pasted this week', query: 'pasted:7d', createdAt: 0, expanded: false }
+];
+
+// Firefox/Chrome compatible UUID generation
+const generateId = (): string => {
+    if (typeof crypto !== 'undefined' && crypto.randomUUID) {
+        return crypto.randomUUID();
+    }
+    // Fallback for older browsers
+    return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, function (c) {
+        const r = Math.random() * 16 | 0;
+        const v = c == 'x' ? r : (r & 0x3 | 0x8);
+        return v.toString(16);
+    });
+};
+
+// The list is stored unordered, callers expect newest first
+const sortNewestFirst = <T extends { timestamp: number }>(items: T[]): T[] =>
+    [...items].sort((a, b) => b.timestamp - a.timestamp);
+
+// Expired items are purged by the background; hide any it has not reached yet
+const withoutExpired = <T extends Pick<ClipboardItem, 'expiresAt' | 'pastesLeft'>>(items: T[]): T[] => {
+    const now = Date.now();
+    return items.filter(item => !isItemExpired(item, now));
+};
+
+// Stored settings may predate newer fields, fill them in from the defaults
+// Settings as stored. Copies carry when they were saved, so the newer of
+// the sync and local copy wins
+type StoredSettings = Omit<Partial<AppSettings>, 'textExpander'> & {
+    textExpander?: Partial<AppSettings['textExpander']>;
+    savedAt?: number;
+};
+
+// Lists that grow with use stay local, the 8 KB sync item quota can't hold them
+interface SiteSettings {
+    pasteRules: PasteRule[];
+    disabledSites: string[];
+}
+
+// Copies from before the stamp count as the oldest
+const newerSettings = (a?: StoredSettings, b?: StoredSettings): StoredSettings | undefined =>
+    !a || (b && (b.savedAt ?? 0) > (a.savedAt ?? 0)) ? b : a;
+
+const mergeSettings = (stored: StoredSettings | undefined): AppSettings => ({
+    ...DEFAULT_SETTINGS,
+    ...withoutStamp(stored),
+    shortcuts: { ...DEFAULT_SETTINGS.shortcuts, ...(stored?.shortcuts || {}) },
+    textExpander: { ...DEFAULT_SETTINGS.textExpander, ...(stored?.textExpander || {}) },
+    sensitiveContent: { ...DEFAULT_SETTINGS.sensitiveContent, ...(stored?.sensitiveContent || {}) },
+    vault: { ...DEFAULT_SETTINGS.vault, ...(stored?.vault || {}) },
+    trash: { ...DEFAULT_SETTINGS.trash, ...(stored?.trash || {}) },
+    pasteHistory: { ...DEFAULT_SETTINGS.pasteHistory, ...(stored?.pasteHistory || {}) }
+});
+
+const withoutStamp = (stored?: StoredSettings): Omit<StoredSettings, 'savedAt'> => {
+    const { savedAt, ...settings } = stored || {};
+    return settings;
+};
+
+// Settings stored before the split still carry their own lists
+const withSiteSettings = (settings: AppSettings, site?: SiteSettings): AppSettings =>
+    site
+        ? {
+            ...settings,
+            pasteRules: site.pasteRules,
+            textExpander: { ...settings.textExpander, disabledSites: site.disabledSites }
+        }
+        : settings;
+
+const originOf = (url?: string): string | undefined => {
+    if (!url) return undefined;
+    try {
+        return new URL(url).origin;
+    } catch {
+        return undefined;
+    }
+};
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// A decrypted item no longer carries the flag, so it is re-encrypted on save
+const withPlainContent = ({ encrypted, ...item }: ClipboardItem, content: string): ClipboardItem =>
+    ({ ...item, content });
+
+interface ItemQueryOptions {
+    // The expiry purge needs to see what it removes
+    includeExpired?: boolean;
+    // Content as stored, still encrypted in vault mode
+    raw?: boolean;
+}
+
+interface SaveItemsOptions {
+    // Items merged in from sync keep the revision they arrived with
+    stamp?: boolean;
+    // Items are in their stored form already
+    raw?: boolean;
+}
+
+// Header of an encrypted backup; the payload is the plain backup JSON
+interface EncryptedBackup {
+    version: number;
+    encrypted: true;
+    salt: string;
+    iterations: number;
+    payload: string;
+}
+
+class ClipboardRepository {
+    private ready: Promise<void> | null = null;
+    private deviceId: Promise<string> | null = null;
+    // Imported vault key and the raw value it came from
+    private vaultKey: { raw: string; key: CryptoKey } | null = null;
+
+    private readonly migrations: SchemaMigration[] = [
+        { version: 3, migrate: () => this.migrateLegacyKeys() },
+        { version: 4, migrate: () => this.migrateV3ToDatabase() }
+    ];
+
+    private get browserAPI() {
+        return getBrowserAPI();
+    }
+
+    // Items
+
+    async getClipboardItems(options: ItemQueryOptions = {}): Promise<ClipboardItem[]> {
+        try {
+            await this.ensureReady();
+            const stored = await clipboardDatabase.getAllItems();
+            const items = options.raw ? stored : await this.decryptItems(stored);
+            return sortNewestFirst(options.includeExpired ? items : withoutExpired(items));
+        } catch (error) {
+            if (error instanceof VaultLockedError) throw error;
+            console.error('Failed to get clipboard items:', error);
+            return [];
+        }
+    }
+
+    /**
+     * Items without their content, for lists that do not need it yet.
+     * Text items carry a short `preview`.
+     */
+    async getClipboardItemSummaries(): Promise<ItemMetadata[]> {
+        try {
+            await this.ensureReady();
+            return sortNewestFirst(withoutExpired(await clipboardDatabase.getAllMetadata()));
+        } catch (error) {
+            console.error('Failed to get clipboard item summaries:', error);
+            return [];
+        }
+    }
+
+    async getClipboardItem(id: string): Promise<ClipboardItem | null> {
+        try {
+            await this.ensureReady();
+            const [metadata, content] = await Promise.all([
+                clipboardDatabase.getMetadata(id),
+                clipboardDatabase.getContent(id)
+            ]);
+            if (!metadata || withoutExpired([metadata]).length === 0) return null;
+            const [item] = await this.decryptItems([{ ...metadata, content: content ?? '' }]);
+            return item;
+        } catch (error) {
+            if (error instanceof VaultLockedError) throw error;
+            console.error('Failed to get clipboard item:', error);
+            return null;
+        }
+    }
+
+    async getItemContent(id: string): Promise<string | null> {
+        try {
+            await this.ensureReady();
+            const metadata = await clipboardDatabase.getMetadata(id);
+            const content = await clipboardDatabase.getContent(id);
+            if (!metadata || content === undefined) return null;
+            const [item] = await this.decryptItems([{ ...metadata, content }]);
+            return item.content;
+        } catch (error) {
+            if (error instanceof VaultLockedError) throw error;
+            console.error('Failed to get item content:', error);
+            return null;
+        }
+    }
+
+    /**
+     * Make the stored items match the list. Changed items are saved as
+     * their next revision unless `stamp` is false.
+     */
+    async saveClipboardItems(items: ClipboardItem[], { stamp = true, raw = false }: SaveItemsOptions = {}): Promise<void> {
+        try {
+            await this.ensureReady();
+            const stored = raw ? items : await this.encryptItems(items);
+            const writes = await clipboardDatabase.replaceAll(stored, stamp ? await this.getStamp() : undefined);
+            console.log(`Saved ${items.length} clipboard items (${writes} records written)`);
+
+            if (writes > 0) {
+                await this.notifyItemsChanged();
+            }
+        } catch (error) {
+            console.error('Failed to save clipboard items:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Change an item. A new title or content keeps the previous version
+     * as a revision.
+     */
+    async updateClipboardItem(id: string, updates: Partial<ClipboardItem>): Promise<ClipboardItem | null> {
+        const item = await this.getClipboardItem(id);
+        if (!item) return null;
+
+        const updatedItem = { ...item, ...updates, id };
+        const [encrypted] = await this.encryptItems([updatedItem]);
+        const saved = await clipboardDatabase.putItem(encrypted, await this.getStamp());
+        await this.notifyItemsChanged();
+        await this.recordRevision(item, updatedItem);
+        return withPlainContent(saved, updatedItem.content);
+    }
+
+    /**
+     * Change fields (favorite, slot, tags, folder, order...) of several items
+     * in one write. Only the given items are touched, so items stored
+     * meanwhile by the background survive. Returns the patched metadata.
+     */
+    async updateClipboardItems(patches: ItemPatch[]): Promise<ItemMetadata[]> {
+        if (patches.length === 0) return [];
+        await this.ensureReady();
+        const saved = await clipboardDatabase.patchItems(patches, await this.getStamp());
+        if (saved.length > 0) {
+            await this.notifyItemsChanged();
+        }
+        return saved;
+    }
+
+    /**
+     * Store items merged in from sync as they arrived: in their stored form
+     * and with the revision they carry. Only the given items are written.
+     */
+    async putSyncedItems(items: ClipboardItem[]): Promise<void> {
+        if (items.length === 0) return;
+        await this.ensureReady();
+        await clipboardDatabase.putItems(items);
+        await this.notifyItemsChanged();
+    }
+
+    /**
+     * Save a new item. Secrets are blocked, masked or given an expiry
+     * depending on settings; throws when blocked.
+     */
+    async addClipboardItem(
+        itemData: Omit<ClipboardItem, 'id' | 'timestamp'>,
+        context: SensitiveContext = {}
+    ): Promise<ClipboardItem> {
+        const settings = await this.getSettings();
+        const guardedData = guardSensitiveItem(itemData, settings.sensitiveContent, context);
+
+        const newItem: ClipboardItem = {
+            ...guardedData,
+            id: generateId(),
+            timestamp: Date.now(),
+            isFavorite: itemData.isFavorite || false
+        };
+
+        await this.ensureReady();
+        const [encrypted] = await this.encryptItems([newItem]);
+        const savedItem = withPlainContent(
+            await clipboardDatabase.putItem(encrypted, await this.getStamp()),
+            newItem.content
+        );
+
+        await this.dropItemsOverLimit(settings.maxItems);
+        await this.notifyItemsChanged();
+        return savedItem;
+    }
+
+    /**
+     * Move the oldest Clipboard History entries beyond the maxItems setting
+     * to the trash; curated folders are never pruned. Returns the ids of
+     * the moved items.
+     */
+    async enforceItemLimit(): Promise<string[]> {
+        const { maxItems } = await this.getSettings();
+        return this.dropItemsOverLimit(maxItems);
+    }
+
+    private async dropItemsOverLimit(maxItems: number): Promise<string[]> {
+        const limit = Number.isInteger(maxItems) && maxItems > 0 ? maxItems : DEFAULT_SETTINGS.maxItems;
+        await this.ensureReady();
+        const overflow = getHistoryOverflow(await clipboardDatabase.getAllMetadata(), limit);
+        if (overflow.length === 0) return [];
+
+        await this.deleteClipboardItems(overflow);
+        return overflow;
+    }
+
+    async deleteClipboardItem(id: string): Promise<boolean> {
+        try {
+            return (await this.deleteClipboardItems([id])).length > 0;
+        } catch (error) {
+            console.error('Failed to delete clipboard item:', error);
+            return false;
+        }
+    }
+
+    /**
+     * Move items to the trash, one entry per item, in a single write.
+     * Returns the entries, which restoreFromTrash takes back.
+     */
+    async deleteClipboardItems(ids: string[]): Promise<TrashEntry[]> {
+        await this.ensureReady();
+        const wanted = new Set(ids);
+        const [items, folders] = await Promise.all([
+            clipboardDatabase.getAllItems(),
+            this.getClipboardFolders()
+        ]);
+
+        const deleted = items.filter(item => wanted.has(item.id));
+        if (deleted.length === 0) return [];
+
+        const deletedAt = Date.now();
+        const entries: TrashEntry[] = deleted.map(item => ({
+            id: generateId(),
+            kind: 'item',
+            deletedAt,
+            path: getFolderPath(folders, item.folderId),
+            item
+        }));
+
+        await clipboardDatabase.moveToTrash(entries, deleted.map(item => item.id));
+        await this.notifyItemsChanged();
+        await this.notifyTrashChanged();
+        return entries;
+    }
+
+    /**
+     * Log a paste in the history. A successful paste of an item with a
+     * paste limit uses one up, the item expires with the last.
+     * Returns true when the item expired.
+     */
+    async recordPaste(event: Omit<PasteEvent, 'id' | 'timestamp'>): Promise<boolean> {
+        await this.ensureReady();
+        const metadata = event.itemId ? await clipboardDatabase.getMetadata(event.itemId) : undefined;
+        await this.addToHistory({ itemTitle: metadata?.title, ...event });
+        if (!event.success || !metadata || metadata.pastesLeft === undefined) return false;
+
+        const content = await clipboardDatabase.getContent(metadata.id);
+
+        const pastesLeft = Math.max(0, metadata.pastesLeft - 1);
+        await clipboardDatabase.putItem({ ...metadata, content: content ?? '', pastesLeft }, await this.getStamp());
+        await this.notifyItemsChanged();
+        if (pastesLeft > 0) return false;
+
+        const { trashed, wiped } = await this.expireItems();
+        return trashed.length + wiped.length > 0;
+    }
+
+    /**
+     * Remove items whose expiry rule has run out: into the trash without
+     * the rule, favorite and slot, or wiped along with their revisions.
+     * Items are handled in their stored form, so this works while the
+     * vault is locked.
+     */
+    async expireItems(): Promise<{ trashed: TrashEntry[]; wiped: string[] }> {
+        await this.ensureReady();
+        const now = Date.now();
+        const expired = (await clipboardDatabase.getAllItems()).filter(item => isItemExpired(item, now));
+        if (expired.length === 0) return { trashed: [], wiped: [] };
+
+        const wiped = expired.filter(item => getExpireAction(item) === 'wipe').map(item => item.id);
+        const toTrash = expired.filter(item => getExpireAction(item) === 'trash');
+        const folders = await this.getClipboardFolders();
+        const trashed: TrashEntry[] = toTrash.map(item => ({
+            id: generateId(),
+            kind: 'item',
+            deletedAt: now,
+            path: getFolderPath(folders, item.folderId),
+            item: toExpiredCopy(item)
+        }));
+
+        await clipboardDatabase.deleteItems(wiped);
+        await clipboardDatabase.moveToTrash(trashed, toTrash.map(item => item.id));
+        await this.notifyItemsChanged();
+        if (trashed.length > 0) {
+            await this.notifyTrashChanged();
+        }
+        if (wiped.length > 0) {
+            await clipboardDatabase.deleteRevisions(wiped);
+            await this.notifyRevisionsChanged();
+        }
+        return { trashed, wiped };
+    }
+
+    // Folders
+
+    async getClipboardFolders(): Promise<ClipboardFolder[]> {
+        try {
+            await this.ensureReady();
+            const browserAPI = this.browserAPI;
+
+            const localResult = await browserAPI.storage.local.get(STORAGE_KEYS.FOLDERS);
+            if (localResult[STORAGE_KEYS.FOLDERS]) {
+                return localResult[STORAGE_KEYS.FOLDERS];
+            }
+
+            // Fresh install on another machine: start from the synced copy
+            if (browserAPI.storage.sync) {
+                const syncResult = await browserAPI.storage.sync.get(STORAGE_KEYS.FOLDERS);
+                if (syncResult[STORAGE_KEYS.FOLDERS]) {
+                    await browserAPI.storage.local.set({ [STORAGE_KEYS.FOLDERS]: syncResult[STORAGE_KEYS.FOLDERS] });
+                    return syncResult[STORAGE_KEYS.FOLDERS];
+                }
+            }
+
+            return [];
+        } catch (error) {
+            console.error('Failed to get clipboard folders:', error);
+            return [];
+        }
+    }
+
+    async saveClipboardFolders(folders: ClipboardFolder[]): Promise<void> {
+        try {
+            const browserAPI = this.browserAPI;
+
+            // Always save to local storage first
+            await browserAPI.storage.local.set({ [STORAGE_KEYS.FOLDERS]: folders });
+            console.log(`Saved ${folders.length} clipboard folders to local storage`);
+
+            // Also try to sync if data is small enough and sync is available
+            if (browserAPI.storage.sync) {
+                const foldersSize = new Blob([JSON.stringify(folders)]).size;
+                try {
+                    if (foldersSize <= FOLDER_SYNC_LIMIT) {
+                        await browserAPI.storage.sync.set({ [STORAGE_KEYS.FOLDERS]: folders });
+                    } else {
+                        await browserAPI.storage.sync.remove(STORAGE_KEYS.FOLDERS);
+                    }
+                } catch (syncError) {
+                    console.warn('Folder sync storage failed, but local storage succeeded:', syncError);
+                }
+            }
+        } catch (error) {
+            console.error('Failed to save clipboard folders:', error);
+            throw error;
+        }
+    }
+
+    async createFolder(name: string, parentId?: string): Promise<ClipboardFolder> {
+        const newFolder: ClipboardFolder = {
+            id: generateId(),
+            name,
+            parentId,
+            children: [],
+            expanded: true,
+            createdAt: Date.now(),
+            items: []
+        };
+
+        const folders = await this.getClipboardFolders();
+
+        if (parentId) {
+            // Add as child to parent folder
+            const addToParent = (folderList: ClipboardFolder[]): ClipboardFolder[] =>
+                folderList.map(folder => {
+                    if (folder.id === parentId) {
+                        return { ...folder, children: [...folder.children, newFolder] };
+                    }
+                    if (folder.children.length > 0) {
+                        return { ...folder, children: addToParent(folder.children) };
+                    }
+                    return folder;
+                });
+
+            await this.saveClipboardFolders(addToParent(folders));
+        } else {
+            await this.saveClipboardFolders([...folders, newFolder]);
+        }
+
+        return newFolder;
+    }
+
+    /**
+     * Move a folder to the trash, together with its subfolders and the items
+     * in them. Returns the trash entry, null when the folder does not exist.
+     */
+    async deleteFolder(id: string): Promise<TrashEntry | null> {
+        try {
+            await this.ensureReady();
+            const folders = await this.getClipboardFolders();
+            const folder = findFolder(folders, id);
+            if (!folder) return null;
+
+            const items = collectFolderItems(folder, await clipboardDatabase.getAllItems());
+            const entry: TrashEntry = {
+                id: generateId(),
+                kind: 'folder',
+                deletedAt: Date.now(),
+                path: getFolderPath(folders, findParentFolderId(folders, id)),
+                folder,
+                items
+            };
+
+            await clipboardDatabase.moveToTrash([entry], items.map(item => item.id));
+            await this.saveClipboardFolders(removeFolder(folders, id));
+            await this.notifyItemsChanged();
+            await this.notifyTrashChanged();
+            return entry;
+        } catch (error) {
+            console.error('Failed to delete folder:', error);
+            return null;
+        }
+    }
+
+    // Smart folders
+
+    /**
+     * Saved searches, kept in sync storage next to the folders
+     */
+    async getSmartFolders(): Promise<SmartFolder[]> {
+        try {
+            const browserAPI = this.browserAPI;
+
+            const localResult = await browserAPI.storage.local.get(STORAGE_KEYS.SMART_FOLDERS);
+            if (localResult[STORAGE_KEYS.SMART_FOLDERS]) {
+                return localResult[STORAGE_KEYS.SMART_FOLDERS];
+            }
+
+            if (browserAPI.storage.sync) {
+                const syncResult = await browserAPI.storage.sync.get(STORAGE_KEYS.SMART_FOLDERS);
+                if (syncResult[STORAGE_KEYS.SMART_FOLDERS]) {
+                    await browserAPI.storage.local.set({ [STORAGE_KEYS.SMART_FOLDERS]: syncResult[STORAGE_KEYS.SMART_FOLDERS] });
+                    return syncResult[STORAGE_KEYS.SMART_FOLDERS];
+                }
+            }
+
+            return DEFAULT_SMART_FOLDERS;
+        } catch (error) {
+            console.error('Failed to get smart folders:', error);
+            return DEFAULT_SMART_FOLDERS;
+        }
+    }
+
+    async saveSmartFolders(smartFolders: SmartFolder[]): Promise<void> {
+        const browserAPI = this.browserAPI;
+        await browserAPI.storage.local.set({ [STORAGE_KEYS.SMART_FOLDERS]: smartFolders });
+
+        if (browserAPI.storage.sync) {
+            try {
+                await browserAPI.storage.sync.set({ [STORAGE_KEYS.SMART_FOLDERS]: smartFolders });
+            } catch (syncError) {
+                console.warn('Smart folder sync storage failed, but local storage succeeded:', syncError);
+            }
+        }
+    }
+
+    async createSmartFolder(name: string, query: string): Promise<SmartFolder> {
+        const smartFolder: SmartFolder = {
+            id: generateId(),
+            name,
+            query,
+            createdAt: Date.now(),
+            expanded: true
+        };
+        await this.saveSmartFolders([...(await this.getSmartFolders()), smartFolder]);
+        return smartFolder;
+    }
+
+    async updateSmartFolder(id: string, updates: Partial<Omit<SmartFolder, 'id'>>): Promise<void> {
+        const smartFolders = await this.getSmartFolders();
+        await this.saveSmartFolders(
+            smartFolders.map(smartFolder => smartFolder.id === id ? { ...smartFolder, ...updates } : smartFolder)
+        );
+    }
+
+    // Only the saved search goes, the items it showed stay where they are
+    async deleteSmartFolder(id: string): Promise<void> {
+        const smartFolders = await this.getSmartFolders();
+        await this.saveSmartFolders(smartFolders.filter(smartFolder => smartFolder.id !== id));
+    }
+
+    // Revisions
+
+    // Newest first, decrypted
+    async getItemRevisions(itemId: string): Promise<ItemRevision[]> {
+        await this.ensureReady();
+        const history = await clipboardDatabase.getRevisions(itemId);
+        return this.decryptRevisions(history?.revisions || []);
+    }
+
+    /**
+     * Bring back the title and content of a revision. The version it
+     * replaces becomes a revision itself, so a rollback can be undone.
+     */
+    async rollbackItem(itemId: string, revisionId: string): Promise<ClipboardItem | null> {
+        const revision = (await this.getItemRevisions(itemId)).find(entry => entry.id === revisionId);
+        if (!revision) throw new Error('This revision no longer exists');
+
+        return this.updateClipboardItem(itemId, {
+            title: revision.title,
+            content: revision.content,
+            size: new Blob([revision.content]).size
+        });
+    }
+
+    // Images and secrets are not kept around in old versions
+    private async recordRevision(before: ClipboardItem, after: ClipboardItem): Promise<void> {
+        if (before.type === 'image' || before.sensitive?.length) return;
+        if (before.title === after.title && before.content === after.content) return;
+
+        try {
+            const [revision] = await this.encryptRevisions([{
+                id: generateId(),
+                timestamp: Date.now(),
+                title: before.title,
+                content: before.content
+            }]);
+            const history = await clipboardDatabase.getRevisions(before.id);
+            await clipboardDatabase.putRevisions([{
+                itemId: before.id,
+                revisions: addRevision(history?.revisions || [], revision)
+            }]);
+            await this.notifyRevisionsChanged();
+        } catch (error) {
+            // The edit itself is saved, only its history is incomplete
+            console.error('Failed to record item revision:', error);
+        }
+    }
+
+    // Trash
+
+    // Newest first; items keep their stored form, titles are never encrypted
+    async getTrash(): Promise<TrashEntry[]> {
+        try {
+            await this.ensureReady();
+            return (await clipboardDatabase.getTrash()).sort((a, b) => b.deletedAt - a.deletedAt);
+        } catch (error) {
+            console.error('Failed to get trash:', error);
+            return [];
+        }
+    }
+
+    /**
+     * Put trash entries back where they were deleted from. Folders that
+     * are gone by now are re-created from the entry's path. Restored items
+     * skip a revision so they win over the tombstones sync wrote for them.
+     */
+    async restoreFromTrash(entryIds: string[]): Promise<void> {
+        await this.ensureReady();
+        const wanted = new Set(entryIds);
+        const entries = (await clipboardDatabase.getTrash())
+            .filter(entry => wanted.has(entry.id))
+            .sort((a, b) => a.deletedAt - b.deletedAt);
+        if (entries.length === 0) return;
+
+        const originalFolders = await this.getClipboardFolders();
+        let folders = originalFolders;
+        const items: ClipboardItem[] = [];
+
+        entries.forEach(entry => {
+            const placed = ensureFolderPath(folders, entry.path);
+            folders = placed.folders;
+            if (entry.kind === 'item') {
+                items.push({ ...entry.item, folderId: placed.folderId });
+            } else {
+                folders = placeFolder(folders, entry.folder, placed.folderId);
+                items.push(...entry.items);
+            }
+        });
+
+        if (folders !== originalFolders) {
+            await this.saveClipboardFolders(folders);
+        }
+        await clipboardDatabase.restoreFromTrash(
+            entries.map(entry => entry.id),
+            items.map(item => ({ ...item, revision: (item.revision ?? 0) + 1 })),
+            await this.getStamp()
+        );
+        await this.notifyItemsChanged();
+        await this.notifyTrashChanged();
+    }
+
+    // Revisions stay with trashed items, which may still be restored
+    private async purgeOrphanedRevisions(trash: TrashEntry[]): Promise<void> {
+        const kept = new Set((await clipboardDatabase.getAllMetadata()).map(item => item.id));
+        trash.forEach(entry => {
+            (entry.kind === 'item' ? [entry.item] : entry.items).forEach(item => kept.add(item.id));
+        });
+
+        const orphaned = (await clipboardDatabase.getAllRevisions())
+            .map(history => history.itemId)
+            .filter(itemId => !kept.has(itemId));
+        if (orphaned.length > 0) {
+            await clipboardDatabase.deleteRevisions(orphaned);
+            await this.notifyRevisionsChanged();
+        }
+    }
+
+    async deleteFromTrash(entryIds: string[]): Promise<void> {
+        await this.ensureReady();
+        await clipboardDatabase.deleteTrashEntries(entryIds);
+        await this.notifyTrashChanged();
+    }
+
+    async emptyTrash(): Promise<void> {
+        await this.ensureReady();
+        await clipboardDatabase.replaceTrash([]);
+        await this.notifyTrashChanged();
+    }
+
+    /**
+     * Drop entries older than the retention and secrets past their expiry,
+     * and the revisions of items that are gone for good.
+     * Returns the number of entries removed.
+     */
+    async purgeTrash(): Promise<number> {
+        await this.ensureReady();
+        const { trash } = await this.getSettings();
+        const now = Date.now();
+        const entries = await clipboardDatabase.getTrash();
+        await this.purgeOrphanedRevisions(entries);
+
+        const expired: string[] = [];
+        const trimmed: TrashEntry[] = [];
+        entries.forEach(entry => {
+            if (isTrashEntryExpired(entry, trash.retentionDays, now)) {
+                expired.push(entry.id);
+                return;
+            }
+            const kept = withoutExpiredItems(entry, now);
+            if (kept !== entry) trimmed.push(kept);
+        });
+        if (expired.length === 0 && trimmed.length === 0) return 0;
+
+        await clipboardDatabase.deleteTrashEntries(expired);
+        await clipboardDatabase.moveToTrash(trimmed, []);
+        await this.notifyTrashChanged();
+        return expired.length;
+    }
+
+    // Settings
+
+    getDefaultSettings(): AppSettings {
+        return mergeSettings(undefined);
+    }
+
+    /**
+     * Settings are kept in sync storage so they follow the user, with a
+     * local copy for when sync is unavailable or full. Paste rules and the
+     * expander's excluded sites are only kept locally.
+     */
+    async getSettings(): Promise<AppSettings> {
+        try {
+            const browserAPI = this.browserAPI;
+            let synced: StoredSettings | undefined;
+            if (browserAPI.storage.sync) {
+                const syncResult = await browserAPI.storage.sync.get(STORAGE_KEYS.SETTINGS);
+                synced = syncResult[STORAGE_KEYS.SETTINGS];
+            }
+            const localResult = await browserAPI.storage.local.get([
+                STORAGE_KEYS.SETTINGS,
+                STORAGE_KEYS.SITE_SETTINGS
+            ]);
+            return withSiteSettings(
+                mergeSettings(newerSettings(synced, localResult[STORAGE_KEYS.SETTINGS])),
+                localResult[STORAGE_KEYS.SITE_SETTINGS]
+            );
+        } catch (error) {
+            console.error('Failed to get settings:', error);
+            return this.getDefaultSettings();
+        }
+    }
+
+    /**
+     * Merge the given fields into the stored settings and return the result.
+     * Throws SettingsSyncError when they were saved locally but not synced.
+     */
+    async updateSettings(updates: Partial<AppSettings>): Promise<AppSettings> {
+        const settings = mergeSettings({ ...(await this.getSettings()), ...updates });
+        const browserAPI = this.browserAPI;
+
+        const { pasteRules, textExpander: { disabledSites, ...textExpander }, ...shared } = settings;
+        const stored: StoredSettings = { ...shared, textExpander, savedAt: Date.now() };
+        const site: SiteSettings = { pasteRules, disabledSites };
+        await browserAPI.storage.local.set({
+            [STORAGE_KEYS.SETTINGS]: stored,
+            [STORAGE_KEYS.SITE_SETTINGS]: site
+        });
+
+        if (browserAPI.storage.sync) {
+            try {
+                await browserAPI.storage.sync.set({ [STORAGE_KEYS.SETTINGS]: stored });
+            } catch (syncError) {
+                console.warn('Settings sync storage failed, saved locally:', syncError);
+                throw new SettingsSyncError(syncError);
+            }
+        }
+
+        return settings;
+    }
+
+    // Paste events
+
+    async getHistory(): Promise<PasteEvent[]> {
+        try {
+            const result = await this.browserAPI.storage.local.get(STORAGE_KEYS.HISTORY);
+            return result[STORAGE_KEYS.HISTORY] || [];
+        } catch (error) {
+            console.error('Failed to get history:', error);
+            return [];
+        }
+    }
+
+    async saveHistory(history: PasteEvent[]): Promise<void> {
+        await this.browserAPI.storage.local.set({ [STORAGE_KEYS.HISTORY]: history });
+    }
+
+    async addToHistory(event: Omit<PasteEvent, 'id' | 'timestamp'>): Promise<void> {
+        try {
+            const history = await this.getHistory();
+            const newEvent: PasteEvent = {
+                ...event,
+                origin: event.origin ?? originOf(event.url),
+                id: generateId(),
+                timestamp: Date.now()
+            };
+            await this.saveHistory(await this.withinHistoryRetention([newEvent, ...history]));
+        } catch (error) {
+            console.error('Failed to add to history:', error);
+        }
+    }
+
+    // Apply the retention in the settings, after it was changed
+    async pruneHistory(): Promise<void> {
+        const history = await this.getHistory();
+        const kept = await this.withinHistoryRetention(history);
+        if (kept.length !== history.length) {
+            await this.saveHistory(kept);
+        }
+    }
+
+    async clearHistory(): Promise<void> {
+        await this.saveHistory([]);
+    }
+
+    // Newest first in, the events the retention settings keep out
+    private async withinHistoryRetention(history: PasteEvent[]): Promise<PasteEvent[]> {
+        const { pasteHistory } = await this.getSettings();
+        const cutoff = Date.now() - pasteHistory.retentionDays * DAY;
+        return history
+            .filter(event => event.timestamp >= cutoff)
+            .slice(0, Math.max(1, pasteHistory.maxEvents));
+    }
+
+    // Storage statistics
+
+    async getStorageSnapshots(): Promise<StorageSnapshot[]> {
+        try {
+            const result = await this.browserAPI.storage.local.get(STORAGE_KEYS.STORAGE_STATS);
+            return result[STORAGE_KEYS.STORAGE_STATS] || [];
+        } catch (error) {
+            console.error('Failed to get storage statistics:', error);
+            return [];
+        }
+    }
+
+    /**
+     * Record today's size of the stored items, replacing an earlier record
+     * of the same day. Oldest days go first, about a year is kept.
+     */
+    async recordStorageSnapshot(): Promise<StorageSnapshot> {
+        await this.ensureReady();
+        const [metadata, trash, snapshots] = await Promise.all([
+            clipboardDatabase.getAllMetadata(),
+            clipboardDatabase.getTrash(),
+            this.getStorageSnapshots()
+        ]);
+
+        const snapshot: StorageSnapshot = {
+            day: toDayKey(Date.now()),
+            items: metadata.length,
+            bytes: metadata.reduce((total, item) => total + (item.size || 0), 0),
+            trashEntries: trash.length
+        };
+        const kept = snapshots.filter(entry => entry.day !== snapshot.day);
+        await this.browserAPI.storage.local.set({
+            [STORAGE_KEYS.STORAGE_STATS]: [...kept, snapshot].slice(-MAX_STORAGE_SNAPSHOTS)
+        });
+        return snapshot;
+    }
+
+    // Template answers
+
+    // Most recent {{input}}/{{choice}} answers, keyed by item id
+    async getTemplateAnswers(itemId: string): Promise<Record<string, string>> {
+        try {
+            const result = await this.browserAPI.storage.local.get(STORAGE_KEYS.TEMPLATE_ANSWERS);
+            return result[STORAGE_KEYS.TEMPLATE_ANSWERS]?.[itemId] || {};
+        } catch (error) {
+            console.error('Failed to get template answers:', error);
+            return {};
+        }
+    }
+
+    async saveTemplateAnswers(itemId: string, answers: Record<string, string>): Promise<void> {
+        const browserAPI = this.browserAPI;
+        const result = await browserAPI.storage.local.get(STORAGE_KEYS.TEMPLATE_ANSWERS);
+        await browserAPI.storage.local.set({
+            [STORAGE_KEYS.TEMPLATE_ANSWERS]: {
+                ...(result[STORAGE_KEYS.TEMPLATE_ANSWERS] || {}),
+                [itemId]: answers
+            }
+        });
+    }
+
+    // Sync bookkeeping (written by the background's sync engine)
+
+    async getSyncState(): Promise<SyncState> {
+        const result = await this.browserAPI.storage.local.get([
+            STORAGE_KEYS.SYNC_BASE_REVISIONS,
+            STORAGE_KEYS.SYNC_CONFLICTS
+        ]);
+        return {
+            base: result[STORAGE_KEYS.SYNC_BASE_REVISIONS] || {},
+            conflicts: result[STORAGE_KEYS.SYNC_CONFLICTS] || []
+        };
+    }
+
+    async saveSyncState({ base, conflicts }: SyncState): Promise<void> {
+        await this.browserAPI.storage.local.set({
+            [STORAGE_KEYS.SYNC_BASE_REVISIONS]: base,
+            [STORAGE_KEYS.SYNC_CONFLICTS]: conflicts
+        });
+    }
+
+    // Vault
+
+    /**
+     * Kept in sync storage with the settings, so a passphrase set on one
+     * device unlocks the encrypted items it syncs to the others.
+     */
+    async getVaultConfig(): Promise<VaultConfig | null> {
+        const browserAPI = this.browserAPI;
+        if (browserAPI.storage.sync) {
+            const syncResult = await browserAPI.storage.sync.get(STORAGE_KEYS.VAULT_CONFIG);
+            if (syncResult[STORAGE_KEYS.VAULT_CONFIG]) {
+                return syncResult[STORAGE_KEYS.VAULT_CONFIG];
+            }
+        }
+        const localResult = await browserAPI.storage.local.get(STORAGE_KEYS.VAULT_CONFIG);
+        return localResult[STORAGE_KEYS.VAULT_CONFIG] || null;
+    }
+
+    private async saveVaultConfig(config: VaultConfig | null): Promise<void> {
+        const browserAPI = this.browserAPI;
+        const areas = [browserAPI.storage.local, browserAPI.storage.sync].filter(Boolean);
+        await Promise.all(areas.map(area =>
+            config
+                ? area.set({ [STORAGE_KEYS.VAULT_CONFIG]: config })
+                : area.remove(STORAGE_KEYS.VAULT_CONFIG)
+        ));
+    }
+
+    async getVaultStatus(): Promise<VaultStatus> {
+        const config = await this.getVaultConfig();
+        return {
+            enabled: !!config,
+            unlocked: !!config && !!(await this.getVaultKey())
+        };
+    }
+
+    /**
+     * The unlocked key lives in session storage so the popup and the
+     * background share it; where that is unavailable it stays in this
+     * context only.
+     */
+    private async getVaultKey(): Promise<CryptoKey | null> {
+        const session = this.browserAPI.storage.session;
+        if (!session) return this.vaultKey?.key ?? null;
+
+        const result = await session.get(STORAGE_KEYS.VAULT_KEY);
+        const raw: string | undefined = result[STORAGE_KEYS.VAULT_KEY];
+        if (!raw) {
+            this.vaultKey = null;
+            return null;
+        }
+        if (this.vaultKey?.raw !== raw) {
+            this.vaultKey = { raw, key: await importRawKey(raw) };
+        }
+        return this.vaultKey.key;
+    }
+
+    private async setVaultKey(key: CryptoKey | null): Promise<void> {
+        const session = this.browserAPI.storage.session;
+        const raw = key ? await exportRawKey(key) : null;
+        this.vaultKey = key && raw ? { raw, key } : null;
+
+        if (!session) return;
+        if (raw) {
+            await session.set({ [STORAGE_KEYS.VAULT_KEY]: raw });
+        } else {
+            await session.remove(STORAGE_KEYS.VAULT_KEY);
+        }
+    }
+
+    /**
+     * Returns false when the passphrase is wrong
+     */
+    async unlockVault(passphrase: string): Promise<boolean> {
+        const config = await this.getVaultConfig();
+        if (!config) return true;
+
+        const key = await openVault(passphrase, config);
+        if (!key) return false;
+        await this.setVaultKey(key);
+        return true;
+    }
+
+    async lockVault(): Promise<void> {
+        await this.setVaultKey(null);
+    }
+
+    /**
+     * Turn vault mode on and encrypt every stored item with a key derived
+     * from the passphrase
+     */
+    async enableVault(passphrase: string): Promise<void> {
+        if (await this.getVaultConfig()) {
+            throw new Error('The vault is already enabled');
+        }
+
+        const items = await this.readAllItems();
+        const trash = await clipboardDatabase.getTrash();
+        const revisions = await clipboardDatabase.getAllRevisions();
+        const { config, key } = await createVaultConfig(passphrase);
+        await this.setVaultKey(key);
+        await this.saveVaultConfig(config);
+        await this.rewriteAllItems(items);
+        await this.saveTrashEntries(trash);
+        await this.saveRevisionHistories(revisions);
+    }
+
+    /**
+     * Decrypt every item and turn vault mode off. The vault must be unlocked.
+     */
+    async disableVault(): Promise<void> {
+        const items = await this.readAllItems();
+        const trash = await this.decryptTrash();
+        const revisions = await this.getAllRevisionHistories();
+        await this.saveVaultConfig(null);
+        await this.rewriteAllItems(items);
+        await this.saveTrashEntries(trash);
+        await this.saveRevisionHistories(revisions);
+        await this.setVaultKey(null);
+    }
+
+    // Every item in plain form. Unlike getClipboardItems this throws on any
+    // failure, so turning the vault on or off never rewrites a partial list.
+    private async readAllItems(): Promise<ClipboardItem[]> {
+        await this.ensureReady();
+        return this.decryptItems(await clipboardDatabase.getAllItems());
+    }
+
+    // Store each item again in the current vault mode, leaving the list as is
+    private async rewriteAllItems(items: ClipboardItem[]): Promise<void> {
+        await clipboardDatabase.putItems(await this.encryptItems(items), await this.getStamp());
+        await this.notifyItemsChanged();
+    }
+
+    // The trash keeps stored items, so it follows the vault being turned on or off
+
+    private async decryptTrash(): Promise<TrashEntry[]> {
+        return Promise.all((await clipboardDatabase.getTrash()).map(async entry =>
+            entry.kind === 'item'
+                ? { ...entry, item: (await this.decryptItems([entry.item]))[0] }
+                : { ...entry, items: await this.decryptItems(entry.items) }
+        ));
+    }
+
+    private async saveTrashEntries(entries: TrashEntry[]): Promise<void> {
+        await clipboardDatabase.replaceTrash(await Promise.all(entries.map(async entry =>
+            entry.kind === 'item'
+                ? { ...entry, item: (await this.encryptItems([entry.item]))[0] }
+                : { ...entry, items: await this.encryptItems(entry.items) }
+        )));
+    }
+
+    private async getAllRevisionHistories(): Promise<ItemRevisionHistory[]> {
+        return Promise.all((await clipboardDatabase.getAllRevisions()).map(async history => ({
+            ...history,
+            revisions: await this.decryptRevisions(history.revisions)
+        })));
+    }
+
+    private async saveRevisionHistories(histories: ItemRevisionHistory[]): Promise<void> {
+        await clipboardDatabase.replaceRevisions(await Promise.all(histories.map(async history => ({
+            ...history,
+            revisions: await this.encryptRevisions(history.revisions)
+        }))));
+        await this.notifyRevisionsChanged();
+    }
+
+    private async decryptRevisions(revisions: ItemRevision[]): Promise<ItemRevision[]> {
+        if (!revisions.some(revision => revision.encrypted)) return revisions;
+
+        const key = await this.getVaultKey();
+        if (!key) throw new VaultLockedError();
+
+        return Promise.all(revisions.map(async ({ encrypted, ...revision }) =>
+            encrypted ? { ...revision, content: await decryptText(key, revision.content) } : revision
+        ));
+    }
+
+    private async encryptRevisions(revisions: ItemRevision[]): Promise<ItemRevision[]> {
+        if (!(await this.getVaultConfig())) return revisions;
+
+        const key = await this.getVaultKey();
+        if (!key) throw new VaultLockedError();
+
+        return Promise.all(revisions.map(async revision =>
+            revision.encrypted
+                ? revision
+                : { ...revision, content: await encryptText(key, revision.content), encrypted: true }
+        ));
+    }
+
+    // Decrypt stored items; plain ones are returned as they are
+    private async decryptItems(items: ClipboardItem[]): Promise<ClipboardItem[]> {
+        if (!items.some(item => item.encrypted)) return items;
+
+        const key = await this.getVaultKey();
+        if (!key) throw new VaultLockedError();
+
+        return Promise.all(items.map(async item =>
+            item.encrypted ? withPlainContent(item, await decryptText(key, item.content)) : item
+        ));
+    }
+
+    /**
+     * Bring plain items into their stored form. Unchanged content keeps its
+     * stored ciphertext, so saving a list does not rewrite every item.
+     */
+    private async encryptItems(items: ClipboardItem[]): Promise<ClipboardItem[]> {
+        if (!(await this.getVaultConfig())) return items;
+
+        const key = await this.getVaultKey();
+        if (!key) throw new VaultLockedError();
+
+        const ids = new Set(items.map(item => item.id));
+        const stored = new Map(
+            (await clipboardDatabase.getAllItems())
+                .filter(item => item.encrypted && ids.has(item.id))
+                .map(item => [item.id, item.content])
+        );
+
+        return Promise.all(items.map(async item => {
+            if (item.encrypted) return item;
+
+            const ciphertext = stored.get(item.id);
+            const unchanged = ciphertext !== undefined &&
+                await decryptText(key, ciphertext).then(plain => plain === item.content, () => false);
+
+            return {
+                ...item,
+                content: unchanged ? ciphertext! : await encryptText(key, item.content),
+                encrypted: true
+            };
+        }));
+    }
+
+    // Device identity
+
+    /**
+     * Random id for this browser profile, recorded on every revision so sync
+     * can tell local edits from remote ones.
+     */
+    getDeviceId(): Promise<string> {
+        if (!this.deviceId) {
+            this.deviceId = (async () => {
+                const browserAPI = this.browserAPI;
+                const result = await browserAPI.storage.local.get(STORAGE_KEYS.DEVICE_ID);
+                if (result[STORAGE_KEYS.DEVICE_ID]) {
+                    return result[STORAGE_KEYS.DEVICE_ID] as string;
+                }
+                const deviceId = generateId();
+                await browserAPI.storage.local.set({ [STORAGE_KEYS.DEVICE_ID]: deviceId });
+                return deviceId;
+            })();
+        }
+        return this.deviceId;
+    }
+
+    private async getStamp(): Promise<RevisionStamp> {
+        return { deviceId: await this.getDeviceId() };
+    }
+
+    // Change notifications
+
+    /**
+     * Call the listener whenever another part of the extension (or this one)
+     * changes stored data. Returns the unsubscribe function.
+     */
+    subscribe(listener: RepositoryListener, topics?: RepositoryTopic[]): () => void {
+        const watched = topics || (Object.keys(TOPIC_KEYS) as RepositoryTopic[]);
+        const handleChange = (changes: Record<string, chrome.storage.StorageChange>) => {
+            const changed = watched.filter(topic => TOPIC_KEYS[topic].some(key => key in changes));
+            if (changed.length > 0) {
+                listener(changed);
+            }
+        };
+
+        const browserAPI = this.browserAPI;
+        browserAPI.storage.onChanged.addListener(handleChange);
+        return () => browserAPI.storage.onChanged.removeListener(handleChange);
+    }
+
+    /**
+     * IndexedDB has no change events; bump a marker key so storage.onChanged
+     * listeners still hear about item writes.
+     */
+    private async notifyItemsChanged(): Promise<void> {
+        await this.browserAPI.storage.local.set({ [STORAGE_KEYS.ITEMS_CHANGED]: Date.now() });
+    }
+
+    private async notifyTrashChanged(): Promise<void> {
+        await this.browserAPI.storage.local.set({ [STORAGE_KEYS.TRASH_CHANGED]: Date.now() });
+    }
+
+    private async notifyRevisionsChanged(): Promise<void> {
+        await this.browserAPI.storage.local.set({ [STORAGE_KEYS.REVISIONS_CHANGED]: Date.now() });
+    }
+
+    // Backup
+
+    /**
+     * Backup of all data. With a passphrase, or while the vault is enabled,
+     * the backup is encrypted: with the given passphrase, otherwise with the
+     * vault's own key (restored with the vault passphrase).
+     */
+    async exportData(passphrase?: string): Promise<string> {
+        const [items, folders, smartFolders, settings, history, revisions] = await Promise.all([
+            this.getClipboardItems(),
+            this.getClipboardFolders(),
+            this.getSmartFolders(),
+            this.getSettings(),
+            this.getHistory(),
+            this.ensureReady().then(() => this.getAllRevisionHistories())
+        ]);
+
+        const backup = JSON.stringify({
+            version: SCHEMA_VERSION,
+            timestamp: Date.now(),
+            items,
+            folders,
+            smartFolders,
+            settings,
+            history,
+            revisions
+        }, null, 2);
+
+        let salt: string;
+        let iterations: number;
+        let key: CryptoKey | null;
+        if (passphrase) {
+            salt = randomSalt();
+            iterations = VAULT_KDF_ITERATIONS;
+            key = await deriveVaultKey(passphrase, salt, iterations);
+        } else {
+            const config = await this.getVaultConfig();
+            if (!config) return backup;
+            ({ salt, iterations } = config);
+            key = await this.getVaultKey();
+            if (!key) throw new VaultLockedError();
+        }
+
+        const encrypted: EncryptedBackup = {
+            version: SCHEMA_VERSION,
+            encrypted: true,
+            salt,
+            iterations,
+            payload: await encryptText(key, backup)
+        };
+        return JSON.stringify(encrypted, null, 2);
+    }
+
+    /**
+     * Restore a backup made by exportData. Encrypted backups need the
+     * passphrase they were made with.
+     */
+    async importData(jsonData: string, passphrase?: string): Promise<boolean> {
+        try {
+            let data = JSON.parse(jsonData);
+
+            if (data.encrypted) {
+                if (!passphrase) throw new Error('This backup is encrypted, a passphrase is required');
+                const backup = data as EncryptedBackup;
+                const key = await deriveVaultKey(passphrase, backup.salt, backup.iterations);
+                data = JSON.parse(await decryptText(key, backup.payload).catch(() => {
+                    throw new Error('Wrong passphrase for this backup');
+                }));
+            }
+
+            if (!Array.isArray(data.items) || !Array.isArray(data.folders)) {
+                throw new Error('Invalid backup data format');
+            }
+
+            // Backups from other builds may carry tags in any shape
+            await this.saveClipboardItems(data.items.map((item: ClipboardItem) => {
+                const tags = normalizeTags(item.tags);
+                return { ...item, tags: tags.length > 0 ? tags : undefined };
+            }));
+            await this.saveClipboardFolders(data.folders);
+
+            // Older backups have none, keep the current ones then
+            if (Array.isArray(data.smartFolders)) {
+                await this.saveSmartFolders(data.smartFolders);
+            }
+            if (data.settings && typeof data.settings === 'object') {
+                await this.updateSettings(data.settings).catch(error => {
+                    // Saved locally, the import itself worked
+                    if (!(error instanceof SettingsSyncError)) throw error;
+                    console.warn(error.message);
+                });
+            }
+            if (Array.isArray(data.history)) {
+                await this.saveHistory(data.history);
+            }
+            if (Array.isArray(data.revisions)) {
+                await this.saveRevisionHistories(data.revisions);
+            }
+
+            console.log('Data imported successfully');
+            return true;
+        } catch (error) {
+            console.error('Failed to import data:', error);
+            return false;
+        }
+    }
+
+    async clearAllData(): Promise<void> {
+        const browserAPI = this.browserAPI;
+        await clipboardDatabase.replaceAll([]);
+        await clipboardDatabase.replaceTrash([]);
+        await clipboardDatabase.replaceRevisions([]);
+        await Promise.all([
+            browserAPI.storage.local.clear(),
+            browserAPI.storage.sync?.clear(),
+            browserAPI.storage.session?.clear()
+        ]);
+        // Clearing removed the device id and the vault; the store itself is current
+        this.deviceId = null;
+        this.vaultKey = null;
+        await clipboardDatabase.setMeta(SCHEMA_META_KEY, SCHEMA_VERSION);
+        await this.notifyItemsChanged();
+    }
+
+    // Schema migrations
+
+    // Run pending migrations once per context, before the first read or write
+    private ensureReady(): Promise<void> {
+        if (!this.ready) {
+            this.ready = this.migrate().catch(error => {
+                this.ready = null;
+                throw error;
+            });
+        }
+        return this.ready;
+    }
+
+    private async getStoredSchemaVersion(): Promise<number> {
+        const version = await clipboardDatabase.getMeta<number>(SCHEMA_META_KEY);
+        if (version) return version;
+        return (await clipboardDatabase.getMeta<number>(V3_MIGRATION_MARKER)) ? 4 : 0;
+    }
+
+    private async migrate(): Promise<void> {
+        const current = await this.getStoredSchemaVersion();
+        if (current >= SCHEMA_VERSION) return;
+
+        for (const migration of this.migrations) {
+            if (migration.version > current) {
+                await migration.migrate();
+                console.log(`Migrated clipboard storage to schema ${migration.version}`);
+            }
+        }
+        await clipboardDatabase.setMeta(SCHEMA_META_KEY, SCHEMA_VERSION);
+    }
+
+    // Schemas 1 and 2 -> the v3 keys, when those are still empty
+    private async migrateLegacyKeys(): Promise<void> {
+        const browserAPI = this.browserAPI;
+        const oldVersions = [
+            { ITEMS: 'clipboard_items', FOLDERS: 'clipboard_folders' },
+            { ITEMS: 'clipboard_items_v2', FOLDERS: 'clipboard_folders_v2' }
+        ];
+
+        for (const oldKeys of oldVersions) {
+            const keys = [oldKeys.ITEMS, oldKeys.FOLDERS];
+            const [oldLocalData, oldSyncData, current] = await Promise.all([
+                browserAPI.storage.local.get(keys),
+                browserAPI.storage.sync ? browserAPI.storage.sync.get(keys) : Promise.resolve({} as Record<string, any>),
+                browserAPI.storage.local.get([STORAGE_KEYS.LEGACY_ITEMS, STORAGE_KEYS.FOLDERS])
+            ]);
+
+            // Prefer local data over sync data
+            const items = oldLocalData[oldKeys.ITEMS] || oldSyncData[oldKeys.ITEMS];
+            const folders = oldLocalData[oldKeys.FOLDERS] || oldSyncData[oldKeys.FOLDERS];
+            if (!items && !folders) continue;
+
+            const updates: Record<string, unknown> = {};
+            if (Array.isArray(items) && !current[STORAGE_KEYS.LEGACY_ITEMS]?.length) {
+                updates[STORAGE_KEYS.LEGACY_ITEMS] = items;
+            }
+            if (Array.isArray(folders) && !current[STORAGE_KEYS.FOLDERS]?.length) {
+                updates[STORAGE_KEYS.FOLDERS] = folders;
+            }
+            if (Object.keys(updates).length > 0) {
+                await browserAPI.storage.local.set(updates);
+            }
+
+            await Promise.all([
+                browserAPI.storage.local.remove(keys),
+                browserAPI.storage.sync?.remove(keys)
+            ]);
+            console.log('Cleaned up old storage keys:', oldKeys);
+        }
+    }
+
+    // Schema 3 -> IndexedDB
+    private async migrateV3ToDatabase(): Promise<void> {
+        const browserAPI = this.browserAPI;
+        let items: ClipboardItem[] = [];
+
+        const localResult = await browserAPI.storage.local.get(STORAGE_KEYS.LEGACY_ITEMS);
+        if (Array.isArray(localResult[STORAGE_KEYS.LEGACY_ITEMS])) {
+            items = localResult[STORAGE_KEYS.LEGACY_ITEMS];
+        } else if (browserAPI.storage.sync) {
+            // Fresh install on another machine: start from the synced copy
+            const syncResult = await browserAPI.storage.sync.get(STORAGE_KEYS.LEGACY_ITEMS);
+            if (Array.isArray(syncResult[STORAGE_KEYS.LEGACY_ITEMS])) {
+                items = syncResult[STORAGE_KEYS.LEGACY_ITEMS];
+            }
+        }
+
+        // Items stored by another context in the meantime are kept
+        const existing = await clipboardDatabase.getAllItems();
+        const existingIds = new Set(existing.map(item => item.id));
+        await clipboardDatabase.replaceAll([
+            ...existing,
+            ...items.filter(item => item?.id && !existingIds.has(item.id))
+        ]);
+
+        // The sync copy stays until the background's first push replaces it
+        await browserAPI.storage.local.remove(STORAGE_KEYS.LEGACY_ITEMS);
+        console.log(`Moved ${items.length} clipboard items to IndexedDB`);
+    }
+}
+
+export const clipboardRepository = new ClipboardRepository();
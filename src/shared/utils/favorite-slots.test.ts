@@ -0,0 +1,114 @@
+// src/shared/utils/favorite-slots.test.ts
+import { describe, expect, it } from 'vitest';
+import { ClipboardItem } from '../../types/clipboard';
+import {
+    assignSlot,
+    clearSlot,
+    describeSlotTakeover,
+    findItemInSlot,
+    isValidSlot,
+    resolveSlotConflicts
+} from './favorite-slots';
+
+const item = (id: string, fields: Partial<ClipboardItem> = {}): ClipboardItem => ({
+    id,
+    content: id,
+    type: 'text',
+    title: `Item ${id}`,
+    timestamp: 1000,
+    size: id.length,
+    ...fields
+});
+
+const slotOf = (items: ClipboardItem[], id: string) => items.find(entry => entry.id === id)?.slot;
+
+describe('isValidSlot', () => {
+    it('accepts whole numbers from 1 to 9', () => {
+        expect(isValidSlot(1)).toBe(true);
+        expect(isValidSlot(9)).toBe(true);
+        expect(isValidSlot(0)).toBe(false);
+        expect(isValidSlot(10)).toBe(false);
+        expect(isValidSlot(2.5)).toBe(false);
+        expect(isValidSlot('3')).toBe(false);
+    });
+});
+
+describe('assignSlot', () => {
+    it('gives a free slot to the item', () => {
+        const items = assignSlot([item('a'), item('b')], 'a', 3);
+        expect(slotOf(items, 'a')).toBe(3);
+        expect(slotOf(items, 'b')).toBeUndefined();
+    });
+
+    it('swaps slots when the target already held one', () => {
+        const items = assignSlot([item('a', { slot: 1 }), item('b', { slot: 2 })], 'a', 2);
+        expect(slotOf(items, 'a')).toBe(2);
+        expect(slotOf(items, 'b')).toBe(1);
+    });
+
+    it('takes the slot from its owner when the target had none', () => {
+        const items = assignSlot([item('a'), item('b', { slot: 2, slotAssignedAt: 5 })], 'a', 2);
+        expect(slotOf(items, 'a')).toBe(2);
+        expect(slotOf(items, 'b')).toBeUndefined();
+        expect(items.find(entry => entry.id === 'b')?.slotAssignedAt).toBeUndefined();
+    });
+
+    it('leaves the list alone for an unknown item', () => {
+        const items = [item('a', { slot: 1 })];
+        expect(assignSlot(items, 'missing', 2)).toBe(items);
+    });
+
+    it('rejects slots out of range', () => {
+        expect(() => assignSlot([item('a')], 'a', 10)).toThrow();
+    });
+});
+
+describe('describeSlotTakeover', () => {
+    it('has nothing to ask for a free slot or the item own slot', () => {
+        const items = [item('a', { slot: 1 }), item('b')];
+        expect(describeSlotTakeover(items, 'b', 2)).toBeNull();
+        expect(describeSlotTakeover(items, 'a', 1)).toBeNull();
+    });
+
+    it('offers a swap when the item holds a slot', () => {
+        const items = [item('a', { slot: 1 }), item('b', { slot: 2 })];
+        expect(describeSlotTakeover(items, 'a', 2)).toBe('Slot 2 is used by "Item b". Swap it to slot 1?');
+    });
+
+    it('asks to replace when the item holds no slot', () => {
+        const items = [item('a'), item('b', { slot: 2 })];
+        expect(describeSlotTakeover(items, 'a', 2)).toBe('Slot 2 is used by "Item b". Replace it?');
+    });
+});
+
+describe('clearSlot', () => {
+    it('removes the binding from the item only', () => {
+        const items = clearSlot([item('a', { slot: 1 }), item('b', { slot: 2 })], 'a');
+        expect(slotOf(items, 'a')).toBeUndefined();
+        expect(slotOf(items, 'b')).toBe(2);
+    });
+});
+
+describe('findItemInSlot and resolveSlotConflicts', () => {
+    const claims = [
+        item('old', { slot: 4, slotAssignedAt: 100 }),
+        item('new', { slot: 4, slotAssignedAt: 200 }),
+        item('other', { slot: 5 })
+    ];
+
+    it('lets the latest claim win', () => {
+        expect(findItemInSlot(claims, 4)?.id).toBe('new');
+    });
+
+    it('drops the losing claims', () => {
+        const resolved = resolveSlotConflicts(claims);
+        expect(slotOf(resolved, 'old')).toBeUndefined();
+        expect(slotOf(resolved, 'new')).toBe(4);
+        expect(slotOf(resolved, 'other')).toBe(5);
+    });
+
+    it('returns the same list when nothing conflicts', () => {
+        const items = [item('a', { slot: 1 }), item('b', { slot: 2 })];
+        expect(resolveSlotConflicts(items)).toBe(items);
+    });
+});
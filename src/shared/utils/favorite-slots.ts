@@ -0,0 +1,141 @@
+// src/shared/utils/favorite-slots.ts
+/**
+ * Numbered favorite slots (1-9)
+ * Each slot is bound to a paste_slot_N keyboard command
+ */
+import { ClipboardItem } from '../../types/clipboard';
+
+export const MIN_FAVORITE_SLOT = 1;
+export const MAX_FAVORITE_SLOT = 9;
+
+export const FAVORITE_SLOTS = Array.from(
+    { length: MAX_FAVORITE_SLOT - MIN_FAVORITE_SLOT + 1 },
+    (_, index) => MIN_FAVORITE_SLOT + index
+);
+
+export const isValidSlot = (slot: unknown): slot is number => {
+    return typeof slot === 'number'
+        && Number.isInteger(slot)
+        && slot >= MIN_FAVORITE_SLOT
+        && slot <= MAX_FAVORITE_SLOT;
+};
+
+/**
+ * The question to ask before assigning the slot takes it from another
+ * item, or null when the slot is free or already the item's own
+ */
+export const describeSlotTakeover = (
+    items: ClipboardItem[],
+    itemId: string,
+    slot: number
+): string | null => {
+    const owner = items.find(item => item.slot === slot && item.id !== itemId);
+    if (!owner) return null;
+
+    const previousSlot = items.find(item => item.id === itemId)?.slot;
+    return isValidSlot(previousSlot)
+        ? `Slot ${slot} is used by "${owner.title}". Swap it to slot ${previousSlot}?`
+        : `Slot ${slot} is used by "${owner.title}". Replace it?`;
+};
+
+/**
+ * Assign a slot to an item. If another item already holds the slot,
+ * the two items swap: the other item receives the slot the target item
+ * held before (or loses its slot if the target had none).
+ */
+export const assignSlot = (
+    items: ClipboardItem[],
+    itemId: string,
+    slot: number
+): ClipboardItem[] => {
+    if (!isValidSlot(slot)) {
+        throw new Error(`Slot must be between ${MIN_FAVORITE_SLOT} and ${MAX_FAVORITE_SLOT}`);
+    }
+
+    const target = items.find(item => item.id === itemId);
+    if (!target) {
+        return items;
+    }
+
+    const previousSlot = isValidSlot(target.slot) ? target.slot : undefined;
+    const now = Date.now();
+
+    return items.map(item => {
+        if (item.id === itemId) {
+            return { ...item, slot, slotAssignedAt: now };
+        }
+        if (item.slot === slot) {
+            return previousSlot !== undefined
+                ? { ...item, slot: previousSlot, slotAssignedAt: now }
+                : { ...item, slot: undefined, slotAssignedAt: undefined };
+        }
+        return item;
+    });
+};
+
+/**
+ * Remove the slot binding from an item
+ */
+export const clearSlot = (items: ClipboardItem[], itemId: string): ClipboardItem[] => {
+    return items.map(item =>
+        item.id === itemId
+            ? { ...item, slot: undefined, slotAssignedAt: undefined }
+            : item
+    );
+};
+
+/**
+ * Find the item bound to a slot. When several items claim the same slot
+ * (e.g. after an import or a sync from another device), the most recent
+ * claim wins.
+ */
+export const findItemInSlot = (
+    items: ClipboardItem[],
+    slot: number
+): ClipboardItem | undefined => {
+    return items
+        .filter(item => item.slot === slot)
+        .sort((a, b) => (b.slotAssignedAt ?? b.timestamp) - (a.slotAssignedAt ?? a.timestamp))[0];
+};
+
+/**
+ * Settle conflicting slot claims so every slot is held by at most one item.
+ * Returns the original array when nothing had to change.
+ */
+export const resolveSlotConflicts = (items: ClipboardItem[]): ClipboardItem[] => {
+    const winners = new Map<number, string>();
+    FAVORITE_SLOTS.forEach(slot => {
+        const winner = findItemInSlot(items, slot);
+        if (winner) {
+            winners.set(slot, winner.id);
+        }
+    });
+
+    let changed = false;
+    const resolved = items.map(item => {
+        if (item.slot === undefined) {
+            return item;
+        }
+        if (isValidSlot(item.slot) && winners.get(item.slot) === item.id) {
+            return item;
+        }
+        changed = true;
+        return { ...item, slot: undefined, slotAssignedAt: undefined };
+    });
+
+    return changed ? resolved : items;
+};
+
+/**
+ * Map of slot number to the item holding it
+ */
+export const getSlotAssignments = (items: ClipboardItem[]): Map<number, ClipboardItem> => {
+    const assignments = new Map<number, ClipboardItem>();
+    FAVORITE_SLOTS.forEach(slot => {
+        const item = findItemInSlot(items, slot);
+        if (item) {
+            assignments.set(slot, item);
+        }
+    });
+    return assignments;
+};
@@ -0,0 +1,435 @@
+// src/shared/utils/idb-store.ts
+/**
+ * IndexedDB store for clipboard items. Metadata and content live in separate
+ * object stores so lists can be loaded without pulling every image into
+ * memory, and each item is written on its own instead of rewriting an array.
+ * Deleted items and folders wait in the trash store until they are restored
+ * or purged; earlier versions of edited items are kept in the revisions
+ * store, on this device only. Only clipboard-repository.ts talks to it.
+ */
+import { ClipboardItem, ItemRevisionHistory, TrashEntry } from '../../types/clipboard';
+
+export const DB_NAME = 'shortcutpaste';
+/**
+ * 1 - items, contents, meta
+ * 2 - trash
+ * 3 - revisions
+ */
+export const DB_VERSION = 3;
+
+export const IDB_STORES = {
+    ITEMS: 'items', // ItemMetadata, keyPath "id"
+    CONTENTS: 'contents', // ContentRecord, keyPath "id"
+    META: 'meta', // Small key/value records (migration markers)
+    TRASH: 'trash', // TrashEntry, keyPath "id"
+    REVISIONS: 'revisions' // ItemRevisionHistory, keyPath "itemId"
+} as const;
+
+export const PREVIEW_LENGTH = 200;
+
+export type ItemMetadata = Omit<ClipboardItem, 'content'>;
+
+// Field changes to one item; content has its own record and is not patched
+export type ItemPatch = Partial<Omit<ItemMetadata, 'preview'>> & { id: string };
+
+interface ContentRecord {
+    id: string;
+    content: string;
+}
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+    new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+    new Promise((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+    });
+
+// Marks a write as a local change: the item gets the next revision
+export interface RevisionStamp {
+    deviceId: string;
+}
+
+// Key order differs between freshly built objects and stored records
+const stableStringify = (value: unknown): string =>
+    JSON.stringify(value, (_key, val) =>
+        val && typeof val === 'object' && !Array.isArray(val)
+            ? Object.fromEntries(Object.entries(val).sort(([a], [b]) => a.localeCompare(b)))
+            : val
+    );
+
+// Revision fields alone never make a stamped write a change
+const withoutRevision = ({ revision, deviceId, ...rest }: ItemMetadata): string => stableStringify(rest);
+
+export const toMetadata = (item: ClipboardItem): ItemMetadata => {
+    const { content, ...metadata } = item;
+    return {
+        ...metadata,
+        // Encrypted content has no readable preview to keep
+        preview: item.type === 'image' || item.encrypted ? undefined : content.substring(0, PREVIEW_LENGTH)
+    };
+};
+
+class ClipboardDatabase {
+    private dbPromise: Promise<IDBDatabase> | null = null;
+
+    private open(): Promise<IDBDatabase> {
+        if (!this.dbPromise) {
+            this.dbPromise = new Promise((resolve, reject) => {
+                const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+                request.onupgradeneeded = () => {
+                    const db = request.result;
+                    if (!db.objectStoreNames.contains(IDB_STORES.ITEMS)) {
+                        const items = db.createObjectStore(IDB_STORES.ITEMS, { keyPath: 'id' });
+                        items.createIndex('folderId', 'folderId');
+                    }
+                    if (!db.objectStoreNames.contains(IDB_STORES.CONTENTS)) {
+                        db.createObjectStore(IDB_STORES.CONTENTS, { keyPath: 'id' });
+                    }
+                    if (!db.objectStoreNames.contains(IDB_STORES.META)) {
+                        db.createObjectStore(IDB_STORES.META);
+                    }
+                    if (!db.objectStoreNames.contains(IDB_STORES.TRASH)) {
+                        db.createObjectStore(IDB_STORES.TRASH, { keyPath: 'id' });
+                    }
+                    if (!db.objectStoreNames.contains(IDB_STORES.REVISIONS)) {
+                        db.createObjectStore(IDB_STORES.REVISIONS, { keyPath: 'itemId' });
+                    }
+                };
+
+                request.onsuccess = () => {
+                    const db = request.result;
+                    // Another context upgraded the schema, reopen on next use
+                    db.onversionchange = () => {
+                        db.close();
+                        this.dbPromise = null;
+                    };
+                    resolve(db);
+                };
+                request.onerror = () => {
+                    this.dbPromise = null;
+                    reject(request.error);
+                };
+            });
+        }
+        return this.dbPromise;
+    }
+
+    async getAllMetadata(): Promise<ItemMetadata[]> {
+        const db = await this.open();
+        const store = db.transaction(IDB_STORES.ITEMS, 'readonly').objectStore(IDB_STORES.ITEMS);
+        return requestToPromise<ItemMetadata[]>(store.getAll());
+    }
+
+    async getMetadata(id: string): Promise<ItemMetadata | undefined> {
+        const db = await this.open();
+        const store = db.transaction(IDB_STORES.ITEMS, 'readonly').objectStore(IDB_STORES.ITEMS);
+        return requestToPromise<ItemMetadata | undefined>(store.get(id));
+    }
+
+    async getContent(id: string): Promise<string | undefined> {
+        const db = await this.open();
+        const store = db.transaction(IDB_STORES.CONTENTS, 'readonly').objectStore(IDB_STORES.CONTENTS);
+        const record = await requestToPromise<ContentRecord | undefined>(store.get(id));
+        return record?.content;
+    }
+
+    async getAllItems(): Promise<ClipboardItem[]> {
+        const db = await this.open();
+        const transaction = db.transaction([IDB_STORES.ITEMS, IDB_STORES.CONTENTS], 'readonly');
+        const [metadata, contents] = await Promise.all([
+            requestToPromise<ItemMetadata[]>(transaction.objectStore(IDB_STORES.ITEMS).getAll()),
+            requestToPromise<ContentRecord[]>(transaction.objectStore(IDB_STORES.CONTENTS).getAll())
+        ]);
+
+        const contentById = new Map(contents.map(record => [record.id, record.content]));
+        return metadata.map(item => ({ ...item, content: contentById.get(item.id) ?? '' }));
+    }
+
+    /**
+     * Write one item. With a stamp the stored revision is read in the same
+     * transaction and the item is saved as the next revision.
+     */
+    async putItem(item: ClipboardItem, stamp?: RevisionStamp): Promise<ClipboardItem> {
+        const db = await this.open();
+        const transaction = db.transaction([IDB_STORES.ITEMS, IDB_STORES.CONTENTS], 'readwrite');
+        const itemStore = transaction.objectStore(IDB_STORES.ITEMS);
+
+        let saved = item;
+        if (stamp) {
+            const stored = await requestToPromise<ItemMetadata | undefined>(itemStore.get(item.id));
+            saved = {
+                ...item,
+                revision: Math.max(stored?.revision ?? 0, item.revision ?? 0) + 1,
+                deviceId: stamp.deviceId
+            };
+        }
+
+        itemStore.put(toMetadata(saved));
+        transaction.objectStore(IDB_STORES.CONTENTS).put({ id: saved.id, content: saved.content });
+        await transactionDone(transaction);
+        return saved;
+    }
+
+    /**
+     * Write the given items in one transaction, leaving every other record
+     * alone. Without a stamp they keep the revision they carry; with one
+     * they are saved as their next revision.
+     */
+    async putItems(items: ClipboardItem[], stamp?: RevisionStamp): Promise<void> {
+        if (items.length === 0) return;
+        const db = await this.open();
+        const transaction = db.transaction([IDB_STORES.ITEMS, IDB_STORES.CONTENTS], 'readwrite');
+        const itemStore = transaction.objectStore(IDB_STORES.ITEMS);
+
+        const stored = stamp
+            ? await Promise.all(items.map(item => requestToPromise<ItemMetadata | undefined>(itemStore.get(item.id))))
+            : [];
+        items.forEach((item, index) => {
+            const saved = stamp
+                ? {
+                    ...item,
+                    revision: Math.max(stored[index]?.revision ?? 0, item.revision ?? 0) + 1,
+                    deviceId: stamp.deviceId
+                }
+                : item;
+            itemStore.put(toMetadata(saved));
+            transaction.objectStore(IDB_STORES.CONTENTS).put({ id: saved.id, content: saved.content });
+        });
+        await transactionDone(transaction);
+    }
+
+    /**
+     * Change fields of the given items in one transaction, leaving every
+     * other record alone. Ids no longer stored are skipped. With a stamp,
+     * patched items get the next revision. Returns the patched metadata.
+     */
+    async patchItems(patches: ItemPatch[], stamp?: RevisionStamp): Promise<ItemMetadata[]> {
+        if (patches.length === 0) return [];
+        const db = await this.open();
+        const transaction = db.transaction(IDB_STORES.ITEMS, 'readwrite');
+        const itemStore = transaction.objectStore(IDB_STORES.ITEMS);
+
+        const stored = await Promise.all(
+            patches.map(patch => requestToPromise<ItemMetadata | undefined>(itemStore.get(patch.id)))
+        );
+        const saved: ItemMetadata[] = [];
+        patches.forEach((patch, index) => {
+            const current = stored[index];
+            if (!current) return;
+
+            let metadata: ItemMetadata = { ...current, ...patch };
+            if (stamp) {
+                metadata = {
+                    ...metadata,
+                    revision: (current.revision ?? 0) + 1,
+                    deviceId: stamp.deviceId
+                };
+            }
+            itemStore.put(metadata);
+            saved.push(metadata);
+        });
+
+        await transactionDone(transaction);
+        return saved;
+    }
+
+    async deleteItems(ids: string[]): Promise<void> {
+        if (ids.length === 0) return;
+        const db = await this.open();
+        const transaction = db.transaction([IDB_STORES.ITEMS, IDB_STORES.CONTENTS], 'readwrite');
+        ids.forEach(id => {
+            transaction.objectStore(IDB_STORES.ITEMS).delete(id);
+            transaction.objectStore(IDB_STORES.CONTENTS).delete(id);
+        });
+        await transactionDone(transaction);
+    }
+
+    /**
+     * Make the store match the given list, writing only the records that
+     * changed. With a stamp, changed items get the next revision.
+     * Returns the number of records written or deleted.
+     */
+    async replaceAll(items: ClipboardItem[], stamp?: RevisionStamp): Promise<number> {
+        const db = await this.open();
+        const transaction = db.transaction([IDB_STORES.ITEMS, IDB_STORES.CONTENTS], 'readwrite');
+        const itemStore = transaction.objectStore(IDB_STORES.ITEMS);
+        const contentStore = transaction.objectStore(IDB_STORES.CONTENTS);
+
+        const [storedMetadata, storedContents] = await Promise.all([
+            requestToPromise<ItemMetadata[]>(itemStore.getAll()),
+            requestToPromise<ContentRecord[]>(contentStore.getAll())
+        ]);
+        const metadataById = new Map(storedMetadata.map(item => [item.id, item]));
+        const contentById = new Map(storedContents.map(record => [record.id, record.content]));
+
+        let writes = 0;
+        const keep = new Set<string>();
+
+        items.forEach(item => {
+            keep.add(item.id);
+            const stored = metadataById.get(item.id);
+            let metadata = toMetadata(item);
+
+            const metadataChanged = !stored || (stamp
+                ? withoutRevision(stored) !== withoutRevision(metadata)
+                : stableStringify(stored) !== stableStringify(metadata));
+            const contentChanged = contentById.get(item.id) !== item.content;
+            if (!metadataChanged && !contentChanged) return;
+
+            if (stamp) {
+                metadata = {
+                    ...metadata,
+                    revision: Math.max(stored?.revision ?? 0, item.revision ?? 0) + 1,
+                    deviceId: stamp.deviceId
+                };
+            }
+
+            itemStore.put(metadata);
+            writes++;
+            if (contentChanged) {
+                contentStore.put({ id: item.id, content: item.content });
+                writes++;
+            }
+        });
+
+        storedMetadata.forEach(item => {
+            if (!keep.has(item.id)) {
+                itemStore.delete(item.id);
+                contentStore.delete(item.id);
+                writes++;
+            }
+        });
+
+        await transactionDone(transaction);
+        return writes;
+    }
+
+    // Trash
+
+    async getTrash(): Promise<TrashEntry[]> {
+        const db = await this.open();
+        const store = db.transaction(IDB_STORES.TRASH, 'readonly').objectStore(IDB_STORES.TRASH);
+        return requestToPromise<TrashEntry[]>(store.getAll());
+    }
+
+    /**
+     * Put entries in the trash and delete the items they hold in the same
+     * transaction, so nothing is lost or kept twice if it fails halfway
+     */
+    async moveToTrash(entries: TrashEntry[], itemIds: string[]): Promise<void> {
+        const db = await this.open();
+        const transaction = db.transaction([IDB_STORES.ITEMS, IDB_STORES.CONTENTS, IDB_STORES.TRASH], 'readwrite');
+        entries.forEach(entry => transaction.objectStore(IDB_STORES.TRASH).put(entry));
+        itemIds.forEach(id => {
+            transaction.objectStore(IDB_STORES.ITEMS).delete(id);
+            transaction.objectStore(IDB_STORES.CONTENTS).delete(id);
+        });
+        await transactionDone(transaction);
+    }
+
+    /**
+     * Take entries out of the trash and write the items they held back.
+     * With a stamp the items are saved as their next revision.
+     */
+    async restoreFromTrash(entryIds: string[], items: ClipboardItem[], stamp?: RevisionStamp): Promise<void> {
+        const db = await this.open();
+        const transaction = db.transaction([IDB_STORES.ITEMS, IDB_STORES.CONTENTS, IDB_STORES.TRASH], 'readwrite');
+        const itemStore = transaction.objectStore(IDB_STORES.ITEMS);
+
+        entryIds.forEach(id => transaction.objectStore(IDB_STORES.TRASH).delete(id));
+        for (const item of items) {
+            let saved = item;
+            if (stamp) {
+                const stored = await requestToPromise<ItemMetadata | undefined>(itemStore.get(item.id));
+                saved = {
+                    ...item,
+                    revision: Math.max(stored?.revision ?? 0, item.revision ?? 0) + 1,
+                    deviceId: stamp.deviceId
+                };
+            }
+            itemStore.put(toMetadata(saved));
+            transaction.objectStore(IDB_STORES.CONTENTS).put({ id: saved.id, content: saved.content });
+        }
+        await transactionDone(transaction);
+    }
+
+    // Replace the whole trash, [] empties it
+    async replaceTrash(entries: TrashEntry[]): Promise<void> {
+        const db = await this.open();
+        const transaction = db.transaction(IDB_STORES.TRASH, 'readwrite');
+        const store = transaction.objectStore(IDB_STORES.TRASH);
+        store.clear();
+        entries.forEach(entry => store.put(entry));
+        await transactionDone(transaction);
+    }
+
+    async deleteTrashEntries(ids: string[]): Promise<void> {
+        if (ids.length === 0) return;
+        const db = await this.open();
+        const transaction = db.transaction(IDB_STORES.TRASH, 'readwrite');
+        ids.forEach(id => transaction.objectStore(IDB_STORES.TRASH).delete(id));
+        await transactionDone(transaction);
+    }
+
+    // Revisions
+
+    async getRevisions(itemId: string): Promise<ItemRevisionHistory | undefined> {
+        const db = await this.open();
+        const store = db.transaction(IDB_STORES.REVISIONS, 'readonly').objectStore(IDB_STORES.REVISIONS);
+        return requestToPromise<ItemRevisionHistory | undefined>(store.get(itemId));
+    }
+
+    async getAllRevisions(): Promise<ItemRevisionHistory[]> {
+        const db = await this.open();
+        const store = db.transaction(IDB_STORES.REVISIONS, 'readonly').objectStore(IDB_STORES.REVISIONS);
+        return requestToPromise<ItemRevisionHistory[]>(store.getAll());
+    }
+
+    async putRevisions(histories: ItemRevisionHistory[]): Promise<void> {
+        if (histories.length === 0) return;
+        const db = await this.open();
+        const transaction = db.transaction(IDB_STORES.REVISIONS, 'readwrite');
+        histories.forEach(history => transaction.objectStore(IDB_STORES.REVISIONS).put(history));
+        await transactionDone(transaction);
+    }
+
+    async deleteRevisions(itemIds: string[]): Promise<void> {
+        if (itemIds.length === 0) return;
+        const db = await this.open();
+        const transaction = db.transaction(IDB_STORES.REVISIONS, 'readwrite');
+        itemIds.forEach(id => transaction.objectStore(IDB_STORES.REVISIONS).delete(id));
+        await transactionDone(transaction);
+    }
+
+    // Replace every revision history, [] removes them all
+    async replaceRevisions(histories: ItemRevisionHistory[]): Promise<void> {
+        const db = await this.open();
+        const transaction = db.transaction(IDB_STORES.REVISIONS, 'readwrite');
+        const store = transaction.objectStore(IDB_STORES.REVISIONS);
+        store.clear();
+        histories.forEach(history => store.put(history));
+        await transactionDone(transaction);
+    }
+
+    async getMeta<T>(key: string): Promise<T | undefined> {
+        const db = await this.open();
+        const store = db.transaction(IDB_STORES.META, 'readonly').objectStore(IDB_STORES.META);
+        return requestToPromise<T | undefined>(store.get(key));
+    }
+
+    async setMeta<T>(key: string, value: T): Promise<void> {
+        const db = await this.open();
+        const transaction = db.transaction(IDB_STORES.META, 'readwrite');
+        transaction.objectStore(IDB_STORES.META).put(value, key);
+        await transactionDone(transaction);
+    }
+}
+
+export const clipboardDatabase = new ClipboardDatabase();
@@ -0,0 +1,76 @@
+// src/shared/utils/item-expiry.test.ts
+import { describe, expect, it } from 'vitest';
+import { ClipboardItem } from '../../types/clipboard';
+import {
+    describeExpiry,
+    formatExpiryBadge,
+    formatTimeLeft,
+    getExpireAction,
+    hasExpiryRule,
+    isItemExpired,
+    toExpiredCopy
+} from './item-expiry';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+describe('expiry rules', () => {
+    it('knows whether an item has a rule', () => {
+        expect(hasExpiryRule({})).toBe(false);
+        expect(hasExpiryRule({ pastesLeft: 0 })).toBe(true);
+        expect(hasExpiryRule({ expiresAt: 1 })).toBe(true);
+    });
+
+    it('expires on time or on the last paste, whichever comes first', () => {
+        expect(isItemExpired({ expiresAt: 1000 }, 999)).toBe(false);
+        expect(isItemExpired({ expiresAt: 1000 }, 1000)).toBe(true);
+        expect(isItemExpired({ pastesLeft: 1 }, 0)).toBe(false);
+        expect(isItemExpired({ expiresAt: 5000, pastesLeft: 0 }, 0)).toBe(true);
+    });
+
+    it('wipes unless told to use the trash', () => {
+        expect(getExpireAction({})).toBe('wipe');
+        expect(getExpireAction({ expireAction: 'trash' })).toBe('trash');
+    });
+});
+
+describe('toExpiredCopy', () => {
+    it('drops the rule, the favorite and the slot', () => {
+        const item: ClipboardItem = {
+            id: 'a',
+            content: 'code',
+            type: 'text',
+            title: 'Code',
+            timestamp: 0,
+            size: 4,
+            expiresAt: 1,
+            pastesLeft: 0,
+            expireAction: 'trash',
+            isFavorite: true,
+            slot: 3,
+            slotAssignedAt: 1
+        };
+        expect(toExpiredCopy(item)).toEqual({ id: 'a', content: 'code', type: 'text', title: 'Code', timestamp: 0, size: 4 });
+    });
+});
+
+describe('formatting', () => {
+    it('rounds time left down except below an hour', () => {
+        expect(formatTimeLeft(10 * 1000)).toBe('1m');
+        expect(formatTimeLeft(59 * MINUTE + 1)).toBe('60m');
+        expect(formatTimeLeft(3 * HOUR + 59 * MINUTE)).toBe('3h');
+        expect(formatTimeLeft(47 * HOUR)).toBe('47h');
+        expect(formatTimeLeft(72 * HOUR)).toBe('3d');
+    });
+
+    it('shows both conditions in the badge', () => {
+        expect(formatExpiryBadge({ expiresAt: 3 * HOUR, pastesLeft: 1 }, 0)).toBe('3h · 1×');
+        expect(formatExpiryBadge({ pastesLeft: 2 }, 0)).toBe('2×');
+        expect(formatExpiryBadge({}, 0)).toBe('');
+    });
+
+    it('describes the action and the paste count', () => {
+        expect(describeExpiry({ pastesLeft: 1 })).toBe('Deleted for good after 1 more paste');
+        expect(describeExpiry({ pastesLeft: 3, expireAction: 'trash' })).toBe('Moves to the trash after 3 more pastes');
+    });
+});
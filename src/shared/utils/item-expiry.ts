@@ -0,0 +1,74 @@
+// src/shared/utils/item-expiry.ts
+/**
+ * Expiry rules of items: gone after a point in time, after a number of
+ * pastes, or whichever comes first. Expired items are moved to the trash
+ * or wiped by the background; secrets saved with an expiry are wiped.
+ */
+import { ClipboardItem } from '../../types/clipboard';
+
+export type ExpireAction = NonNullable<ClipboardItem['expireAction']>;
+
+type ExpiryFields = Pick<ClipboardItem, 'expiresAt' | 'pastesLeft' | 'expireAction'>;
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+export const EXPIRY_PRESETS: { label: string; minutes: number }[] = [
+    { label: '5 minutes', minutes: 5 },
+    { label: '15 minutes', minutes: 15 },
+    { label: '1 hour', minutes: 60 },
+    { label: '1 day', minutes: 24 * 60 },
+    { label: '1 week', minutes: 7 * 24 * 60 }
+];
+
+export const hasExpiryRule = (item: ExpiryFields): boolean =>
+    item.expiresAt !== undefined || item.pastesLeft !== undefined;
+
+export const isItemExpired = (item: ExpiryFields, now = Date.now()): boolean =>
+    (!!item.expiresAt && item.expiresAt <= now) ||
+    (item.pastesLeft !== undefined && item.pastesLeft <= 0);
+
+export const getExpireAction = (item: ExpiryFields): ExpireAction => item.expireAction ?? 'wipe';
+
+/**
+ * What an expired item keeps in the trash: no rule that would expire it
+ * again once restored, and no favorite or slot, which another item may
+ * hold by then
+ */
+export const toExpiredCopy = ({
+    expiresAt,
+    pastesLeft,
+    expireAction,
+    isFavorite,
+    slot,
+    slotAssignedAt,
+    ...item
+}: ClipboardItem): ClipboardItem => item;
+
+// Rounded down except below an hour, so "1m" shows until the very end
+export const formatTimeLeft = (milliseconds: number): string => {
+    if (milliseconds < HOUR) return `${Math.max(1, Math.ceil(milliseconds / MINUTE))}m`;
+    if (milliseconds < 2 * DAY) return `${Math.floor(milliseconds / HOUR)}h`;
+    return `${Math.floor(milliseconds / DAY)}d`;
+};
+
+// Short countdown for badges, e.g. "12m", "2×" or "3h · 1×"
+export const formatExpiryBadge = (item: ExpiryFields, now = Date.now()): string => {
+    const parts: string[] = [];
+    if (item.expiresAt) parts.push(formatTimeLeft(item.expiresAt - now));
+    if (item.pastesLeft !== undefined) parts.push(`${item.pastesLeft}×`);
+    return parts.join(' · ');
+};
+
+export const describeExpiry = (item: ExpiryFields): string => {
+    const conditions: string[] = [];
+    if (item.expiresAt) {
+        conditions.push(`on ${new Date(item.expiresAt).toLocaleString()}`);
+    }
+    if (item.pastesLeft !== undefined) {
+        conditions.push(`after ${item.pastesLeft} more ${item.pastesLeft === 1 ? 'paste' : 'pastes'}`);
+    }
+    const action = getExpireAction(item) === 'trash' ? 'Moves to the trash' : 'Deleted for good';
+    return `${action} ${conditions.join(' or ')}`;
+};
@@ -0,0 +1,100 @@
+// src/shared/utils/item-revisions.ts
+/**
+ * Edit history of items. Every edit of an item's title or content keeps
+ * the version it replaced, newest first, up to a number of revisions and
+ * a total size per item; older revisions make room for newer ones.
+ */
+import { ItemRevision } from '../../types/clipboard';
+
+export const MAX_REVISIONS_PER_ITEM = 25;
+export const MAX_REVISION_BYTES_PER_ITEM = 512 * 1024;
+
+// Diffs of longer texts only compare the lines around the change
+const MAX_DIFF_CELLS = 1000000;
+
+const encoder = new TextEncoder();
+
+export const revisionSize = (revision: Pick<ItemRevision, 'title' | 'content'>): number =>
+    encoder.encode(revision.title).length + encoder.encode(revision.content).length;
+
+/**
+ * Add a revision in front and drop the oldest ones beyond the limits.
+ * A revision larger than the size limit on its own is not kept.
+ */
+export const addRevision = (revisions: ItemRevision[], revision: ItemRevision): ItemRevision[] => {
+    const kept: ItemRevision[] = [];
+    let bytes = 0;
+
+    for (const entry of [revision, ...revisions]) {
+        if (kept.length >= MAX_REVISIONS_PER_ITEM) break;
+        bytes += revisionSize(entry);
+        if (bytes > MAX_REVISION_BYTES_PER_ITEM) break;
+        kept.push(entry);
+    }
+    return kept;
+};
+
+export type DiffLine = { kind: 'same' | 'added' | 'removed'; text: string };
+
+/**
+ * Line diff from one text to another (longest common subsequence).
+ * Lines the two share at the start and end are matched first; when what
+ * is left is too large to compare, it shows as removed and added.
+ */
+export const diffLines = (before: string, after: string): DiffLine[] => {
+    const a = before.split('\n');
+    const b = after.split('\n');
+
+    let start = 0;
+    while (start < a.length && start < b.length && a[start] === b[start]) start++;
+    let endA = a.length;
+    let endB = b.length;
+    while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+        endA--;
+        endB--;
+    }
+
+    const same = (text: string): DiffLine => ({ kind: 'same', text });
+    const head = a.slice(0, start).map(same);
+    const tail = a.slice(endA).map(same);
+    const middleA = a.slice(start, endA);
+    const middleB = b.slice(start, endB);
+
+    if (middleA.length * middleB.length > MAX_DIFF_CELLS) {
+        return [
+            ...head,
+            ...middleA.map((text): DiffLine => ({ kind: 'removed', text })),
+            ...middleB.map((text): DiffLine => ({ kind: 'added', text })),
+            ...tail
+        ];
+    }
+
+    // lengths[i][j]: common lines of middleA from i and middleB from j
+    const rows = middleA.length;
+    const columns = middleB.length;
+    const lengths = Array.from({ length: rows + 1 }, () => new Uint32Array(columns + 1));
+    for (let i = rows - 1; i >= 0; i--) {
+        for (let j = columns - 1; j >= 0; j--) {
+            lengths[i][j] = middleA[i] === middleB[j]
+                ? lengths[i + 1][j + 1] + 1
+                : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+        }
+    }
+
+    const middle: DiffLine[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < rows || j < columns) {
+        if (i < rows && j < columns && middleA[i] === middleB[j]) {
+            middle.push(same(middleA[i]));
+            i++;
+            j++;
+        } else if (i < rows && (j === columns || lengths[i + 1][j] >= lengths[i][j + 1])) {
+            middle.push({ kind: 'removed', text: middleA[i++] });
+        } else {
+            middle.push({ kind: 'added', text: middleB[j++] });
+        }
+    }
+
+    return [...head, ...middle, ...tail];
+};
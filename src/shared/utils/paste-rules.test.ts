@@ -0,0 +1,141 @@
+// src/shared/utils/paste-rules.test.ts
+import { describe, expect, it } from 'vitest';
+import {
+    describePasteRule,
+    findPasteRule,
+    isValidPastePattern,
+    matchesPastePattern,
+    MAX_PASTE_DELAY_MS,
+    parsePasteRules,
+    PasteRule,
+    serializePasteRules,
+    toPasteOptions
+} from './paste-rules';
+
+const rule = (pattern: string, fields: Partial<PasteRule> = {}): PasteRule => ({
+    id: pattern,
+    name: '',
+    pattern,
+    enabled: true,
+    ...fields
+});
+
+describe('isValidPastePattern', () => {
+    it('accepts hosts, wildcard hosts and URL patterns', () => {
+        expect(isValidPastePattern('example.com')).toBe(true);
+        expect(isValidPastePattern('*.example.com')).toBe(true);
+        expect(isValidPastePattern('docs.google.com/document/*')).toBe(true);
+        expect(isValidPastePattern('https://app.example.com/*')).toBe(true);
+    });
+
+    it('rejects empty, spaced and bare wildcard patterns', () => {
+        expect(isValidPastePattern('')).toBe(false);
+        expect(isValidPastePattern('example .com')).toBe(false);
+        expect(isValidPastePattern('*')).toBe(false);
+        expect(isValidPastePattern('ex*ample.com')).toBe(false);
+    });
+});
+
+describe('matchesPastePattern', () => {
+    it('matches a host exactly', () => {
+        expect(matchesPastePattern('example.com', 'https://example.com/a')).toBe(true);
+        expect(matchesPastePattern('example.com', 'https://www.example.com/a')).toBe(false);
+    });
+
+    it('matches a wildcard host and its subdomains', () => {
+        expect(matchesPastePattern('*.example.com', 'https://example.com/')).toBe(true);
+        expect(matchesPastePattern('*.example.com', 'https://a.b.example.com/')).toBe(true);
+        expect(matchesPastePattern('*.example.com', 'https://notexample.com/')).toBe(false);
+    });
+
+    it('matches URL patterns with or without a scheme', () => {
+        expect(matchesPastePattern('docs.google.com/document/*', 'https://docs.google.com/document/d/1')).toBe(true);
+        expect(matchesPastePattern('docs.google.com/document/*', 'https://docs.google.com/sheets/d/1')).toBe(false);
+        expect(matchesPastePattern('https://app.example.com/*', 'http://app.example.com/x')).toBe(false);
+    });
+
+    it('never matches an invalid URL', () => {
+        expect(matchesPastePattern('example.com', 'not a url')).toBe(false);
+    });
+});
+
+describe('findPasteRule', () => {
+    const rules = [
+        rule('off.example.com', { enabled: false }),
+        rule('*.example.com', { format: 'plain' }),
+        rule('app.example.com', { format: 'html' })
+    ];
+
+    it('takes the first enabled rule that matches', () => {
+        expect(findPasteRule(rules, 'https://off.example.com/')?.pattern).toBe('*.example.com');
+        expect(findPasteRule(rules, 'https://app.example.com/')?.pattern).toBe('*.example.com');
+    });
+
+    it('finds nothing without a URL or a match', () => {
+        expect(findPasteRule(rules)).toBeUndefined();
+        expect(findPasteRule(rules, 'https://other.org/')).toBeUndefined();
+    });
+});
+
+describe('toPasteOptions', () => {
+    it('keeps only what the content script needs', () => {
+        const options = toPasteOptions(rule('example.com', {
+            format: 'plain',
+            insertMethod: 'pasteEvent',
+            delayMs: 200,
+            disableExtension: true,
+            favoriteItemId: 'item'
+        }));
+        expect(options).toEqual({
+            format: 'plain',
+            collapseNewlines: undefined,
+            trimTrailingWhitespace: undefined,
+            insertMethod: 'pasteEvent',
+            delayMs: 200
+        });
+    });
+
+    it('is empty without a rule', () => {
+        expect(toPasteOptions(undefined)).toEqual({});
+    });
+});
+
+describe('describePasteRule', () => {
+    it('lists the changes a rule makes', () => {
+        expect(describePasteRule(rule('a.com', { format: 'plain', delayMs: 200 }))).toBe('Plain text · 200 ms delay');
+        expect(describePasteRule(rule('a.com'))).toBe('No changes');
+        expect(describePasteRule(rule('a.com', { disableExtension: true, format: 'html' }))).toBe('ShortcutPaste is off');
+    });
+});
+
+describe('parsePasteRules', () => {
+    it('reads exported rules with new ids and sane values', () => {
+        const [parsed] = parsePasteRules(JSON.stringify({
+            pasteRules: [{
+                id: 'old',
+                pattern: ' example.com ',
+                format: 'rtf',
+                insertMethod: 'pasteEvent',
+                delayMs: MAX_PASTE_DELAY_MS * 2
+            }]
+        }));
+        expect(parsed.id).not.toBe('old');
+        expect(parsed.pattern).toBe('example.com');
+        expect(parsed.format).toBeUndefined();
+        expect(parsed.insertMethod).toBe('pasteEvent');
+        expect(parsed.delayMs).toBe(MAX_PASTE_DELAY_MS);
+        expect(parsed.enabled).toBe(true);
+    });
+
+    it('round-trips serialized rules', () => {
+        const rules = [rule('example.com', { name: 'Example', collapseNewlines: true })];
+        const [parsed] = parsePasteRules(serializePasteRules(rules));
+        expect(parsed).toMatchObject({ name: 'Example', pattern: 'example.com', collapseNewlines: true });
+    });
+
+    it('rejects files that are not rules', () => {
+        expect(() => parsePasteRules('{')).toThrow('The file is not valid JSON');
+        expect(() => parsePasteRules('{}')).toThrow('The file holds no paste rules');
+        expect(() => parsePasteRules('[{"pattern": "bad pattern"}]')).toThrow('Rule 1 has an invalid pattern');
+    });
+});
@@ -0,0 +1,150 @@
+// src/shared/utils/paste-rules.ts
+/**
+ * Per-site paste rules, kept in settings. The background picks the first
+ * enabled rule whose pattern matches the page and sends its options with
+ * the paste, so the content script never evaluates rules itself.
+ *
+ * A pattern without a slash matches the hostname: "example.com" only that
+ * host, "*.example.com" the host and all its subdomains. A pattern with a
+ * slash matches the URL, "*" standing for any text: "docs.google.com/document/*"
+ * without a scheme, or "https://app.example.com/*" with one.
+ */
+
+export interface PasteRule {
+    id: string;
+    name: string;
+    pattern: string;
+    enabled: boolean;
+    format?: 'plain' | 'html'; // Unset pastes items as they are
+    collapseNewlines?: boolean; // Line breaks become single spaces
+    trimTrailingWhitespace?: boolean;
+    insertMethod?: 'execCommand' | 'value' | 'pasteEvent'; // Unset lets the page decide
+    delayMs?: number;
+    disableExtension?: boolean; // No pastes, expander or capture on the site
+    favoriteItemId?: string; // Pasted by the favorite shortcut instead
+}
+
+// What the content script needs to know of a rule to paste
+export type PasteOptions = Pick<
+    PasteRule,
+    'format' | 'collapseNewlines' | 'trimTrailingWhitespace' | 'insertMethod' | 'delayMs'
+>;
+
+export const MAX_PASTE_DELAY_MS = 5000;
+
+const HOST_PATTERN = /^(\*\.)?[a-z0-9-]+(\.[a-z0-9-]+)*$/;
+
+export const createPasteRule = (pattern = ''): PasteRule => ({
+    id: crypto.randomUUID(),
+    name: '',
+    pattern,
+    enabled: true
+});
+
+const isUrlPattern = (pattern: string): boolean => pattern.includes('/');
+
+export const isValidPastePattern = (pattern: string): boolean => {
+    const trimmed = pattern.trim().toLowerCase();
+    if (!trimmed || /\s/.test(trimmed)) return false;
+    return isUrlPattern(trimmed) ? trimmed.replace(/\*/g, '') !== '' : HOST_PATTERN.test(trimmed);
+};
+
+const globToRegExp = (glob: string): RegExp =>
+    new RegExp(`^${glob.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*')}$`, 'i');
+
+export const matchesPastePattern = (pattern: string, url: string): boolean => {
+    const trimmed = pattern.trim().toLowerCase();
+    let parsed: URL;
+    try {
+        parsed = new URL(url);
+    } catch {
+        return false;
+    }
+
+    if (isUrlPattern(trimmed)) {
+        const target = trimmed.includes('://') ? url : url.replace(/^[a-z][a-z0-9+.-]*:\/\//i, '');
+        return globToRegExp(trimmed).test(target);
+    }
+
+    const hostname = parsed.hostname.toLowerCase();
+    if (trimmed.startsWith('*.')) {
+        const domain = trimmed.slice(2);
+        return hostname === domain || hostname.endsWith(`.${domain}`);
+    }
+    return hostname === trimmed;
+};
+
+// Rules are tried top to bottom, the first match applies
+export const findPasteRule = (rules: PasteRule[], url?: string): PasteRule | undefined =>
+    url ? rules.find(rule => rule.enabled && matchesPastePattern(rule.pattern, url)) : undefined;
+
+export const toPasteOptions = (rule?: PasteRule): PasteOptions => {
+    if (!rule) return {};
+    const { format, collapseNewlines, trimTrailingWhitespace, insertMethod, delayMs } = rule;
+    return { format, collapseNewlines, trimTrailingWhitespace, insertMethod, delayMs };
+};
+
+// One line summary for the rule list, e.g. "Plain text · 200 ms delay"
+export const describePasteRule = (rule: PasteRule): string => {
+    if (rule.disableExtension) return 'ShortcutPaste is off';
+    const parts: string[] = [];
+    if (rule.format === 'plain') parts.push('Plain text');
+    if (rule.format === 'html') parts.push('HTML');
+    if (rule.collapseNewlines) parts.push('One line');
+    if (rule.trimTrailingWhitespace) parts.push('Trailing spaces removed');
+    if (rule.insertMethod === 'execCommand') parts.push('Typed in');
+    if (rule.insertMethod === 'value') parts.push('Value set directly');
+    if (rule.insertMethod === 'pasteEvent') parts.push('Paste event');
+    if (rule.delayMs) parts.push(`${rule.delayMs} ms delay`);
+    if (rule.favoriteItemId) parts.push('Own favorite');
+    return parts.join(' · ') || 'No changes';
+};
+
+/**
+ * Read rules exported from the options page. Throws when the file is not
+ * a list of rules; imported rules get new ids so they never replace
+ * existing ones.
+ */
+export const parsePasteRules = (json: string): PasteRule[] => {
+    let data: unknown;
+    try {
+        data = JSON.parse(json);
+    } catch {
+        throw new Error('The file is not valid JSON');
+    }
+
+    const list = Array.isArray(data) ? data : (data as { pasteRules?: unknown })?.pasteRules;
+    if (!Array.isArray(list)) {
+        throw new Error('The file holds no paste rules');
+    }
+
+    return list.map((entry, index) => {
+        if (!entry || typeof entry !== 'object' || typeof entry.pattern !== 'string') {
+            throw new Error(`Rule ${index + 1} has no pattern`);
+        }
+        if (!isValidPastePattern(entry.pattern)) {
+            throw new Error(`Rule ${index + 1} has an invalid pattern "${entry.pattern}"`);
+        }
+        const rule: PasteRule = {
+            ...createPasteRule(entry.pattern.trim()),
+            name: typeof entry.name === 'string' ? entry.name : '',
+            enabled: entry.enabled !== false
+        };
+        if (entry.format === 'plain' || entry.format === 'html') rule.format = entry.format;
+        if (entry.collapseNewlines === true) rule.collapseNewlines = true;
+        if (entry.trimTrailingWhitespace === true) rule.trimTrailingWhitespace = true;
+        if (['execCommand', 'value', 'pasteEvent'].includes(entry.insertMethod)) {
+            rule.insertMethod = entry.insertMethod;
+        }
+        if (Number.isInteger(entry.delayMs) && entry.delayMs > 0) {
+            rule.delayMs = Math.min(entry.delayMs, MAX_PASTE_DELAY_MS);
+        }
+        if (entry.disableExtension === true) rule.disableExtension = true;
+        // On another device the id matches no item and the usual favorite is pasted
+        if (typeof entry.favoriteItemId === 'string') rule.favoriteItemId = entry.favoriteItemId;
+        return rule;
+    });
+};
+
+export const serializePasteRules = (rules: PasteRule[]): string =>
+    JSON.stringify({ pasteRules: rules }, null, 2);
@@ -0,0 +1,94 @@
+// src/shared/utils/search-index.test.ts
+import { describe, expect, it } from 'vitest';
+import { ClipboardFolder, ClipboardItem } from '../../types/clipboard';
+import { buildFolderPaths, highlightMatches, matchSnippet, SearchIndex, SearchOptions } from './search-index';
+import { parseSearchQuery } from './search-query';
+
+const item = (id: string, fields: Partial<ClipboardItem> = {}): ClipboardItem => ({
+    id,
+    content: '',
+    type: 'text',
+    title: id,
+    timestamp: 0,
+    size: 1,
+    ...fields
+});
+
+const options: SearchOptions = { folderPaths: new Map() };
+
+const search = (index: SearchIndex, query: string, searchOptions = options) =>
+    index.search(parseSearchQuery(query), searchOptions).map(result => result.item.id);
+
+describe('SearchIndex', () => {
+    const items = [
+        item('invoice', { title: 'Invoice reply', content: 'Thanks for the payment' }),
+        item('payment', { title: 'Notes', content: 'payment payment payment received', timestamp: 2 }),
+        item('image', { type: 'image', content: 'data:image/png;base64,payment' }),
+        item('tagged', { title: 'Other', tags: ['invoice'], timestamp: 1 })
+    ];
+
+    const build = () => {
+        const index = new SearchIndex();
+        index.sync(items);
+        return index;
+    };
+
+    it('needs every term and ranks titles above content', () => {
+        expect(search(build(), 'invoice')).toEqual(['invoice', 'tagged']);
+        expect(search(build(), 'invoice payment')).toEqual(['invoice']);
+    });
+
+    it('matches word prefixes and skips image data', () => {
+        expect(search(build(), 'pay')).toEqual(['payment', 'invoice']);
+    });
+
+    it('boosts often pasted items', () => {
+        const usage = new Map([['tagged', 20]]);
+        expect(search(build(), 'invoice', { ...options, usage })).toEqual(['tagged', 'invoice']);
+    });
+
+    it('applies phrases and operators', () => {
+        expect(search(build(), '"the payment"')).toEqual(['invoice']);
+        expect(search(build(), 'tag:invoice')).toEqual(['tagged']);
+        expect(search(build(), '')).toEqual([]);
+    });
+
+    it('follows changes and removals', () => {
+        const index = build();
+        index.sync([item('invoice', { title: 'Receipt' }), items[1]]);
+        expect(search(index, 'invoice')).toEqual([]);
+        expect(search(index, 'receipt')).toEqual(['invoice']);
+    });
+});
+
+describe('buildFolderPaths', () => {
+    it('joins lowercase names from the top level down', () => {
+        const folder = (id: string, name: string, children: ClipboardFolder[] = []): ClipboardFolder =>
+            ({ id, name, children, items: [], createdAt: 0, expanded: false });
+        const paths = buildFolderPaths([folder('a', 'Support', [folder('b', 'Replies')])]);
+        expect(paths.get('a')).toBe('support');
+        expect(paths.get('b')).toBe('support/replies');
+    });
+});
+
+describe('highlightMatches', () => {
+    it('marks matching parts, longest words first', () => {
+        expect(highlightMatches('Pay the payment', ['pay', 'payment'])).toEqual([
+            { text: 'Pay', match: true },
+            { text: ' the ', match: false },
+            { text: 'payment', match: true }
+        ]);
+        expect(highlightMatches('text', [])).toEqual([{ text: 'text', match: false }]);
+    });
+});
+
+describe('matchSnippet', () => {
+    it('cuts the content around the first match', () => {
+        const content = `${'a'.repeat(50)} needle ${'b'.repeat(50)}`;
+        const snippet = matchSnippet(content, ['needle'], 20)!;
+        expect(snippet.startsWith('…')).toBe(true);
+        expect(snippet.endsWith('…')).toBe(true);
+        expect(snippet).toContain('needle');
+        expect(matchSnippet(content, ['missing'])).toBeNull();
+    });
+});
@@ -0,0 +1,262 @@
+// src/shared/utils/search-index.ts
+/**
+ * Inverted index over clipboard items for the popup's search bar.
+ * sync() is called with the current items after every storage change and
+ * only re-indexes the items whose text changed. Results are ranked by
+ * how well they match (TF-IDF, title and tags weigh more than content)
+ * and by how often the item has been pasted.
+ */
+import { ClipboardItem, ClipboardFolder } from '../../types/clipboard';
+import { FilterContext, isEmptyQuery, matchesFilters, SearchQuery, tokenize } from './search-query';
+
+export interface SearchResult {
+    item: ClipboardItem;
+    score: number;
+}
+
+export interface SearchOptions extends FilterContext {
+    usage?: Map<string, number>; // Successful pastes per item id
+}
+
+// How much a word counts depending on where it appears
+const FIELD_WEIGHTS = {
+    title: 3,
+    tags: 2,
+    abbreviation: 2,
+    content: 1
+};
+
+// Words that are only the start of an indexed word count this much
+const PREFIX_MATCH_WEIGHT = 0.5;
+
+// Repeating a word in a field more often than this does not add to the score
+const MAX_TERM_FREQUENCY = 5;
+
+interface IndexedItem {
+    item: ClipboardItem;
+    text: string; // Lowercase searchable text, also used for phrases
+    weights: Map<string, number>; // Weighted word frequency
+}
+
+const indexedText = (item: ClipboardItem): string =>
+    [
+        item.title,
+        (item.tags || []).join(' '),
+        item.abbreviation || '',
+        // Images are data URLs, nothing worth finding in there
+        item.type === 'image' ? '' : item.content
+    ].join('\n').toLowerCase();
+
+const weighWords = (item: ClipboardItem): Map<string, number> => {
+    const weights = new Map<string, number>();
+    const add = (text: string, weight: number) => {
+        const counts = new Map<string, number>();
+        tokenize(text).forEach(word => counts.set(word, (counts.get(word) || 0) + 1));
+        counts.forEach((count, word) => {
+            weights.set(word, (weights.get(word) || 0) + Math.min(count, MAX_TERM_FREQUENCY) * weight);
+        });
+    };
+
+    add(item.title, FIELD_WEIGHTS.title);
+    add((item.tags || []).join(' '), FIELD_WEIGHTS.tags);
+    add(item.abbreviation || '', FIELD_WEIGHTS.abbreviation);
+    if (item.type !== 'image') add(item.content, FIELD_WEIGHTS.content);
+    return weights;
+};
+
+/**
+ * Lowercase "parent/child" path of every folder in a folder tree
+ */
+export const buildFolderPaths = (folders: ClipboardFolder[]): Map<string, string> => {
+    const paths = new Map<string, string>();
+    const visit = (folder: ClipboardFolder, parentPath: string) => {
+        const path = parentPath ? `${parentPath}/${folder.name.toLowerCase()}` : folder.name.toLowerCase();
+        paths.set(folder.id, path);
+        folder.children.forEach(child => visit(child, path));
+    };
+    folders.forEach(folder => visit(folder, ''));
+    return paths;
+};
+
+export class SearchIndex {
+    private documents = new Map<string, IndexedItem>();
+    private postings = new Map<string, Set<string>>(); // word -> item ids
+    private sortedWords: string[] | null = null; // For prefix lookups, built on demand
+
+    /**
+     * Bring the index in line with the given items
+     */
+    sync(items: ClipboardItem[]): void {
+        const current = new Set(items.map(item => item.id));
+        Array.from(this.documents.keys())
+            .filter(id => !current.has(id))
+            .forEach(id => this.remove(id));
+
+        items.forEach(item => {
+            const existing = this.documents.get(item.id);
+            if (existing?.item === item) return;
+
+            const text = indexedText(item);
+            if (existing && existing.text === text) {
+                // Metadata changed (favorite, folder, ...), the words did not
+                existing.item = item;
+                return;
+            }
+            this.remove(item.id);
+            this.add(item, text);
+        });
+    }
+
+    search(query: SearchQuery, options: SearchOptions): SearchResult[] {
+        if (isEmptyQuery(query)) return [];
+
+        const usageBoost = (id: string) => 1 + Math.log1p(options.usage?.get(id) || 0) / 2;
+        let scores: Map<string, number>;
+
+        if (query.terms.length > 0) {
+            scores = this.scoreTerms(query.terms);
+        } else {
+            // Operators or phrases only: every item is a candidate
+            scores = new Map(Array.from(this.documents.keys(), id => [id, 1]));
+        }
+
+        const results: SearchResult[] = [];
+        scores.forEach((score, id) => {
+            const document = this.documents.get(id);
+            if (!document) return;
+            if (!query.phrases.every(phrase => document.text.includes(phrase))) return;
+            if (!matchesFilters(document.item, query.filters, options)) return;
+
+            results.push({
+                item: document.item,
+                score: (score + query.phrases.length) * usageBoost(id)
+            });
+        });
+
+        return results.sort((a, b) =>
+            b.score - a.score || b.item.timestamp - a.item.timestamp
+        );
+    }
+
+    // Items containing every term (or a word starting with it) and their scores
+    private scoreTerms(terms: string[]): Map<string, number> {
+        const total = Math.max(this.documents.size, 1);
+        let scores: Map<string, number> | null = null;
+
+        for (const term of terms) {
+            const termScores = new Map<string, number>();
+
+            this.matchingWords(term).forEach(word => {
+                const ids = this.postings.get(word)!;
+                const idf = Math.log(1 + total / ids.size);
+                const matchWeight = word === term ? 1 : PREFIX_MATCH_WEIGHT;
+
+                ids.forEach(id => {
+                    const weight = this.documents.get(id)!.weights.get(word) || 0;
+                    const score = weight * idf * matchWeight;
+                    termScores.set(id, Math.max(termScores.get(id) || 0, score));
+                });
+            });
+
+            if (scores === null) {
+                scores = termScores;
+            } else {
+                const previous: Map<string, number> = scores;
+                scores = new Map();
+                termScores.forEach((score, id) => {
+                    if (previous.has(id)) scores!.set(id, previous.get(id)! + score);
+                });
+            }
+            if (scores.size === 0) break;
+        }
+
+        return scores || new Map();
+    }
+
+    private matchingWords(term: string): string[] {
+        if (!this.sortedWords) {
+            this.sortedWords = Array.from(this.postings.keys()).sort();
+        }
+        const words = this.sortedWords;
+
+        // First word that is >= term, then everything sharing its prefix
+        let low = 0;
+        let high = words.length;
+        while (low < high) {
+            const middle = (low + high) >> 1;
+            if (words[middle] < term) low = middle + 1;
+            else high = middle;
+        }
+
+        const matches: string[] = [];
+        for (let i = low; i < words.length && words[i].startsWith(term); i++) {
+            matches.push(words[i]);
+        }
+        return matches;
+    }
+
+    private add(item: ClipboardItem, text: string): void {
+        const weights = weighWords(item);
+        this.documents.set(item.id, { item, text, weights });
+        weights.forEach((_, word) => {
+            if (!this.postings.has(word)) {
+                this.postings.set(word, new Set());
+                this.sortedWords = null;
+            }
+            this.postings.get(word)!.add(item.id);
+        });
+    }
+
+    private remove(id: string): void {
+        const document = this.documents.get(id);
+        if (!document) return;
+
+        document.weights.forEach((_, word) => {
+            const ids = this.postings.get(word);
+            ids?.delete(id);
+            if (ids && ids.size === 0) {
+                this.postings.delete(word);
+                this.sortedWords = null;
+            }
+        });
+        this.documents.delete(id);
+    }
+}
+
+export type HighlightSegment = { text: string; match: boolean };
+
+/**
+ * Split text into the parts that match one of the search words or
+ * phrases and the parts in between, for highlighting
+ */
+export const highlightMatches = (text: string, words: string[]): HighlightSegment[] => {
+    const patterns = words
+        .filter(Boolean)
+        .sort((a, b) => b.length - a.length)
+        .map(word => word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+    if (patterns.length === 0 || !text) return [{ text, match: false }];
+
+    const pattern = new RegExp(`(${patterns.join('|')})`, 'gi');
+    // With one capturing group, every odd part is a match
+    return text
+        .split(pattern)
+        .map((part, index) => ({ text: part, match: index % 2 === 1 }))
+        .filter(segment => segment.text);
+};
+
+/**
+ * A short piece of the content around the first match, or null when the
+ * content does not contain any of the words
+ */
+export const matchSnippet = (content: string, words: string[], length = 80): string | null => {
+    const lower = content.toLowerCase();
+    const positions = words
+        .filter(Boolean)
+        .map(word => lower.indexOf(word))
+        .filter(position => position >= 0);
+    if (positions.length === 0) return null;
+
+    const start = Math.max(0, Math.min(...positions) - Math.floor(length / 4));
+    const snippet = content.substring(start, start + length).replace(/\s+/g, ' ');
+    return `${start > 0 ? '…' : ''}${snippet}${start + length < content.length ? '…' : ''}`;
+};
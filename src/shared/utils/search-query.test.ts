@@ -0,0 +1,94 @@
+// src/shared/utils/search-query.test.ts
+import { describe, expect, it } from 'vitest';
+import { ClipboardItem } from '../../types/clipboard';
+import { FilterContext, isEmptyQuery, matchesFilters, parseSearchQuery, tokenize } from './search-query';
+
+const item = (fields: Partial<ClipboardItem> = {}): ClipboardItem => ({
+    id: 'item',
+    content: 'hello',
+    type: 'text',
+    title: 'Hello',
+    timestamp: new Date(2026, 0, 15).getTime(),
+    size: 2048,
+    ...fields
+});
+
+const context: FilterContext = {
+    folderPaths: new Map([
+        ['support', 'support'],
+        ['replies', 'support/replies'],
+        ['other', 'supporting']
+    ])
+};
+
+const matches = (query: string, target: ClipboardItem, filterContext = context) =>
+    matchesFilters(target, parseSearchQuery(query).filters, filterContext);
+
+describe('tokenize', () => {
+    it('splits on anything but letters and digits', () => {
+        expect(tokenize('Hello, Wörld-42!')).toEqual(['hello', 'wörld', '42']);
+    });
+});
+
+describe('parseSearchQuery', () => {
+    it('separates words, phrases and operators', () => {
+        const query = parseSearchQuery('Invoice "due date" type:html tag:#Work folder:"Support/Replies"');
+        expect(query.terms).toEqual(['invoice']);
+        expect(query.phrases).toEqual(['due date']);
+        expect(query.filters).toEqual([
+            { kind: 'type', value: 'html' },
+            { kind: 'tag', value: 'work' },
+            { kind: 'folder', value: 'support/replies' }
+        ]);
+    });
+
+    it('searches operators with an unknown value as words', () => {
+        const query = parseSearchQuery('type:pdf size:big');
+        expect(query.filters).toEqual([]);
+        expect(query.terms).toEqual(['type', 'pdf', 'size', 'big']);
+    });
+
+    it('reads sizes with units and comparisons', () => {
+        expect(parseSearchQuery('size:>10kb').filters).toEqual([{ kind: 'size', op: '>', value: 10240 }]);
+        expect(parseSearchQuery('size:1.5mb').filters).toEqual([{ kind: 'size', op: '=', value: 1572864 }]);
+    });
+
+    it('is empty for blank input', () => {
+        expect(isEmptyQuery(parseSearchQuery('   '))).toBe(true);
+        expect(isEmptyQuery(parseSearchQuery('a'))).toBe(false);
+    });
+});
+
+describe('matchesFilters', () => {
+    it('checks type, tags and flags', () => {
+        const tagged = item({ tags: ['work'], isFavorite: true });
+        expect(matches('type:text tag:work is:favorite', tagged)).toBe(true);
+        expect(matches('type:url', tagged)).toBe(false);
+        expect(matches('is:sensitive', tagged)).toBe(false);
+        expect(matches('is:sensitive', item({ sensitive: ['otp'] }))).toBe(true);
+    });
+
+    it('matches a folder and its subfolders, not similar names', () => {
+        expect(matches('folder:support', item({ folderId: 'replies' }))).toBe(true);
+        expect(matches('folder:support', item({ folderId: 'other' }))).toBe(false);
+        expect(matches('folder:support', item())).toBe(false);
+    });
+
+    it('compares dates by whole days', () => {
+        expect(matches('before:2026-01-16', item())).toBe(true);
+        expect(matches('before:2026-01-15', item())).toBe(false);
+        expect(matches('after:2026-01-14', item())).toBe(true);
+        expect(matches('after:2026-01-15', item())).toBe(false);
+    });
+
+    it('compares sizes', () => {
+        expect(matches('size:>=2kb', item())).toBe(true);
+        expect(matches('size:<2kb', item())).toBe(false);
+    });
+
+    it('looks up the last paste', () => {
+        const pasted = { ...context, lastPasted: new Map([['item', Date.now()]]) };
+        expect(matches('pasted:7d', item(), pasted)).toBe(true);
+        expect(matches('pasted:7d', item())).toBe(false);
+    });
+});
@@ -0,0 +1,189 @@
+// src/shared/utils/search-query.ts
+/**
+ * Query language of the popup's search bar. Free words and "quoted
+ * phrases" are matched against the text of an item, operators narrow
+ * the results down:
+ *
+ *   type:html  tag:work  folder:"Support/Replies"  is:favorite
+ *   before:2026-01-01  after:2025-06-30  size:>10kb  pasted:7d
+ *
+ * Operators with a value that does not parse are searched as plain words.
+ */
+import { ClipboardItem } from '../../types/clipboard';
+import { normalizeTag } from './tags';
+
+export type SizeOperator = '<' | '<=' | '>' | '>=' | '=';
+
+export type SearchFilter =
+    | { kind: 'type'; value: ClipboardItem['type'] }
+    | { kind: 'tag'; value: string }
+    | { kind: 'folder'; value: string } // Lowercase path, "parent/child"
+    | { kind: 'is'; value: 'favorite' | 'sensitive' }
+    | { kind: 'before' | 'after'; value: number }
+    | { kind: 'size'; op: SizeOperator; value: number }
+    | { kind: 'pasted'; since: number }; // Pasted at or after this time
+
+export interface SearchQuery {
+    terms: string[]; // Lowercase words
+    phrases: string[]; // Lowercase, matched as written
+    filters: SearchFilter[];
+}
+
+const ITEM_TYPES: ClipboardItem['type'][] = ['text', 'html', 'image', 'url'];
+const SIZE_UNITS: Record<string, number> = { b: 1, kb: 1024, mb: 1024 * 1024 };
+const HOUR = 60 * 60 * 1000;
+const DURATION_UNITS: Record<string, number> = { h: HOUR, d: 24 * HOUR, w: 7 * 24 * HOUR };
+
+/**
+ * What filters need to know besides the item itself
+ */
+export interface FilterContext {
+    folderPaths: Map<string, string>; // Folder id -> lowercase "parent/child"
+    lastPasted?: Map<string, number>; // Item id -> time of its latest paste
+}
+
+// op:"quoted value", "quoted phrase" or a bare word (which may be op:value)
+const TOKEN_PATTERN = /([a-z]+):"([^"]*)"?|"([^"]*)"?|(\S+)/gi;
+
+/**
+ * Split text into lowercase words, the same way for items and queries
+ */
+export const tokenize = (text: string): string[] =>
+    text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+
+// Midnight at the start of a yyyy-mm-dd day in local time
+const parseDate = (value: string): number | null => {
+    const match = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+    if (!match) return null;
+    const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+    return isNaN(date.getTime()) ? null : date.getTime();
+};
+
+// "7d", "12h", "2w" back from now, "today", or a yyyy-mm-dd day
+const parseSince = (value: string): number | null => {
+    const lower = value.toLowerCase();
+    if (lower === 'today') {
+        const now = new Date();
+        return new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime();
+    }
+    const match = lower.match(/^(\d+)([hdw])$/);
+    if (match) return Date.now() - Number(match[1]) * DURATION_UNITS[match[2]];
+    return parseDate(value);
+};
+
+const parseSize = (value: string): { op: SizeOperator; value: number } | null => {
+    const match = value.toLowerCase().match(/^(<=|>=|<|>|=)?(\d+(?:\.\d+)?)(b|kb|mb)?$/);
+    if (!match) return null;
+    return {
+        op: (match[1] as SizeOperator) || '=',
+        value: Math.round(Number(match[2]) * SIZE_UNITS[match[3] || 'b'])
+    };
+};
+
+const parseFilter = (operator: string, value: string): SearchFilter | null => {
+    switch (operator.toLowerCase()) {
+        case 'type': {
+            const type = value.toLowerCase() as ClipboardItem['type'];
+            return ITEM_TYPES.includes(type) ? { kind: 'type', value: type } : null;
+        }
+        case 'tag': {
+            const tag = normalizeTag(value);
+            return tag ? { kind: 'tag', value: tag } : null;
+        }
+        case 'folder': {
+            const path = value.trim().replace(/^\/+|\/+$/g, '').toLowerCase();
+            return path ? { kind: 'folder', value: path } : null;
+        }
+        case 'is': {
+            const flag = value.toLowerCase();
+            return flag === 'favorite' || flag === 'sensitive' ? { kind: 'is', value: flag } : null;
+        }
+        case 'before':
+        case 'after': {
+            const date = parseDate(value);
+            return date === null ? null : { kind: operator.toLowerCase() as 'before' | 'after', value: date };
+        }
+        case 'size': {
+            const size = parseSize(value);
+            return size ? { kind: 'size', ...size } : null;
+        }
+        case 'pasted': {
+            const since = parseSince(value);
+            return since === null ? null : { kind: 'pasted', since };
+        }
+        default:
+            return null;
+    }
+};
+
+export const parseSearchQuery = (input: string): SearchQuery => {
+    const query: SearchQuery = { terms: [], phrases: [], filters: [] };
+
+    for (const match of input.matchAll(TOKEN_PATTERN)) {
+        const [token, quotedOperator, quotedValue, phrase, word] = match;
+
+        if (quotedOperator !== undefined) {
+            const filter = parseFilter(quotedOperator, quotedValue);
+            if (filter) query.filters.push(filter);
+            else query.terms.push(...tokenize(token));
+        } else if (phrase !== undefined) {
+            const text = phrase.trim().toLowerCase();
+            if (text) query.phrases.push(text);
+        } else {
+            const separator = word.indexOf(':');
+            const filter = separator > 0
+                ? parseFilter(word.slice(0, separator), word.slice(separator + 1))
+                : null;
+            if (filter) query.filters.push(filter);
+            else query.terms.push(...tokenize(word));
+        }
+    }
+
+    return query;
+};
+
+export const isEmptyQuery = (query: SearchQuery): boolean =>
+    query.terms.length === 0 && query.phrases.length === 0 && query.filters.length === 0;
+
+const compareSize = (size: number, op: SizeOperator, value: number): boolean => {
+    switch (op) {
+        case '<': return size < value;
+        case '<=': return size <= value;
+        case '>': return size > value;
+        case '>=': return size >= value;
+        default: return size === value;
+    }
+};
+
+/**
+ * Whether an item passes every operator of the query. A folder filter
+ * also matches the folder's subfolders.
+ */
+export const matchesFilters = (
+    item: ClipboardItem,
+    filters: SearchFilter[],
+    { folderPaths, lastPasted }: FilterContext
+): boolean =>
+    filters.every(filter => {
+        switch (filter.kind) {
+            case 'type':
+                return item.type === filter.value;
+            case 'tag':
+                return (item.tags || []).includes(filter.value);
+            case 'folder': {
+                const path = item.folderId ? folderPaths.get(item.folderId) : undefined;
+                return !!path && (path === filter.value || path.startsWith(`${filter.value}/`));
+            }
+            case 'is':
+                return filter.value === 'favorite' ? !!item.isFavorite : !!item.sensitive?.length;
+            case 'before':
+                return item.timestamp < filter.value;
+            case 'after':
+                // Only days after the one given
+                return item.timestamp >= filter.value + 24 * 60 * 60 * 1000;
+            case 'size':
+                return compareSize(item.size, filter.op, filter.value);
+            case 'pasted':
+                return (lastPasted?.get(item.id) ?? 0) >= filter.since;
+        }
+    });
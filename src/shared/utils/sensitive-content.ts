@@ -0,0 +1,218 @@
+// src/shared/utils/sensitive-content.ts
+/**
+ * Detection of secrets that should not end up in saved clipboard items:
+ * passwords, card numbers, IBANs, API keys/JWTs, private keys and OTP codes.
+ */
+import { ClipboardItem, SensitiveKind } from '../../types/clipboard';
+
+export type SensitiveAction = 'block' | 'mask' | 'expire';
+
+export interface SensitiveMatch {
+    kind: SensitiveKind;
+    start: number;
+    end: number;
+}
+
+export interface SensitiveContext {
+    fromPasswordField?: boolean;
+    // Copied in a page, not saved by hand; only then is a bare number an OTP
+    autoCaptured?: boolean;
+}
+
+export const SENSITIVE_KIND_LABELS: Record<SensitiveKind, string> = {
+    password: 'Password',
+    credit_card: 'Credit card number',
+    iban: 'IBAN',
+    api_key: 'API key',
+    jwt: 'JSON Web Token',
+    private_key: 'Private key',
+    otp: 'One-time code',
+};
+
+/**
+ * Thrown by guardSensitiveItem when the action is 'block'
+ */
+export class SensitiveContentBlockedError extends Error {
+    constructor(readonly kinds: SensitiveKind[]) {
+        super(`Not saved: the content looks like a ${describeSensitiveKinds(kinds).toLowerCase()}`);
+        this.name = 'SensitiveContentBlockedError';
+    }
+}
+
+const MASK_CHAR = '•';
+
+const PRIVATE_KEY_PATTERN =
+    /-----BEGIN (?:[A-Z0-9]+ )*PRIVATE KEY-----[\s\S]*?(?:-----END (?:[A-Z0-9]+ )*PRIVATE KEY-----|$)/g;
+const JWT_PATTERN = /\beyJ[A-Za-z0-9_-]{5,}\.eyJ[A-Za-z0-9_-]{5,}\.[A-Za-z0-9_-]{10,}\b/g;
+const API_KEY_PATTERNS = [
+    /\bAKIA[0-9A-Z]{16}\b/g, // AWS access key id
+    /\bsk-(?:proj-|ant-)?[A-Za-z0-9_-]{20,}\b/g, // OpenAI / Anthropic style secret keys
+    /\bgh[pousr]_[A-Za-z0-9]{36,}\b/g, // GitHub tokens
+    /\bxox[abprs]-[A-Za-z0-9-]{10,}\b/g, // Slack tokens
+    /\bAIza[0-9A-Za-z_-]{35}\b/g, // Google API keys
+    /\b[rs]k_(?:live|test)_[0-9A-Za-z]{16,}\b/g, // Stripe keys
+];
+const CARD_PATTERN = /\b\d(?:[ -]?\d){12,18}\b/g;
+// Issuer prefixes of the major card networks (Visa, Mastercard, Amex, Discover...);
+// order and tracking numbers that happen to pass Luhn rarely start with these
+const CARD_ISSUER_PATTERN = /^(?:4|5[1-5]|2[2-7]|3[47]|6(?:011|5))/;
+const IBAN_PATTERN = /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){2,7}(?: ?[A-Z0-9]{1,3})?\b/g;
+// A short code copied on its own, e.g. "482913" from an SMS or authenticator.
+// Zip codes, dates and order numbers look the same, so only captures count
+const OTP_PATTERN = /^\s*(\d{6}|\d{8}|\d{3}[ -]\d{3})\s*$/;
+
+/**
+ * Luhn checksum used by payment card numbers
+ */
+export const passesLuhn = (digits: string): boolean => {
+    let sum = 0;
+    let double = false;
+
+    for (let i = digits.length - 1; i >= 0; i--) {
+        let digit = Number(digits[i]);
+        if (double) {
+            digit *= 2;
+            if (digit > 9) digit -= 9;
+        }
+        sum += digit;
+        double = !double;
+    }
+
+    return digits.length > 0 && sum % 10 === 0;
+};
+
+/**
+ * ISO 13616 mod-97 check
+ */
+export const isValidIban = (value: string): boolean => {
+    const iban = value.replace(/\s/g, '').toUpperCase();
+    if (iban.length < 15 || iban.length > 34) return false;
+
+    const rearranged = iban.slice(4) + iban.slice(0, 4);
+    let remainder = 0;
+    for (const char of rearranged) {
+        const code = /[A-Z]/.test(char) ? String(char.charCodeAt(0) - 55) : char;
+        for (const digit of code) {
+            remainder = (remainder * 10 + Number(digit)) % 97;
+        }
+    }
+
+    return remainder === 1;
+};
+
+const collect = (content: string, pattern: RegExp, kind: SensitiveKind, accept?: (value: string) => boolean): SensitiveMatch[] => {
+    const matches: SensitiveMatch[] = [];
+    for (const match of content.matchAll(pattern)) {
+        if (accept && !accept(match[0])) continue;
+        matches.push({ kind, start: match.index!, end: match.index! + match[0].length });
+    }
+    return matches;
+};
+
+const isCardNumber = (value: string): boolean => {
+    const digits = value.replace(/\D/g, '');
+    return CARD_ISSUER_PATTERN.test(digits) && passesLuhn(digits);
+};
+
+/**
+ * Find sensitive spans in content, ordered by position and without overlaps
+ */
+export const detectSensitiveContent = (content: string, context: SensitiveContext = {}): SensitiveMatch[] => {
+    if (!content) return [];
+
+    if (context.fromPasswordField) {
+        return [{ kind: 'password', start: 0, end: content.length }];
+    }
+
+    const otp = context.autoCaptured ? content.match(OTP_PATTERN) : null;
+    if (otp) {
+        const start = content.indexOf(otp[1]);
+        return [{ kind: 'otp', start, end: start + otp[1].length }];
+    }
+
+    const found = [
+        ...collect(content, PRIVATE_KEY_PATTERN, 'private_key'),
+        ...collect(content, JWT_PATTERN, 'jwt'),
+        ...API_KEY_PATTERNS.flatMap(pattern => collect(content, pattern, 'api_key')),
+        ...collect(content, CARD_PATTERN, 'credit_card', isCardNumber),
+        ...collect(content, IBAN_PATTERN, 'iban', isValidIban),
+    ].sort((a, b) => a.start - b.start || b.end - a.end);
+
+    // Earlier, longer spans win (a key block swallows anything inside it)
+    const matches: SensitiveMatch[] = [];
+    for (const match of found) {
+        const last = matches[matches.length - 1];
+        if (!last || match.start >= last.end) {
+            matches.push(match);
+        }
+    }
+
+    return matches;
+};
+
+/**
+ * Replace every sensitive span, keeping the last four characters of short
+ * values so a masked card or IBAN can still be told apart
+ */
+export const maskSensitiveContent = (content: string, matches: SensitiveMatch[]): string => {
+    let masked = '';
+    let cursor = 0;
+
+    for (const match of matches) {
+        const value = content.slice(match.start, match.end);
+        const keep = match.kind === 'credit_card' || match.kind === 'iban' ? 4 : 0;
+        const hidden = value.slice(0, value.length - keep).replace(/\S/g, MASK_CHAR);
+        masked += content.slice(cursor, match.start) + hidden + value.slice(value.length - keep);
+        cursor = match.end;
+    }
+
+    return masked + content.slice(cursor);
+};
+
+export const describeSensitiveKinds = (kinds: SensitiveKind[]): string =>
+    kinds.map(kind => SENSITIVE_KIND_LABELS[kind]).join(', ');
+
+/**
+ * Apply the configured action to an item about to be saved.
+ * Throws when the action is 'block'; returns the item unchanged when
+ * nothing sensitive was found.
+ */
+export const guardSensitiveItem = <T extends Pick<ClipboardItem, 'content' | 'type' | 'title'> & Partial<ClipboardItem>>(
+    item: T,
+    settings: { action: SensitiveAction; expireAfterMinutes: number },
+    context: SensitiveContext = {}
+): T => {
+    // Image data URLs are base64 and would only produce false positives
+    if (item.type === 'image') return item;
+
+    const matches = detectSensitiveContent(item.content, context);
+    if (matches.length === 0) return item;
+
+    const kinds = Array.from(new Set(matches.map(match => match.kind)));
+
+    if (settings.action === 'block') {
+        throw new SensitiveContentBlockedError(kinds);
+    }
+
+    // Titles are shown in lists, so they never keep the secret in either mode
+    const titleMatches = detectSensitiveContent(item.title, context);
+    const title = titleMatches.length > 0 ? maskSensitiveContent(item.title, titleMatches) : item.title;
+
+    if (settings.action === 'mask') {
+        const content = maskSensitiveContent(item.content, matches);
+        return {
+            ...item,
+            content,
+            title,
+            size: new Blob([content]).size,
+            sensitive: kinds,
+        };
+    }
+
+    return {
+        ...item,
+        title,
+        sensitive: kinds,
+        expiresAt: Date.now() + Math.max(1, settings.expireAfterMinutes) * 60 * 1000,
+    };
+};
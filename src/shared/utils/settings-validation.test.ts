@@ -0,0 +1,70 @@
+// src/shared/utils/settings-validation.test.ts
+import { describe, expect, it } from 'vitest';
+import { AppSettings, DEFAULT_SETTINGS } from './clipboard-repository';
+import { isValidHostname, validateSettings, validateShortcut } from './settings-validation';
+
+const settings = (overrides: Partial<AppSettings> = {}): AppSettings => ({ ...DEFAULT_SETTINGS, ...overrides });
+
+describe('validateShortcut', () => {
+    it('accepts one or two modifiers and a usable key', () => {
+        expect(validateShortcut('Alt+Shift+V')).toBeNull();
+        expect(validateShortcut('Ctrl+F5')).toBeNull();
+        expect(validateShortcut('MacCtrl+Space')).toBeNull();
+    });
+
+    it('explains what is wrong', () => {
+        expect(validateShortcut(' ')).toBe('Enter a shortcut such as Alt+Shift+V');
+        expect(validateShortcut('Alt+Shift+v')).toBe('"v" is not a key shortcuts can use');
+        expect(validateShortcut('V')).toBe('Use one or two modifiers before the key');
+        expect(validateShortcut('Ctrl+Alt+Shift+V')).toBe('Use one or two modifiers before the key');
+        expect(validateShortcut('Super+V')).toBe('Modifiers are Ctrl, Alt, Shift, Command and MacCtrl');
+        expect(validateShortcut('Shift+V')).toBe('Include Ctrl, Alt, Command or MacCtrl');
+        expect(validateShortcut('Alt+Alt+V')).toBe('A modifier is repeated');
+    });
+});
+
+describe('isValidHostname', () => {
+    it('accepts lowercase hostnames only', () => {
+        expect(isValidHostname('mail.example.com')).toBe(true);
+        expect(isValidHostname('localhost')).toBe(true);
+        expect(isValidHostname('Example.com')).toBe(false);
+        expect(isValidHostname('-bad.com')).toBe(false);
+        expect(isValidHostname('https://example.com')).toBe(false);
+    });
+});
+
+describe('validateSettings', () => {
+    it('accepts the defaults', () => {
+        expect(validateSettings(DEFAULT_SETTINGS)).toEqual({});
+    });
+
+    it('keys range errors by the setting path', () => {
+        const errors = validateSettings(settings({
+            maxItems: 5,
+            trash: { ...DEFAULT_SETTINGS.trash, retentionDays: 1.5 }
+        }));
+        expect(errors).toEqual({
+            maxItems: 'Enter a whole number from 10 to 10000',
+            'trash.retentionDays': 'Enter a whole number from 1 to 365'
+        });
+    });
+
+    it('rejects the same shortcut twice', () => {
+        const errors = validateSettings(settings({
+            shortcuts: { ...DEFAULT_SETTINGS.shortcuts, openPopup: DEFAULT_SETTINGS.shortcuts.pasteFavorite }
+        }));
+        expect(errors['shortcuts.openPopup']).toBe('Already used for pasting the favorite');
+    });
+
+    it('checks disabled sites and paste rules', () => {
+        const errors = validateSettings(settings({
+            textExpander: { ...DEFAULT_SETTINGS.textExpander, disabledSites: ['ok.com', 'Not OK'] },
+            pasteRules: [{ id: 'r1', name: '', pattern: 'bad pattern', enabled: true, delayMs: 6000 }]
+        }));
+        expect(errors).toEqual({
+            'textExpander.disabledSites': '"Not OK" is not a hostname',
+            'pasteRules.r1.pattern': 'Enter a hostname such as *.example.com or a URL pattern',
+            'pasteRules.r1.delayMs': 'Enter a whole number from 0 to 5000'
+        });
+    });
+});
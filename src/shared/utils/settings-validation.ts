@@ -0,0 +1,128 @@
+// src/shared/utils/settings-validation.ts
+/**
+ * Checks for the options page. Errors are keyed by the setting's path,
+ * e.g. "maxItems", "shortcuts.pasteFavorite" or "pasteRules.<id>.pattern",
+ * so each field can show its own message; an empty result means the
+ * settings can be saved.
+ */
+import { AppSettings } from './clipboard-repository';
+import { isValidPastePattern, MAX_PASTE_DELAY_MS } from './paste-rules';
+
+export type SettingsErrors = Record<string, string>;
+
+export const SETTINGS_LIMITS = {
+    maxItems: { min: 10, max: 10000 },
+    sensitiveExpireMinutes: { min: 1, max: 24 * 60 },
+    autoLockMinutes: { min: 0, max: 24 * 60 },
+    trashRetentionDays: { min: 1, max: 365 },
+    pasteHistoryRetentionDays: { min: 1, max: 365 },
+    pasteHistoryMaxEvents: { min: 10, max: 5000 }
+};
+
+// Keys the browser accepts in a command shortcut, besides letters and digits
+const NAMED_KEYS = [
+    'Comma', 'Period', 'Home', 'End', 'PageUp', 'PageDown', 'Space', 'Insert', 'Delete',
+    'Up', 'Down', 'Left', 'Right',
+    'F1', 'F2', 'F3', 'F4', 'F5', 'F6', 'F7', 'F8', 'F9', 'F10', 'F11', 'F12'
+];
+const PRIMARY_MODIFIERS = ['Ctrl', 'Alt', 'Command', 'MacCtrl'];
+
+/**
+ * A shortcut is one or two modifiers, at least one of them Ctrl, Alt,
+ * Command or MacCtrl, then a key, e.g. "Alt+Shift+V"
+ */
+export const validateShortcut = (shortcut: string): string | null => {
+    const parts = shortcut.split('+').map(part => part.trim());
+    const key = parts.pop() || '';
+    const modifiers = parts;
+
+    if (!shortcut.trim()) return 'Enter a shortcut such as Alt+Shift+V';
+    if (!/^[A-Z0-9]$/.test(key) && !NAMED_KEYS.includes(key)) {
+        return `"${key}" is not a key shortcuts can use`;
+    }
+    if (modifiers.length === 0 || modifiers.length > 2) {
+        return 'Use one or two modifiers before the key';
+    }
+    if (modifiers.some(modifier => modifier !== 'Shift' && !PRIMARY_MODIFIERS.includes(modifier))) {
+        return 'Modifiers are Ctrl, Alt, Shift, Command and MacCtrl';
+    }
+    if (!modifiers.some(modifier => PRIMARY_MODIFIERS.includes(modifier))) {
+        return 'Include Ctrl, Alt, Command or MacCtrl';
+    }
+    if (new Set(modifiers).size !== modifiers.length) {
+        return 'A modifier is repeated';
+    }
+    return null;
+};
+
+// Hostnames as the text expander compares them, e.g. "mail.example.com"
+export const isValidHostname = (hostname: string): boolean =>
+    /^(?=.{1,253}$)([a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?)(\.[a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?)*$/.test(hostname);
+
+const checkRange = (
+    errors: SettingsErrors,
+    path: string,
+    value: number,
+    { min, max }: { min: number; max: number }
+) => {
+    if (!Number.isInteger(value) || value < min || value > max) {
+        errors[path] = `Enter a whole number from ${min} to ${max}`;
+    }
+};
+
+export const validateSettings = (settings: AppSettings): SettingsErrors => {
+    const errors: SettingsErrors = {};
+
+    checkRange(errors, 'maxItems', settings.maxItems, SETTINGS_LIMITS.maxItems);
+    checkRange(
+        errors,
+        'sensitiveContent.expireAfterMinutes',
+        settings.sensitiveContent.expireAfterMinutes,
+        SETTINGS_LIMITS.sensitiveExpireMinutes
+    );
+    checkRange(errors, 'vault.autoLockMinutes', settings.vault.autoLockMinutes, SETTINGS_LIMITS.autoLockMinutes);
+    checkRange(errors, 'trash.retentionDays', settings.trash.retentionDays, SETTINGS_LIMITS.trashRetentionDays);
+    checkRange(
+        errors,
+        'pasteHistory.retentionDays',
+        settings.pasteHistory.retentionDays,
+        SETTINGS_LIMITS.pasteHistoryRetentionDays
+    );
+    checkRange(
+        errors,
+        'pasteHistory.maxEvents',
+        settings.pasteHistory.maxEvents,
+        SETTINGS_LIMITS.pasteHistoryMaxEvents
+    );
+
+    (['pasteFavorite', 'openPopup'] as const).forEach(name => {
+        const error = validateShortcut(settings.shortcuts[name]);
+        if (error) errors[`shortcuts.${name}`] = error;
+    });
+    if (
+        !errors['shortcuts.pasteFavorite'] &&
+        !errors['shortcuts.openPopup'] &&
+        settings.shortcuts.pasteFavorite === settings.shortcuts.openPopup
+    ) {
+        errors['shortcuts.openPopup'] = 'Already used for pasting the favorite';
+    }
+
+    const invalidSite = settings.textExpander.disabledSites.find(site => !isValidHostname(site));
+    if (invalidSite !== undefined) {
+        errors['textExpander.disabledSites'] = `"${invalidSite}" is not a hostname`;
+    }
+
+    settings.pasteRules.forEach(rule => {
+        if (!isValidPastePattern(rule.pattern)) {
+            errors[`pasteRules.${rule.id}.pattern`] = 'Enter a hostname such as *.example.com or a URL pattern';
+        }
+        if (
+            rule.delayMs !== undefined &&
+            (!Number.isInteger(rule.delayMs) || rule.delayMs < 0 || rule.delayMs > MAX_PASTE_DELAY_MS)
+        ) {
+            errors[`pasteRules.${rule.id}.delayMs`] = `Enter a whole number from 0 to ${MAX_PASTE_DELAY_MS}`;
+        }
+    });
+
+    return errors;
+};
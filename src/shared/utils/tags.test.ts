@@ -0,0 +1,84 @@
+// src/shared/utils/tags.test.ts
+import { describe, expect, it } from 'vitest';
+import { ClipboardItem } from '../../types/clipboard';
+import {
+    collectTags,
+    hasAllTags,
+    MAX_TAG_LENGTH,
+    normalizeTag,
+    normalizeTags,
+    suggestTags,
+    tagItems,
+    untagItems
+} from './tags';
+
+const item = (id: string, tags?: string[]): ClipboardItem => ({
+    id,
+    content: id,
+    type: 'text',
+    title: id,
+    timestamp: 0,
+    size: 1,
+    tags
+});
+
+describe('normalizeTag', () => {
+    it('lowercases, drops the hash and dashes whitespace', () => {
+        expect(normalizeTag('  #Work  Notes ')).toBe('work-notes');
+        expect(normalizeTag('a,b')).toBe('ab');
+        expect(normalizeTag('###')).toBe('');
+        expect(normalizeTag('x'.repeat(40))).toHaveLength(MAX_TAG_LENGTH);
+    });
+});
+
+describe('normalizeTags', () => {
+    it('keeps unique, non-empty string tags', () => {
+        expect(normalizeTags(['Work', '#work', '', 3, 'home'])).toEqual(['work', 'home']);
+        expect(normalizeTags('work')).toEqual([]);
+    });
+});
+
+describe('collectTags and suggestTags', () => {
+    const known = collectTags([item('a', ['work', 'home']), item('b', ['work']), item('c', ['homework'])]);
+
+    it('counts tags, most used first', () => {
+        expect(known).toEqual([
+            { tag: 'work', count: 2 },
+            { tag: 'home', count: 1 },
+            { tag: 'homework', count: 1 }
+        ]);
+    });
+
+    it('suggests prefix matches before other matches', () => {
+        expect(suggestTags('work', known)).toEqual(['work', 'homework']);
+        expect(suggestTags('home', known, ['home'])).toEqual(['homework']);
+        expect(suggestTags('', known, [], 2)).toEqual(['work', 'home']);
+    });
+});
+
+describe('hasAllTags', () => {
+    it('requires every tag', () => {
+        expect(hasAllTags(item('a', ['work', 'home']), ['work', 'home'])).toBe(true);
+        expect(hasAllTags(item('a', ['work']), ['work', 'home'])).toBe(false);
+        expect(hasAllTags(item('a'), [])).toBe(true);
+    });
+});
+
+describe('tagItems and untagItems', () => {
+    const items = [item('a', ['work']), item('b'), item('c')];
+
+    it('adds a normalized tag once to the given items', () => {
+        const tagged = tagItems(items, ['a', 'b'], '#Work');
+        expect(tagged.map(entry => entry.tags)).toEqual([['work'], ['work'], undefined]);
+        expect(tagged[0]).toBe(items[0]);
+    });
+
+    it('leaves the list alone for an empty tag', () => {
+        expect(tagItems(items, ['a'], '#')).toBe(items);
+    });
+
+    it('removes a tag from the given items', () => {
+        const untagged = untagItems(tagItems(items, ['b'], 'work'), ['a'], 'work');
+        expect(untagged.map(entry => entry.tags)).toEqual([[], ['work'], undefined]);
+    });
+});
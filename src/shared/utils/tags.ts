@@ -0,0 +1,91 @@
+// src/shared/utils/tags.ts
+/**
+ * Free-form tags on clipboard items, next to the single folder an item
+ * lives in. Tags are stored normalized: lowercase, no leading "#",
+ * whitespace turned into dashes.
+ */
+import { ClipboardItem } from '../../types/clipboard';
+
+export const MAX_TAG_LENGTH = 32;
+
+export interface TagCount {
+    tag: string;
+    count: number;
+}
+
+/**
+ * Normalized form of a tag, or an empty string if nothing is left
+ */
+export const normalizeTag = (tag: string): string =>
+    tag
+        .trim()
+        .replace(/^#+/, '')
+        .toLowerCase()
+        .replace(/\s+/g, '-')
+        .replace(/,/g, '')
+        .slice(0, MAX_TAG_LENGTH);
+
+export const normalizeTags = (tags: unknown): string[] => {
+    if (!Array.isArray(tags)) return [];
+    const normalized = tags
+        .filter((tag): tag is string => typeof tag === 'string')
+        .map(normalizeTag)
+        .filter(Boolean);
+    return Array.from(new Set(normalized));
+};
+
+/**
+ * Every tag in use with the number of items carrying it, most used first
+ */
+export const collectTags = (items: Pick<ClipboardItem, 'tags'>[]): TagCount[] => {
+    const counts = new Map<string, number>();
+    items.forEach(item => {
+        (item.tags || []).forEach(tag => counts.set(tag, (counts.get(tag) || 0) + 1));
+    });
+    return Array.from(counts, ([tag, count]) => ({ tag, count }))
+        .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+};
+
+/**
+ * Known tags starting with (then containing) what was typed so far
+ */
+export const suggestTags = (input: string, known: TagCount[], exclude: string[] = [], limit = 8): string[] => {
+    const query = normalizeTag(input);
+    const candidates = known.map(entry => entry.tag).filter(tag => !exclude.includes(tag));
+    if (!query) return candidates.slice(0, limit);
+
+    return [
+        ...candidates.filter(tag => tag.startsWith(query)),
+        ...candidates.filter(tag => !tag.startsWith(query) && tag.includes(query))
+    ].slice(0, limit);
+};
+
+export const hasAllTags = (item: Pick<ClipboardItem, 'tags'>, tags: string[]): boolean =>
+    tags.every(tag => (item.tags || []).includes(tag));
+
+/**
+ * Add a tag to every item in itemIds; other items are returned as they are
+ */
+export const tagItems = (items: ClipboardItem[], itemIds: string[], tag: string): ClipboardItem[] => {
+    const normalized = normalizeTag(tag);
+    if (!normalized) return items;
+
+    const ids = new Set(itemIds);
+    return items.map(item =>
+        ids.has(item.id) && !(item.tags || []).includes(normalized)
+            ? { ...item, tags: [...(item.tags || []), normalized] }
+            : item
+    );
+};
+
+/**
+ * Remove a tag from every item in itemIds
+ */
+export const untagItems = (items: ClipboardItem[], itemIds: string[], tag: string): ClipboardItem[] => {
+    const ids = new Set(itemIds);
+    return items.map(item =>
+        ids.has(item.id) && (item.tags || []).includes(tag)
+            ? { ...item, tags: (item.tags || []).filter(existing => existing !== tag) }
+            : item
+    );
+};
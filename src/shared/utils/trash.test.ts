@@ -0,0 +1,116 @@
+// src/shared/utils/trash.test.ts
+import { describe, expect, it } from 'vitest';
+import { ClipboardFolder, ClipboardItem, TrashEntry } from '../../types/clipboard';
+import {
+    collectFolderItems,
+    ensureFolderPath,
+    getFolderPath,
+    getTrashEntryTitle,
+    isTrashEntryExpired,
+    placeFolder,
+    removeFolder,
+    withoutExpiredItems
+} from './trash';
+import { findFolder, findParentFolderId } from './tree-order';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const item = (id: string, fields: Partial<ClipboardItem> = {}): ClipboardItem => ({
+    id,
+    content: id,
+    type: 'text',
+    title: id,
+    timestamp: 0,
+    size: 1,
+    ...fields
+});
+
+const folder = (id: string, children: ClipboardFolder[] = []): ClipboardFolder => ({
+    id,
+    name: `Folder ${id}`,
+    children,
+    items: [],
+    createdAt: 0,
+    expanded: false
+});
+
+const tree = [folder('work', [folder('clients', [folder('acme')])]), folder('home')];
+
+describe('folder paths', () => {
+    it('lists the folders from the top level down', () => {
+        expect(getFolderPath(tree, 'acme')).toEqual([
+            { id: 'work', name: 'Folder work' },
+            { id: 'clients', name: 'Folder clients' },
+            { id: 'acme', name: 'Folder acme' }
+        ]);
+        expect(getFolderPath(tree, 'missing')).toEqual([]);
+        expect(getFolderPath(tree)).toEqual([]);
+    });
+
+    it('re-creates missing folders under the previous one, reusing existing ones', () => {
+        const path = getFolderPath(tree, 'acme');
+        const { folders, folderId } = ensureFolderPath(removeFolder(tree, 'clients'), path);
+        expect(folderId).toBe('acme');
+        expect(findParentFolderId(folders, 'clients')).toBe('work');
+        expect(findParentFolderId(folders, 'acme')).toBe('clients');
+        expect(findFolder(folders, 'acme')?.name).toBe('Folder acme');
+    });
+
+    it('leaves the tree alone when the path still exists', () => {
+        const { folders, folderId } = ensureFolderPath(tree, getFolderPath(tree, 'clients'));
+        expect(folders).toBe(tree);
+        expect(folderId).toBe('clients');
+    });
+});
+
+describe('folders', () => {
+    it('collects the items of a folder and its subfolders', () => {
+        const items = [item('a', { folderId: 'acme' }), item('b', { folderId: 'home' }), item('c')];
+        expect(collectFolderItems(tree[0], items).map(entry => entry.id)).toEqual(['a']);
+    });
+
+    it('puts a deleted folder back, merging parts that exist again', () => {
+        const withoutWork = removeFolder(tree, 'work');
+        const { folders: recreated } = ensureFolderPath(withoutWork, getFolderPath(tree, 'clients'));
+        const restored = placeFolder(recreated, tree[0]);
+        expect(restored.filter(entry => entry.id === 'work')).toHaveLength(1);
+        expect(findParentFolderId(restored, 'acme')).toBe('clients');
+    });
+});
+
+describe('trash entries', () => {
+    const now = 100 * DAY;
+    const itemEntry = (fields: Partial<ClipboardItem> = {}, deletedAt = now): TrashEntry => ({
+        id: 'entry',
+        kind: 'item',
+        deletedAt,
+        path: [],
+        item: item('a', fields)
+    });
+
+    it('expire after the retention or with their secret', () => {
+        expect(isTrashEntryExpired(itemEntry({}, now - 29 * DAY), 30, now)).toBe(false);
+        expect(isTrashEntryExpired(itemEntry({}, now - 31 * DAY), 30, now)).toBe(true);
+        expect(isTrashEntryExpired(itemEntry({ expiresAt: now - 1 }), 30, now)).toBe(true);
+    });
+
+    it('drop expired secrets from a folder entry', () => {
+        const entry: TrashEntry = {
+            id: 'entry',
+            kind: 'folder',
+            deletedAt: now,
+            path: [],
+            folder: folder('work'),
+            items: [item('kept'), item('gone', { expiresAt: now - 1 })]
+        };
+        const cleaned = withoutExpiredItems(entry, now);
+        expect(cleaned.kind === 'folder' && cleaned.items.map(entry => entry.id)).toEqual(['kept']);
+        expect(withoutExpiredItems(itemEntry(), now)).toEqual(itemEntry());
+    });
+
+    it('are titled after their item or folder', () => {
+        expect(getTrashEntryTitle(itemEntry())).toBe('a');
+        expect(getTrashEntryTitle({ id: 'e', kind: 'folder', deletedAt: 0, path: [], folder: folder('x'), items: [] }))
+            .toBe('Folder x');
+    });
+});
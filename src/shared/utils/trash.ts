@@ -0,0 +1,131 @@
+// src/shared/utils/trash.ts
+/**
+ * Folder bookkeeping for the trash. A trash entry remembers the folders it
+ * was in by id and name, so it can go back to the same place, or into
+ * re-created folders of the same name if those were deleted since.
+ */
+import { ClipboardFolder, ClipboardItem, TrashEntry, TrashPathSegment } from '../../types/clipboard';
+import { findFolder } from './tree-order';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Folders from the top level down to the given one, empty for the top
+ * level or a folder that no longer exists
+ */
+export const getFolderPath = (folders: ClipboardFolder[], folderId?: string): TrashPathSegment[] => {
+    if (!folderId) return [];
+
+    const search = (list: ClipboardFolder[], path: TrashPathSegment[]): TrashPathSegment[] | null => {
+        for (const folder of list) {
+            const current = [...path, { id: folder.id, name: folder.name }];
+            if (folder.id === folderId) return current;
+            const found = search(folder.children, current);
+            if (found) return found;
+        }
+        return null;
+    };
+    return search(folders, []) || [];
+};
+
+// Every item in a folder and its subfolders
+export const collectFolderItems = (folder: ClipboardFolder, items: ClipboardItem[]): ClipboardItem[] => {
+    const ids = new Set<string>();
+    const visit = (entry: ClipboardFolder) => {
+        ids.add(entry.id);
+        entry.children.forEach(visit);
+    };
+    visit(folder);
+    return items.filter(item => item.folderId && ids.has(item.folderId));
+};
+
+export const removeFolder = (folders: ClipboardFolder[], folderId: string): ClipboardFolder[] =>
+    folders
+        .filter(folder => folder.id !== folderId)
+        .map(folder => ({ ...folder, children: removeFolder(folder.children, folderId) }));
+
+// Add a folder as the last child of a parent, or at the top level
+const addFolder = (
+    folders: ClipboardFolder[],
+    folder: ClipboardFolder,
+    parentId?: string
+): ClipboardFolder[] => {
+    if (!parentId) return [...folders, folder];
+    return folders.map(entry =>
+        entry.id === parentId
+            ? { ...entry, children: [...entry.children, folder], expanded: true }
+            : { ...entry, children: addFolder(entry.children, folder, parentId) }
+    );
+};
+
+/**
+ * Make sure the folders of a path exist. Folders still in the tree are
+ * used wherever they are now; missing ones are re-created with their old
+ * id under the previous folder of the path.
+ * Returns the tree and the id of the innermost folder.
+ */
+export const ensureFolderPath = (
+    folders: ClipboardFolder[],
+    path: TrashPathSegment[]
+): { folders: ClipboardFolder[]; folderId?: string } => {
+    let tree = folders;
+    let parentId: string | undefined;
+
+    path.forEach(segment => {
+        if (!findFolder(tree, segment.id)) {
+            tree = addFolder(tree, {
+                id: segment.id,
+                name: segment.name,
+                parentId,
+                children: [],
+                items: [],
+                createdAt: Date.now(),
+                expanded: true
+            }, parentId);
+        }
+        parentId = segment.id;
+    });
+
+    return { folders: tree, folderId: parentId };
+};
+
+/**
+ * Put a deleted folder back under a parent. Parts of it that exist again
+ * (re-created for another restore) are merged with what comes back.
+ */
+export const placeFolder = (
+    folders: ClipboardFolder[],
+    folder: ClipboardFolder,
+    parentId?: string
+): ClipboardFolder[] => {
+    let tree = folders;
+    if (!findFolder(tree, folder.id)) {
+        tree = addFolder(tree, { ...folder, parentId, children: [], order: undefined }, parentId);
+    }
+    folder.children.forEach(child => {
+        tree = placeFolder(tree, child, folder.id);
+    });
+    return tree;
+};
+
+/**
+ * Entries kept longer than the retention, and secrets whose expiry has
+ * passed, which should not outlive it in the trash either
+ */
+export const isTrashEntryExpired = (entry: TrashEntry, retentionDays: number, now = Date.now()): boolean => {
+    if (now - entry.deletedAt > retentionDays * DAY) return true;
+    return entry.kind === 'item' && !!entry.item.expiresAt && entry.item.expiresAt <= now;
+};
+
+/**
+ * Expired secrets leave a folder entry without taking the folder with them.
+ * Returns the entry itself when nothing in it expired.
+ */
+export const withoutExpiredItems = (entry: TrashEntry, now = Date.now()): TrashEntry => {
+    if (entry.kind !== 'folder') return entry;
+    const items = entry.items.filter(item => !item.expiresAt || item.expiresAt > now);
+    return items.length === entry.items.length ? entry : { ...entry, items };
+};
+
+export const getTrashEntryTitle = (entry: TrashEntry): string =>
+    entry.kind === 'item' ? entry.item.title : entry.folder.name;
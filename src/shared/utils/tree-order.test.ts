@@ -0,0 +1,107 @@
+// src/shared/utils/tree-order.test.ts
+import { describe, expect, it } from 'vitest';
+import { ClipboardFolder, ClipboardItem } from '../../types/clipboard';
+import { HISTORY_FOLDER_ID } from './clipboard-history';
+import { canMoveFolder, findParentFolderId, moveFolder, moveItems, sortFolders, sortItems } from './tree-order';
+
+const item = (id: string, fields: Partial<ClipboardItem> = {}): ClipboardItem => ({
+    id,
+    content: id,
+    type: 'text',
+    title: id,
+    timestamp: 0,
+    size: 1,
+    ...fields
+});
+
+const folder = (id: string, children: ClipboardFolder[] = [], fields: Partial<ClipboardFolder> = {}): ClipboardFolder => ({
+    id,
+    name: id,
+    children,
+    items: [],
+    createdAt: 0,
+    expanded: false,
+    ...fields
+});
+
+const ids = (entries: { id: string }[]) => entries.map(entry => entry.id);
+
+describe('sortItems', () => {
+    it('puts unordered items first, favorites then newest, before hand-ordered ones', () => {
+        const items = [
+            item('ordered-1', { order: 1 }),
+            item('old', { timestamp: 1 }),
+            item('ordered-0', { order: 0 }),
+            item('new', { timestamp: 2 }),
+            item('favorite', { timestamp: 0, isFavorite: true })
+        ];
+        expect(ids(sortItems(items))).toEqual(['favorite', 'new', 'old', 'ordered-0', 'ordered-1']);
+    });
+});
+
+describe('sortFolders', () => {
+    it('keeps stored positions for folders without an order', () => {
+        const folders = [folder('a', [], { order: 2 }), folder('b'), folder('c', [], { order: 0 })];
+        expect(ids(sortFolders(folders))).toEqual(['c', 'b', 'a']);
+    });
+});
+
+describe('moveItems', () => {
+    const items = [
+        item('a', { folderId: 'f', order: 0 }),
+        item('b', { folderId: 'f', order: 1 }),
+        item('c', { folderId: 'g' })
+    ];
+
+    it('places moved items next to the anchor and numbers the folder', () => {
+        const moved = moveItems(items, ['c'], 'f', { id: 'a', position: 'after' });
+        expect(ids(sortItems(moved.filter(entry => entry.folderId === 'f')))).toEqual(['a', 'c', 'b']);
+        expect(moved.find(entry => entry.id === 'c')?.order).toBe(1);
+    });
+
+    it('appends without an anchor and keeps unchanged items as they are', () => {
+        const moved = moveItems(items, ['c'], 'f');
+        expect(moved.find(entry => entry.id === 'c')).toMatchObject({ folderId: 'f', order: 2 });
+        expect(moved[0]).toBe(items[0]);
+    });
+
+    it('returns the same list when nothing moves', () => {
+        expect(moveItems(items, ['missing'], 'f')).toBe(items);
+    });
+});
+
+describe('moving folders', () => {
+    const folders = [
+        folder('work', [folder('clients', [folder('acme')])]),
+        folder('home'),
+        folder(HISTORY_FOLDER_ID)
+    ];
+
+    it('finds parents', () => {
+        expect(findParentFolderId(folders, 'acme')).toBe('clients');
+        expect(findParentFolderId(folders, 'work')).toBeUndefined();
+    });
+
+    it('refuses cycles and a nested history folder', () => {
+        expect(canMoveFolder(folders, 'work', 'acme')).toBe(false);
+        expect(canMoveFolder(folders, 'work', 'work')).toBe(false);
+        expect(canMoveFolder(folders, HISTORY_FOLDER_ID, 'home')).toBe(false);
+        expect(canMoveFolder(folders, HISTORY_FOLDER_ID, undefined)).toBe(true);
+        expect(canMoveFolder(folders, 'home', 'missing')).toBe(false);
+        expect(() => moveFolder(folders, 'work', 'acme')).toThrow();
+    });
+
+    it('moves a folder under a new parent and expands it', () => {
+        const moved = moveFolder(folders, 'acme', 'home');
+        const home = moved.find(entry => entry.id === 'home')!;
+        expect(ids(home.children)).toEqual(['acme']);
+        expect(home.children[0]).toMatchObject({ parentId: 'home', order: 0 });
+        expect(home.expanded).toBe(true);
+        expect(findParentFolderId(moved, 'acme')).toBe('home');
+    });
+
+    it('moves a folder to the top level next to an anchor', () => {
+        const moved = moveFolder(folders, 'clients', undefined, { id: 'work', position: 'before' });
+        expect(ids(moved)).toEqual(['clients', 'work', 'home', HISTORY_FOLDER_ID]);
+    });
+});
@@ -0,0 +1,138 @@
+// src/shared/utils/tree-order.ts
+/**
+ * Manual ordering and moving in the folder tree.
+ * Items and folders dragged into place get an `order` (their position
+ * among their siblings). Items without one are shown first, favorites
+ * first and then newest first, so new captures still appear on top.
+ */
+import { ClipboardFolder, ClipboardItem } from '../../types/clipboard';
+import { isHistoryFolder } from './clipboard-history';
+
+// Sibling a moved entry is placed next to; without one it goes last
+export interface MoveAnchor {
+    id: string;
+    position: 'before' | 'after';
+}
+
+const insertAt = <T extends { id: string }>(siblings: T[], moved: T[], anchor?: MoveAnchor): T[] => {
+    const anchorIndex = anchor ? siblings.findIndex(entry => entry.id === anchor.id) : -1;
+    const position = anchorIndex < 0
+        ? siblings.length
+        : anchorIndex + (anchor!.position === 'after' ? 1 : 0);
+    return [...siblings.slice(0, position), ...moved, ...siblings.slice(position)];
+};
+
+export const compareItems = (a: ClipboardItem, b: ClipboardItem): number => {
+    const aOrdered = a.order !== undefined;
+    const bOrdered = b.order !== undefined;
+    if (aOrdered && bOrdered) return a.order! - b.order!;
+    if (aOrdered !== bOrdered) return aOrdered ? 1 : -1;
+
+    if (a.isFavorite && !b.isFavorite) return -1;
+    if (!a.isFavorite && b.isFavorite) return 1;
+    return b.timestamp - a.timestamp;
+};
+
+export const sortItems = (items: ClipboardItem[]): ClipboardItem[] => [...items].sort(compareItems);
+
+// Folders without an order keep the position they were stored in
+export const sortFolders = (folders: ClipboardFolder[]): ClipboardFolder[] =>
+    folders
+        .map((folder, index) => ({ folder, index }))
+        .sort((a, b) => (a.folder.order ?? a.index) - (b.folder.order ?? b.index) || a.index - b.index)
+        .map(({ folder }) => folder);
+
+// Id of the folder containing a folder, undefined at the top level
+export const findParentFolderId = (folders: ClipboardFolder[], id: string): string | undefined => {
+    for (const folder of folders) {
+        if (folder.children.some(child => child.id === id)) return folder.id;
+        const parentId = findParentFolderId(folder.children, id);
+        if (parentId) return parentId;
+    }
+    return undefined;
+};
+
+export const findFolder = (folders: ClipboardFolder[], id: string): ClipboardFolder | null => {
+    for (const folder of folders) {
+        if (folder.id === id) return folder;
+        const found = findFolder(folder.children, id);
+        if (found) return found;
+    }
+    return null;
+};
+
+/**
+ * Whether a folder can get a new parent: not itself or one of its own
+ * subfolders (that would cut the branch off the tree), and the history
+ * folder stays at the top level where captures look for it.
+ */
+export const canMoveFolder = (folders: ClipboardFolder[], folderId: string, parentId?: string): boolean => {
+    const folder = findFolder(folders, folderId);
+    if (!folder) return false;
+    if (parentId === undefined) return true;
+    if (isHistoryFolder(folder)) return false;
+    return folder.id !== parentId && !findFolder(folder.children, parentId) && !!findFolder(folders, parentId);
+};
+
+/**
+ * Move items into a folder (undefined for the top level), next to one of
+ * the items already there. Moved items keep their relative order and
+ * every item in the target folder is numbered.
+ */
+export const moveItems = (
+    items: ClipboardItem[],
+    itemIds: string[],
+    folderId: string | undefined,
+    anchor?: MoveAnchor
+): ClipboardItem[] => {
+    const moving = new Set(itemIds);
+    const siblings = sortItems(items.filter(item => item.folderId === folderId && !moving.has(item.id)));
+    const moved = sortItems(items.filter(item => moving.has(item.id)));
+    if (moved.length === 0) return items;
+
+    const ordered = insertAt(siblings, moved, anchor);
+    const updates = new Map(ordered.map((item, order) => [item.id, { folderId, order }]));
+
+    return items.map(item => {
+        const update = updates.get(item.id);
+        return update && (item.folderId !== update.folderId || item.order !== update.order)
+            ? { ...item, ...update }
+            : item;
+    });
+};
+
+/**
+ * Move a folder under a new parent (undefined for the top level), next to
+ * one of the parent's subfolders. Throws when canMoveFolder refuses.
+ */
+export const moveFolder = (
+    folders: ClipboardFolder[],
+    folderId: string,
+    parentId: string | undefined,
+    anchor?: MoveAnchor
+): ClipboardFolder[] => {
+    if (!canMoveFolder(folders, folderId, parentId)) {
+        throw new Error('A folder cannot be moved into itself or one of its subfolders');
+    }
+    const folder = findFolder(folders, folderId)!;
+
+    const remove = (list: ClipboardFolder[]): ClipboardFolder[] =>
+        list
+            .filter(entry => entry.id !== folderId)
+            .map(entry => ({ ...entry, children: remove(entry.children) }));
+
+    const insert = (siblings: ClipboardFolder[]): ClipboardFolder[] =>
+        insertAt(sortFolders(siblings), [{ ...folder, parentId }], anchor)
+            .map((entry, order) => ({ ...entry, order }));
+
+    const withoutFolder = remove(folders);
+    if (parentId === undefined) return insert(withoutFolder);
+
+    const insertUnder = (list: ClipboardFolder[]): ClipboardFolder[] =>
+        list.map(entry =>
+            entry.id === parentId
+                ? { ...entry, children: insert(entry.children), expanded: true }
+                : { ...entry, children: insertUnder(entry.children) }
+        );
+    return insertUnder(withoutFolder);
+};
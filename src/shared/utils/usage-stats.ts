@@ -0,0 +1,104 @@
+// src/shared/utils/usage-stats.ts
+/**
+ * Figures for the stats page, computed from the paste history and the
+ * storage snapshots kept in this browser. Nothing here leaves the device.
+ */
+import { PasteEvent } from './clipboard-repository';
+
+// Failure reason of events recorded before reasons were
+const UNKNOWN_REASON = 'unknown';
+const UNKNOWN_SITE = 'Unknown site';
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+// Calendar day in local time, e.g. "2026-10-18"
+export const toDayKey = (timestamp: number): string => {
+    const date = new Date(timestamp);
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+export interface CountedEntry {
+    key: string;
+    label: string;
+    count: number;
+}
+
+// Largest counts first; the rest is summed up as "Other" when asked to
+const rank = (counts: Map<string, CountedEntry>, limit: number, otherLabel?: string): CountedEntry[] => {
+    const ranked = Array.from(counts.values()).sort((a, b) => b.count - a.count);
+    if (ranked.length <= limit) return ranked;
+    const top = ranked.slice(0, limit);
+    if (!otherLabel) return top;
+    const rest = ranked.slice(limit).reduce((total, entry) => total + entry.count, 0);
+    return [...top, { key: 'other', label: otherLabel, count: rest }];
+};
+
+const increment = (counts: Map<string, CountedEntry>, key: string, label: string) => {
+    const entry = counts.get(key);
+    if (entry) {
+        entry.count++;
+    } else {
+        counts.set(key, { key, label, count: 1 });
+    }
+};
+
+export const successfulPastes = (events: PasteEvent[]): PasteEvent[] =>
+    events.filter(event => event.success);
+
+// Successful pastes per calendar day, for the heatmap
+export const countPastesPerDay = (events: PasteEvent[]): { day: string; value: number }[] => {
+    const counts = new Map<string, number>();
+    successfulPastes(events).forEach(event => {
+        const day = toDayKey(event.timestamp);
+        counts.set(day, (counts.get(day) || 0) + 1);
+    });
+    return Array.from(counts, ([day, value]) => ({ day, value }));
+};
+
+/**
+ * Most pasted items. Titles come from the current items where they still
+ * exist, otherwise from the title recorded with the paste.
+ */
+export const rankPastedItems = (
+    events: PasteEvent[],
+    titles: Map<string, string>,
+    limit = 10
+): CountedEntry[] => {
+    const counts = new Map<string, CountedEntry>();
+    successfulPastes(events).forEach(event => {
+        if (!event.itemId) return;
+        increment(counts, event.itemId, titles.get(event.itemId) ?? event.itemTitle ?? 'Deleted item');
+    });
+    return rank(counts, limit);
+};
+
+export const rankPasteSites = (events: PasteEvent[], limit = 8): CountedEntry[] => {
+    const counts = new Map<string, CountedEntry>();
+    successfulPastes(events).forEach(event => {
+        const site = event.origin?.replace(/^https?:\/\//, '') || UNKNOWN_SITE;
+        increment(counts, site, site);
+    });
+    return rank(counts, limit, 'Other sites');
+};
+
+export interface FailureSummary {
+    attempts: number;
+    failures: number;
+    rate: number; // 0-1
+    reasons: CountedEntry[];
+}
+
+export const summarizeFailures = (events: PasteEvent[]): FailureSummary => {
+    const counts = new Map<string, CountedEntry>();
+    const failed = events.filter(event => !event.success);
+    failed.forEach(event => {
+        const reason = event.reason || UNKNOWN_REASON;
+        increment(counts, reason, reason);
+    });
+    return {
+        attempts: events.length,
+        failures: failed.length,
+        rate: events.length > 0 ? failed.length / events.length : 0,
+        reasons: rank(counts, Number.POSITIVE_INFINITY)
+    };
+};
@@ -0,0 +1,64 @@
+// src/shared/utils/vault-crypto.test.ts
+import { describe, expect, it } from 'vitest';
+import {
+    createVaultConfig,
+    decryptText,
+    deriveVaultKey,
+    encryptText,
+    exportRawKey,
+    fromBase64,
+    importRawKey,
+    openVault,
+    randomSalt,
+    toBase64
+} from './vault-crypto';
+
+// Few iterations keep the tests fast; the derivation is the same
+const testKey = (passphrase = 'correct horse', salt = randomSalt()) => deriveVaultKey(passphrase, salt, 1000);
+
+describe('base64', () => {
+    it('round-trips bytes', () => {
+        const bytes = new Uint8Array([0, 1, 127, 128, 255]);
+        expect(fromBase64(toBase64(bytes))).toEqual(bytes);
+    });
+});
+
+describe('encryptText and decryptText', () => {
+    it('round-trips text with a fresh IV each time', async () => {
+        const key = await testKey();
+        const first = await encryptText(key, 'secret ✓');
+        const second = await encryptText(key, 'secret ✓');
+        expect(first).not.toBe(second);
+        expect(first).not.toContain('secret');
+        expect(await decryptText(key, first)).toBe('secret ✓');
+    });
+
+    it('throws for another key or a malformed value', async () => {
+        const salt = randomSalt();
+        const payload = await encryptText(await testKey('one', salt), 'secret');
+        await expect(decryptText(await testKey('two', salt), payload)).rejects.toThrow();
+        await expect(decryptText(await testKey('one', salt), 'no-dot')).rejects.toThrow('Malformed encrypted value');
+    });
+
+    it('derives the same key from the same passphrase and salt', async () => {
+        const salt = randomSalt();
+        const payload = await encryptText(await testKey('same', salt), 'secret');
+        expect(await decryptText(await testKey('same', salt), payload)).toBe('secret');
+    });
+
+    it('shares a key through its raw form', async () => {
+        const key = await testKey();
+        const imported = await importRawKey(await exportRawKey(key));
+        expect(await decryptText(imported, await encryptText(key, 'secret'))).toBe('secret');
+    });
+});
+
+describe('vault config', () => {
+    it('opens with the right passphrase only', async () => {
+        const { config, key } = await createVaultConfig('passphrase');
+        const opened = await openVault('passphrase', config);
+        expect(opened).not.toBeNull();
+        expect(await decryptText(opened!, await encryptText(key, 'secret'))).toBe('secret');
+        expect(await openVault('wrong', config)).toBeNull();
+    });
+});
@@ -0,0 +1,117 @@
+// src/shared/utils/vault-crypto.ts
+/**
+ * WebCrypto helpers for vault mode: an AES-GCM key derived from the user's
+ * passphrase with PBKDF2. Encrypted values are "<iv>.<ciphertext>" in base64.
+ */
+
+export const VAULT_KDF_ITERATIONS = 310000;
+
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+// Encrypted with the key on setup so a wrong passphrase can be told apart
+const VERIFIER_TEXT = 'shortcutpaste-vault';
+
+/**
+ * Stored (and synced) so every device derives the same key from the
+ * same passphrase. Holds nothing secret.
+ */
+export interface VaultConfig {
+    salt: string;
+    iterations: number;
+    verifier: string;
+    createdAt: number;
+}
+
+export const toBase64 = (bytes: Uint8Array): string => {
+    let binary = '';
+    bytes.forEach(byte => {
+        binary += String.fromCharCode(byte);
+    });
+    return btoa(binary);
+};
+
+export const fromBase64 = (value: string): Uint8Array =>
+    Uint8Array.from(atob(value), char => char.charCodeAt(0));
+
+export const randomSalt = (): string => toBase64(crypto.getRandomValues(new Uint8Array(SALT_BYTES)));
+
+/**
+ * Derive the AES-GCM key. It is extractable so an unlocked vault can be
+ * shared with the other extension pages through session storage.
+ */
+export const deriveVaultKey = async (passphrase: string, salt: string, iterations: number): Promise<CryptoKey> => {
+    const material = await crypto.subtle.importKey(
+        'raw',
+        new TextEncoder().encode(passphrase),
+        'PBKDF2',
+        false,
+        ['deriveKey']
+    );
+
+    return crypto.subtle.deriveKey(
+        { name: 'PBKDF2', salt: fromBase64(salt), iterations, hash: 'SHA-256' },
+        material,
+        { name: 'AES-GCM', length: 256 },
+        true,
+        ['encrypt', 'decrypt']
+    );
+};
+
+export const exportRawKey = async (key: CryptoKey): Promise<string> =>
+    toBase64(new Uint8Array(await crypto.subtle.exportKey('raw', key)));
+
+export const importRawKey = (raw: string): Promise<CryptoKey> =>
+    crypto.subtle.importKey('raw', fromBase64(raw), { name: 'AES-GCM' }, true, ['encrypt', 'decrypt']);
+
+export const encryptText = async (key: CryptoKey, plaintext: string): Promise<string> => {
+    const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+    const ciphertext = await crypto.subtle.encrypt(
+        { name: 'AES-GCM', iv },
+        key,
+        new TextEncoder().encode(plaintext)
+    );
+    return `${toBase64(iv)}.${toBase64(new Uint8Array(ciphertext))}`;
+};
+
+/**
+ * Throws when the payload was not encrypted with this key
+ */
+export const decryptText = async (key: CryptoKey, payload: string): Promise<string> => {
+    const [iv, ciphertext] = payload.split('.');
+    if (!iv || !ciphertext) {
+        throw new Error('Malformed encrypted value');
+    }
+
+    const plaintext = await crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: fromBase64(iv) },
+        key,
+        fromBase64(ciphertext)
+    );
+    return new TextDecoder().decode(plaintext);
+};
+
+export const createVaultConfig = async (passphrase: string): Promise<{ config: VaultConfig; key: CryptoKey }> => {
+    const salt = randomSalt();
+    const key = await deriveVaultKey(passphrase, salt, VAULT_KDF_ITERATIONS);
+    return {
+        config: {
+            salt,
+            iterations: VAULT_KDF_ITERATIONS,
+            verifier: await encryptText(key, VERIFIER_TEXT),
+            createdAt: Date.now()
+        },
+        key
+    };
+};
+
+/**
+ * The vault key for this passphrase, or null if the passphrase is wrong
+ */
+export const openVault = async (passphrase: string, config: VaultConfig): Promise<CryptoKey | null> => {
+    const key = await deriveVaultKey(passphrase, config.salt, config.iterations);
+    try {
+        return (await decryptText(key, config.verifier)) === VERIFIER_TEXT ? key : null;
+    } catch {
+        return null;
+    }
+};
@@ -0,0 +1,13 @@
+import { StrictMode } from "react";
+import { createRoot } from "react-dom/client";
+import StatsPage from "@/presentation/components/stats/StatsPage";
+import "@/styles/index.css";
+import { ThemeProvider } from "@/presentation/providers/theme-provider";
+
+createRoot(document.getElementById("stats-root")!).render(
+  <StrictMode>
+    <ThemeProvider defaultTheme="dark" storageKey="vite-ui-theme">
+      <StatsPage />
+    </ThemeProvider>
+  </StrictMode>
+);
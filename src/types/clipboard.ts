@@ -7,11 +7,44 @@ export interface ClipboardItem {
     title: string;
     timestamp: number;
     folderId?: string;
+    tags?: string[]; // Normalized labels across folders (see tags.ts)
+    order?: number; // Position among the folder's items once arranged by hand
     size: number;
     preview?: string;
     isFavorite?: boolean; // New favorite property
+    slot?: number; // Favorite slot (1-9), pasted by the paste_slot_N command
+    slotAssignedAt?: number; // When the slot was claimed, used to settle conflicts
+    abbreviation?: string; // Text expander trigger, e.g. ";sig"
+    source?: 'manual' | 'capture'; // 'capture' when recorded from a copy/cut in a page
+    sourceUrl?: string; // Page the content was copied from
+    sourceTitle?: string;
+    sensitive?: SensitiveKind[]; // Kinds of secrets found when the item was saved
+    expiresAt?: number; // Removed automatically after this time
+    pastesLeft?: number; // Removed automatically once pasted this many more times
+    expireAction?: 'trash' | 'wipe'; // What expiring does, 'wipe' when unset
+    revision?: number; // Bumped on every change, compared when syncing
+    deviceId?: string; // Device that made the latest revision
+    encrypted?: boolean; // Content holds vault ciphertext (see vault-crypto.ts)
 }
 
+// Same item edited on two devices since they last agreed
+export interface SyncConflict {
+    itemId: string;
+    local: ClipboardItem | null; // null when deleted on this device
+    remote: ClipboardItem | null; // null when deleted on the other device
+    remoteRevision: number;
+    detectedAt: number;
+}
+
+export type SensitiveKind =
+    | 'password'
+    | 'credit_card'
+    | 'iban'
+    | 'api_key'
+    | 'jwt'
+    | 'private_key'
+    | 'otp';
+
 export interface ClipboardFolder {
     id: string;
     name: string;
@@ -20,4 +53,50 @@ export interface ClipboardFolder {
     items: ClipboardItem[];
     createdAt: number;
     expanded: boolean;
-}
\ No newline at end of file
+    order?: number; // Position among its siblings once arranged by hand
+}
+
+// Saved search shown next to the folders; its items are whatever matches
+export interface SmartFolder {
+    id: string;
+    name: string;
+    query: string; // Search bar syntax, see search-query.ts
+    createdAt: number;
+    expanded: boolean;
+}
+
+// Folder something was in when it was deleted
+export interface TrashPathSegment {
+    id: string;
+    name: string;
+}
+
+/**
+ * Deleted item or folder, kept until the trash retention runs out. Items
+ * are kept in their stored form (encrypted in vault mode). A folder entry
+ * holds the folder with its subfolders and every item that was in them.
+ */
+export type TrashEntry = {
+    id: string;
+    deletedAt: number;
+    path: TrashPathSegment[]; // Top level first, empty for the top level
+} & (
+    | { kind: 'item'; item: ClipboardItem }
+    | { kind: 'folder'; folder: ClipboardFolder; items: ClipboardItem[] }
+);
+
+// Earlier version of an item, replaced by an edit or a rollback
+export interface ItemRevision {
+    id: string;
+    timestamp: number; // When this version was replaced
+    title: string;
+    content: string;
+    encrypted?: boolean; // Content holds vault ciphertext, like items
+}
+
+// Edit history of one item, newest revision first. Kept on this device
+// only (not synced), but part of full backups.
+export interface ItemRevisionHistory {
+    itemId: string;
+    revisions: ItemRevision[];
+}
@@ -10,6 +10,8 @@ export default defineConfig({
     rollupOptions: {
       input: {
         popup: resolve(__dirname, "popup.html"),
+        stats: resolve(__dirname, "stats.html"),
+        options: resolve(__dirname, "options.html"),
         serviceWorker: resolve(__dirname, "src/background/service-worker.ts"),
         content: resolve(__dirname, "src/content-scripts/content-main.ts"), // Add this
       },